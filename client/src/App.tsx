@@ -11,6 +11,10 @@ import Privacy from "./pages/Privacy";
 import Pricing from "./pages/Pricing";
 import Offer from "./pages/Offer";
 import About from "./pages/About";
+import Login from "./pages/Login";
+import AdminDuplicates from "./pages/AdminDuplicates";
+import AdminJobs from "./pages/AdminJobs";
+import Memory from "./pages/Memory";
 
 
 function Router() {
@@ -23,6 +27,10 @@ function Router() {
       <Route path={"/pricing"} component={Pricing} />
       <Route path={"/offer"} component={Offer} />
       <Route path={"/about"} component={About} />
+      <Route path={"/login"} component={Login} />
+      <Route path={"/memory"} component={Memory} />
+      <Route path={"/admin/duplicates"} component={AdminDuplicates} />
+      <Route path={"/admin/jobs"} component={AdminJobs} />
 
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { PRIVACY_VERSION, TERMS_VERSION } from "@shared/const";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+type AgeChoice = "adult" | "minor_with_parental_consent" | "under_13";
+
+interface ConsentDialogProps {
+  clientId: string | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAccepted: () => void;
+}
+
+/**
+ * Age check and Terms/Privacy acceptance - chat asks for it (consentRequired)
+ * before the first message, and again whenever the documents change
+ */
+export default function ConsentDialog({ clientId, open, onOpenChange, onAccepted }: ConsentDialogProps) {
+  const [age, setAge] = useState<AgeChoice | null>(null);
+  const [agreed, setAgreed] = useState(false);
+
+  const status = trpc.consent.status.useQuery(
+    { clientId: clientId ?? "" },
+    { enabled: open && Boolean(clientId) }
+  );
+
+  const accept = trpc.consent.accept.useMutation({
+    onSuccess: () => {
+      onAccepted();
+      onOpenChange(false);
+    },
+  });
+
+  const handleAccept = () => {
+    if (!clientId || !agreed || !age || age === "under_13") return;
+    accept.mutate({
+      clientId,
+      termsVersion: TERMS_VERSION,
+      privacyVersion: PRIVACY_VERSION,
+      ageAttestation: age,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{status.data?.needsReconsent ? "We've updated our terms" : "Before we talk"}</DialogTitle>
+          <DialogDescription>
+            Just Talk is for people 13 and older. If you're under 18, you need a parent's or guardian's permission.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={age ?? ""} onValueChange={(value) => setAge(value as AgeChoice)} className="gap-3">
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="adult" id="age-adult" />
+            <Label htmlFor="age-adult">I'm 18 or older</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="minor_with_parental_consent" id="age-minor" />
+            <Label htmlFor="age-minor">I'm 13 to 17 and have a parent's permission</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="under_13" id="age-under-13" />
+            <Label htmlFor="age-under-13">I'm under 13</Label>
+          </div>
+        </RadioGroup>
+
+        {age === "under_13" ? (
+          <p className="text-sm text-muted-foreground">
+            Sorry - Just Talk isn't for people under 13. Please talk to a parent, teacher or another adult you trust.
+            If you're in danger or thinking about hurting yourself, call or text 988, or call 911.
+          </p>
+        ) : (
+          <div className="flex items-start gap-2">
+            <Checkbox id="consent-agree" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+            <Label htmlFor="consent-agree" className="leading-snug font-normal">
+              <span>
+                I agree to the{" "}
+                <a href="/terms" target="_blank" rel="noreferrer" className="underline">Terms of Service</a>
+                {" "}and{" "}
+                <a href="/privacy" target="_blank" rel="noreferrer" className="underline">Privacy Policy</a>
+              </span>
+            </Label>
+          </div>
+        )}
+
+        {accept.error && <p className="text-sm text-destructive">{accept.error.message}</p>}
+
+        <DialogFooter>
+          <Button onClick={handleAccept} disabled={!clientId || !agreed || !age || age === "under_13" || accept.isPending}>
+            {accept.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
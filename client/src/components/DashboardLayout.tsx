@@ -21,15 +21,15 @@ import {
 } from "@/components/ui/sidebar";
 // No login needed - Just Talk is anonymous
 import { useIsMobile } from "@/hooks/useMobile";
-import { LayoutDashboard, LogOut, PanelLeft, Users } from "lucide-react";
+import { ListRestart, LogOut, PanelLeft, Users } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { DashboardLayoutSkeleton } from './DashboardLayoutSkeleton';
 import { Button } from "./ui/button";
 
 const menuItems = [
-  { icon: LayoutDashboard, label: "Page 1", path: "/" },
-  { icon: Users, label: "Page 2", path: "/some-path" },
+  { icon: Users, label: "Duplicate profiles", path: "/admin/duplicates" },
+  { icon: ListRestart, label: "Background jobs", path: "/admin/jobs" },
 ];
 
 const SIDEBAR_WIDTH_KEY = "sidebar-width";
@@ -70,12 +70,12 @@ export default function DashboardLayout({
           </div>
           <Button
             onClick={() => {
-              window.location.href = "/chat";
+              window.location.href = "/login";
             }}
             size="lg"
             className="w-full shadow-lg hover:shadow-xl transition-all"
           >
-            Start Chatting
+            Sign in
           </Button>
         </div>
       </div>
@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
 import { trpc } from "@/lib/trpc";
+import { clearClientIdentity, getStoredClientId, storeClientIdentity } from "@/lib/clientIdentity";
 import { Button } from "@/components/ui/button";
+import ConsentDialog from "@/components/ConsentDialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Heart, Send, Loader2, MessageCircle, X } from "lucide-react";
 
@@ -121,11 +123,14 @@ export default function EmbeddedChat({
     }
   }, [isExpanded]);
 
+  // A message held back until the Terms are accepted, resent afterwards
+  const [awaitingConsent, setAwaitingConsent] = useState<{ message: string; clientId: string; mood?: string } | null>(null);
+
   // Send message mutation
   const sendMutation = trpc.chat.sendMessage.useMutation({
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       if (data.clientId) {
-        localStorage.setItem('just-talk-client-id', data.clientId);
+        storeClientIdentity(data.clientId, data.accessToken);
       }
       
       const responseText = typeof data.response === 'string' ? data.response : '';
@@ -136,9 +141,17 @@ export default function EmbeddedChat({
       }]);
       setMessage("");
       setSelectedMood(undefined);
+
+      if (data.consentRequired) {
+        setAwaitingConsent({ message: variables.message, clientId: data.clientId, mood: variables.mood });
+      }
     },
     onError: (error) => {
       console.error('[EmbeddedChat] API Error:', error);
+      // Stored profile without a valid access token - the next message starts a fresh one
+      if (error.data?.code === "FORBIDDEN") {
+        clearClientIdentity();
+      }
       setMessages(prev => [...prev, {
         role: "assistant",
         content: "I'm having trouble connecting right now. Please try again in a moment.",
@@ -185,7 +198,7 @@ export default function EmbeddedChat({
       return;
     }
     
-    const clientId = localStorage.getItem('just-talk-client-id') || undefined;
+    const clientId = getStoredClientId();
     sendMutation.mutate({
       message,
       clientId,
@@ -395,6 +408,13 @@ export default function EmbeddedChat({
         </div>,
         document.body
       )}
+
+      <ConsentDialog
+        clientId={awaitingConsent?.clientId}
+        open={awaitingConsent !== null}
+        onOpenChange={(open) => !open && setAwaitingConsent(null)}
+        onAccepted={() => awaitingConsent && sendMutation.mutate({ ...awaitingConsent, browserFingerprint })}
+      />
     </>
   );
 }
@@ -0,0 +1,25 @@
+/**
+ * This browser's client profile: its id plus the access token the server
+ * issued for it. Both are needed - the id alone grants nothing.
+ */
+
+const CLIENT_ID_KEY = "just-talk-client-id";
+const CLIENT_TOKEN_KEY = "just-talk-client-token";
+
+export function getStoredClientId(): string | undefined {
+  return localStorage.getItem(CLIENT_ID_KEY) || undefined;
+}
+
+export function getStoredClientToken(): string | undefined {
+  return localStorage.getItem(CLIENT_TOKEN_KEY) || undefined;
+}
+
+export function storeClientIdentity(clientId: string, accessToken: string) {
+  localStorage.setItem(CLIENT_ID_KEY, clientId);
+  localStorage.setItem(CLIENT_TOKEN_KEY, accessToken);
+}
+
+export function clearClientIdentity() {
+  localStorage.removeItem(CLIENT_ID_KEY);
+  localStorage.removeItem(CLIENT_TOKEN_KEY);
+}
@@ -1,8 +1,10 @@
 import { trpc } from "@/lib/trpc";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink } from "@trpc/client";
+import { httpBatchLink, httpBatchStreamLink, splitLink } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
+import { CLIENT_TOKEN_HEADER } from "@shared/const";
+import { getStoredClientToken } from "@/lib/clientIdentity";
 import App from "./App";
 import "./index.css";
 
@@ -23,17 +25,34 @@ queryClient.getMutationCache().subscribe(event => {
   }
 });
 
+const clientTokenHeaders = () => {
+  const clientToken = getStoredClientToken();
+  return clientToken ? { [CLIENT_TOKEN_HEADER]: clientToken } : {};
+};
+
+const fetchWithCredentials: typeof globalThis.fetch = (input, init) =>
+  globalThis.fetch(input, {
+    ...(init ?? {}),
+    credentials: "include",
+  });
+
 const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: "/api/trpc",
-      transformer: superjson,
-      fetch(input, init) {
-        return globalThis.fetch(input, {
-          ...(init ?? {}),
-          credentials: "include",
-        });
-      },
+    // Streamed chat replies come back as a streamed POST response
+    splitLink({
+      condition: op => op.path === "chat.streamMessage",
+      true: httpBatchStreamLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        headers: clientTokenHeaders,
+        fetch: fetchWithCredentials,
+      }),
+      false: httpBatchLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        headers: clientTokenHeaders,
+        fetch: fetchWithCredentials,
+      }),
     }),
   ],
 });
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, GitMerge, Loader2, Undo2 } from "lucide-react";
+
+const SIGNAL_LABELS: Record<string, string> = {
+  stripe_customer: "Stripe customer",
+  phone: "Phone",
+  email: "Email",
+  name_and_relationships: "Name + relationships",
+};
+
+/**
+ * Admin: find duplicate client profiles, compare them and merge (or undo)
+ */
+export default function AdminDuplicates() {
+  const { toast } = useToast();
+  const [selectedPair, setSelectedPair] = useState<[string, string] | null>(null);
+  const [keepId, setKeepId] = useState<string | undefined>();
+
+  const duplicates = trpc.duplicateProfiles.find.useQuery();
+  const history = trpc.duplicateProfiles.history.useQuery();
+  const comparison = trpc.duplicateProfiles.compare.useQuery(
+    { profileIds: selectedPair ?? ["", ""], keepId },
+    { enabled: selectedPair !== null }
+  );
+
+  const merge = trpc.duplicateProfiles.merge.useMutation({
+    onSuccess: () => {
+      toast({ title: "Profiles merged", description: "History and memory now live on the kept profile." });
+      setSelectedPair(null);
+      setKeepId(undefined);
+      duplicates.refetch();
+      history.refetch();
+    },
+    onError: (error) => toast({ title: "Merge failed", description: error.message, variant: "destructive" }),
+  });
+
+  const undo = trpc.duplicateProfiles.undo.useMutation({
+    onSuccess: () => {
+      toast({ title: "Merge undone", description: "The merged profile has been restored." });
+      duplicates.refetch();
+      history.refetch();
+    },
+    onError: (error) => toast({ title: "Undo failed", description: error.message, variant: "destructive" }),
+  });
+
+  if (duplicates.error) {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">{duplicates.error.message}</p>
+      </DashboardLayout>
+    );
+  }
+
+  const compared = comparison.data;
+  const mergeId = compared?.profiles.find(p => p.id !== compared.keepId)?.id;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-6xl">
+        <div>
+          <h1 className="text-2xl font-semibold">Duplicate profiles</h1>
+          <p className="text-muted-foreground">
+            Profiles that probably belong to the same person. Merging joins Sage's memory of them.
+          </p>
+        </div>
+
+        {selectedPair ? (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Compare</CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => { setSelectedPair(null); setKeepId(undefined); }}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to list
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {!compared ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {compared.profiles.map(profile => (
+                      <div
+                        key={profile.id}
+                        className={`rounded-lg border p-4 space-y-2 ${profile.id === compared.keepId ? "border-primary" : ""}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-mono text-xs">{profile.id}</span>
+                          {profile.id === compared.keepId ? (
+                            <Badge>Keep</Badge>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => setKeepId(profile.id)}>
+                              Keep this one
+                            </Button>
+                          )}
+                        </div>
+                        <dl className="grid grid-cols-3 gap-1 text-sm">
+                          <dt className="text-muted-foreground">Name</dt>
+                          <dd className="col-span-2">{profile.preferredName || "-"}</dd>
+                          <dt className="text-muted-foreground">Phone</dt>
+                          <dd className="col-span-2">{profile.phoneNumber || "-"}</dd>
+                          <dt className="text-muted-foreground">Email</dt>
+                          <dd className="col-span-2">{profile.email || "-"}</dd>
+                          <dt className="text-muted-foreground">Account</dt>
+                          <dd className="col-span-2">{profile.userId || "-"}</dd>
+                          <dt className="text-muted-foreground">Stripe</dt>
+                          <dd className="col-span-2">{profile.stripeCustomerId || "-"}</dd>
+                          <dt className="text-muted-foreground">Plan</dt>
+                          <dd className="col-span-2">{profile.subscriptionTier}</dd>
+                          <dt className="text-muted-foreground">Crisis risk</dt>
+                          <dd className="col-span-2">{profile.crisisRiskLevel}</dd>
+                          <dt className="text-muted-foreground">First contact</dt>
+                          <dd className="col-span-2">{new Date(profile.firstContactDate).toLocaleString()}</dd>
+                          <dt className="text-muted-foreground">Last contact</dt>
+                          <dd className="col-span-2">{new Date(profile.lastContactDate).toLocaleString()}</dd>
+                          <dt className="text-muted-foreground">Activity</dt>
+                          <dd className="col-span-2">
+                            {profile.counts.conversations} conversations, {profile.counts.messages} messages
+                          </dd>
+                        </dl>
+                        {profile.relationships.length > 0 && (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground">People: </span>
+                            {profile.relationships.map(r => `${r.name} (${r.relationship})`).join(", ")}
+                          </p>
+                        )}
+                        {profile.keyInsights.length > 0 && (
+                          <ul className="text-sm list-disc pl-5">
+                            {profile.keyInsights.slice(0, 5).map(insight => <li key={insight}>{insight}</li>)}
+                          </ul>
+                        )}
+                        {profile.aiSummary && <p className="text-sm text-muted-foreground">{profile.aiSummary}</p>}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    <h3 className="font-medium mb-2">Changes to the kept profile</h3>
+                    {Object.keys(compared.fieldChanges).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No field changes - only history moves.</p>
+                    ) : (
+                      <ul className="text-sm space-y-1">
+                        {Object.entries(compared.fieldChanges).map(([field, value]) => (
+                          <li key={field}>
+                            <span className="font-mono">{field}</span>: {typeof value === "object" ? JSON.stringify(value) : String(value)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {compared.accountConflict ? (
+                    <p className="text-sm text-destructive">
+                      These profiles belong to different login accounts and can't be merged.
+                    </p>
+                  ) : (
+                    <Button
+                      disabled={merge.isPending || !mergeId}
+                      onClick={() => mergeId && merge.mutate({ keepId: compared.keepId, mergeId })}
+                    >
+                      {merge.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitMerge className="w-4 h-4 mr-2" />}
+                      Merge into kept profile
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Likely duplicates</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {duplicates.isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : duplicates.data?.length === 0 ? (
+                <p className="text-muted-foreground">No likely duplicates found.</p>
+              ) : (
+                <div className="divide-y">
+                  {duplicates.data?.map(pair => (
+                    <div key={pair.profileIds.join("|")} className="py-3 flex items-center gap-4">
+                      <div className="w-12 text-sm font-medium">{Math.round(pair.score * 100)}%</div>
+                      <div className="flex-1 grid md:grid-cols-2 gap-2 text-sm">
+                        {pair.profiles.map((profile, index) => (
+                          <div key={pair.profileIds[index]}>
+                            <div>{profile?.preferredName || "Unnamed"}</div>
+                            <div className="text-muted-foreground">
+                              {[profile?.phoneNumber, profile?.email].filter(Boolean).join(" · ") || pair.profileIds[index]}
+                              {" · "}{profile?.totalMessages ?? 0} messages
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-1 w-48">
+                        {pair.signals.map(signal => (
+                          <Badge key={signal.signal} variant="secondary" title={signal.detail}>
+                            {SIGNAL_LABELS[signal.signal] ?? signal.signal}
+                          </Badge>
+                        ))}
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedPair(pair.profileIds)}>
+                        Compare
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent merges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.data?.length === 0 ? (
+              <p className="text-muted-foreground">No merges yet.</p>
+            ) : (
+              <div className="divide-y text-sm">
+                {history.data?.map(record => (
+                  <div key={record.id} className="py-2 flex items-center gap-4">
+                    <div className="flex-1">
+                      <span className="font-mono text-xs">{record.mergedProfileId}</span>
+                      {" → "}
+                      <span className="font-mono text-xs">{record.keptProfileId}</span>
+                    </div>
+                    <Badge variant="outline">{record.reason}</Badge>
+                    <div className="text-muted-foreground w-44">{new Date(record.createdAt).toLocaleString()}</div>
+                    {record.undoneAt ? (
+                      <span className="text-muted-foreground w-20">Undone</span>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-20"
+                        disabled={undo.isPending}
+                        onClick={() => undo.mutate({ mergeRecordId: record.id })}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Undo
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
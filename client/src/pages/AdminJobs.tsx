@@ -0,0 +1,139 @@
+import { trpc } from "@/lib/trpc";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+const JOB_LABELS: Record<string, string> = {
+  post_interaction_update: "Profile update",
+  profile_enrichment: "Profile enrichment",
+  crisis_alert: "Crisis alert",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Waiting",
+  running: "Running",
+  completed: "Completed (last 7 days)",
+  dead: "Dead",
+};
+
+/**
+ * Admin: background job queue health, and retrying or discarding dead jobs
+ */
+export default function AdminJobs() {
+  const { toast } = useToast();
+
+  const status = trpc.backgroundJobs.status.useQuery();
+
+  const retry = trpc.backgroundJobs.retry.useMutation({
+    onSuccess: () => {
+      toast({ title: "Job queued", description: "It will run again with a fresh set of attempts." });
+      status.refetch();
+    },
+    onError: (error) => toast({ title: "Retry failed", description: error.message, variant: "destructive" }),
+  });
+
+  const discard = trpc.backgroundJobs.discard.useMutation({
+    onSuccess: () => {
+      toast({ title: "Job discarded", description: "It won't be retried." });
+      status.refetch();
+    },
+    onError: (error) => toast({ title: "Discard failed", description: error.message, variant: "destructive" }),
+  });
+
+  if (status.error) {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">{status.error.message}</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-6xl">
+        <div>
+          <h1 className="text-2xl font-semibold">Background jobs</h1>
+          <p className="text-muted-foreground">
+            Profile updates and crisis alerts run here. A job that fails every attempt is dead until you retry or discard it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {Object.entries(STATUS_LABELS).map(([key, label]) => (
+            <Card key={key}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-semibold">
+                  {status.data?.counts[key as keyof typeof status.data.counts] ?? "-"}
+                </div>
+                <div className="text-sm text-muted-foreground">{label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Failing and dead jobs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {status.isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : status.data?.failed.length === 0 ? (
+              <p className="text-muted-foreground">No failed jobs.</p>
+            ) : (
+              <div className="divide-y text-sm">
+                {status.data?.failed.map(job => (
+                  <div key={job.id} className="py-3 flex items-center gap-4">
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{JOB_LABELS[job.type] ?? job.type}</span>
+                        <Badge variant={job.status === "dead" ? "destructive" : "secondary"}>
+                          {job.status === "dead" ? "Dead" : "Retrying"}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          {job.attempts}/{job.maxAttempts} attempts
+                        </span>
+                      </div>
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {job.id}{job.clientProfileId && ` · ${job.clientProfileId}`}
+                      </div>
+                      {job.lastError && <div className="text-destructive break-all">{job.lastError}</div>}
+                    </div>
+                    <div className="text-muted-foreground w-44">
+                      {job.status === "dead" ? "Failed" : "Next try"} {new Date(job.status === "dead" ? job.updatedAt : job.runAt).toLocaleString()}
+                    </div>
+                    {job.status === "dead" && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={retry.isPending}
+                          onClick={() => retry.mutate({ jobId: job.id })}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Retry
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={discard.isPending}
+                          onClick={() => discard.mutate({ jobId: job.id })}
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Discard
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
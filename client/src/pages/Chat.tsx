@@ -1,9 +1,14 @@
 import { useState, useEffect, useRef } from "react";
 import { trpc } from "@/lib/trpc";
+import { TRPCClientError } from "@trpc/client";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Heart, Send, Loader2, Mic, Volume2 } from "lucide-react";
+import { Heart, Send, Loader2, Mic, Volume2, LogIn, LogOut } from "lucide-react";
+import { Link } from "wouter";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { clearClientIdentity, getStoredClientId, storeClientIdentity } from "@/lib/clientIdentity";
 import { Streamdown } from "streamdown";
+import ConsentDialog from "@/components/ConsentDialog";
 
 const MOOD_OPTIONS = [
   { emoji: "😊", label: "Happy", value: "happy" },
@@ -21,6 +26,7 @@ type Message = {
 };
 
 export default function Chat() {
+  const { isAuthenticated, logout } = useAuth();
   const [message, setMessage] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [selectedMood, setSelectedMood] = useState<string | undefined>();
@@ -215,35 +221,95 @@ export default function Chat() {
     }
   };
 
-  // Send message mutation
-  const sendMutation = trpc.chat.sendMessage.useMutation({
-    onSuccess: (data) => {
-      // Store client ID in localStorage for future requests
-      if (data.clientId) {
-        localStorage.setItem('just-talk-client-id', data.clientId);
-      }
-      
-      // Update trial messages remaining
-      if (typeof data.trialMessagesRemaining === 'number') {
-        setTrialMessagesRemaining(data.trialMessagesRemaining);
+  // Send message - the AI response streams in token by token
+  const { mutateAsync: streamMessage } = trpc.chat.streamMessage.useMutation();
+  const [pendingReply, setPendingReply] = useState<{
+    input: { message: string; clientId?: string; mood?: string };
+    timestamp: number;
+  } | null>(null);
+  const isSending = pendingReply !== null;
+
+  // A message held back until the Terms are accepted, resent afterwards
+  const [awaitingConsent, setAwaitingConsent] = useState<{ message: string; clientId: string; mood?: string } | null>(null);
+
+  // Insert or update the assistant message being streamed (keyed by its timestamp)
+  const upsertStreamingReply = (timestamp: number, update: (content: string) => string) => {
+    setMessages(prev => {
+      const exists = prev.some(m => m.role === "assistant" && m.timestamp === timestamp);
+      if (!exists) {
+        return [...prev, { role: "assistant", content: update(""), timestamp }];
       }
-      
-      // Add AI response to messages
-      const responseText = typeof data.response === 'string' ? data.response : '';
-      setMessages(prev => [...prev, {
-        role: "assistant",
-        content: responseText,
-        timestamp: Date.now()
-      }]);
-      setMessage("");
-      setSelectedMood(undefined);
-      
-      // Speak the response (only if not recording)
-      if (!isRecording) {
-        speak(responseText);
+      return prev.map(m =>
+        m.role === "assistant" && m.timestamp === timestamp
+          ? { ...m, content: update(m.content) }
+          : m
+      );
+    });
+  };
+
+  // Stream the reply to the pending message. Leaving stops listening - the
+  // server still finishes and stores the reply, so it shows up in history.
+  useEffect(() => {
+    if (!pendingReply) return;
+    const { input, timestamp: replyTimestamp } = pendingReply;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const events = await streamMessage(input);
+
+        for await (const event of events) {
+          if (cancelled) return;
+
+          if (event.type === "delta") {
+            upsertStreamingReply(replyTimestamp, content => content + event.text);
+            continue;
+          }
+
+          // Store client ID and its access token for future requests
+          if (event.clientId) {
+            storeClientIdentity(event.clientId, event.accessToken);
+          }
+          
+          // Update trial messages remaining
+          if (typeof event.trialMessagesRemaining === 'number') {
+            setTrialMessagesRemaining(event.trialMessagesRemaining);
+          }
+          
+          // The final response is authoritative (guardrails may have replaced the stream)
+          const responseText = typeof event.response === 'string' ? event.response : '';
+          upsertStreamingReply(replyTimestamp, () => responseText);
+          setMessage("");
+          setSelectedMood(undefined);
+          setPendingReply(null);
+
+          if (event.consentRequired) {
+            setAwaitingConsent({ ...input, clientId: event.clientId });
+            return;
+          }
+          
+          // Speak the response (only if not recording)
+          if (!isRecording) {
+            speak(responseText);
+          }
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error("[API Stream Error]", error);
+
+        // Stored profile from before access tokens (or a revoked one) - start a fresh profile
+        if (error instanceof TRPCClientError && error.data?.code === "FORBIDDEN" && input.clientId) {
+          clearClientIdentity();
+          setPendingReply({ input: { ...input, clientId: undefined }, timestamp: replyTimestamp });
+          return;
+        }
+
+        setPendingReply(null);
       }
-    },
-  });
+    })();
+
+    return () => { cancelled = true; };
+  }, [pendingReply]);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -251,7 +317,7 @@ export default function Chat() {
   }, [messages]);
 
   const handleSend = () => {
-    if (!message.trim() || sendMutation.isPending) return;
+    if (!message.trim() || isSending) return;
 
     // Add user message to local state
     const userMessage: Message = {
@@ -281,16 +347,32 @@ export default function Chat() {
     }
     
     // Get client ID from localStorage (or undefined for new clients)
-    const clientId = localStorage.getItem('just-talk-client-id') || undefined;
+    const clientId = getStoredClientId();
 
     // Send to AI with ProfileGuard
-    sendMutation.mutate({
-      message,
-      clientId,
-      mood: selectedMood,
+    setPendingReply({
+      input: {
+        message,
+        clientId,
+        mood: selectedMood,
+      },
+      timestamp: Date.now(),
     });
   };
 
+  const resendAfterConsent = () => {
+    if (!awaitingConsent) return;
+    setPendingReply({ input: awaitingConsent, timestamp: Date.now() });
+    setAwaitingConsent(null);
+  };
+
+  // Forget this device's profile too, so the next person here starts fresh
+  const handleSignOut = async () => {
+    await logout();
+    clearClientIdentity();
+    window.location.href = "/";
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -310,6 +392,21 @@ export default function Chat() {
             <h1 className="font-bold text-lg">Just Talk</h1>
             <p className="text-sm text-muted-foreground">24/7 Emotional Support</p>
           </div>
+          <div className="ml-auto">
+            {isAuthenticated ? (
+              <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </Button>
+            ) : (
+              <Link href="/login">
+                <Button variant="ghost" size="sm">
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Sign in
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
       </header>
 
@@ -375,7 +472,7 @@ export default function Chat() {
             </div>
           ))}
 
-          {sendMutation.isPending && (
+          {isSending && messages[messages.length - 1]?.role === "user" && (
             <div className="flex justify-start">
               <div className="bg-white dark:bg-purple-900/50 border border-purple-200 dark:border-purple-800 rounded-2xl px-4 py-3">
                 <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
@@ -419,7 +516,7 @@ export default function Chat() {
                 onKeyDown={handleKeyDown}
                 placeholder="Share what's on your mind..."
                 className="min-h-[60px] resize-none"
-                disabled={sendMutation.isPending || isRecording}
+                disabled={isSending || isRecording}
               />
               <div className="flex flex-col gap-2">
                 {isRecording && (
@@ -435,7 +532,7 @@ export default function Chat() {
                 <div className="flex gap-2">
                   <Button
                     onClick={isRecording ? stopRecording : startRecording}
-                    disabled={sendMutation.isPending || isProcessing}
+                    disabled={isSending || isProcessing}
                     className={isRecording ? "bg-red-500 hover:bg-red-600" : "bg-purple-500 hover:bg-purple-600"}
                     size="icon"
                     title={isRecording ? "Stop recording (or wait 3 sec)" : "Start voice input"}
@@ -444,12 +541,12 @@ export default function Chat() {
                   </Button>
                   <Button
                   onClick={handleSend}
-                  disabled={!message.trim() || sendMutation.isPending}
+                  disabled={!message.trim() || isSending}
                   className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
                   size="icon"
                   data-auto-send
                 >
-                  {sendMutation.isPending ? (
+                  {isSending ? (
                     <Loader2 className="w-5 h-5 animate-spin" />
                   ) : (
                     <Send className="w-5 h-5" />
@@ -461,6 +558,13 @@ export default function Chat() {
           </div>
         </div>
       </div>
+
+      <ConsentDialog
+        clientId={awaitingConsent?.clientId}
+        open={awaitingConsent !== null}
+        onOpenChange={(open) => !open && setAwaitingConsent(null)}
+        onAccepted={resendAfterConsent}
+      />
     </div>
   );
 }
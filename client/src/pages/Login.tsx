@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { getStoredClientId, storeClientIdentity } from "@/lib/clientIdentity";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ArrowLeft, Heart, Loader2, Mail, MessageSquare } from "lucide-react";
+
+type Method = "email" | "sms";
+
+/**
+ * Passwordless sign-in: email magic link or SMS code.
+ * Signing in keeps your conversations with Sage on every device.
+ */
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const { refresh } = useAuth();
+  const [method, setMethod] = useState<Method>("email");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const verifyingLink = useRef(false);
+
+  const clientId = getStoredClientId();
+
+  const onSignedIn = async (result: { clientId: string; accessToken: string }) => {
+    storeClientIdentity(result.clientId, result.accessToken);
+    await refresh();
+    setLocation("/chat");
+  };
+
+  const requestEmailLink = trpc.auth.requestEmailLink.useMutation({
+    onSuccess: () => setSent(true),
+    onError: (err) => setError(err.message),
+  });
+  const verifyEmailLink = trpc.auth.verifyEmailLink.useMutation({
+    onSuccess: onSignedIn,
+    onError: (err) => setError(err.message),
+  });
+  const requestSmsCode = trpc.auth.requestSmsCode.useMutation({
+    onSuccess: () => setSent(true),
+    onError: (err) => setError(err.message),
+  });
+  const verifySmsCode = trpc.auth.verifySmsCode.useMutation({
+    onSuccess: onSignedIn,
+    onError: (err) => setError(err.message),
+  });
+
+  // Arriving from a magic link
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (token && !verifyingLink.current) {
+      verifyingLink.current = true;
+      verifyEmailLink.mutate({ token, clientId });
+    }
+  }, []);
+
+  const switchMethod = (next: Method) => {
+    setMethod(next);
+    setSent(false);
+    setCode("");
+    setError(null);
+  };
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (method === "email") {
+      requestEmailLink.mutate({ email });
+    } else {
+      requestSmsCode.mutate({ phone });
+    }
+  };
+
+  const handleVerifyCode = (value: string) => {
+    setCode(value);
+    if (value.length === 6) {
+      setError(null);
+      verifySmsCode.mutate({ phone, code: value, clientId });
+    }
+  };
+
+  const isRequesting = requestEmailLink.isPending || requestSmsCode.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-pink-900 py-12">
+      <div className="container mx-auto px-4 max-w-md">
+        <Link href="/chat">
+          <Button variant="ghost" className="text-white hover:bg-white/10 mb-8">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Chat
+          </Button>
+        </Link>
+
+        <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-8 text-white">
+          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center mb-4">
+            <Heart className="w-6 h-6 text-white fill-white" />
+          </div>
+          <h1 className="text-3xl font-bold mb-2">Sign in</h1>
+          <p className="text-purple-200 mb-6">
+            Keep your conversations with Sage on every device. No password needed.
+          </p>
+
+          {verifyEmailLink.isPending ? (
+            <div className="flex items-center gap-3 text-purple-100">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Signing you in...
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2 mb-6">
+                <Button
+                  variant={method === "email" ? "secondary" : "ghost"}
+                  className={method === "email" ? "" : "text-white hover:bg-white/10"}
+                  onClick={() => switchMethod("email")}
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  Email
+                </Button>
+                <Button
+                  variant={method === "sms" ? "secondary" : "ghost"}
+                  className={method === "sms" ? "" : "text-white hover:bg-white/10"}
+                  onClick={() => switchMethod("sms")}
+                >
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Text message
+                </Button>
+              </div>
+
+              {!sent ? (
+                <form onSubmit={handleRequest} className="space-y-4">
+                  {method === "email" ? (
+                    <Input
+                      type="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="bg-white/90 text-gray-900"
+                      required
+                    />
+                  ) : (
+                    <Input
+                      type="tel"
+                      placeholder="(555) 123-4567"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      className="bg-white/90 text-gray-900"
+                      required
+                    />
+                  )}
+                  <Button type="submit" className="w-full" disabled={isRequesting}>
+                    {isRequesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {method === "email" ? "Email me a sign-in link" : "Text me a code"}
+                  </Button>
+                </form>
+              ) : method === "email" ? (
+                <p className="text-purple-100">
+                  Check your inbox - we sent a sign-in link to <strong>{email}</strong>. It expires in 15 minutes.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-purple-100">Enter the 6-digit code we texted to {phone}.</p>
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={handleVerifyCode}
+                    disabled={verifySmsCode.isPending}
+                  >
+                    <InputOTPGroup className="bg-white/90 text-gray-900 rounded-md">
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                  {verifySmsCode.isPending && (
+                    <div className="flex items-center gap-2 text-purple-200 text-sm">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Checking...
+                    </div>
+                  )}
+                  <Button variant="ghost" className="text-white hover:bg-white/10 px-0" onClick={() => switchMethod("sms")}>
+                    Use a different number
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-pink-200 mt-4">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { clearClientIdentity, getStoredClientId } from "@/lib/clientIdentity";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Brain, Loader2, Trash2 } from "lucide-react";
+
+type ForgetSelection = {
+  relationshipIds?: string[];
+  insightIds?: string[];
+  conversationIds?: string[];
+  topics?: string[];
+};
+
+/**
+ * What Sage remembers about you - forget parts of it, or delete everything
+ */
+export default function Memory() {
+  const [, setLocation] = useLocation();
+  const { refresh } = useAuth();
+  const [topic, setTopic] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const clientId = getStoredClientId();
+
+  const memories = trpc.erasure.memories.useQuery(
+    { clientId: clientId ?? "" },
+    { enabled: Boolean(clientId) }
+  );
+
+  const forget = trpc.erasure.forget.useMutation({
+    onSuccess: () => {
+      setNotice("Done - Sage won't bring that up again.");
+      setTopic("");
+      memories.refetch();
+    },
+    onError: (err) => setNotice(err.message),
+  });
+
+  const deleteAccount = trpc.erasure.deleteAccount.useMutation({
+    onSuccess: async () => {
+      clearClientIdentity();
+      await refresh();
+      setLocation("/");
+    },
+    onError: (err) => setNotice(err.message),
+  });
+
+  const forgetItems = (selection: ForgetSelection) => {
+    if (!clientId) return;
+    setNotice(null);
+    forget.mutate({ clientId, ...selection });
+  };
+
+  const forgetTopic = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (topic.trim()) forgetItems({ topics: [topic.trim()] });
+  };
+
+  const forgetButton = (selection: ForgetSelection) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="text-purple-200 hover:text-white hover:bg-white/10 shrink-0"
+      disabled={forget.isPending}
+      onClick={() => forgetItems(selection)}
+    >
+      Forget
+    </Button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-pink-900 py-12">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <Link href="/chat">
+          <Button variant="ghost" className="text-white hover:bg-white/10 mb-8">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Chat
+          </Button>
+        </Link>
+
+        <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-8 text-white space-y-8">
+          <div>
+            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center mb-4">
+              <Brain className="w-6 h-6 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold mb-2">What Sage remembers</h1>
+            <p className="text-purple-200">
+              Anything you forget here is removed for good, including from Sage's notes about you.
+            </p>
+          </div>
+
+          {!clientId ? (
+            <p className="text-purple-100">You haven't talked with Sage yet, so there's nothing to remember.</p>
+          ) : memories.isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : memories.error ? (
+            <p className="text-pink-200">{memories.error.message}</p>
+          ) : (
+            <>
+              <form onSubmit={forgetTopic} className="space-y-2">
+                <h2 className="text-xl font-semibold">Forget a topic</h2>
+                <p className="text-sm text-purple-200">A name or subject, like "my ex" - everything mentioning it goes.</p>
+                <div className="flex gap-2">
+                  <Input
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    placeholder="What should Sage forget?"
+                    className="bg-white/90 text-gray-900"
+                    maxLength={100}
+                  />
+                  <Button type="submit" disabled={forget.isPending || topic.trim().length < 2}>
+                    {forget.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Forget
+                  </Button>
+                </div>
+              </form>
+
+              {notice && <p className="text-purple-100">{notice}</p>}
+
+              <section className="space-y-2">
+                <h2 className="text-xl font-semibold">People</h2>
+                {memories.data?.relationships.length === 0 && <p className="text-sm text-purple-200">No one yet.</p>}
+                {memories.data?.relationships.map(person => (
+                  <div key={person.id} className="flex items-center justify-between gap-4">
+                    <span>{person.name} <span className="text-purple-200">({person.relationship})</span></span>
+                    {forgetButton({ relationshipIds: [person.id] })}
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-2">
+                <h2 className="text-xl font-semibold">Things Sage has learned</h2>
+                {memories.data?.insights.length === 0 && <p className="text-sm text-purple-200">Nothing yet.</p>}
+                {memories.data?.insights.map(insight => (
+                  <div key={insight.id} className="flex items-center justify-between gap-4">
+                    <span>{insight.insight}</span>
+                    {forgetButton({ insightIds: [insight.id] })}
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-2">
+                <h2 className="text-xl font-semibold">Conversations</h2>
+                {memories.data?.conversations.length === 0 && <p className="text-sm text-purple-200">None yet.</p>}
+                {memories.data?.conversations.map(conv => (
+                  <div key={conv.id} className="flex items-center justify-between gap-4">
+                    <span>
+                      {new Date(conv.createdAt).toLocaleDateString()} · {conv.topic || `${conv.messageCount} messages`}
+                      <span className="text-purple-200"> ({conv.channel})</span>
+                    </span>
+                    {forgetButton({ conversationIds: [conv.id] })}
+                  </div>
+                ))}
+              </section>
+
+              <section className="border-t border-white/20 pt-6 space-y-2">
+                <h2 className="text-xl font-semibold">Delete my account</h2>
+                <p className="text-sm text-purple-200">
+                  Deletes your profile, every conversation and everything Sage knows about you, and cancels any
+                  subscription. We only keep the billing records the law requires.
+                </p>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={deleteAccount.isPending}>
+                      {deleteAccount.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                      Delete everything
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This can't be undone. Sage will forget you completely, and any subscription ends now.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep my account</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => clientId && deleteAccount.mutate({ clientId, confirm: true })}>
+                        Delete everything
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,53 @@
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { getStoredClientId } from "@/lib/clientIdentity";
+
+function downloadFile(file: { filename: string; contentType: string; content: string }) {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Self-service export of everything tied to this browser's profile
+ */
+function DownloadMyData() {
+  const clientId = getStoredClientId();
+  const exportData = trpc.dataExport.mine.useMutation({
+    onSuccess: result => result.files.forEach(downloadFile),
+  });
+
+  if (!clientId) {
+    return (
+      <p className="mt-4 text-purple-200">
+        Once you've talked with Sage, you can download your data from this page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <Button
+        onClick={() => exportData.mutate({ clientId })}
+        disabled={exportData.isPending}
+        className="bg-white text-purple-900 hover:bg-purple-100"
+      >
+        {exportData.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+        Download my data
+      </Button>
+      <p className="mt-2 text-sm text-purple-200">
+        {exportData.error
+          ? "We couldn't prepare your export. Please try again or email us."
+          : "You'll get a JSON archive of everything we store plus a readable transcript of your conversations."}
+      </p>
+    </div>
+  );
+}
 
 export default function Privacy() {
   return (
@@ -133,8 +180,11 @@ export default function Privacy() {
                 <li>Request deletion of your data</li>
                 <li>Export your conversation history</li>
               </ul>
+              <DownloadMyData />
               <p className="mt-4">
-                Email support@just-talk.com to exercise these rights.
+                To have Sage forget something, or to delete your account, go to{" "}
+                <Link href="/memory" className="underline text-white">What Sage remembers</Link>.
+                Email support@just-talk.com to exercise any of the others.
               </p>
             </section>
 
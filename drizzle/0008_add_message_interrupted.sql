@@ -0,0 +1,4 @@
+-- Migration: Voice barge-in tracking
+-- Marks assistant messages the caller interrupted; content is trimmed to what was actually spoken
+
+ALTER TABLE "message" ADD COLUMN IF NOT EXISTS "interrupted" boolean NOT NULL DEFAULT false;
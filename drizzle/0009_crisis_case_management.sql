@@ -0,0 +1,37 @@
+-- Migration: Crisis Case Management
+-- Turns crisis_log rows into reviewable cases with a full audit trail
+
+-- ============================================================================
+-- CASE STATUS ON crisis_log
+-- ============================================================================
+
+ALTER TABLE "crisis_log" ADD COLUMN IF NOT EXISTS "status" varchar(50) NOT NULL DEFAULT 'open';
+ALTER TABLE "crisis_log" ADD COLUMN IF NOT EXISTS "acknowledged_by" varchar(255);
+ALTER TABLE "crisis_log" ADD COLUMN IF NOT EXISTS "acknowledged_at" timestamp;
+ALTER TABLE "crisis_log" ADD COLUMN IF NOT EXISTS "resolved_by" varchar(255);
+ALTER TABLE "crisis_log" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+
+-- Cases already marked resolved before case management existed
+UPDATE "crisis_log" SET "status" = 'resolved' WHERE "resolved" = true AND "status" = 'open';
+
+CREATE INDEX IF NOT EXISTS "idx_crisis_log_status" ON "crisis_log"("status");
+
+-- ============================================================================
+-- NEW TABLE: crisis_case_event
+-- Append-only audit trail of every state change and reviewer note
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "crisis_case_event" (
+  "id" varchar(255) PRIMARY KEY,
+  "crisis_log_id" varchar(255) NOT NULL REFERENCES "crisis_log"("id") ON DELETE CASCADE,
+  
+  "action" varchar(50) NOT NULL,
+  "from_status" varchar(50),
+  "to_status" varchar(50) NOT NULL,
+  "note" text,
+  "actor_user_id" varchar(255),
+  
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_crisis_case_event_case" ON "crisis_case_event"("crisis_log_id");
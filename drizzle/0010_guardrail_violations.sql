@@ -0,0 +1,26 @@
+-- Migration: Guardrail Violations
+-- Stores every guardrail hit on an AI response for compliance reporting
+
+-- ============================================================================
+-- NEW TABLE: guardrail_violation
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "guardrail_violation" (
+  "id" varchar(255) PRIMARY KEY,
+  "client_profile_id" varchar(255) REFERENCES "client_profile"("id") ON DELETE CASCADE,
+  "conversation_id" varchar(255) REFERENCES "conversation"("id") ON DELETE SET NULL,
+  "message_id" varchar(255),
+  
+  "channel" varchar(50) NOT NULL,
+  "guardrail" varchar(255) NOT NULL,
+  "severity" varchar(50) NOT NULL,
+  "pattern" text NOT NULL,
+  "ai_response" text NOT NULL,
+  "response_replaced" boolean DEFAULT false NOT NULL,
+  
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_guardrail_violation_created" ON "guardrail_violation"("created_at");
+CREATE INDEX IF NOT EXISTS "idx_guardrail_violation_guardrail" ON "guardrail_violation"("guardrail");
+CREATE INDEX IF NOT EXISTS "idx_guardrail_violation_client" ON "guardrail_violation"("client_profile_id");
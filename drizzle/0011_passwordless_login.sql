@@ -0,0 +1,32 @@
+-- Migration: Passwordless Login
+-- Email magic links and SMS one-time codes for real user accounts
+
+-- ============================================================================
+-- USER ACCOUNT COLUMNS
+-- ============================================================================
+
+ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "phone_number" varchar(50);
+ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "login_method" varchar(50);
+ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "last_signed_in" timestamp;
+ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+
+-- ============================================================================
+-- NEW TABLE: verification_code
+-- Single-use login secrets (hashed), with attempt counting and expiry
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "verification_code" (
+  "id" varchar(255) PRIMARY KEY,
+  "purpose" varchar(50) NOT NULL,
+  "channel" varchar(50) NOT NULL,
+  "destination" varchar(255) NOT NULL,
+  "secret_hash" varchar(255) NOT NULL,
+  "client_profile_id" varchar(255) REFERENCES "client_profile"("id") ON DELETE CASCADE,
+  
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "consumed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_verification_code_destination" ON "verification_code"("destination", "purpose");
@@ -0,0 +1,27 @@
+-- Migration: Profile Merge Audit
+-- Every profile merge is recorded with the data needed to undo it
+
+-- ============================================================================
+-- NEW TABLE: profile_merge
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "profile_merge" (
+  "id" varchar(255) PRIMARY KEY,
+  "kept_profile_id" varchar(255) NOT NULL REFERENCES "client_profile"("id") ON DELETE CASCADE,
+  "merged_profile_id" varchar(255) NOT NULL,
+  
+  "reason" varchar(100) NOT NULL,
+  "actor_user_id" varchar(255),
+  
+  "merged_profile_snapshot" json NOT NULL,
+  "kept_profile_before" json NOT NULL,
+  "kept_profile_after" json NOT NULL,
+  "moved_rows" json NOT NULL,
+  
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "undone_at" timestamp,
+  "undone_by_user_id" varchar(255)
+);
+
+CREATE INDEX IF NOT EXISTS "idx_profile_merge_kept" ON "profile_merge"("kept_profile_id");
+CREATE INDEX IF NOT EXISTS "idx_profile_merge_merged" ON "profile_merge"("merged_profile_id");
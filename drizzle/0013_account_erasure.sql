@@ -0,0 +1,8 @@
+-- Migration: Account Erasure
+-- Deleting an account with billing history leaves an anonymised tombstone profile
+
+-- ============================================================================
+-- CLIENT PROFILE COLUMNS
+-- ============================================================================
+
+ALTER TABLE "client_profile" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp;
@@ -0,0 +1,20 @@
+-- Migration: Field-Level Encryption
+-- Encrypted values are stored as text. Existing rows are encrypted by the
+-- application at startup (encryptExistingFields) - it needs the keys.
+
+-- ============================================================================
+-- JSON COLUMNS NOW HOLDING ENCRYPTED TEXT
+-- ============================================================================
+
+ALTER TABLE "client_profile" ALTER COLUMN "emergency_contact" TYPE text USING "emergency_contact"::text;
+
+ALTER TABLE "profile_merge" ALTER COLUMN "merged_profile_snapshot" TYPE text USING "merged_profile_snapshot"::text;
+ALTER TABLE "profile_merge" ALTER COLUMN "kept_profile_before" TYPE text USING "kept_profile_before"::text;
+ALTER TABLE "profile_merge" ALTER COLUMN "kept_profile_after" TYPE text USING "kept_profile_after"::text;
+
+-- ============================================================================
+-- MESSAGE COLUMNS
+-- ============================================================================
+
+-- Encrypted content can't be compared in SQL - retention marks redactions here
+ALTER TABLE "message" ADD COLUMN IF NOT EXISTS "redacted_at" timestamp;
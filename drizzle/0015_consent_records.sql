@@ -0,0 +1,22 @@
+-- Migration: Consent Records
+-- Which Terms and Privacy Policy versions each client accepted, on which channel, with their age attestation
+
+-- ============================================================================
+-- NEW TABLE: consent_record
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "consent_record" (
+  "id" varchar(255) PRIMARY KEY,
+  "client_profile_id" varchar(255) NOT NULL REFERENCES "client_profile"("id") ON DELETE CASCADE,
+  
+  "terms_version" varchar(50) NOT NULL,
+  "privacy_version" varchar(50) NOT NULL,
+  "channel" varchar(50) NOT NULL,
+  "age_attestation" varchar(50) NOT NULL,
+  "evidence" text,
+  "ip_address" varchar(100),
+  
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_consent_record_client" ON "consent_record"("client_profile_id", "created_at");
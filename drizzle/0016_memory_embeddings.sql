@@ -0,0 +1,25 @@
+-- Migration: Semantic Memory
+-- Embeddings of past user messages and key insights for Tier 3 retrieval
+
+-- ============================================================================
+-- NEW TABLE: memory_embedding
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "memory_embedding" (
+  "id" varchar(255) PRIMARY KEY,
+  "client_profile_id" varchar(255) NOT NULL REFERENCES "client_profile"("id") ON DELETE CASCADE,
+  
+  "message_id" varchar(255) REFERENCES "message"("id") ON DELETE CASCADE,
+  "key_insight_id" varchar(255) REFERENCES "key_insight"("id") ON DELETE CASCADE,
+  "conversation_id" varchar(255),
+  
+  "model" varchar(100) NOT NULL,
+  "embedding" real[] NOT NULL,
+  "forgotten_at" timestamp,
+  
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_memory_embedding_message" ON "memory_embedding"("message_id", "model");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_memory_embedding_insight" ON "memory_embedding"("key_insight_id", "model");
+CREATE INDEX IF NOT EXISTS "idx_memory_embedding_client" ON "memory_embedding"("client_profile_id", "model");
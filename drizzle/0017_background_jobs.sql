@@ -0,0 +1,31 @@
+-- Migration: Background Jobs
+-- Durable queue for work that runs after the reply, e.g. post-session profile updates
+
+-- ============================================================================
+-- NEW TABLE: background_job
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "background_job" (
+  "id" varchar(255) PRIMARY KEY,
+  "type" varchar(100) NOT NULL,
+  "payload" json NOT NULL,
+  
+  "status" varchar(20) DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  
+  "run_at" timestamp DEFAULT now() NOT NULL,
+  "locked_at" timestamp,
+  "completed_at" timestamp,
+  
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_background_job_due" ON "background_job"("status", "run_at");
+
+-- ============================================================================
+-- Open web and SMS conversations are scanned for inactivity
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS "idx_conversation_open" ON "conversation"("channel", "ended_at");
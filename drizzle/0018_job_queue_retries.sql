@@ -0,0 +1,42 @@
+-- Migration: Job Queue Retries and Dead Letters
+-- Retries with backoff, dead-lettered jobs, idempotency keys and priorities.
+-- Payloads may now carry client text, so they're stored encrypted (text) and
+-- jobs are tied to the client's profile.
+
+-- ============================================================================
+-- background_job: client link (filled from existing payloads)
+-- ============================================================================
+
+ALTER TABLE "background_job" ADD COLUMN IF NOT EXISTS "client_profile_id" varchar(255);
+
+-- CASE so payloads that are already encrypted (a re-run) are never parsed as JSON
+UPDATE "background_job" AS j SET "client_profile_id" = p."id"
+FROM "client_profile" AS p
+WHERE j."client_profile_id" IS NULL
+  AND p."id" = CASE WHEN left(j."payload"::text, 1) = '{' THEN j."payload"::text::json->>'clientProfileId' END;
+
+DO $$ BEGIN
+  ALTER TABLE "background_job" ADD CONSTRAINT "background_job_client_profile_id_fk"
+    FOREIGN KEY ("client_profile_id") REFERENCES "client_profile"("id") ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ============================================================================
+-- background_job: encrypted payload (encryptExistingFields encrypts old rows)
+-- ============================================================================
+
+ALTER TABLE "background_job" ALTER COLUMN "payload" TYPE text USING "payload"::text;
+
+-- ============================================================================
+-- background_job: retries, dead letters, idempotency, priority
+-- ============================================================================
+
+ALTER TABLE "background_job" ADD COLUMN IF NOT EXISTS "idempotency_key" varchar(255);
+ALTER TABLE "background_job" ADD COLUMN IF NOT EXISTS "priority" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "background_job" ADD COLUMN IF NOT EXISTS "max_attempts" integer DEFAULT 5 NOT NULL;
+
+-- Failed jobs from before retries existed are dead letters now
+UPDATE "background_job" SET "status" = 'dead' WHERE "status" = 'failed';
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_background_job_idempotency" ON "background_job"("idempotency_key");
+CREATE INDEX IF NOT EXISTS "idx_background_job_client" ON "background_job"("client_profile_id");
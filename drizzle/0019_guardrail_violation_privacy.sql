@@ -0,0 +1,18 @@
+-- Migration: Guardrail Violation Privacy
+-- ai_response holds what the model said to a client, so it's encrypted at
+-- rest (text already - encryptExistingFields encrypts old rows) and can be
+-- redacted. Encrypted values can't be compared in SQL, so redaction is
+-- tracked in its own column. response_id groups the drafts of one reply.
+
+-- ============================================================================
+-- guardrail_violation: redaction and reply grouping
+-- ============================================================================
+
+ALTER TABLE "guardrail_violation" ADD COLUMN IF NOT EXISTS "redacted_at" timestamp;
+ALTER TABLE "guardrail_violation" ADD COLUMN IF NOT EXISTS "response_id" varchar(255);
+
+-- Rows already redacted by the retention job (still plaintext at this point)
+UPDATE "guardrail_violation" SET "redacted_at" = now()
+WHERE "redacted_at" IS NULL AND "ai_response" = '[removed under the data retention policy]';
+
+CREATE INDEX IF NOT EXISTS "idx_guardrail_violation_response" ON "guardrail_violation"("response_id");
@@ -0,0 +1,28 @@
+-- Migration: Duplicate Profile Match Keys
+-- Duplicate detection matched profiles on normalized phone, email and name
+-- computed inside self-joins, which no index can serve - every profile was
+-- compared with every other. The normalized values are now generated
+-- columns with their own indexes, so each signal is an indexed equality join.
+
+-- ============================================================================
+-- client_profile: generated match keys
+-- ============================================================================
+
+-- Last 10 digits, only for numbers with at least 7 (shorter ones match too much)
+ALTER TABLE "client_profile" ADD COLUMN IF NOT EXISTS "phone_key" varchar(10)
+  GENERATED ALWAYS AS (
+    CASE WHEN length(regexp_replace("phone_number", '[^0-9]', '', 'g')) >= 7
+      THEN right(regexp_replace("phone_number", '[^0-9]', '', 'g'), 10)
+    END
+  ) STORED;
+
+ALTER TABLE "client_profile" ADD COLUMN IF NOT EXISTS "email_key" varchar(255)
+  GENERATED ALWAYS AS (nullif(lower(trim("email")), '')) STORED;
+
+ALTER TABLE "client_profile" ADD COLUMN IF NOT EXISTS "name_key" varchar(255)
+  GENERATED ALWAYS AS (nullif(lower(trim("preferred_name")), '')) STORED;
+
+CREATE INDEX IF NOT EXISTS "idx_client_profile_phone_key" ON "client_profile"("phone_key") WHERE "phone_key" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "idx_client_profile_email_key" ON "client_profile"("email_key") WHERE "email_key" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "idx_client_profile_name_key" ON "client_profile"("name_key") WHERE "name_key" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "idx_client_profile_stripe_customer" ON "client_profile"("stripe_customer_id") WHERE "stripe_customer_id" IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Migration: Guardrail Violation Evidence
+-- LLM review findings stored the quoted draft in pattern ("llm-review: ..."),
+-- so every finding was its own pattern in the report and the quote sat
+-- unencrypted beside the encrypted ai_response. pattern is now just
+-- "llm-review"; the quote moves to evidence, encrypted (encryptExistingFields
+-- encrypts the rows moved here) and redacted along with ai_response.
+
+-- ============================================================================
+-- guardrail_violation: evidence
+-- ============================================================================
+
+ALTER TABLE "guardrail_violation" ADD COLUMN IF NOT EXISTS "evidence" text;
+
+UPDATE "guardrail_violation"
+SET
+  "evidence" = CASE WHEN "redacted_at" IS NULL THEN nullif(substring("pattern" FROM 13), '') END,
+  "pattern" = 'llm-review'
+WHERE "pattern" LIKE 'llm-review:%';
@@ -1,5 +1,6 @@
-import { pgTable, varchar, text, integer, timestamp, json, real, boolean } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, integer, timestamp, json, real, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { encryptedJson, encryptedText } from "../server/_core/fieldEncryption";
 
 // ============================================================================
 // CORE USER & AUTH
@@ -11,9 +12,32 @@ export const user = pgTable("user", {
   name: varchar("name", { length: 255 }).notNull(),
   email: varchar("email", { length: 255 }),
   avatar: text("avatar"),
+  phoneNumber: varchar("phone_number", { length: 50 }),
   role: varchar("role", { length: 50 })
     .notNull()
     .default("user"),
+  loginMethod: varchar("login_method", { length: 50 }), // email, sms
+  lastSignedIn: timestamp("last_signed_in"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/**
+ * One-time login codes and magic-link tokens.
+ * Only a hash of the secret is stored; rows are single use.
+ */
+export const verificationCode = pgTable("verification_code", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  purpose: varchar("purpose", { length: 50 }).notNull(), // login, phone_link
+  channel: varchar("channel", { length: 50 }).notNull(), // email, sms
+  destination: varchar("destination", { length: 255 }).notNull(), // Email address or E.164 phone
+  secretHash: varchar("secret_hash", { length: 255 }).notNull(),
+  clientProfileId: varchar("client_profile_id", { length: 255 })
+    .references(() => clientProfile.id, { onDelete: "cascade" }), // Profile to link on success
+  
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -48,6 +72,14 @@ export const clientProfile = pgTable("client_profile", {
   preferredName: varchar("preferred_name", { length: 255 }),
   phoneNumber: varchar("phone_number", { length: 50 }),
   email: varchar("email", { length: 255 }),
+  
+  // Normalized copies for duplicate detection (duplicateProfileRouter.ts) - generated, never written
+  phoneKey: varchar("phone_key", { length: 10 }).generatedAlwaysAs(
+    sql`CASE WHEN length(regexp_replace("phone_number", '[^0-9]', '', 'g')) >= 7 THEN right(regexp_replace("phone_number", '[^0-9]', '', 'g'), 10) END`
+  ),
+  emailKey: varchar("email_key", { length: 255 }).generatedAlwaysAs(sql`nullif(lower(trim("email")), '')`),
+  nameKey: varchar("name_key", { length: 255 }).generatedAlwaysAs(sql`nullif(lower(trim("preferred_name")), '')`),
+  
   pronouns: varchar("pronouns", { length: 50 }),
   age: integer("age"),
   timezone: varchar("timezone", { length: 100 }),
@@ -77,13 +109,13 @@ export const clientProfile = pgTable("client_profile", {
   // Crisis/Safety (Tier 1 - ALWAYS loaded for safety)
   crisisRiskLevel: varchar("crisis_risk_level", { length: 50 }).default("none"),
   lastCrisisDate: timestamp("last_crisis_date"),
-  crisisNotes: text("crisis_notes"),
-  emergencyContact: json("emergency_contact").$type<{
+  crisisNotes: encryptedText("crisis_notes"),
+  emergencyContact: encryptedJson<{
     name?: string;
     phone?: string;
     relationship?: string;
-  }>(),
-  safetyPlanNotes: text("safety_plan_notes"),
+  }>("emergency_contact"),
+  safetyPlanNotes: encryptedText("safety_plan_notes"),
   
   // ============================================================================
   // TIER 2: ACTIVE CONTEXT (Relevance-based - ~1000 tokens)
@@ -254,7 +286,16 @@ export const clientProfile = pgTable("client_profile", {
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+  
+  // Set on the anonymised tombstone left by account deletion - holds only
+  // the billing identifiers we must keep, everything personal is gone
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_client_profile_phone_key").on(table.phoneKey).where(sql`${table.phoneKey} IS NOT NULL`),
+  index("idx_client_profile_email_key").on(table.emailKey).where(sql`${table.emailKey} IS NOT NULL`),
+  index("idx_client_profile_name_key").on(table.nameKey).where(sql`${table.nameKey} IS NOT NULL`),
+  index("idx_client_profile_stripe_customer").on(table.stripeCustomerId).where(sql`${table.stripeCustomerId} IS NOT NULL`),
+]);
 
 // ============================================================================
 // RELATIONSHIPS - Explicit storage for people in client's life
@@ -282,7 +323,7 @@ export const clientRelationship = pgTable("client_relationship", {
   // Context
   age: integer("age"),
   occupation: varchar("occupation", { length: 255 }),
-  notes: text("notes"), // "Works in marketing, stressed about promotion"
+  notes: encryptedText("notes"), // "Works in marketing, stressed about promotion"
   
   // Emotional Context
   emotionalContext: text("emotional_context"), // "Source of support", "Causes stress", "Mixed feelings"
@@ -456,7 +497,7 @@ export const message = pgTable("message", {
     .references(() => conversation.id, { onDelete: "cascade" }),
   
   role: varchar("role", { length: 50 }).notNull(),
-  content: text("content").notNull(),
+  content: encryptedText("content").notNull(),
   
   mood: varchar("mood", { length: 50 }),
   sentiment: varchar("sentiment", { length: 50 }),
@@ -474,9 +515,47 @@ export const message = pgTable("message", {
   audioUrl: text("audio_url"),
   transcriptionConfidence: real("transcription_confidence"),
   
+  // Voice barge-in: the caller cut this reply off, content holds only what was spoken
+  interrupted: boolean("interrupted").notNull().default(false),
+  
+  // Content replaced by the data retention policy (see dataRetention.ts)
+  redactedAt: timestamp("redacted_at"),
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// ============================================================================
+// SEMANTIC MEMORY (TIER 3) - Embeddings of past messages and insights
+// ============================================================================
+
+/**
+ * Memory Embedding - one vector per indexed user message or key insight
+ * Searched per turn to bring back relevant moments (see memoryRetrieval.ts).
+ * The text itself stays in message / key_insight; rows go when their source does.
+ */
+export const memoryEmbedding = pgTable("memory_embedding", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  clientProfileId: varchar("client_profile_id", { length: 255 })
+    .notNull()
+    .references(() => clientProfile.id, { onDelete: "cascade" }),
+  
+  // Exactly one source
+  messageId: varchar("message_id", { length: 255 })
+    .references(() => message.id, { onDelete: "cascade" }),
+  keyInsightId: varchar("key_insight_id", { length: 255 })
+    .references(() => keyInsight.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id", { length: 255 }), // Source message's conversation, to skip the current one
+  
+  model: varchar("model", { length: 100 }).notNull(), // Vectors from different models aren't comparable
+  embedding: real("embedding").array().notNull(),
+  forgottenAt: timestamp("forgotten_at"), // Client asked to forget this - never retrieved or re-indexed
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_memory_embedding_message").on(table.messageId, table.model),
+  uniqueIndex("idx_memory_embedding_insight").on(table.keyInsightId, table.model),
+]);
+
 // ============================================================================
 // CRISIS MANAGEMENT
 // ============================================================================
@@ -491,7 +570,7 @@ export const crisisLog = pgTable("crisis_log", {
   
   crisisLevel: varchar("crisis_level", { length: 50 }).notNull(),
   indicators: json("indicators").$type<string[]>(),
-  transcript: text("transcript"),
+  transcript: encryptedText("transcript"),
   
   escalated: boolean("escalated").notNull().default(false),
   escalatedTo: varchar("escalated_to", { length: 255 }),
@@ -501,7 +580,110 @@ export const crisisLog = pgTable("crisis_log", {
   resolution: text("resolution"),
   resolvedAt: timestamp("resolved_at"),
   
+  // Case management - admin review queue
+  status: varchar("status", { length: 50 }).notNull().default("open"), // open, acknowledged, escalated, resolved
+  acknowledgedBy: varchar("acknowledged_by", { length: 255 }),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedBy: varchar("resolved_by", { length: 255 }),
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/**
+ * Crisis Case Event - audit trail for a crisis case
+ * One row per state change or reviewer note, never updated
+ */
+export const crisisCaseEvent = pgTable("crisis_case_event", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  crisisLogId: varchar("crisis_log_id", { length: 255 })
+    .notNull()
+    .references(() => crisisLog.id, { onDelete: "cascade" }),
+  
+  action: varchar("action", { length: 50 }).notNull(), // opened, acknowledged, escalated, note, resolved
+  fromStatus: varchar("from_status", { length: 50 }),
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  note: text("note"),
+  actorUserId: varchar("actor_user_id", { length: 255 }), // null = system
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ============================================================================
+// GUARDRAIL COMPLIANCE
+// ============================================================================
+
+export const guardrailViolation = pgTable("guardrail_violation", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  clientProfileId: varchar("client_profile_id", { length: 255 })
+    .references(() => clientProfile.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id", { length: 255 })
+    .references(() => conversation.id, { onDelete: "set null" }),
+  messageId: varchar("message_id", { length: 255 }), // Assistant message that was stored
+  responseId: varchar("response_id", { length: 255 }), // Shared by every draft of one reply
+  
+  channel: varchar("channel", { length: 50 }).notNull(), // web, sms, voice
+  guardrail: varchar("guardrail", { length: 255 }).notNull(),
+  severity: varchar("severity", { length: 50 }).notNull(),
+  pattern: text("pattern").notNull(),
+  evidence: encryptedText("evidence"), // LLM review's quote from the response - redacted with it
+  aiResponse: encryptedText("ai_response").notNull(), // The response as generated, before replacement
+  responseReplaced: boolean("response_replaced").notNull().default(false),
+  redactedAt: timestamp("redacted_at"), // aiResponse removed (retention or forgetting)
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ============================================================================
+// CONSENT
+// ============================================================================
+
+/**
+ * Consent Record - a client accepting the Terms and Privacy Policy
+ * Append-only: a new row for every acceptance, including re-consent after the documents change
+ */
+export const consentRecord = pgTable("consent_record", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  clientProfileId: varchar("client_profile_id", { length: 255 })
+    .notNull()
+    .references(() => clientProfile.id, { onDelete: "cascade" }),
+  
+  termsVersion: varchar("terms_version", { length: 50 }).notNull(),
+  privacyVersion: varchar("privacy_version", { length: 50 }).notNull(),
+  channel: varchar("channel", { length: 50 }).notNull(), // web, voice, sms
+  ageAttestation: varchar("age_attestation", { length: 50 }).notNull(), // adult, minor_with_parental_consent, meets_age_requirement
+  evidence: text("evidence"), // What the client said or ticked, e.g. the SMS reply
+  ipAddress: varchar("ip_address", { length: 100 }),
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ============================================================================
+// PROFILE MERGES
+// ============================================================================
+
+/**
+ * Profile Merge - audit record for every merge, with what's needed to undo it
+ */
+export const profileMerge = pgTable("profile_merge", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  keptProfileId: varchar("kept_profile_id", { length: 255 })
+    .notNull()
+    .references(() => clientProfile.id, { onDelete: "cascade" }),
+  mergedProfileId: varchar("merged_profile_id", { length: 255 }).notNull(), // Deleted by the merge - no FK
+  
+  reason: varchar("reason", { length: 100 }).notNull(), // phone_link, user_link, admin
+  actorUserId: varchar("actor_user_id", { length: 255 }), // null = system
+  
+  // Snapshots hold the profiles' sensitive fields, so they are encrypted whole
+  mergedProfileSnapshot: encryptedJson<Record<string, unknown>>("merged_profile_snapshot").notNull(),
+  keptProfileBefore: encryptedJson<Record<string, unknown>>("kept_profile_before").notNull(), // Changed fields only
+  keptProfileAfter: encryptedJson<Record<string, unknown>>("kept_profile_after").notNull(),
+  movedRows: json("moved_rows").$type<Record<string, string[]>>().notNull(), // Table name -> row ids
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  undoneAt: timestamp("undone_at"),
+  undoneByUserId: varchar("undone_by_user_id", { length: 255 }),
 });
 
 // ============================================================================
@@ -557,11 +739,45 @@ export const systemSetting = pgTable("system_setting", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// ============================================================================
+// BACKGROUND JOBS
+// ============================================================================
+
+/**
+ * Background Job - durable work queued by the server (see jobQueue.ts).
+ * Payloads can hold client text (a call transcript, a crisis message), so
+ * they're encrypted; jobs go with the client's profile.
+ */
+export const backgroundJob = pgTable("background_job", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  clientProfileId: varchar("client_profile_id", { length: 255 })
+    .references(() => clientProfile.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 100 }).notNull(),
+  payload: encryptedJson<unknown>("payload").notNull(),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }), // Same key, same job - enqueued once
+  priority: integer("priority").notNull().default(0), // Higher runs first
+  
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, running, completed, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5), // Then it's dead-lettered for an admin
+  lastError: text("last_error"),
+  
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"), // Set while running - a stale lock means the worker died
+  completedAt: timestamp("completed_at"),
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_background_job_idempotency").on(table.idempotencyKey),
+]);
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
 
 export type User = typeof user.$inferSelect;
+export type VerificationCode = typeof verificationCode.$inferSelect;
 export type ClientProfile = typeof clientProfile.$inferSelect;
 export type ClientRelationship = typeof clientRelationship.$inferSelect;
 export type KeyInsight = typeof keyInsight.$inferSelect;
@@ -570,7 +786,13 @@ export type BehavioralPattern = typeof behavioralPattern.$inferSelect;
 export type InteractionLog = typeof interactionLog.$inferSelect;
 export type Conversation = typeof conversation.$inferSelect;
 export type Message = typeof message.$inferSelect;
+export type MemoryEmbedding = typeof memoryEmbedding.$inferSelect;
 export type CrisisLog = typeof crisisLog.$inferSelect;
+export type CrisisCaseEvent = typeof crisisCaseEvent.$inferSelect;
+export type GuardrailViolationRecord = typeof guardrailViolation.$inferSelect;
+export type ConsentRecord = typeof consentRecord.$inferSelect;
+export type ProfileMerge = typeof profileMerge.$inferSelect;
 export type Subscription = typeof subscription.$inferSelect;
 export type PaymentFlow = typeof paymentFlow.$inferSelect;
 export type SystemSetting = typeof systemSetting.$inferSelect;
+export type BackgroundJob = typeof backgroundJob.$inferSelect;
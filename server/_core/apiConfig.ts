@@ -6,6 +6,8 @@
 
 export const API_TIMEOUTS = {
   openai: 30000, // 30 seconds for LLM responses
+  openaiStreamIdle: 15000, // 15 seconds between streamed chunks
+  openaiVoiceStreamIdle: 5000, // 5 seconds - a caller is waiting in silence
   stripe: 15000, // 15 seconds for payment operations
   twilio: 10000, // 10 seconds for SMS/voice
   database: 5000, // 5 seconds for database queries
@@ -0,0 +1,126 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { SignJWT } from "jose";
+
+// The profile's owner as the database has it now, and every denial logged
+const state = vi.hoisted(() => {
+  vi.stubEnv("JWT_SECRET", "test-secret-that-is-long-enough-for-hs256");
+  return {
+    owner: null as { userId: string | null } | null,
+    logged: [] as Array<Record<string, unknown>>,
+  };
+});
+
+vi.mock("./db", () => ({
+  db: {
+    select: () => ({
+      from: () => ({ where: () => ({ limit: async () => (state.owner ? [state.owner] : []) }) }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => { state.logged.push(values); },
+    }),
+  },
+}));
+
+import { authorizeClientAccess, createClientAccessToken, verifyClientAccessToken } from "./clientAccess";
+import type { TrpcContext } from "./context";
+
+function contextWith(clientToken: string | null, user: { id: string } | null = null): TrpcContext {
+  return {
+    req: { ip: "203.0.113.7", headers: {} },
+    res: {},
+    user,
+    clientToken,
+  } as unknown as TrpcContext;
+}
+
+function loggedReason() {
+  return (state.logged.at(-1)?.metadata as { reason?: string } | undefined)?.reason;
+}
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  state.owner = { userId: null };
+  state.logged = [];
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("client access tokens", () => {
+  it("grant the client they were issued for", async () => {
+    const token = await createClientAccessToken("client_1");
+    expect(await verifyClientAccessToken(token)).toEqual({ clientId: "client_1", userId: null });
+  });
+
+  it("name the account the profile belonged to", async () => {
+    state.owner = { userId: "user_1" };
+    const token = await createClientAccessToken("client_1");
+    expect(await verifyClientAccessToken(token)).toEqual({ clientId: "client_1", userId: "user_1" });
+  });
+
+  it("reject forged tokens and tokens meant for something else", async () => {
+    const forged = await new SignJWT({})
+      .setProtectedHeader({ alg: "HS256" })
+      .setSubject("client_1")
+      .setAudience("client-access")
+      .sign(new TextEncoder().encode("some-other-secret-entirely-0000000"));
+    const session = await new SignJWT({})
+      .setProtectedHeader({ alg: "HS256" })
+      .setSubject("client_1")
+      .setAudience("session")
+      .sign(new TextEncoder().encode(process.env.JWT_SECRET));
+
+    expect(await verifyClientAccessToken(forged)).toBeNull();
+    expect(await verifyClientAccessToken(session)).toBeNull();
+    expect(await verifyClientAccessToken("not-a-token")).toBeNull();
+    expect(await verifyClientAccessToken(null)).toBeNull();
+  });
+});
+
+describe("authorizeClientAccess", () => {
+  it("allows the holder of a token for that client", async () => {
+    const token = await createClientAccessToken("client_1");
+    expect(await authorizeClientAccess(contextWith(token), "client_1", "chat.send")).toBe(true);
+    expect(state.logged).toEqual([]);
+  });
+
+  it("allows the account the profile is linked to, without a token", async () => {
+    state.owner = { userId: "user_1" };
+    expect(await authorizeClientAccess(contextWith(null, { id: "user_1" }), "client_1", "chat.send")).toBe(true);
+  });
+
+  it("stops an anonymous token once the profile is linked to an account", async () => {
+    const token = await createClientAccessToken("client_1");
+    state.owner = { userId: "user_1" };
+
+    expect(await authorizeClientAccess(contextWith(token), "client_1", "chat.send")).toBe(false);
+    expect(loggedReason()).toBe("token_predates_account_link");
+  });
+
+  it("denies and logs a token for another client", async () => {
+    const token = await createClientAccessToken("client_2");
+
+    expect(await authorizeClientAccess(contextWith(token), "client_1", "chat.send")).toBe(false);
+    expect(state.logged[0]).toMatchObject({
+      clientProfileId: "client_1",
+      interactionType: "unauthorized_access",
+      target: "chat.send",
+    });
+    expect(loggedReason()).toBe("token_for_other_client");
+  });
+
+  it("denies requests with no proof at all", async () => {
+    expect(await authorizeClientAccess(contextWith(null, { id: "user_9" }), "client_1", "chat.send")).toBe(false);
+    expect(loggedReason()).toBe("missing_token");
+  });
+
+  it("doesn't attach the log to a profile that doesn't exist", async () => {
+    state.owner = null;
+    const token = await createClientAccessToken("client_1");
+
+    expect(await authorizeClientAccess(contextWith(token), "client_1", "chat.send")).toBe(false);
+    expect(state.logged[0]).toMatchObject({ clientProfileId: null });
+    expect(loggedReason()).toBe("unknown_client");
+  });
+});
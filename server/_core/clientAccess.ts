@@ -0,0 +1,167 @@
+/**
+ * Client access tokens
+ *
+ * A clientId alone is not proof of anything - it sits in localStorage and
+ * shows up in logs. Every clientId-scoped procedure requires one of:
+ * - a signed access token for that client (issued by client.getOrCreate,
+ *   chat replies and login), sent in the CLIENT_TOKEN_HEADER header
+ * - a session cookie for the account the profile is linked to
+ *
+ * A token names the account its profile belonged to when it was issued, and
+ * stops working once the profile is linked to a different one - a token
+ * handed out while the profile was anonymous can't follow it into an account.
+ *
+ * Denied attempts are written to interaction_log as "unauthorized_access".
+ */
+
+import { TRPCError } from "@trpc/server";
+import { SignJWT, jwtVerify } from "jose";
+import { eq } from "drizzle-orm";
+import { ONE_YEAR_MS } from "@shared/const";
+import { clientProfile, interactionLog } from "../../drizzle/schema";
+import { generateLogId } from "../utils/generateId";
+import { db } from "./db";
+import { ENV } from "./env";
+import type { TrpcContext } from "./context";
+
+const TOKEN_AUDIENCE = "client-access";
+
+function getSecret(): Uint8Array {
+  if (!ENV.jwtSecret) {
+    throw new Error("JWT_SECRET is required for client access tokens");
+  }
+  return new TextEncoder().encode(ENV.jwtSecret);
+}
+
+/**
+ * Every chat reply issues a token - check at startup, not on each request
+ */
+export function assertClientAccessConfigured(): void {
+  if (!ENV.jwtSecret) {
+    throw new Error(
+      "JWT_SECRET is not set - it signs client access tokens and login sessions. " +
+      "Set it to a long random string (e.g. `openssl rand -base64 48`)."
+    );
+  }
+}
+
+interface ClientAccessGrant {
+  clientId: string;
+  userId: string | null; // Account the profile belonged to at issue time
+}
+
+async function getProfileOwner(clientId: string): Promise<{ userId: string | null } | undefined> {
+  const [profile] = await db
+    .select({ userId: clientProfile.userId })
+    .from(clientProfile)
+    .where(eq(clientProfile.id, clientId))
+    .limit(1);
+  return profile;
+}
+
+/**
+ * Only issue after the caller has proven access to clientId
+ */
+export async function createClientAccessToken(clientId: string): Promise<string> {
+  const owner = await getProfileOwner(clientId);
+
+  return new SignJWT(owner?.userId ? { uid: owner.userId } : {})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(clientId)
+    .setAudience(TOKEN_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(new Date(Date.now() + ONE_YEAR_MS))
+    .sign(getSecret());
+}
+
+/**
+ * What a token grants access to (null if missing, expired or forged)
+ */
+export async function verifyClientAccessToken(token: string | null): Promise<ClientAccessGrant | null> {
+  if (!token || !ENV.jwtSecret) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), {
+      algorithms: ["HS256"],
+      audience: TOKEN_AUDIENCE,
+    });
+    if (!payload.sub) return null;
+    return { clientId: payload.sub, userId: typeof payload.uid === "string" ? payload.uid : null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why this request may not act as clientId, or null if it may
+ */
+async function getAccessDenial(ctx: TrpcContext, clientId: string): Promise<string | null> {
+  const grant = await verifyClientAccessToken(ctx.clientToken);
+
+  const profile = await getProfileOwner(clientId);
+  if (!profile) return "unknown_client";
+
+  if (grant?.clientId === clientId && grant.userId === profile.userId) return null;
+  if (ctx.user && profile.userId === ctx.user.id) return null;
+
+  if (grant?.clientId === clientId) return "token_predates_account_link";
+  if (grant) return "token_for_other_client";
+  return ctx.clientToken ? "invalid_token" : "missing_token";
+}
+
+/**
+ * Record a denied attempt. Attached to the targeted profile when there is
+ * one, so it shows up in that client's history.
+ */
+export async function logUnauthorizedAccess(
+  ctx: TrpcContext,
+  path: string,
+  reason: string,
+  clientId?: string
+): Promise<void> {
+  console.warn(`[Access] Denied ${path}${clientId ? ` for client ${clientId}` : ""}: ${reason}`);
+
+  try {
+    await db.insert(interactionLog).values({
+      id: generateLogId(),
+      clientProfileId: clientId && reason !== "unknown_client" ? clientId : null,
+      interactionType: "unauthorized_access",
+      target: path,
+      metadata: {
+        requestedClientId: clientId ?? null,
+        reason,
+        userId: ctx.user?.id ?? null,
+        ip: ctx.req.ip ?? null,
+        userAgent: ctx.req.headers?.["user-agent"] ?? null,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("[Access] Failed to log unauthorized access:", error);
+  }
+}
+
+/**
+ * Check access to clientId, logging the attempt if it's denied
+ */
+export async function authorizeClientAccess(
+  ctx: TrpcContext,
+  clientId: string,
+  path: string
+): Promise<boolean> {
+  const denial = await getAccessDenial(ctx, clientId);
+  if (!denial) return true;
+
+  await logUnauthorizedAccess(ctx, path, denial, clientId);
+  return false;
+}
+
+export async function assertClientAccess(
+  ctx: TrpcContext,
+  clientId: string,
+  path: string
+): Promise<void> {
+  if (!(await authorizeClientAccess(ctx, clientId, path))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this profile." });
+  }
+}
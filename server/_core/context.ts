@@ -1,21 +1,33 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
+import { CLIENT_TOKEN_HEADER } from "@shared/const";
 import type { User } from "../../drizzle/schema";
+import { getSessionUser } from "./session";
 
 export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
   user: User | null;
+  clientToken: string | null; // Unverified - see clientAccess.ts
 };
 
 export async function createContext(
   opts: CreateExpressContextOptions
 ): Promise<TrpcContext> {
-  // Just Talk is fully anonymous - no authentication
-  const user: User | null = null;
+  // Anonymous by default - a session cookie is only present after login
+  let user: User | null = null;
+  try {
+    user = await getSessionUser(opts.req);
+  } catch (error) {
+    console.error("[Auth] Failed to resolve session:", error);
+  }
+
+  const header = opts.req.headers[CLIENT_TOKEN_HEADER];
+  const clientToken = typeof header === "string" ? header : null;
 
   return {
     req: opts.req,
     res: opts.res,
     user,
+    clientToken,
   };
 }
@@ -0,0 +1,87 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { activeKeyPrefix, reencryptField } from "./fieldEncryption";
+
+// Every encrypted column in drizzle/schema.ts
+const ENCRYPTED_COLUMNS: Array<{ table: string; column: string }> = [
+  { table: "message", column: "content" },
+  { table: "client_profile", column: "crisis_notes" },
+  { table: "client_profile", column: "safety_plan_notes" },
+  { table: "client_profile", column: "emergency_contact" },
+  { table: "client_relationship", column: "notes" },
+  { table: "crisis_log", column: "transcript" },
+  { table: "guardrail_violation", column: "ai_response" },
+  { table: "guardrail_violation", column: "evidence" },
+  { table: "profile_merge", column: "merged_profile_snapshot" },
+  { table: "profile_merge", column: "kept_profile_before" },
+  { table: "profile_merge", column: "kept_profile_after" },
+  { table: "background_job", column: "payload" },
+];
+
+const BATCH_SIZE = 500;
+
+/**
+ * Encrypt existing rows, and rewrap values still under an older key.
+ *
+ * Runs in the background at startup - it needs the keys, so it can't be a
+ * SQL migration. Idempotent: only values that aren't under the active key
+ * are touched, and each update only applies if the row hasn't changed.
+ */
+export async function encryptExistingFields(): Promise<Record<string, number>> {
+  const prefix = activeKeyPrefix();
+  if (!prefix) {
+    console.warn("[Encryption] FIELD_ENCRYPTION_KEYS not set - skipping encryption of existing rows");
+    return {};
+  }
+
+  const updated: Record<string, number> = {};
+
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    const tableId = sql.identifier(table);
+    const columnId = sql.identifier(column);
+    let lastId = "";
+    let count = 0;
+    let failed = 0;
+
+    // Page through by id, so a value that can't be decrypted is skipped, not retried forever
+    while (true) {
+      const rows = await db.execute<{ id: string; value: string }>(sql`
+        select "id", ${columnId} as "value" from ${tableId}
+        where ${columnId} is not null
+          and ${columnId} not like ${`${prefix}%`}
+          and "id" > ${lastId}
+        order by "id"
+        limit ${BATCH_SIZE}
+      `);
+
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        lastId = row.id;
+        let next: string | null;
+        try {
+          next = reencryptField(row.value);
+        } catch (error) {
+          failed++;
+          console.error(`[Encryption] Can't re-encrypt ${table}.${column} ${row.id}:`, (error as Error).message);
+          continue;
+        }
+        if (next === null) continue;
+
+        const result = await db.execute(sql`
+          update ${tableId} set ${columnId} = ${next}
+          where "id" = ${row.id} and ${columnId} = ${row.value}
+        `);
+        count += result.count ?? 0;
+      }
+    }
+
+    if (count > 0 || failed > 0) {
+      console.log(`[Encryption] ${table}.${column}: ${count} values encrypted${failed ? `, ${failed} failed` : ""}`);
+    }
+    updated[`${table}.${column}`] = count;
+  }
+
+  console.log("[Encryption] Existing rows are encrypted under the active key ✓");
+  return updated;
+}
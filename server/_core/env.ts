@@ -16,4 +16,16 @@ export const ENV = {
   smtpUser: process.env.SMTP_USER ?? "",
   smtpPass: process.env.SMTP_PASS ?? "",
   smtpFromEmail: process.env.SMTP_FROM_EMAIL ?? "",
+  // Owner notifications (crisis alerts, billing failures) - unset transports are skipped
+  ownerNotifyEmail: process.env.OWNER_NOTIFY_EMAIL ?? "",
+  ownerNotifyPhone: process.env.OWNER_NOTIFY_PHONE ?? "",
+  ownerNotifyWebhookUrl: process.env.OWNER_NOTIFY_WEBHOOK_URL ?? "",
+  ownerNotifyFile: process.env.OWNER_NOTIFY_FILE ?? "",
+  ownerNotifyDedupeMinutes: process.env.OWNER_NOTIFY_DEDUPE_MINUTES ? parseInt(process.env.OWNER_NOTIFY_DEDUPE_MINUTES, 10) : 15,
+  // Signs session cookies and client access tokens - required, checked at startup
+  jwtSecret: process.env.JWT_SECRET ?? "",
+  // Field-level encryption keys, id:base64 pairs - the first encrypts, all decrypt (see fieldEncryption.ts)
+  fieldEncryptionKeys: process.env.FIELD_ENCRYPTION_KEYS ?? "",
+  // Public base URL for links in emails (falls back to the request's host)
+  appUrl: process.env.APP_URL ?? "",
 };
@@ -0,0 +1,94 @@
+import { randomBytes } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const KEY_1 = `k1:${randomBytes(32).toString("base64")}`;
+const KEY_2 = `k2:${randomBytes(32).toString("base64")}`;
+
+// The key ring is read once per module load, so each setup gets a fresh copy
+async function loadWithKeys(keys: string, nodeEnv = "test") {
+  vi.resetModules();
+  vi.stubEnv("FIELD_ENCRYPTION_KEYS", keys);
+  vi.stubEnv("NODE_ENV", nodeEnv);
+  return import("./fieldEncryption");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("field encryption", () => {
+  it("round-trips text under the active key", async () => {
+    const { encryptField, decryptField, isEncrypted } = await loadWithKeys(KEY_1);
+    const stored = encryptField("I told my sister about the panic attacks");
+
+    expect(isEncrypted(stored)).toBe(true);
+    expect(stored.startsWith("enc:v1:k1:")).toBe(true);
+    expect(stored).not.toContain("panic");
+    expect(decryptField(stored)).toBe("I told my sister about the panic attacks");
+  });
+
+  it("uses a fresh data key for every value", async () => {
+    const { encryptField } = await loadWithKeys(KEY_1);
+    expect(encryptField("same words")).not.toBe(encryptField("same words"));
+  });
+
+  it("reads legacy plaintext as-is", async () => {
+    const { decryptField } = await loadWithKeys(KEY_1);
+    expect(decryptField("written before encryption")).toBe("written before encryption");
+  });
+
+  it("rejects a tampered value", async () => {
+    const { encryptField, decryptField } = await loadWithKeys(KEY_1);
+    const stored = encryptField("safety plan");
+    const tampered = stored.slice(0, -4) + (stored.endsWith("AAAA") ? "BBBB" : "AAAA");
+    expect(() => decryptField(tampered)).toThrow();
+  });
+});
+
+describe("key rotation", () => {
+  it("rewraps old values under the new key without changing the ciphertext", async () => {
+    const before = await loadWithKeys(KEY_1);
+    const stored = before.encryptField("crisis transcript");
+
+    const after = await loadWithKeys(`${KEY_2},${KEY_1}`);
+    expect(after.activeKeyPrefix()).toBe("enc:v1:k2:");
+    expect(after.decryptField(stored)).toBe("crisis transcript");
+
+    const rewrapped = after.reencryptField(stored)!;
+    expect(rewrapped.startsWith("enc:v1:k2:")).toBe(true);
+    expect(rewrapped.split(":").at(-1)).toBe(stored.split(":").at(-1));
+    expect(after.reencryptField(rewrapped)).toBeNull();
+
+    // Once rewrapped, the old key can be dropped
+    const rotated = await loadWithKeys(KEY_2);
+    expect(rotated.decryptField(rewrapped)).toBe("crisis transcript");
+    expect(() => rotated.decryptField(stored)).toThrow(/"k1" is not configured/);
+  });
+
+  it("encrypts legacy plaintext on the rewrap pass", async () => {
+    const { reencryptField, decryptField } = await loadWithKeys(KEY_1);
+    const encrypted = reencryptField("old plaintext note")!;
+    expect(encrypted.startsWith("enc:v1:k1:")).toBe(true);
+    expect(decryptField(encrypted)).toBe("old plaintext note");
+  });
+});
+
+describe("configuration", () => {
+  it("rejects malformed keys", async () => {
+    const { assertFieldEncryptionConfigured } = await loadWithKeys("k1:tooshort");
+    expect(() => assertFieldEncryptionConfigured()).toThrow(/32-byte key/);
+  });
+
+  it("refuses to store plaintext in production", async () => {
+    const { assertFieldEncryptionConfigured, encryptField } = await loadWithKeys("", "production");
+    expect(() => assertFieldEncryptionConfigured()).toThrow(/FIELD_ENCRYPTION_KEYS/);
+    expect(() => encryptField("anything")).toThrow(/refusing/);
+  });
+
+  it("stores plaintext in development when no keys are set", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { encryptField, isFieldEncryptionConfigured } = await loadWithKeys("");
+    expect(isFieldEncryptionConfigured()).toBe(false);
+    expect(encryptField("dev data")).toBe("dev data");
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * FIELD-LEVEL ENVELOPE ENCRYPTION
+ *
+ * The most sensitive columns (message content, crisis and safety notes,
+ * emergency contacts, relationship notes, crisis transcripts) are encrypted
+ * by the application before they reach Postgres. Schema columns declared
+ * with encryptedText / encryptedJson do this in the Drizzle layer, so
+ * reads and writes elsewhere look exactly like plain columns.
+ *
+ * Envelope: every value gets its own random data key (AES-256-GCM). The
+ * data key is stored alongside the value, wrapped by a key-encryption key
+ * (KEK) from the environment:
+ *
+ *   enc:v1:<kek id>:<wrapped data key>:<ciphertext>
+ *
+ * FIELD_ENCRYPTION_KEYS lists the KEKs as comma-separated id:base64 pairs
+ * (32 bytes each). The FIRST is active for new values; the rest only
+ * decrypt. To rotate: put a new key first and restart - the startup pass
+ * (encryptExistingFields) rewraps every data key under it without touching
+ * the ciphertext - then drop the old key once that pass reports done.
+ *
+ * Values without the enc: prefix are legacy plaintext and read as-is until
+ * that same pass encrypts them. In development, with no keys configured,
+ * values are stored in plaintext; production refuses to write them.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { customType } from "drizzle-orm/pg-core";
+import { ENV } from "./env";
+
+const PREFIX = "enc:v1:";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface KeyRing {
+  activeId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyRing: KeyRing | null | undefined;
+let warnedPlaintext = false;
+
+function loadKeyRing(): KeyRing | null {
+  if (keyRing !== undefined) return keyRing;
+
+  const entries = ENV.fieldEncryptionKeys
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    keyRing = null;
+    return keyRing;
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of entries) {
+    const [id, encoded] = entry.split(":");
+    const key = Buffer.from(encoded ?? "", "base64");
+    if (!id || !KEY_ID_PATTERN.test(id) || key.length !== KEY_BYTES) {
+      throw new Error(`FIELD_ENCRYPTION_KEYS entry "${id ?? ""}" must be id:base64 with a ${KEY_BYTES}-byte key`);
+    }
+    keys.set(id, key);
+  }
+
+  keyRing = { activeId: entries[0].split(":")[0], keys };
+  return keyRing;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function parse(value: string): { keyId: string; wrappedKey: string; ciphertext: string } {
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error("Malformed encrypted field");
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+function getKey(ring: KeyRing, keyId: string): Buffer {
+  const key = ring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Field encryption key "${keyId}" is not configured`);
+  }
+  return key;
+}
+
+export function isFieldEncryptionConfigured(): boolean {
+  return loadKeyRing() !== null;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Check the keys at startup: a malformed entry, or no keys in production,
+ * would otherwise fail every write of a sensitive field
+ */
+export function assertFieldEncryptionConfigured(): void {
+  if (!loadKeyRing() && ENV.isProduction) {
+    throw new Error(
+      "FIELD_ENCRYPTION_KEYS is not set - production refuses to store sensitive data in plaintext. " +
+      "Set it to id:base64 pairs of 32-byte keys (e.g. `echo \"k1:$(openssl rand -base64 32)\"`)."
+    );
+  }
+}
+
+/**
+ * The prefix of values already under the active key (for finding the rest)
+ */
+export function activeKeyPrefix(): string | null {
+  const ring = loadKeyRing();
+  return ring ? `${PREFIX}${ring.activeId}:` : null;
+}
+
+export function encryptField(plaintext: string): string {
+  const ring = loadKeyRing();
+
+  if (!ring) {
+    if (ENV.isProduction) {
+      throw new Error("FIELD_ENCRYPTION_KEYS is required in production - refusing to store sensitive data in plaintext");
+    }
+    if (!warnedPlaintext) {
+      console.warn("[Encryption] FIELD_ENCRYPTION_KEYS not set - sensitive fields are stored in plaintext (development only)");
+      warnedPlaintext = true;
+    }
+    return plaintext;
+  }
+
+  const dataKey = randomBytes(KEY_BYTES);
+  const wrappedKey = seal(getKey(ring, ring.activeId), dataKey);
+  return `${PREFIX}${ring.activeId}:${wrappedKey}:${seal(dataKey, Buffer.from(plaintext, "utf8"))}`;
+}
+
+export function decryptField(value: string): string {
+  if (!isEncrypted(value)) return value; // Legacy plaintext
+
+  const ring = loadKeyRing();
+  if (!ring) {
+    throw new Error("Found an encrypted field but FIELD_ENCRYPTION_KEYS is not set");
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parse(value);
+  const dataKey = unseal(getKey(ring, keyId), wrappedKey);
+  return unseal(dataKey, ciphertext).toString("utf8");
+}
+
+/**
+ * Bring a stored value up to date: encrypt legacy plaintext, or rewrap the
+ * data key of a value under an older KEK. Returns null if nothing to do.
+ */
+export function reencryptField(value: string): string | null {
+  const ring = loadKeyRing();
+  if (!ring) return null;
+
+  if (!isEncrypted(value)) return encryptField(value);
+
+  const { keyId, wrappedKey, ciphertext } = parse(value);
+  if (keyId === ring.activeId) return null;
+
+  const dataKey = unseal(getKey(ring, keyId), wrappedKey);
+  return `${PREFIX}${ring.activeId}:${seal(getKey(ring, ring.activeId), dataKey)}:${ciphertext}`;
+}
+
+// ============================================================================
+// DRIZZLE COLUMN TYPES
+// ============================================================================
+
+/**
+ * A text column encrypted at rest
+ */
+export const encryptedText = customType<{ data: string; driverData: string }>({
+  dataType() {
+    return "text";
+  },
+  toDriver(value) {
+    return encryptField(value);
+  },
+  fromDriver(value) {
+    return decryptField(value);
+  },
+});
+
+/**
+ * A JSON value encrypted at rest (stored as text)
+ */
+export function encryptedJson<T>(name: string) {
+  return customType<{ data: T; driverData: string }>({
+    dataType() {
+      return "text";
+    },
+    toDriver(value) {
+      return encryptField(JSON.stringify(value));
+    },
+    fromDriver(value) {
+      return JSON.parse(decryptField(value)) as T;
+    },
+  })(name);
+}
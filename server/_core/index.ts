@@ -9,6 +9,13 @@ import { serveStatic, setupVite } from "./vite";
 import { setupTwilioRoutes } from "../twilioRoutes";
 import { createConversationRelayServer } from "../conversationRelay";
 import webhookRoutes from "../routes/webhookRoutes";
+import { startRetentionSchedule } from "../dataRetention";
+import { startJobWorker } from "../jobQueue";
+import { registerJobHandlers } from "../jobHandlers";
+import { startSessionEndDetector } from "../sessionEnd";
+import { encryptExistingFields } from "./encryptExistingFields";
+import { assertClientAccessConfigured } from "./clientAccess";
+import { assertFieldEncryptionConfigured } from "./fieldEncryption";
 import { db } from "./db";
 import { 
   checkDatabaseHealth, 
@@ -37,6 +44,10 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
+  // Step 0: Secrets every request depends on - fail now, not on each request
+  assertClientAccessConfigured();
+  assertFieldEncryptionConfigured();
+
   // INTELLIGENT CORE: Database initialization with self-healing
   console.log("[Intelligent Core] Initializing database layer...");
   
@@ -65,6 +76,11 @@ async function startServer() {
     console.log("[Database] Continuing despite migration error (tables may already exist)");
   }
   
+  // Step 2b: Encrypt legacy plaintext and rewrap old keys, in the background
+  encryptExistingFields().catch(error => {
+    console.error("[Encryption] Encrypting existing rows failed:", error);
+  });
+  
   // Step 3: Verify schema integrity
   console.log("[Database] Verifying schema...");
   const schemaValid = await verifyDatabaseSchema();
@@ -79,6 +95,15 @@ async function startServer() {
   startHealthMonitoring(30000); // Check every 30 seconds
   console.log("[Intelligent Core] Database layer initialized with self-monitoring ✓");
   
+  // Step 5: Purge old transcripts and logs per the retention policy
+  startRetentionSchedule();
+  
+  // Step 6: Background jobs (profile updates, enrichment, crisis alerts), and
+  // ending quiet web/SMS sessions so their profile updates run
+  registerJobHandlers();
+  startSessionEndDetector();
+  startJobWorker();
+  
   
   const app = express();
   const server = createServer(app);
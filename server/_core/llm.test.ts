@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./env", () => ({ ENV: { openaiApiKey: "sk-test" } }));
+
+import { invokeLLMStream } from "./llm";
+
+const encoder = new TextEncoder();
+
+function sse(text: string): Uint8Array {
+  const chunk = { id: "c1", created: 0, model: "m", choices: [{ index: 0, delta: { content: text }, finish_reason: null }] };
+  return encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`);
+}
+
+// A completions response that sends `chunks`, then either finishes or goes quiet
+function respondWith(chunks: Uint8Array[], { stall = false } = {}) {
+  const requests: RequestInit[] = [];
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    requests.push(init);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+        if (!stall) {
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        }
+      },
+    });
+    return new Response(body, { status: 200 });
+  });
+  return requests;
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const deltas: string[] = [];
+  for await (const delta of stream) deltas.push(delta);
+  return deltas;
+}
+
+const params = { messages: [{ role: "user" as const, content: "hi" }] };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("invokeLLMStream", () => {
+  it("yields each text delta in order", async () => {
+    respondWith([sse("I'm "), sse("here.")]);
+
+    expect(await collect(await invokeLLMStream(params))).toEqual(["I'm ", "here."]);
+  });
+
+  describe("a stream that stalls", () => {
+    let requests: RequestInit[];
+    beforeEach(() => {
+      requests = respondWith([sse("I'm ")], { stall: true });
+    });
+
+    it("gives up once no chunk arrives in time", async () => {
+      const deltas: string[] = [];
+      const reading = (async () => {
+        for await (const delta of await invokeLLMStream(params, { idleTimeoutMs: 20 })) deltas.push(delta);
+      })();
+
+      await expect(reading).rejects.toThrow(/stalled: no data for 20ms/);
+      expect(deltas).toEqual(["I'm "]);
+    });
+
+    it("cancels the request", async () => {
+      const stream = await invokeLLMStream(params, { idleTimeoutMs: 20 });
+      await collect(stream).catch(() => {});
+
+      expect(requests[0].signal?.aborted).toBe(true);
+    });
+  });
+
+  it("cancels the request when the caller aborts", async () => {
+    const requests = respondWith([sse("I'm ")], { stall: true });
+    const controller = new AbortController();
+
+    await invokeLLMStream(params, { signal: controller.signal });
+    controller.abort();
+
+    expect(requests[0].signal?.aborted).toBe(true);
+  });
+});
@@ -1,3 +1,4 @@
+import { API_TIMEOUTS } from "./apiConfig";
 import { ENV } from "./env";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
@@ -263,9 +264,7 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
-
+const buildPayload = (params: InvokeParams): Record<string, unknown> => {
   const {
     messages,
     tools,
@@ -311,6 +310,13 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
+  return payload;
+};
+
+const postCompletion = async (
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> => {
   const response = await fetch(resolveApiUrl(), {
     method: "POST",
     headers: {
@@ -318,6 +324,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
       authorization: `Bearer ${ENV.openaiApiKey}`,
     },
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
@@ -327,5 +334,170 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     );
   }
 
+  return response;
+};
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  assertApiKey();
+
+  const response = await postCompletion(buildPayload(params));
+
   return (await response.json()) as InvokeResult;
 }
+
+export type InvokeStreamChunk = {
+  id: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: Role;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+};
+
+export type InvokeStreamOptions = {
+  signal?: AbortSignal; // Aborting cancels the underlying HTTP request
+  idleTimeoutMs?: number; // Longest wait for the next chunk before giving up
+};
+
+/**
+ * Read the next chunk, or call onIdle and throw if none arrives in time.
+ */
+async function readWithin(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number,
+  onIdle: () => void
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const idle = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onIdle();
+      reject(new Error(`LLM stream stalled: no data for ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([reader.read(), idle]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parse the server-sent event stream from the completions endpoint
+ * and yield each text delta as it arrives. A stream that goes quiet for
+ * idleTimeoutMs is abandoned: onIdle cancels the request and this throws.
+ */
+async function* readStreamDeltas(
+  body: ReadableStream<Uint8Array>,
+  idleTimeoutMs: number,
+  onIdle: () => void
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await readWithin(reader, idleTimeoutMs, onIdle);
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith("data:")) continue;
+
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") return;
+
+        const chunk = JSON.parse(data) as InvokeStreamChunk;
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    }
+  } finally {
+    // Stops the download if the consumer bails out early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Streaming variant of invokeLLM.
+ *
+ * Resolves once the request is accepted, so callers can wrap it in
+ * retryWithBackoff/withTimeout exactly like invokeLLM. The returned
+ * iterable yields text deltas in order, and throws if the stream stalls.
+ */
+export async function invokeLLMStream(
+  params: InvokeParams,
+  options: InvokeStreamOptions = {}
+): Promise<AsyncIterable<string>> {
+  assertApiKey();
+
+  const payload = buildPayload(params);
+  payload.stream = true;
+
+  // Our own controller too, so a stalled stream can cancel the request
+  const stall = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, stall.signal]) : stall.signal;
+
+  const response = await postCompletion(payload, signal);
+
+  if (!response.body) {
+    throw new Error("LLM stream failed: response has no body");
+  }
+
+  return readStreamDeltas(
+    response.body,
+    options.idleTimeoutMs ?? API_TIMEOUTS.openaiStreamIdle,
+    () => stall.abort()
+  );
+}
+
+export type EmbeddingParams = {
+  input: string[];
+  model: string;
+  dimensions?: number; // text-embedding-3 models can return shorter vectors
+};
+
+type EmbeddingResponse = {
+  data: Array<{ index: number; embedding: number[] }>;
+};
+
+/**
+ * Embed a batch of texts - vectors come back in input order
+ */
+export async function invokeEmbeddings(params: EmbeddingParams): Promise<number[][]> {
+  assertApiKey();
+
+  const response = await fetch("https://api.openai.com/v1/embeddings", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      authorization: `Bearer ${ENV.openaiApiKey}`,
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`
+    );
+  }
+
+  const result = (await response.json()) as EmbeddingResponse;
+  return result.data
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+}
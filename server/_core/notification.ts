@@ -1,15 +1,236 @@
 /**
- * Owner notification system (stub for standalone deployment)
+ * Owner notification system
+ *
+ * Routes alerts (crisis alerts, billing failures) to the owner over
+ * pluggable transports. Which transports fire depends on severity:
+ *
+ *   info     → email, webhook, file
+ *   warning  → email, webhook, file
+ *   critical → email, webhook, file, SMS
+ *
+ * Transports that aren't configured (see OWNER_NOTIFY_* in env.ts) are
+ * skipped. The file transport appends JSON lines locally for testing.
+ *
+ * Each transport is retried with backoff. Alerts sharing a dedupeKey
+ * (e.g. "crisis:<clientId>") are suppressed within the dedupe window
+ * unless the new alert is more severe than the one already sent.
  */
 
+import { promises as fs } from "fs";
+import Twilio from "twilio";
+import { ENV } from "./env";
+import { sendEmail } from "./email";
+import { retryWithBackoff, withTimeout, API_TIMEOUTS } from "./apiConfig";
+
+export type NotificationSeverity = "info" | "warning" | "critical";
+
+export type OwnerNotification = {
+  title: string;
+  content: string;
+  severity?: NotificationSeverity; // Defaults to "info"
+  dedupeKey?: string; // Repeated alerts with the same key are suppressed
+};
+
+type RoutedNotification = Required<Omit<OwnerNotification, "dedupeKey">> & {
+  dedupeKey?: string;
+  timestamp: string;
+};
+
+export interface NotificationTransport {
+  name: string;
+  severities: NotificationSeverity[];
+  isConfigured(): boolean;
+  send(notification: RoutedNotification): Promise<void>;
+}
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+const emailTransport: NotificationTransport = {
+  name: "email",
+  severities: ["info", "warning", "critical"],
+  isConfigured: () => Boolean(ENV.ownerNotifyEmail && ENV.smtpHost),
+  async send(notification) {
+    const delivered = await sendEmail({
+      to: ENV.ownerNotifyEmail,
+      subject: `[Just Talk ${notification.severity.toUpperCase()}] ${notification.title}`,
+      html: `<h2>${escapeHtml(notification.title)}</h2><pre style="white-space:pre-wrap;font-family:inherit">${escapeHtml(notification.content)}</pre><p style="color:#888">${notification.timestamp}</p>`,
+    });
+    if (!delivered) {
+      throw new Error("Email delivery failed");
+    }
+  },
+};
+
+let twilioClient: ReturnType<typeof Twilio> | null = null;
+
+const smsTransport: NotificationTransport = {
+  name: "sms",
+  severities: ["critical"],
+  isConfigured: () => Boolean(
+    ENV.ownerNotifyPhone && ENV.twilioAccountSid && ENV.twilioAuthToken && ENV.twilioPhoneNumber
+  ),
+  async send(notification) {
+    if (!twilioClient) {
+      twilioClient = Twilio(ENV.twilioAccountSid, ENV.twilioAuthToken);
+    }
+    // Keep it to a few SMS segments - full details go out by email/webhook
+    const body = `${notification.title}\n\n${notification.content}`.slice(0, 600);
+    await twilioClient.messages.create({
+      body,
+      from: ENV.twilioPhoneNumber,
+      to: ENV.ownerNotifyPhone,
+    });
+  },
+};
+
+const webhookTransport: NotificationTransport = {
+  name: "webhook",
+  severities: ["info", "warning", "critical"],
+  isConfigured: () => Boolean(ENV.ownerNotifyWebhookUrl),
+  async send(notification) {
+    const response = await fetch(ENV.ownerNotifyWebhookUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(notification),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+const fileTransport: NotificationTransport = {
+  name: "file",
+  severities: ["info", "warning", "critical"],
+  isConfigured: () => Boolean(ENV.ownerNotifyFile),
+  async send(notification) {
+    await fs.appendFile(ENV.ownerNotifyFile, JSON.stringify(notification) + "\n", "utf8");
+  },
+};
+
+const transports: NotificationTransport[] = [
+  emailTransport,
+  smsTransport,
+  webhookTransport,
+  fileTransport,
+];
+
+/**
+ * Add a custom transport (e.g. Slack, PagerDuty)
+ */
+export function registerNotificationTransport(transport: NotificationTransport): void {
+  transports.push(transport);
+}
+
+// ============================================================================
+// DEDUPLICATION
+// ============================================================================
+
+const recentAlerts = new Map<string, { sentAt: number; severity: NotificationSeverity }>();
+
+function isDuplicate(dedupeKey: string, severity: NotificationSeverity): boolean {
+  const windowMs = ENV.ownerNotifyDedupeMinutes * 60 * 1000;
+  const previous = recentAlerts.get(dedupeKey);
+
+  if (!previous || Date.now() - previous.sentAt > windowMs) {
+    return false;
+  }
+
+  // Always let an escalation through
+  return SEVERITY_RANK[severity] <= SEVERITY_RANK[previous.severity];
+}
+
+function pruneRecentAlerts(): void {
+  const windowMs = ENV.ownerNotifyDedupeMinutes * 60 * 1000;
+  recentAlerts.forEach((alert, key) => {
+    if (Date.now() - alert.sentAt > windowMs) {
+      recentAlerts.delete(key);
+    }
+  });
+}
+
+// ============================================================================
+// NOTIFY
+// ============================================================================
+
+/**
+ * Notify the owner. Returns true if at least one transport delivered
+ * the alert (or it was suppressed as a duplicate of one that did).
+ */
 export async function notifyOwner({
   title,
   content,
-}: {
-  title: string;
-  content: string;
-}): Promise<boolean> {
-  // In standalone mode, just log to console
-  console.log('[OWNER NOTIFICATION]', { title, content });
-  return true;
+  severity = "info",
+  dedupeKey,
+}: OwnerNotification): Promise<boolean> {
+  if (dedupeKey && isDuplicate(dedupeKey, severity)) {
+    console.log(`[Notify] Suppressed duplicate alert for ${dedupeKey}: ${title}`);
+    return true;
+  }
+
+  const notification: RoutedNotification = {
+    title,
+    content,
+    severity,
+    dedupeKey,
+    timestamp: new Date().toISOString(),
+  };
+
+  const routed = transports.filter(
+    transport => transport.severities.includes(severity) && transport.isConfigured()
+  );
+
+  if (routed.length === 0) {
+    // Nothing configured - at least make it visible in the logs
+    console.log('[OWNER NOTIFICATION]', { title, content, severity });
+    return false;
+  }
+
+  const results = await Promise.allSettled(
+    routed.map(transport =>
+      retryWithBackoff(
+        () => withTimeout(transport.send(notification), API_TIMEOUTS.twilio, `${transport.name} notification`),
+        {
+          maxRetries: 3,
+          onRetry: (error, attempt) => {
+            console.log(`[Notify] ${transport.name} retry ${attempt}/3:`, error.message);
+          },
+        }
+      )
+    )
+  );
+
+  let delivered = false;
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      delivered = true;
+    } else {
+      console.error(`[Notify] ${routed[index].name} transport failed:`, result.reason);
+    }
+  });
+
+  if (delivered && dedupeKey) {
+    pruneRecentAlerts();
+    recentAlerts.set(dedupeKey, { sentAt: Date.now(), severity });
+  }
+
+  console.log(`[Notify] ${severity} "${title}" → ${delivered ? "delivered" : "FAILED"} via ${routed.map(t => t.name).join(", ")}`);
+
+  return delivered;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
@@ -0,0 +1,91 @@
+/**
+ * Login sessions
+ *
+ * The session cookie (COOKIE_NAME) holds a signed JWT (HS256, JWT_SECRET)
+ * with the user id as subject. createContext reads it on every request.
+ * Client access tokens share the secret, so each has its own audience -
+ * one can't stand in for the other.
+ */
+
+import type { Request, Response } from "express";
+import { parse as parseCookies } from "cookie";
+import { SignJWT, jwtVerify } from "jose";
+import { eq } from "drizzle-orm";
+import { COOKIE_NAME } from "@shared/const";
+import { user, type User } from "../../drizzle/schema";
+import { db } from "./db";
+import { ENV } from "./env";
+import { getSessionCookieOptions } from "./cookies";
+
+export const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 90; // 90 days
+
+const SESSION_AUDIENCE = "session";
+
+function getSecret(): Uint8Array | null {
+  return ENV.jwtSecret ? new TextEncoder().encode(ENV.jwtSecret) : null;
+}
+
+export function isSessionConfigured(): boolean {
+  return getSecret() !== null;
+}
+
+export async function createSessionToken(userId: string): Promise<string> {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error("JWT_SECRET is required for login sessions");
+  }
+
+  return new SignJWT({})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(userId)
+    .setAudience(SESSION_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(new Date(Date.now() + SESSION_MAX_AGE_MS))
+    .sign(secret);
+}
+
+/**
+ * Resolve the signed-in user from the session cookie (null if none or invalid)
+ */
+export async function getSessionUser(req: Request): Promise<User | null> {
+  const secret = getSecret();
+  const header = req.headers?.cookie;
+  if (!secret || !header) return null;
+
+  const token = parseCookies(header)[COOKIE_NAME];
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, secret, {
+      algorithms: ["HS256"],
+      audience: SESSION_AUDIENCE,
+    });
+    if (!payload.sub) return null;
+
+    const [found] = await db
+      .select()
+      .from(user)
+      .where(eq(user.id, payload.sub))
+      .limit(1);
+
+    return found ?? null;
+  } catch {
+    // Expired, tampered or signed with an old secret - treat as signed out
+    return null;
+  }
+}
+
+export async function setSessionCookie(req: Request, res: Response, userId: string): Promise<void> {
+  const token = await createSessionToken(userId);
+  res.cookie(COOKIE_NAME, token, {
+    ...getSessionCookieOptions(req),
+    maxAge: SESSION_MAX_AGE_MS,
+  });
+}
+
+export function clearSessionCookie(req: Request, res: Response): void {
+  res.clearCookie(COOKIE_NAME, {
+    ...getSessionCookieOptions(req),
+    maxAge: -1,
+  });
+}
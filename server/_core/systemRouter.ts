@@ -18,6 +18,7 @@ export const systemRouter = router({
       z.object({
         title: z.string().min(1, "title is required"),
         content: z.string().min(1, "content is required"),
+        severity: z.enum(["info", "warning", "critical"]).optional(),
       })
     )
     .mutation(async ({ input }) => {
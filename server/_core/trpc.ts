@@ -1,7 +1,9 @@
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { z } from "zod";
 import type { TrpcContext } from "./context";
+import { assertClientAccess } from "./clientAccess";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -27,6 +29,18 @@ const requireUser = t.middleware(async opts => {
 
 export const protectedProcedure = t.procedure.use(requireUser);
 
+/**
+ * For procedures scoped to one client profile - input must include clientId,
+ * and the caller must hold its access token or be signed in as its owner
+ */
+export const clientProcedure = t.procedure
+  .input(z.object({ clientId: z.string() }))
+  .use(async opts => {
+    const { ctx, input, path, next } = opts;
+    await assertClientAccess(ctx, input.clientId, path);
+    return next();
+  });
+
 export const adminProcedure = t.procedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
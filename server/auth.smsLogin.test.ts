@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+// Who already holds the number, and what login linked and logged
+const state = vi.hoisted(() => ({
+  phoneOwner: undefined as { id: string; userId: string | null } | undefined,
+  linked: [] as Array<[string, string]>,
+  logged: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("./_core/db", () => {
+  const signedIn = { id: "user_sms", openId: "sms:+15555550100" };
+  return {
+    db: {
+      select: () => ({ from: () => ({ where: () => ({ limit: async () => [signedIn] }) }) }),
+      update: () => ({ set: () => ({ where: () => ({ returning: async () => [signedIn] }) }) }),
+      insert: () => ({
+        values: async (values: Record<string, unknown>) => { state.logged.push(values); },
+      }),
+    },
+  };
+});
+
+vi.mock("./_core/session", () => ({
+  isSessionConfigured: () => true,
+  setSessionCookie: async () => {},
+  clearSessionCookie: () => {},
+}));
+
+vi.mock("./_core/clientAccess", () => ({
+  authorizeClientAccess: async () => false,
+  createClientAccessToken: async (clientId: string) => `token_${clientId}`,
+}));
+
+vi.mock("./verificationCodes", () => ({
+  isSmsConfigured: () => true,
+  normalizePhone: (phone: string) => phone,
+  verifySmsCode: async () => {},
+}));
+
+vi.mock("./unifiedClientRepository", () => ({
+  findOrCreateClient: async () => ({ id: "client_sms", userId: "user_sms" }),
+  findByPhone: async () => state.phoneOwner,
+  linkPhoneToProfile: async (clientId: string, phone: string) => {
+    state.linked.push([clientId, phone]);
+    return clientId;
+  },
+}));
+
+import { authRouter } from "./authRouter";
+
+const caller = authRouter.createCaller({ req: { headers: {} }, res: {}, user: null, clientToken: null } as unknown as TrpcContext);
+
+beforeEach(() => {
+  state.phoneOwner = undefined;
+  state.linked = [];
+  state.logged = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("SMS login", () => {
+  it("brings in the number's call and text history", async () => {
+    state.phoneOwner = { id: "client_calls", userId: null };
+
+    await caller.verifySmsCode({ phone: "+15555550100", code: "123456" });
+
+    expect(state.linked).toEqual([["client_sms", "+15555550100"]]);
+  });
+
+  it("never merges in a profile that belongs to another account", async () => {
+    state.phoneOwner = { id: "client_email", userId: "user_email" };
+
+    const result = await caller.verifySmsCode({ phone: "+15555550100", code: "123456" });
+
+    expect(result.clientId).toBe("client_sms");
+    expect(state.linked).toEqual([]);
+    expect(state.logged).toContainEqual(expect.objectContaining({
+      clientProfileId: "client_sms",
+      interactionType: "phone_link_conflict",
+      metadata: expect.objectContaining({ phoneNumber: "+15555550100", userId: "user_sms" }),
+    }));
+  });
+});
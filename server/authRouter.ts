@@ -0,0 +1,348 @@
+/**
+ * PASSWORDLESS LOGIN API
+ *
+ * Real user accounts without passwords:
+ * - Email: a single-use magic link (/login?token=...)
+ * - SMS: a 6-digit one-time code
+ *
+ * On success the user row is created (or found), the session cookie is set
+ * and the client's profile is linked to the user, so their history follows
+ * them across browsers and devices instead of living in localStorage.
+ *
+ * Only the profile held by the browser that completes the login is linked -
+ * never one named when the link or code was requested - and a magic link
+ * only works in the browser that asked for it (LOGIN_REQUEST_COOKIE).
+ * Otherwise anyone could email a victim a link that signs them into a
+ * profile the sender can still read.
+ *
+ * Secrets, rate limits and lockout are handled by verificationCodes.ts.
+ */
+
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import { parse as parseCookies } from "cookie";
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { publicProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import { ENV } from "./_core/env";
+import { sendEmail } from "./_core/email";
+import { clearSessionCookie, isSessionConfigured, setSessionCookie } from "./_core/session";
+import { authorizeClientAccess, createClientAccessToken } from "./_core/clientAccess";
+import { getSessionCookieOptions } from "./_core/cookies";
+import type { TrpcContext } from "./_core/context";
+import { user, verificationCode, type User } from "../drizzle/schema";
+import { generateUserId } from "./utils/generateId";
+import { logInteraction } from "./interactionLog";
+import {
+  findByPhone,
+  findOrCreateClient,
+  linkPhoneToProfile,
+  linkUserIdToProfile,
+  updateClientProfile,
+} from "./unifiedClientRepository";
+import {
+  consumeVerification,
+  createVerification,
+  generateSmsCode,
+  hashSecret,
+  isSmsConfigured,
+  normalizePhone,
+  sendSmsCode,
+  verifySmsCode,
+} from "./verificationCodes";
+
+type LoginChannel = "email" | "sms";
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const SMS_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Ties a magic link to the browser that requested it
+const LOGIN_REQUEST_COOKIE = "jt_login_request";
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function assertLoginConfigured(channel: LoginChannel) {
+  const channelReady = channel === "email"
+    ? Boolean(ENV.smtpHost)
+    : isSmsConfigured();
+
+  if (!isSessionConfigured() || !channelReady) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `${channel === "email" ? "Email" : "SMS"} login is not available right now`,
+    });
+  }
+}
+
+/**
+ * The anonymous profile to bring into the account - only if this browser
+ * actually holds it, otherwise login would hand over someone else's history
+ */
+async function resolveLinkableClient(
+  ctx: TrpcContext,
+  clientId: string | undefined,
+  path: string
+): Promise<string | undefined> {
+  if (!clientId) return undefined;
+  return (await authorizeClientAccess(ctx, clientId, path)) ? clientId : undefined;
+}
+
+/**
+ * Remember this browser asked for a magic link. The link's secret is only
+ * valid together with this value, so it can't be completed anywhere else.
+ */
+function bindLoginRequest(ctx: TrpcContext): string {
+  const binding = randomBytes(16).toString("base64url");
+  ctx.res.cookie(LOGIN_REQUEST_COOKIE, binding, {
+    ...getSessionCookieOptions(ctx.req),
+    maxAge: MAGIC_LINK_TTL_MS,
+  });
+  return binding;
+}
+
+function readLoginRequest(ctx: TrpcContext): string | null {
+  const header = ctx.req.headers?.cookie;
+  return header ? parseCookies(header)[LOGIN_REQUEST_COOKIE] ?? null : null;
+}
+
+function magicLinkSecret(token: string, binding: string): string {
+  return `${token}.${binding}`;
+}
+
+async function findOrCreateUser(channel: LoginChannel, destination: string): Promise<User> {
+  const openId = `${channel}:${destination}`;
+  const now = new Date();
+
+  const [existing] = await db
+    .select()
+    .from(user)
+    .where(eq(user.openId, openId))
+    .limit(1);
+
+  if (existing) {
+    const [updated] = await db
+      .update(user)
+      .set({ loginMethod: channel, lastSignedIn: now, updatedAt: now })
+      .where(eq(user.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await db
+    .insert(user)
+    .values({
+      id: generateUserId(),
+      openId,
+      name: channel === "email" ? destination.split("@")[0] : "Friend",
+      email: channel === "email" ? destination : null,
+      phoneNumber: channel === "sms" ? destination : null,
+      loginMethod: channel,
+      lastSignedIn: now,
+    })
+    .returning();
+
+  console.log(`[Auth] Created user ${created.id} via ${channel}`);
+  return created;
+}
+
+/**
+ * Sign the user in and link their client profile.
+ * Returns the clientId the browser should use from now on.
+ */
+async function completeLogin(
+  ctx: TrpcContext,
+  channel: LoginChannel,
+  destination: string,
+  clientProfileId: string | null
+) {
+  const signedIn = await findOrCreateUser(channel, destination);
+
+  // ========================================
+  // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
+  // ========================================
+  // The anonymous profile this browser was using joins the account
+  // (merged into the account's profile if it already has one)
+  if (clientProfileId) {
+    const anonymous = await findOrCreateClient({ type: "clientId", value: clientProfileId }).catch(() => null);
+    // Never take over a profile that already belongs to another account
+    if (anonymous && (!anonymous.userId || anonymous.userId === signedIn.id)) {
+      await linkUserIdToProfile(anonymous.id, signedIn.id);
+    }
+  }
+
+  const profile = await findOrCreateClient({ type: "userId", value: signedIn.id });
+
+  if (channel === "sms") {
+    // Code proves they own the number - bring in their call and text history,
+    // unless another account has already claimed it
+    const phoneOwner = await findByPhone(destination);
+    if (phoneOwner && phoneOwner.id !== profile.id
+        && phoneOwner.userId && phoneOwner.userId !== signedIn.id) {
+      await logInteraction(profile.id, "phone_link_conflict", "auth", {
+        phoneNumber: destination,
+        userId: signedIn.id,
+      });
+    } else {
+      await linkPhoneToProfile(profile.id, destination);
+    }
+  } else if (!profile.email) {
+    await updateClientProfile(profile.id, { email: destination });
+  }
+
+  // Merges can change which profile holds the account
+  const linked = await findOrCreateClient({ type: "userId", value: signedIn.id });
+
+  await setSessionCookie(ctx.req, ctx.res, signedIn.id);
+  await logInteraction(linked.id, "login", "auth", { method: channel, userId: signedIn.id });
+
+  console.log(`[Auth] User ${signedIn.id} signed in via ${channel} (profile ${linked.id})`);
+
+  return {
+    user: signedIn,
+    clientId: linked.id,
+    accessToken: await createClientAccessToken(linked.id),
+  };
+}
+
+export const authRouter = router({
+  me: publicProcedure.query(({ ctx }) => {
+    return ctx.user || null;
+  }),
+
+  logout: publicProcedure.mutation(({ ctx }) => {
+    clearSessionCookie(ctx.req, ctx.res);
+    return { success: true };
+  }),
+
+  /**
+   * Email a magic link. Always reports success so the form can't be used
+   * to check which addresses have accounts.
+   */
+  requestEmailLink: publicProcedure
+    .input(z.object({
+      email: z.string().email(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      assertLoginConfigured("email");
+
+      const email = normalizeEmail(input.email);
+      const token = randomBytes(32).toString("base64url");
+      await createVerification({
+        purpose: "login",
+        channel: "email",
+        destination: email,
+        secret: magicLinkSecret(token, bindLoginRequest(ctx)),
+        ttlMs: MAGIC_LINK_TTL_MS,
+      });
+
+      const baseUrl = ENV.appUrl || `${ctx.req.protocol}://${ctx.req.get("host")}`;
+      const link = `${baseUrl}/login?token=${token}`;
+
+      const sent = await sendEmail({
+        to: email,
+        subject: "Your Just Talk sign-in link",
+        html: `<p>Hi,</p>
+<p>Tap the link below to sign in to Just Talk. It works once, only in the browser where you asked for it, and expires in 15 minutes.</p>
+<p><a href="${link}">Sign in to Just Talk</a></p>
+<p style="color:#888">If you didn't ask for this, you can ignore this email.</p>`,
+      });
+
+      if (!sent) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "We couldn't send the email. Please try again." });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Exchange a magic-link token for a session
+   */
+  verifyEmailLink: publicProcedure
+    .input(z.object({
+      token: z.string().min(1),
+      clientId: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx, path }) => {
+      assertLoginConfigured("email");
+
+      const binding = readLoginRequest(ctx);
+      if (!binding) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Please open this sign-in link in the browser where you requested it.",
+        });
+      }
+
+      const [pending] = await db
+        .select()
+        .from(verificationCode)
+        .where(and(
+          eq(verificationCode.secretHash, hashSecret(magicLinkSecret(input.token, binding))),
+          eq(verificationCode.purpose, "login"),
+          eq(verificationCode.channel, "email"),
+          isNull(verificationCode.consumedAt)
+        ))
+        .limit(1);
+
+      if (!pending || pending.expiresAt < new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This sign-in link has expired, was already used, or was requested from another browser.",
+        });
+      }
+
+      await consumeVerification(pending.id);
+      ctx.res.clearCookie(LOGIN_REQUEST_COOKIE, getSessionCookieOptions(ctx.req));
+
+      const clientId = await resolveLinkableClient(ctx, input.clientId, path);
+      return completeLogin(ctx, "email", pending.destination, clientId ?? null);
+    }),
+
+  /**
+   * Text a one-time code
+   */
+  requestSmsCode: publicProcedure
+    .input(z.object({
+      phone: z.string().min(7),
+    }))
+    .mutation(async ({ input }) => {
+      assertLoginConfigured("sms");
+
+      const phone = normalizePhone(input.phone);
+      const code = generateSmsCode();
+      await createVerification({
+        purpose: "login",
+        channel: "sms",
+        destination: phone,
+        secret: code,
+        ttlMs: SMS_CODE_TTL_MS,
+      });
+
+      await sendSmsCode(phone, `${code} is your Just Talk sign-in code. It expires in 10 minutes.`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Exchange an SMS code for a session
+   */
+  verifySmsCode: publicProcedure
+    .input(z.object({
+      phone: z.string().min(7),
+      code: z.string().regex(/^\d{6}$/),
+      clientId: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx, path }) => {
+      assertLoginConfigured("sms");
+
+      const phone = normalizePhone(input.phone);
+
+      await verifySmsCode("login", phone, input.code);
+
+      const clientId = await resolveLinkableClient(ctx, input.clientId, path);
+      return completeLogin(ctx, "sms", phone, clientId ?? null);
+    }),
+});
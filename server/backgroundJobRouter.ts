@@ -0,0 +1,48 @@
+/**
+ * BACKGROUND JOB API (ADMIN ONLY)
+ *
+ * Queue health and the dead letters - jobs that failed every attempt
+ * (see jobQueue.ts). An admin can retry one with a fresh set of attempts,
+ * or discard it once it's been dealt with another way.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, router } from "./_core/trpc";
+import { countJobsByStatus, discardDeadJob, listFailedJobs, retryDeadJob } from "./jobQueue";
+
+export const backgroundJobRouter = router({
+  /**
+   * Job counts by status, and the jobs that are failing or dead
+   */
+  status: adminProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(500).default(100),
+    }).optional())
+    .query(async ({ input }) => {
+      const [counts, failed] = await Promise.all([countJobsByStatus(), listFailedJobs(input?.limit ?? 100)]);
+      return { counts, failed };
+    }),
+
+  retry: adminProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!await retryDeadJob(input.jobId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No dead job ${input.jobId}` });
+      }
+
+      console.log(`[Jobs] ${ctx.user.id} retried dead job ${input.jobId}`);
+      return { success: true };
+    }),
+
+  discard: adminProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!await discardDeadJob(input.jobId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No dead job ${input.jobId}` });
+      }
+
+      console.log(`[Jobs] ${ctx.user.id} discarded dead job ${input.jobId}`);
+      return { success: true };
+    }),
+});
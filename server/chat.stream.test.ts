@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Each call's signal, and what the next call hands back
+const state = vi.hoisted(() => ({
+  signals: [] as Array<AbortSignal | undefined>,
+  respond: (() => new Promise<never>(() => {})) as () => Promise<AsyncIterable<string>>,
+}));
+
+// A failed stream never reaches the database
+vi.mock("./_core/db", () => ({ db: {} }));
+
+vi.mock("./_core/llm", async importOriginal => ({
+  ...(await importOriginal<typeof import("./_core/llm")>()),
+  invokeLLMStream: async (_params: unknown, options: { signal?: AbortSignal } = {}) => {
+    state.signals.push(options.signal);
+    return state.respond();
+  },
+}));
+
+import { streamChatTurn } from "./routers";
+
+const turn = {
+  clientId: "client_1",
+  conversationId: "conv_1",
+  context: {},
+  messages: [{ role: "user", content: "hi" }],
+} as unknown as Parameters<typeof streamChatTurn>[0];
+
+async function drain(events: AsyncGenerator<unknown>) {
+  const seen: unknown[] = [];
+  for await (const event of events) seen.push(event);
+  return seen;
+}
+
+beforeEach(() => {
+  state.signals = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("streamChatTurn", () => {
+  it("relays deltas, then fails the stream when generation breaks off", async () => {
+    state.respond = async () => (async function* () {
+      yield "I'm ";
+      throw new Error("LLM stream stalled: no data for 15000ms");
+    })();
+
+    const seen: unknown[] = [];
+    await expect((async () => {
+      for await (const event of streamChatTurn(turn)) seen.push(event);
+    })()).rejects.toThrow(/stalled/);
+
+    expect(seen).toEqual([{ type: "delta", text: "I'm " }]);
+  });
+
+  it("cancels each request that times out before it connects", async () => {
+    vi.useFakeTimers();
+    state.respond = () => new Promise<never>(() => {});
+
+    const result = drain(streamChatTurn(turn)).catch(error => error);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBeInstanceOf(Error);
+    expect(state.signals).toHaveLength(3); // First try and two retries
+    expect(state.signals.every(signal => signal?.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PRIVACY_VERSION, TERMS_VERSION } from "@shared/const";
+
+// The latest row each select finds, every insert written, and the crisis path's calls
+const state = vi.hoisted(() => ({
+  latest: null as Record<string, unknown> | null,
+  inserted: [] as Array<Record<string, unknown>>,
+  detection: { isCrisis: false, level: "none" } as { isCrisis: boolean; level: string },
+  alerts: [] as unknown[][],
+}));
+
+vi.mock("./_core/db", () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({ limit: async () => (state.latest ? [state.latest] : []) }),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => { state.inserted.push(values); },
+    }),
+  },
+}));
+
+vi.mock("./crisisDetection", () => ({
+  detectCrisisWithReview: async () => state.detection,
+  queueCrisisAlert: async (...args: unknown[]) => { state.alerts.push(args); },
+}));
+
+import {
+  checkPreConsentCrisis,
+  getConsentStatus,
+  parseConsentReply,
+  recordConsent,
+  requestConsent,
+  wasConsentRequested,
+} from "./consent";
+
+beforeEach(() => {
+  state.latest = null;
+  state.inserted = [];
+  state.detection = { isCrisis: false, level: "none" };
+  state.alerts = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("parseConsentReply", () => {
+  it.each(["YES", "yes!", "Yeah sure", "I agree", "ok", "  y"])("accepts %j", reply => {
+    expect(parseConsentReply(reply)).toBe("accepted");
+  });
+
+  it.each(["no", "NO thanks", "nope", "I don't", "decline"])("declines %j", reply => {
+    expect(parseConsentReply(reply)).toBe("declined");
+  });
+
+  it.each(["", "what are the terms?", "hello", "yesterday was awful", "nobody listens to me"])(
+    "doesn't read %j as an answer",
+    reply => {
+      expect(parseConsentReply(reply)).toBeNull();
+    }
+  );
+});
+
+describe("getConsentStatus", () => {
+  it("asks a new client for consent", async () => {
+    expect(await getConsentStatus("client_1")).toMatchObject({ current: false, needsReconsent: false, acceptedAt: null });
+  });
+
+  it("is current once the current versions are accepted", async () => {
+    const createdAt = new Date("2026-02-01T00:00:00Z");
+    state.latest = { termsVersion: TERMS_VERSION, privacyVersion: PRIVACY_VERSION, createdAt };
+
+    expect(await getConsentStatus("client_1")).toMatchObject({ current: true, needsReconsent: false, acceptedAt: createdAt });
+  });
+
+  it("asks again when either document has changed", async () => {
+    state.latest = { termsVersion: TERMS_VERSION, privacyVersion: "2025-01-01", createdAt: new Date() };
+
+    expect(await getConsentStatus("client_1")).toMatchObject({ current: false, needsReconsent: true, acceptedAt: null });
+  });
+});
+
+describe("recording consent", () => {
+  it("stores the versions accepted and logs the acceptance", async () => {
+    await recordConsent({ clientId: "client_1", channel: "sms", ageAttestation: "adult", evidence: "YES" });
+
+    expect(state.inserted[0]).toMatchObject({
+      clientProfileId: "client_1",
+      termsVersion: TERMS_VERSION,
+      privacyVersion: PRIVACY_VERSION,
+      channel: "sms",
+      ageAttestation: "adult",
+      evidence: "YES",
+    });
+    expect(state.inserted[1]).toMatchObject({ interactionType: "consent_accepted", target: "sms" });
+  });
+
+  it("only reads a yes as consent to the versions that were asked about", async () => {
+    const prompt = await requestConsent("client_1", "sms", false);
+    expect(prompt).toContain("Reply YES");
+    state.latest = state.inserted[0];
+    expect(await wasConsentRequested("client_1", "sms")).toBe(true);
+
+    state.latest = { metadata: { termsVersion: "2025-01-01", privacyVersion: PRIVACY_VERSION } };
+    expect(await wasConsentRequested("client_1", "sms")).toBe(false);
+  });
+});
+
+describe("checkPreConsentCrisis", () => {
+  it("lets ordinary messages wait for consent", async () => {
+    expect(await checkPreConsentCrisis("client_1", "hi there")).toBe(false);
+    expect(state.alerts).toEqual([]);
+  });
+
+  it("alerts the owner for high risk before consent", async () => {
+    state.detection = { isCrisis: true, level: "high" };
+
+    expect(await checkPreConsentCrisis("client_1", "I want to end it")).toBe(true);
+    expect(state.alerts).toEqual([["client_1", state.detection, "I want to end it"]]);
+  });
+
+  it("gives crisis resources without an alert for lower risk", async () => {
+    state.detection = { isCrisis: true, level: "low" };
+
+    expect(await checkPreConsentCrisis("client_1", "everything feels pointless")).toBe(true);
+    expect(state.alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * CONSENT AND AGE GATING
+ *
+ * The Terms require users to be 13 or older, with a parent's permission
+ * under 18. Before Sage talks with anyone, they accept the current Terms
+ * of Service and Privacy Policy and attest to their age:
+ * - web: a checkbox and an age choice (consentRouter.accept)
+ * - voice: a spoken "yes" at the start of the call (conversationRelay.ts)
+ * - SMS: a "YES" reply (handleIncomingSMS)
+ *
+ * Every acceptance is a consent_record row with the document versions, so
+ * bumping TERMS_VERSION or PRIVACY_VERSION in shared/const.ts asks every
+ * client to accept again. Until they do, nothing they say is stored - but
+ * someone in crisis always gets crisis resources, and the owner alert.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { PRIVACY_VERSION, TERMS_VERSION, type AgeAttestation } from "@shared/const";
+import { db } from "./_core/db";
+import { consentRecord, interactionLog } from "../drizzle/schema";
+import { detectCrisisWithReview, queueCrisisAlert } from "./crisisDetection";
+import { generateConsentId } from "./utils/generateId";
+import { logInteraction } from "./interactionLog";
+
+export type ConsentChannel = "web" | "voice" | "sms";
+
+export interface ConsentStatus {
+  current: boolean; // Accepted the current versions
+  needsReconsent: boolean; // Accepted before, but the documents have changed since
+  termsVersion: string;
+  privacyVersion: string;
+  acceptedAt: Date | null;
+}
+
+export const PRE_CONSENT_CRISIS_RESOURCES =
+  "If you're in danger or thinking about hurting yourself, please call or text 988 (Suicide & Crisis Lifeline) - " +
+  "they're there 24/7. If it's an emergency, call 911.";
+
+const ACCEPT_PATTERN = /^\W*(yes|yeah|yep|yup|y|i agree|agree|agreed|i accept|accept|i do|sure|ok|okay)\b/i;
+const DECLINE_PATTERN = /^\W*(no|nope|nah|n|i don'?t|i do not|decline|disagree)\b/i;
+
+/**
+ * Whether the client has accepted the current Terms and Privacy Policy
+ */
+export async function getConsentStatus(clientId: string): Promise<ConsentStatus> {
+  const [latest] = await db
+    .select()
+    .from(consentRecord)
+    .where(eq(consentRecord.clientProfileId, clientId))
+    .orderBy(desc(consentRecord.createdAt))
+    .limit(1);
+
+  const current = Boolean(
+    latest && latest.termsVersion === TERMS_VERSION && latest.privacyVersion === PRIVACY_VERSION
+  );
+
+  return {
+    current,
+    needsReconsent: Boolean(latest) && !current,
+    termsVersion: TERMS_VERSION,
+    privacyVersion: PRIVACY_VERSION,
+    acceptedAt: current ? latest.createdAt : null,
+  };
+}
+
+/**
+ * Record that the client accepted the current versions
+ */
+export async function recordConsent(input: {
+  clientId: string;
+  channel: ConsentChannel;
+  ageAttestation: AgeAttestation;
+  evidence?: string;
+  ipAddress?: string | null;
+}): Promise<void> {
+  await db.insert(consentRecord).values({
+    id: generateConsentId(),
+    clientProfileId: input.clientId,
+    termsVersion: TERMS_VERSION,
+    privacyVersion: PRIVACY_VERSION,
+    channel: input.channel,
+    ageAttestation: input.ageAttestation,
+    evidence: input.evidence?.slice(0, 500) ?? null,
+    ipAddress: input.ipAddress ?? null,
+  });
+
+  await logInteraction(input.clientId, "consent_accepted", input.channel, {
+    termsVersion: TERMS_VERSION,
+    privacyVersion: PRIVACY_VERSION,
+    ageAttestation: input.ageAttestation,
+  });
+
+  console.log(`[Consent] ${input.clientId} accepted terms ${TERMS_VERSION} / privacy ${PRIVACY_VERSION} via ${input.channel}`);
+}
+
+/**
+ * Ask for consent on phone or SMS - logged, so a later "yes" is known to be an answer
+ */
+export async function requestConsent(
+  clientId: string,
+  channel: "voice" | "sms",
+  needsReconsent: boolean
+): Promise<string> {
+  await logInteraction(clientId, "consent_requested", channel, {
+    termsVersion: TERMS_VERSION,
+    privacyVersion: PRIVACY_VERSION,
+    needsReconsent,
+  });
+  return getConsentPrompt(channel, needsReconsent);
+}
+
+/**
+ * Whether the last consent question on this channel was for the current versions
+ */
+export async function wasConsentRequested(clientId: string, channel: "voice" | "sms"): Promise<boolean> {
+  const [request] = await db
+    .select()
+    .from(interactionLog)
+    .where(and(
+      eq(interactionLog.clientProfileId, clientId),
+      eq(interactionLog.interactionType, "consent_requested"),
+      eq(interactionLog.target, channel)
+    ))
+    .orderBy(desc(interactionLog.timestamp))
+    .limit(1);
+
+  const metadata = request?.metadata as Record<string, unknown> | undefined;
+  return metadata?.termsVersion === TERMS_VERSION && metadata?.privacyVersion === PRIVACY_VERSION;
+}
+
+/**
+ * Read a spoken or texted answer to the consent question
+ */
+export function parseConsentReply(text: string): "accepted" | "declined" | null {
+  if (DECLINE_PATTERN.test(text)) return "declined";
+  if (ACCEPT_PATTERN.test(text)) return "accepted";
+  return null;
+}
+
+/**
+ * The consent question for phone and SMS, where there's no checkbox
+ */
+function getConsentPrompt(channel: "voice" | "sms", needsReconsent: boolean): string {
+  const documents = channel === "sms"
+    ? "our Terms (just-talk.onrender.com/terms) and Privacy Policy (just-talk.onrender.com/privacy)"
+    : "our Terms of Service and Privacy Policy, which you can read at just-talk dot onrender dot com";
+  const answer = channel === "sms" ? "Reply YES to agree." : "Just say yes or no.";
+
+  if (needsReconsent) {
+    return `Before we keep talking - we've updated ${documents}. Do you agree to the new versions, and confirm you're 13 or older, with a parent's permission if you're under 18? ${answer}`;
+  }
+
+  return `Hi, I'm Sage. Before we talk, a quick check: Just Talk is for people 13 and older, and if you're under 18 you need a parent's permission. Do you confirm that, and agree to ${documents}? ${answer}`;
+}
+
+/**
+ * Safety comes before consent: if a message sent before consent shows crisis,
+ * alert the owner for high risk and tell the caller to include crisis resources.
+ * Nothing is stored but the owner alert's job (encrypted, deleted once sent).
+ */
+export async function checkPreConsentCrisis(clientId: string, text: string): Promise<boolean> {
+  const detection = await detectCrisisWithReview(text);
+  if (!detection.isCrisis) return false;
+
+  if (detection.level === "critical" || detection.level === "high") {
+    await queueCrisisAlert(clientId, detection, text);
+  }
+
+  return true;
+}
@@ -0,0 +1,54 @@
+/**
+ * CONSENT API
+ *
+ * The web side of consent (see consent.ts): whether the client has
+ * accepted the current Terms and Privacy Policy, and the checkbox that
+ * records it. Chat replies with consentRequired until accept is called.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { AGE_ATTESTATIONS, PRIVACY_VERSION, TERMS_VERSION } from "@shared/const";
+import { clientProcedure, router } from "./_core/trpc";
+import { getConsentStatus, recordConsent } from "./consent";
+
+export const consentRouter = router({
+  status: clientProcedure
+    .query(async ({ input }) => {
+      return getConsentStatus(input.clientId);
+    }),
+
+  /**
+   * Accept the Terms and Privacy Policy the client was shown.
+   * Versions are checked so a page left open across an update can't accept documents it never showed.
+   */
+  accept: clientProcedure
+    .input(z.object({
+      termsVersion: z.string(),
+      privacyVersion: z.string(),
+      ageAttestation: z.enum(AGE_ATTESTATIONS),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.termsVersion !== TERMS_VERSION || input.privacyVersion !== PRIVACY_VERSION) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Our Terms or Privacy Policy changed since this page loaded. Please reload and review them.",
+        });
+      }
+
+      // meets_age_requirement is the spoken/texted answer - the web form asks which applies
+      if (input.ageAttestation === "meets_age_requirement") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Please tell us whether you're 18 or older." });
+      }
+
+      await recordConsent({
+        clientId: input.clientId,
+        channel: "web",
+        ageAttestation: input.ageAttestation,
+        evidence: "Ticked the Terms and Privacy Policy checkbox",
+        ipAddress: ctx.req.ip ?? null,
+      });
+
+      return getConsentStatus(input.clientId);
+    }),
+});
@@ -0,0 +1,108 @@
+/**
+ * TOKEN-BUDGETED CONTEXT PACKING
+ *
+ * buildSmartContext turns a profile into many small context items (one
+ * relationship, one goal, one past moment...). This fits them into the
+ * caller's maxTokens, counted with the real tokenizer (o200k_base, the
+ * gpt-4.1 family's encoding), in priority order:
+ *
+ * 1. safety  - crisis risk and safety plan. Always kept, even over budget
+ * 2. core    - the rest of Tier 1 (identity, people, life events), in order
+ * 3. ranked  - Tier 2, Tier 3 and synthesis items, highest score first
+ *
+ * Whatever doesn't fit is dropped whole and listed in the truncation
+ * report, so a thin context can be debugged. Pure - no database access.
+ */
+
+import { Tiktoken } from "js-tiktoken/lite";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+export type ContextTier = "core" | "active" | "historical" | "synthesis";
+
+export const CONTEXT_TIERS: ContextTier[] = ["core", "active", "historical", "synthesis"];
+
+export interface ContextItem {
+  id: string; // e.g. "relationship:rel_123" - named in the truncation report
+  tier: ContextTier;
+  section: string; // Header the item is listed under, e.g. "--- CURRENT GOALS ---"
+  text: string;
+  priority: "safety" | "core" | "ranked";
+  score?: number; // Ranked items only - higher packs first
+}
+
+export interface ContextTruncation {
+  budget: number;
+  used: number;
+  dropped: Array<{ id: string; tier: ContextTier; section: string; tokens: number }>;
+  overBudget: boolean; // Safety items alone didn't fit - they were kept anyway
+}
+
+export interface PackedContext {
+  tiers: Record<ContextTier, string>;
+  truncation: ContextTruncation;
+}
+
+const PRIORITY_ORDER: Record<ContextItem["priority"], number> = { safety: 0, core: 1, ranked: 2 };
+
+let encoder: Tiktoken | null = null;
+
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  encoder ??= new Tiktoken(o200k_base);
+  return encoder.encode(text).length;
+}
+
+/**
+ * Fit items into `budget` tokens and render each tier.
+ * Sections and items keep the order they were given in; only what's kept changes.
+ */
+export function packContext(items: ContextItem[], budget: number): PackedContext {
+  const order = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.item.priority] - PRIORITY_ORDER[b.item.priority]
+      || (b.item.score ?? 0) - (a.item.score ?? 0)
+      || a.index - b.index
+    );
+
+  const kept = new Set<number>();
+  const openSections = new Set<string>();
+  const dropped: ContextTruncation["dropped"] = [];
+  let used = 0;
+
+  for (const { item, index } of order) {
+    const sectionKey = `${item.tier}:${item.section}`;
+    // A section's header (and the blank line before it) is paid for by its first item
+    const headerCost = openSections.has(sectionKey) ? 0 : countTokens(`\n${item.section}\n`);
+    const cost = headerCost + countTokens(`${item.text}\n`);
+
+    if (item.priority !== "safety" && used + cost > budget) {
+      dropped.push({ id: item.id, tier: item.tier, section: item.section, tokens: cost });
+      continue;
+    }
+
+    kept.add(index);
+    openSections.add(sectionKey);
+    used += cost;
+  }
+
+  const tiers = {} as Record<ContextTier, string>;
+  for (const tier of CONTEXT_TIERS) {
+    const sections = new Map<string, string[]>();
+    items.forEach((item, index) => {
+      if (item.tier !== tier || !kept.has(index)) return;
+      const lines = sections.get(item.section) ?? [];
+      lines.push(item.text);
+      sections.set(item.section, lines);
+    });
+
+    tiers[tier] = [...sections.entries()]
+      .map(([section, lines]) => [section, ...lines].join("\n"))
+      .join("\n\n");
+  }
+
+  return {
+    tiers,
+    truncation: { budget, used, dropped, overBudget: used > budget },
+  };
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+
+// Every message stored
+const state = vi.hoisted(() => ({
+  saved: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("./_core/env", async importOriginal => ({
+  ENV: { ...(await importOriginal<typeof import("./_core/env")>()).ENV, openaiApiKey: "sk-test" },
+}));
+
+vi.mock("./_core/db", () => ({
+  db: {
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => { state.saved.push(values); },
+    }),
+  },
+}));
+
+// Payments create a Stripe client on load
+vi.mock("./phonePayment", () => ({}));
+
+import { streamResponse } from "./conversationRelay";
+
+const encoder = new TextEncoder();
+
+function sse(text: string): Uint8Array {
+  const chunk = { id: "c1", created: 0, model: "m", choices: [{ index: 0, delta: { content: text }, finish_reason: null }] };
+  return encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`);
+}
+
+// The model sends `chunks` and then goes quiet, never finishing the reply
+function stallAfter(chunks: Uint8Array[]) {
+  const requests: RequestInit[] = [];
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    requests.push(init);
+    return new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+      },
+    }));
+  });
+  return requests;
+}
+
+function call() {
+  const sent: Array<{ token: string; last: boolean }> = [];
+  const ws = { send: (data: string) => sent.push(JSON.parse(data)) } as unknown as WebSocket;
+  const session = {
+    clientId: "client_1",
+    conversationId: "conv_1",
+    history: [],
+    fullTranscript: "",
+  } as unknown as Parameters<typeof streamResponse>[1];
+  return { ws, session, sent };
+}
+
+const FALLBACK = "I'm here... tell me more.";
+
+beforeEach(() => {
+  state.saved = [];
+  vi.useFakeTimers();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("streamResponse", () => {
+  it("falls back to the safe reply when the model goes quiet before saying anything", async () => {
+    const requests = stallAfter([]);
+    const { ws, session, sent } = call();
+
+    const reply = streamResponse(ws, session, [], FALLBACK);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await reply).toBe(FALLBACK);
+    expect(sent.map(s => [s.token, s.last])).toEqual([[FALLBACK, false], ["", true]]);
+    expect(requests[0].signal?.aborted).toBe(true);
+    expect(session.activeGeneration).toBeUndefined();
+  });
+
+  it("keeps what was already said and closes the turn when the model stalls mid-reply", async () => {
+    stallAfter([sse("That sounds hard. "), sse("What")]);
+    const { ws, session, sent } = call();
+
+    const reply = streamResponse(ws, session, [], FALLBACK);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await reply).toBe("That sounds hard.");
+    expect(sent.map(s => s.token)).toEqual(["That sounds hard. ", ""]);
+    expect(state.saved[0]).toMatchObject({ role: "assistant", content: "That sounds hard." });
+  });
+
+  it("cancels a request that never connects", async () => {
+    const requests: RequestInit[] = [];
+    vi.stubGlobal("fetch", (_url: string, init: RequestInit) => {
+      requests.push(init);
+      return new Promise<never>(() => {});
+    });
+    const { ws, session, sent } = call();
+
+    const reply = streamResponse(ws, session, [], FALLBACK);
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(await reply).toBe(FALLBACK);
+    expect(sent.at(-1)).toMatchObject({ token: "", last: true });
+    expect(requests[0].signal?.aborted).toBe(true);
+  });
+
+  it("treats an interrupt as a cancellation, not a failure", async () => {
+    stallAfter([]);
+    const { ws, session, sent } = call();
+
+    const reply = streamResponse(ws, session, [], FALLBACK);
+    await vi.advanceTimersByTimeAsync(0);
+    session.spokenBeforeInterrupt = "";
+    session.activeGeneration?.abort();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await reply).toBe("");
+    expect(sent).toEqual([]);
+  });
+});
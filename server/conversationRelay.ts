@@ -33,15 +33,23 @@
 
 import { WebSocket, WebSocketServer } from "ws";
 import { IncomingMessage } from "http";
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM, invokeLLMStream, type Message } from "./_core/llm";
+import { API_TIMEOUTS, withTimeout } from "./_core/apiConfig";
 import { db } from "./_core/db";
 import { client, message, conversation } from "../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 import { generateMessageId, generateConversationId } from "./utils/generateId";
+import { logInteraction } from "./interactionLog";
 import { findOrCreateClient, getUnifiedClientContext, updateClientProfile } from "./unifiedClientRepository";
 import { startPhonePayment, processPaymentSpeech, isInPaymentFlow, detectSubscriptionIntent, getPaymentContext, handleReturningPaymentCaller, checkSubscriptionStatus } from "./phonePayment";
 import { buildSmartContext } from "./smartContextBuilder";
-import { updateProfileAfterInteraction } from "./postInteractionUpdater";
+import { enqueueJob } from "./jobQueue";
+import { getDtmfAction } from "./dtmfMenu";
+import { detectCrisis, updateCrisisTrajectory } from "./crisisDetection";
+import { checkGuardrails, logGuardrailViolations, type GuardrailViolation } from "./guardrails";
+import { enforceGuardrails } from "./guardrailReview";
+import { getRelevantMemoriesContext } from "./memoryRetrieval";
+import { checkPreConsentCrisis, getConsentStatus, parseConsentReply, recordConsent, requestConsent, wasConsentRequested } from "./consent";
 
 // Store active sessions
 interface ConversationSession {
@@ -59,8 +67,21 @@ interface ConversationSession {
   phoneNumber: string;
   clientName?: string;
   clientContext?: string; // AI-ready context string with all client details
+  relevantMemories?: string; // Tier 3: past moments retrieved for the latest utterance
   fullTranscript: string; // NEW: For post-interaction profile update
   paymentNullCount: number; // NEW: Track consecutive null responses to prevent loops
+  activeGeneration?: AbortController; // In-flight LLM stream - aborted when the caller interrupts
+  spokenBeforeInterrupt?: string; // Set when an interrupt lands mid-generation
+  lastAssistantTurn?: AssistantTurn; // Most recent reply, trimmed if the caller barges in
+  awaitingConsent: boolean; // Hasn't accepted the current Terms - nothing is stored until they do
+  needsReconsent: boolean; // Accepted an older version
+}
+
+interface AssistantTurn {
+  content: string;
+  fullContent: string; // Untrimmed reply, for "repeat that" requests
+  messageId: Promise<string | null>;
+  interrupted: boolean;
 }
 
 const activeSessions = new Map<string, ConversationSession>();
@@ -97,10 +118,16 @@ export function createConversationRelayServer(server: any): WebSocketServer {
           
           case "interrupt":
             console.log("[ConversationRelay] Caller interrupted");
+            if (session) {
+              await handleInterrupt(session, message);
+            }
             break;
           
           case "dtmf":
             console.log("[ConversationRelay] DTMF:", message.digit);
+            if (session) {
+              await handleDtmf(ws, session, message.digit);
+            }
             break;
           
           case "error":
@@ -120,17 +147,18 @@ export function createConversationRelayServer(server: any): WebSocketServer {
         // CRITICAL: Update profile after conversation ends
         // This extracts relationships, life events, insights, etc.
         if (session.fullTranscript && session.fullTranscript.length > 100) {
-          console.log(`[ConversationRelay] Triggering post-interaction profile update for ${session.clientProfileId}`);
+          console.log(`[ConversationRelay] Queueing post-interaction profile update for ${session.clientProfileId}`);
           try {
-            await updateProfileAfterInteraction(
-              session.clientProfileId,
-              session.conversationId,
-              session.fullTranscript,
-              "voice"
-            );
-            console.log(`[ConversationRelay] Profile update complete for ${session.clientProfileId}`);
+            await enqueueJob("post_interaction_update", {
+              conversationId: session.conversationId,
+              channel: "voice",
+              transcript: session.fullTranscript,
+            }, {
+              clientProfileId: session.clientProfileId,
+              idempotencyKey: `post_interaction_update:${session.conversationId}`,
+            });
           } catch (error) {
-            console.error(`[ConversationRelay] Error updating profile:`, error);
+            console.error(`[ConversationRelay] Error queueing profile update:`, error);
           }
         }
       }
@@ -166,12 +194,12 @@ async function handleSetup(ws: WebSocket, message: any): Promise<ConversationSes
   
   // Use the NEW Smart Context Builder for three-tier memory
   const smartContext = await buildSmartContext(clientRecord.id, {
+    channel: "voice",
     includeRelationships: true,
     includeGoals: true,
     includeEmotionalProfile: true,
     includeRecentConversations: true,
-    includeKeyInsights: true,
-    maxTokens: 2000
+    includeKeyInsights: true
   });
   
   // Also get legacy context for backwards compatibility
@@ -179,6 +207,9 @@ async function handleSetup(ws: WebSocket, message: any): Promise<ConversationSes
   
   // Check subscription status
   const isSubscribed = context.subscription.tier !== "free";
+
+  // Callers without consent were asked for it in the TwiML greeting
+  const consent = await getConsentStatus(clientRecord.id);
   
   // Create conversation - MUST link to clientProfileId for unified profile
   const conversationId = generateConversationId();
@@ -212,12 +243,20 @@ async function handleSetup(ws: WebSocket, message: any): Promise<ConversationSes
     clientContext: smartContext.fullContext, // NEW: Use smart context builder output
     fullTranscript: "", // Will accumulate during conversation
     paymentNullCount: 0, // Track consecutive null responses to prevent loops
+    awaitingConsent: !consent.current,
+    needsReconsent: consent.needsReconsent,
   };
   
   console.log(`[ConversationRelay] Smart context loaded (${smartContext.totalTokens} tokens): ${smartContext.fullContext ? smartContext.fullContext.substring(0, 200) + '...' : 'NONE'}`);
 
   activeSessions.set(callSid, session);
 
+  // The greeting was the consent question - the conversation starts once they say yes
+  if (session.awaitingConsent) {
+    console.log(`[ConversationRelay] Waiting for consent from ${session.clientId}`);
+    return session;
+  }
+
     // NOTE: Welcome greeting is handled by TwiML welcomeGreeting attribute
   // Do NOT send duplicate greeting here - it causes double audio at different pitches
   // The TwiML greeting is personalized based on client context in twilioRoutes.ts
@@ -245,6 +284,11 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
   if (!last) return;
   
   console.log(`[ConversationRelay] Prompt: "${voicePrompt}"`);
+
+  if (session.awaitingConsent) {
+    await handleConsentAnswer(ws, session, voicePrompt);
+    return;
+  }
   
   // Increment BOTH per-call and total exchange counts
   session.exchangeCount++;
@@ -267,13 +311,20 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
   // Accumulate transcript for post-interaction update
   session.fullTranscript += `\nUser: ${voicePrompt}`;
 
+  // Tier 3: past moments relevant to what they just said (time-boxed - the caller is waiting)
+  session.relevantMemories = await getRelevantMemoriesContext(session.clientId, voicePrompt, session.conversationId);
+
+  // Track risk across the call - off the reply path, callers shouldn't wait on it
+  updateCrisisTrajectory(session.clientId, session.conversationId, detectCrisis(voicePrompt), voicePrompt).catch(err => {
+    console.error('[ConversationRelay] Failed to update crisis trajectory:', err);
+  });
+
   // Check for support escalation requests
   const supportRequest = detectSupportRequest(voicePrompt);
   if (supportRequest.needsSupport) {
     const supportResponse = handleSupportEscalation(supportRequest.type, session.clientName);
     sendTextResponse(ws, supportResponse, true);
-    session.history.push({ role: "assistant", content: supportResponse });
-    await saveMessage(session.conversationId, "assistant", supportResponse);
+    await recordAssistantTurn(session, supportResponse);
     return;
   }
   // Check if in payment flow
@@ -299,18 +350,17 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
         console.log(`[ConversationRelay] LOOP DETECTED - Escaping payment flow for ${session.clientId}`);
         session.paymentNullCount = 0;
         // Don't exit payment flow entirely, but let AI respond naturally without payment redirect
-        const aiResponse = await generateResponse(session, voicePrompt);
-        sendTextResponse(ws, aiResponse, true);
-        session.history.push({ role: "assistant", content: aiResponse });
-        await saveMessage(session.conversationId, "assistant", aiResponse);
+        await streamResponse(ws, session, buildResponseMessages(session), "I'm here... tell me more.");
         return;
       }
       
       const paymentContext = await getPaymentContext(session.clientId);
-      const aiResponse = await generateResponseWithPaymentContext(session, voicePrompt, paymentContext);
-      sendTextResponse(ws, aiResponse, true);
-      session.history.push({ role: "assistant", content: aiResponse });
-      await saveMessage(session.conversationId, "assistant", aiResponse);
+      await streamResponse(
+        ws,
+        session,
+        buildPaymentContextMessages(session, paymentContext),
+        "I'm here to help. What's on your mind?"
+      );
       return;
     }
     
@@ -326,14 +376,12 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
         session.clientName
       );
       sendTextResponse(ws, paymentResult.response, true);
-      session.history.push({ role: "assistant", content: paymentResult.response });
-      await saveMessage(session.conversationId, "assistant", paymentResult.response);
+      await recordAssistantTurn(session, paymentResult.response);
       return;
     }
     
     sendTextResponse(ws, paymentResponse.response, true);
-    session.history.push({ role: "assistant", content: paymentResponse.response });
-    await saveMessage(session.conversationId, "assistant", paymentResponse.response);
+    await recordAssistantTurn(session, paymentResponse.response);
     
     if (paymentResponse.isComplete) {
       // Check REAL subscription status from webhook
@@ -364,8 +412,7 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
         session.clientName
       );
       sendTextResponse(ws, paymentResult.response, true);
-      session.history.push({ role: "assistant", content: paymentResult.response });
-      await saveMessage(session.conversationId, "assistant", paymentResult.response);
+      await recordAssistantTurn(session, paymentResult.response);
       return;
     }
   }
@@ -404,39 +451,390 @@ async function handlePrompt(ws: WebSocket, session: ConversationSession, message
       `It's really easy, and then I can be here for you whenever you need to talk.`;
     
     sendTextResponse(ws, conversionResponse, true);
-    session.history.push({ role: "assistant", content: conversionResponse });
-    await saveMessage(session.conversationId, "assistant", conversionResponse);
-    session.fullTranscript += `\nSage: ${conversionResponse}`;
+    await recordAssistantTurn(session, conversionResponse);
     return;
   }
 
-  // Generate AI response
+  // Generate AI response - streamed to the caller sentence by sentence
   const startTime = Date.now();
-  const aiResponse = await generateResponse(session, voicePrompt);
+  await streamResponse(ws, session, buildResponseMessages(session), "I'm here... tell me more.");
   console.log(`[ConversationRelay] LLM response time: ${Date.now() - startTime}ms`);
+}
 
-  // Stream the response
-  sendTextResponse(ws, aiResponse, true);
-  
-  // Save to history
-  session.history.push({ role: "assistant", content: aiResponse });
-  await saveMessage(session.conversationId, "assistant", aiResponse);
+/**
+ * The caller's answer to the consent question. Nothing they say is stored
+ * until they say yes, but crisis resources always come first.
+ */
+async function handleConsentAnswer(ws: WebSocket, session: ConversationSession, voicePrompt: string): Promise<void> {
+  const reply = parseConsentReply(voicePrompt);
+
+  // Every answer is checked - "yes, but I want to end it all" still needs help
+  const resources = await checkPreConsentCrisis(session.clientId, voicePrompt) ? `${CRISIS_RESOURCES_RESPONSE} ` : "";
+
+  // A "yes" only counts as an answer to a question we actually asked
+  if (reply === "accepted" && await wasConsentRequested(session.clientId, "voice")) {
+    await recordConsent({
+      clientId: session.clientId,
+      channel: "voice",
+      ageAttestation: "meets_age_requirement",
+      evidence: voicePrompt,
+    });
+    session.awaitingConsent = false;
+
+    const greeting = session.clientName
+      ? `Thank you, ${session.clientName}. So... how are you doing, really?`
+      : "Thank you. I'm really glad you called. So... what's on your mind?";
+    sendTextResponse(ws, resources + greeting, true);
+    await recordAssistantTurn(session, resources + greeting);
+    return;
+  }
+
+  const response = reply === "declined"
+    ? "That's okay. I can't talk with you until you agree, but you can say yes any time if you change your mind."
+    : await requestConsent(session.clientId, "voice", session.needsReconsent);
+
+  sendTextResponse(ws, resources + response, true);
+}
+
+/**
+ * Handle dtmf message - caller pressed a key on their keypad.
+ * Every press is logged; mapped keys run their menu action (see dtmfMenu.ts).
+ * Before the caller accepts the Terms nothing is logged or stored, and the
+ * only key that works is the one for crisis resources.
+ */
+async function handleDtmf(ws: WebSocket, session: ConversationSession, digit: string): Promise<void> {
+  const action = await getDtmfAction(digit);
+
+  if (session.awaitingConsent) {
+    if (action === "crisis_resources") {
+      sendTextResponse(ws, CRISIS_RESOURCES_RESPONSE, true);
+    }
+    return;
+  }
+
+  await logInteraction(session.clientId, "dtmf_keypress", digit, {
+    conversationId: session.conversationId,
+    callSid: session.callSid,
+    action: action ?? null,
+  });
+
+  if (!action) return;
+
+  let response: string;
+
+  switch (action) {
+    case "support_info":
+      response = handleSupportEscalation("none", session.clientName);
+      break;
+
+    case "crisis_resources":
+      response = CRISIS_RESOURCES_RESPONSE;
+      break;
+
+    case "resend_payment_link": {
+      session.inPaymentFlow = true;
+      const paymentResult = await startPhonePayment(
+        session.clientId,
+        session.phoneNumber,
+        session.clientName
+      );
+      response = paymentResult.response;
+      break;
+    }
+
+    case "repeat_last_reply":
+      response = session.lastAssistantTurn?.fullContent
+        || [...session.history].reverse().find(entry => entry.role === "assistant")?.content
+        || "I haven't said anything yet - I'm all ears. What's on your mind?";
+      break;
+  }
+
+  sendTextResponse(ws, response, true);
+  await recordAssistantTurn(session, response);
+}
+
+const CRISIS_RESOURCES_RESPONSE =
+  "If you're in danger or thinking about hurting yourself, please call or text 988, the Suicide and Crisis Lifeline. " +
+  "They're there 24/7. If it's an emergency, call 911. " +
+  "You can also text HOME to 741741 to reach the Crisis Text Line. I'm still right here with you.";
+
+/**
+ * Stream an LLM reply to the caller one sentence at a time.
+ *
+ * Each complete sentence is sent as its own text token so TTS starts
+ * speaking while the model is still generating. The generation is
+ * registered on session.activeGeneration so an interrupt can cancel it.
+ * If the model times out or stalls before anything is said, the caller
+ * hears the fallback instead. Whatever was actually sent is saved to
+ * history, the database and the transcript. Returns that text ("" if
+ * nothing was sent).
+ */
+export async function streamResponse(
+  ws: WebSocket,
+  session: ConversationSession,
+  messages: Message[],
+  fallback: string
+): Promise<string> {
+  const controller = new AbortController();
+  session.activeGeneration?.abort();
+  session.activeGeneration = controller;
+
+  let sent = "";
+  let pending = "";
+  let generated = "";
+  const violations: GuardrailViolation[] = [];
+  let blocked = false;
+  let draftLogged = false; // enforceGuardrails logs every violation in the draft
+
+  // Guardrails are checked per sentence, before the caller hears it
+  const speak = (sentence: string): boolean => {
+    generated += sentence;
+    const found = checkGuardrails(sentence);
+
+    if (found.some(v => v.requiresIntervention)) {
+      blocked = true;
+      return false;
+    }
+
+    violations.push(...found);
+    sendTextResponse(ws, sentence, false);
+    sent += sentence;
+    return true;
+  };
+
+  try {
+    // Cancels the request on a timeout - kept apart from `controller`,
+    // which only an interrupt aborts
+    const request = new AbortController();
+    const stream = await withTimeout(
+      invokeLLMStream(
+        {
+          messages,
+          maxTokens: 150,
+          model: "gpt-4.1-nano", // Fastest model for voice
+        },
+        {
+          signal: AbortSignal.any([controller.signal, request.signal]),
+          idleTimeoutMs: API_TIMEOUTS.openaiVoiceStreamIdle, // A stall falls back below
+        }
+      ),
+      API_TIMEOUTS.openai,
+      "OpenAI voice stream"
+    ).catch(error => {
+      request.abort();
+      throw error;
+    });
+
+    streaming: for await (const delta of stream) {
+      pending += delta;
+      const { sentences, remainder } = splitCompleteSentences(pending);
+      pending = remainder;
+
+      for (const sentence of sentences) {
+        if (!speak(sentence)) break streaming;
+      }
+    }
+
+    // Flush whatever trails the last sentence boundary
+    if (!blocked && pending.trim()) {
+      speak(pending);
+    }
+
+    // Regenerate the rest of the reply - the caller has already heard `sent`.
+    // One attempt and regex checks only: the caller is waiting in silence.
+    if (blocked && !controller.signal.aborted) {
+      const heard = sent;
+      draftLogged = true;
+      const guarded = await enforceGuardrails({
+        draft: generated,
+        messages,
+        regenerate: async (corrected) => {
+          // Timing out falls back to the safe alternative
+          const response = await withTimeout(
+            invokeLLM({
+              messages: heard
+                ? [...corrected, { role: "system", content: `The caller has already heard: "${heard}". Reply with only what comes next - don't repeat it.` }]
+                : corrected,
+              maxTokens: 150,
+              model: "gpt-4.1-nano",
+            }),
+            API_TIMEOUTS.openai,
+            "OpenAI voice regeneration"
+          );
+          const content = response.choices[0].message.content;
+          if (typeof content !== "string") throw new Error("Empty regeneration");
+          return content;
+        },
+        fallbackPrefix: "I hear you. ",
+        maxRegenerations: 1,
+        llmReview: false,
+        context: {
+          clientId: session.clientId,
+          conversationId: session.conversationId,
+          channel: "voice",
+        },
+      });
+
+      if (!controller.signal.aborted) {
+        const continuation = (heard ? " " : "") + guarded.content;
+        sendTextResponse(ws, continuation, false);
+        sent += continuation;
+      }
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error("[ConversationRelay] Error streaming response:", error);
+      if (!sent) {
+        sendTextResponse(ws, fallback, false);
+        sent = fallback;
+      }
+    }
+  } finally {
+    if (session.activeGeneration === controller) {
+      session.activeGeneration = undefined;
+    }
+  }
+
+  if (controller.signal.aborted) {
+    console.log(`[ConversationRelay] Generation cancelled by interrupt after ${sent.length} chars`);
+  } else {
+    // Close out the turn so ConversationRelay knows the reply is complete
+    sendTextResponse(ws, "", true);
+  }
+
+  // If the caller barged in, only what they actually heard counts
+  const interrupted = session.spokenBeforeInterrupt !== undefined;
+  const reply = (interrupted ? session.spokenBeforeInterrupt! : sent).trim();
+  session.spokenBeforeInterrupt = undefined;
+  if (!reply) return "";
+
+  await recordAssistantTurn(session, reply, interrupted);
+
+  if (violations.length > 0 && !draftLogged) {
+    await logGuardrailViolations(violations, {
+      clientId: session.clientId,
+      conversationId: session.conversationId,
+      messageId: (await session.lastAssistantTurn?.messageId) ?? undefined,
+      channel: "voice",
+      aiResponse: generated,
+      responseReplaced: blocked,
+    });
+  }
+
+  return reply;
+}
+
+/**
+ * Record an assistant reply in history, the database and the transcript.
+ * Kept as session.lastAssistantTurn so a later interrupt can trim it.
+ */
+async function recordAssistantTurn(
+  session: ConversationSession,
+  content: string,
+  interrupted: boolean = false
+): Promise<void> {
+  session.history.push({ role: "assistant", content });
   
   // Accumulate transcript for post-interaction update
-  session.fullTranscript += `\nSage: ${aiResponse}`;
+  session.fullTranscript += `\nSage: ${content}`;
+
+  // Set before awaiting so an interrupt arriving mid-save still finds this turn
+  const messageId = saveMessage(session.conversationId, "assistant", content, { interrupted });
+  session.lastAssistantTurn = { content, fullContent: content, messageId, interrupted };
+  await messageId;
+}
+
+/**
+ * Handle interrupt message - caller talked over Sage (barge-in).
+ *
+ * ConversationRelay reports utteranceUntilInterrupt, the part of the reply
+ * that was actually spoken. History, transcript and the stored message are
+ * trimmed to that so the model never assumes the caller heard the rest.
+ */
+async function handleInterrupt(session: ConversationSession, event: any): Promise<void> {
+  const spoken = typeof event.utteranceUntilInterrupt === "string"
+    ? event.utteranceUntilInterrupt.trim()
+    : "";
+
+  // Still generating - stop, and let streamResponse record only the spoken part
+  if (session.activeGeneration) {
+    session.spokenBeforeInterrupt = spoken;
+    session.activeGeneration.abort();
+    return;
+  }
+
+  const turn = session.lastAssistantTurn;
+  if (!turn || turn.interrupted || spoken === turn.content) return;
+
+  turn.interrupted = true;
+  console.log(`[ConversationRelay] Trimming interrupted reply to ${spoken.length}/${turn.content.length} chars`);
+
+  // History: replace (or drop, if nothing was heard) the last assistant entry
+  for (let i = session.history.length - 1; i >= 0; i--) {
+    const entry = session.history[i];
+    if (entry.role === "assistant" && entry.content === turn.content) {
+      if (spoken) {
+        entry.content = spoken;
+      } else {
+        session.history.splice(i, 1);
+      }
+      break;
+    }
+  }
+
+  // Transcript: same treatment for the last "Sage:" line
+  const transcriptLine = `\nSage: ${turn.content}`;
+  const lineIndex = session.fullTranscript.lastIndexOf(transcriptLine);
+  if (lineIndex !== -1) {
+    session.fullTranscript =
+      session.fullTranscript.slice(0, lineIndex) +
+      (spoken ? `\nSage: ${spoken}` : "") +
+      session.fullTranscript.slice(lineIndex + transcriptLine.length);
+  }
+
+  turn.content = spoken;
+
+  // Database: keep the row, flagged, with only the spoken text
+  const messageId = await turn.messageId;
+  if (!messageId) return;
+
+  try {
+    await db
+      .update(message)
+      .set({ content: spoken, interrupted: true })
+      .where(eq(message.id, messageId));
+  } catch (error) {
+    console.error("[ConversationRelay] Error trimming interrupted message:", error);
+  }
 }
 
 /**
- * Generate AI response using LLM
+ * Split streamed text into the sentences that are complete so far.
+ * A sentence ends at . ! or ? (plus any closing quotes/brackets)
+ * followed by whitespace; the unfinished tail is returned as remainder.
  */
+function splitCompleteSentences(text: string): { sentences: string[]; remainder: string } {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*\s+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+
+  return { sentences, remainder: text.slice(start) };
+}
+
 /**
- * Generate AI response during payment flow when user asks a question
+ * Build LLM messages for a reply during payment flow when user asks a question
  */
-async function generateResponseWithPaymentContext(
+function buildPaymentContextMessages(
   session: ConversationSession, 
-  userMessage: string, 
   paymentContext: string | null
-): Promise<string> {
+): Message[] {
   let systemPrompt = `You are Sage, a warm, empathetic AI companion.
 
 CURRENT SITUATION: ${paymentContext || 'Helping with payment'}
@@ -466,7 +864,7 @@ IMPORTANT: If they say something unrelated to payment, just respond naturally. D
     systemPrompt += `\n\n=== CLIENT MEMORY ===\n${session.clientContext}`;
   }
 
-  const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+  const messages: Message[] = [
     { role: "system", content: systemPrompt }
   ];
   
@@ -476,17 +874,13 @@ IMPORTANT: If they say something unrelated to payment, just respond naturally. D
     messages.push({ role: msg.role, content: msg.content });
   }
   
-  const response = await invokeLLM({
-    messages,
-    maxTokens: 150,
-    model: "gpt-4.1-nano",
-  });
-  
-  const content = response.choices[0].message.content;
-  return typeof content === "string" ? content : "I'm here to help. What's on your mind?";
+  return messages;
 }
 
-async function generateResponse(session: ConversationSession, userMessage: string): Promise<string> {
+/**
+ * Build LLM messages for a normal conversational reply
+ */
+function buildResponseMessages(session: ConversationSession): Message[] {
   const isTrialUser = !session.isSubscribed;
   const exchangeCount = session.exchangeCount;
 
@@ -502,11 +896,11 @@ async function generateResponse(session: ConversationSession, userMessage: strin
   // CRITICAL: Add client context for memory/continuity
   // This includes personal details like family members, goals, emotional patterns, etc.
   if (session.clientContext) {
-    systemPrompt += `\n\n=== CLIENT MEMORY (CRITICAL - USE THIS!) ===\n${session.clientContext}\n\nIMPORTANT: You MUST use the information above when relevant. If the client asks about their family, goals, or past conversations, reference this information directly. Never pretend to remember something you don't have in this context.`;
+    systemPrompt += `\n\n=== CLIENT MEMORY (CRITICAL - USE THIS!) ===\n${session.clientContext}${session.relevantMemories ? `\n\n${session.relevantMemories}` : ""}\n\nIMPORTANT: You MUST use the information above when relevant. If the client asks about their family, goals, or past conversations, reference this information directly. Never pretend to remember something you don't have in this context.`;
   }
 
   // Build messages
-  const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+  const messages: Message[] = [
     { role: "system", content: systemPrompt }
   ];
 
@@ -516,15 +910,7 @@ async function generateResponse(session: ConversationSession, userMessage: strin
     messages.push({ role: msg.role, content: msg.content });
   }
 
-  // Generate response
-  const response = await invokeLLM({
-    messages,
-    maxTokens: 150,
-    model: "gpt-4.1-nano", // Fastest model for voice
-  });
-
-  const content = response.choices[0].message.content;
-  return typeof content === "string" ? content : "I'm here... tell me more.";
+  return messages;
 }
 
 /**
@@ -661,16 +1047,25 @@ function sendTextResponse(ws: WebSocket, text: string, isLast: boolean = true):
 /**
  * Save message to database
  */
-async function saveMessage(conversationId: string, role: "user" | "assistant" | "system", content: string): Promise<void> {
+async function saveMessage(
+  conversationId: string,
+  role: "user" | "assistant" | "system",
+  content: string,
+  options: { interrupted?: boolean } = {}
+): Promise<string | null> {
   try {
+    const id = generateMessageId();
     await db.insert(message).values({
-      id: generateMessageId(),
+      id,
       conversationId,
       role,
       content,
+      interrupted: options.interrupted ?? false,
     });
+    return id;
   } catch (error) {
     console.error("[ConversationRelay] Error saving message:", error);
+    return null;
   }
 }
 
@@ -0,0 +1,286 @@
+/**
+ * CRISIS CASE MANAGEMENT API (ADMIN ONLY)
+ *
+ * Review queue for crisis_log cases raised by crisis detection.
+ * Reviewers can acknowledge, escalate, annotate and resolve cases.
+ *
+ * Every state change and note is appended to crisis_case_event,
+ * so the full history of how a case was handled is preserved.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import { crisisLog, crisisCaseEvent, clientProfile, message } from "../drizzle/schema";
+import { and, asc, desc, eq, ne, sql } from "drizzle-orm";
+import { generateCrisisEventId } from "./utils/generateId";
+
+type CaseStatus = "open" | "acknowledged" | "escalated" | "resolved";
+type CaseAction = "acknowledged" | "escalated" | "note" | "resolved";
+
+// Most urgent cases first in the queue
+const levelPriority = sql`case ${crisisLog.crisisLevel}
+  when 'critical' then 0
+  when 'high' then 1
+  when 'medium' then 2
+  else 3
+end`;
+
+async function getCaseOrThrow(caseId: string) {
+  const [found] = await db
+    .select()
+    .from(crisisLog)
+    .where(eq(crisisLog.id, caseId))
+    .limit(1);
+
+  if (!found) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Crisis case ${caseId} not found` });
+  }
+
+  return found;
+}
+
+/**
+ * Apply a reviewer action to a case and record it in the audit trail.
+ * The case row is locked while its status is checked, so two reviewers
+ * acting at once can't both move it (or act on a resolved case).
+ */
+async function recordCaseAction(
+  caseId: string,
+  actorUserId: string,
+  action: CaseAction,
+  options: {
+    toStatus?: CaseStatus;
+    note?: string;
+    updates?: Partial<typeof crisisLog.$inferInsert>;
+  } = {}
+) {
+  const now = new Date();
+
+  const { fromStatus, toStatus } = await db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select({ status: crisisLog.status })
+      .from(crisisLog)
+      .where(eq(crisisLog.id, caseId))
+      .for("update");
+
+    if (!existing) {
+      throw new TRPCError({ code: "NOT_FOUND", message: `Crisis case ${caseId} not found` });
+    }
+
+    const fromStatus = existing.status as CaseStatus;
+    if (fromStatus === "resolved" && action !== "note") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Case is already resolved" });
+    }
+
+    const toStatus = options.toStatus ?? fromStatus;
+
+    await tx
+      .update(crisisLog)
+      .set({
+        ...options.updates,
+        status: toStatus,
+        updatedAt: now,
+      })
+      .where(eq(crisisLog.id, caseId));
+
+    await tx.insert(crisisCaseEvent).values({
+      id: generateCrisisEventId(),
+      crisisLogId: caseId,
+      action,
+      fromStatus,
+      toStatus,
+      note: options.note,
+      actorUserId,
+      createdAt: now,
+    });
+
+    return { fromStatus, toStatus };
+  });
+
+  console.log(`[CrisisCases] Case ${caseId} ${action} by ${actorUserId} (${fromStatus} → ${toStatus})`);
+
+  return getCaseOrThrow(caseId);
+}
+
+export const crisisCaseRouter = router({
+  /**
+   * List all cases that still need attention, most urgent first
+   */
+  listOpen: adminProcedure
+    .input(z.object({
+      level: z.enum(["low", "medium", "high", "critical"]).optional(),
+      limit: z.number().min(1).max(200).default(50),
+    }).optional())
+    .query(async ({ input }) => {
+      const filters = [ne(crisisLog.status, "resolved")];
+      if (input?.level) {
+        filters.push(eq(crisisLog.crisisLevel, input.level));
+      }
+
+      const cases = await db
+        .select({
+          case: crisisLog,
+          clientName: clientProfile.preferredName,
+          phoneNumber: clientProfile.phoneNumber,
+          clientRiskLevel: clientProfile.crisisRiskLevel,
+        })
+        .from(crisisLog)
+        .innerJoin(clientProfile, eq(crisisLog.clientProfileId, clientProfile.id))
+        .where(and(...filters))
+        .orderBy(levelPriority, desc(crisisLog.createdAt))
+        .limit(input?.limit ?? 50);
+
+      return cases.map(row => ({
+        ...row.case,
+        clientName: row.clientName,
+        phoneNumber: row.phoneNumber,
+        clientRiskLevel: row.clientRiskLevel,
+      }));
+    }),
+
+  /**
+   * Full case view: the case, its audit trail, the conversation transcript
+   * and the client's risk history
+   */
+  get: adminProcedure
+    .input(z.object({ caseId: z.string() }))
+    .query(async ({ input }) => {
+      const crisisCase = await getCaseOrThrow(input.caseId);
+
+      const events = await db
+        .select()
+        .from(crisisCaseEvent)
+        .where(eq(crisisCaseEvent.crisisLogId, crisisCase.id))
+        .orderBy(asc(crisisCaseEvent.createdAt));
+
+      // Whole conversation when we have it, otherwise the triggering message
+      const transcript = crisisCase.conversationId
+        ? await db
+            .select({
+              id: message.id,
+              role: message.role,
+              content: message.content,
+              crisisKeywords: message.crisisKeywords,
+              createdAt: message.createdAt,
+            })
+            .from(message)
+            .where(eq(message.conversationId, crisisCase.conversationId))
+            .orderBy(asc(message.createdAt))
+        : [];
+
+      const [profile] = await db
+        .select({
+          id: clientProfile.id,
+          preferredName: clientProfile.preferredName,
+          phoneNumber: clientProfile.phoneNumber,
+          email: clientProfile.email,
+          crisisRiskLevel: clientProfile.crisisRiskLevel,
+          lastCrisisDate: clientProfile.lastCrisisDate,
+          crisisNotes: clientProfile.crisisNotes,
+          safetyPlanNotes: clientProfile.safetyPlanNotes,
+          emergencyContact: clientProfile.emergencyContact,
+        })
+        .from(clientProfile)
+        .where(eq(clientProfile.id, crisisCase.clientProfileId))
+        .limit(1);
+
+      const riskHistory = await db
+        .select({
+          id: crisisLog.id,
+          crisisLevel: crisisLog.crisisLevel,
+          indicators: crisisLog.indicators,
+          status: crisisLog.status,
+          createdAt: crisisLog.createdAt,
+          resolvedAt: crisisLog.resolvedAt,
+        })
+        .from(crisisLog)
+        .where(eq(crisisLog.clientProfileId, crisisCase.clientProfileId))
+        .orderBy(desc(crisisLog.createdAt));
+
+      return {
+        case: crisisCase,
+        events,
+        triggeringMessage: crisisCase.transcript,
+        transcript,
+        client: profile ?? null,
+        riskHistory,
+      };
+    }),
+
+  /**
+   * Reviewer has seen the case and is handling it
+   */
+  acknowledge: adminProcedure
+    .input(z.object({
+      caseId: z.string(),
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return recordCaseAction(input.caseId, ctx.user.id, "acknowledged", {
+        toStatus: "acknowledged",
+        note: input.note,
+        updates: {
+          acknowledgedBy: ctx.user.id,
+          acknowledgedAt: new Date(),
+        },
+      });
+    }),
+
+  /**
+   * Hand the case to someone else (clinician, emergency contact, authorities)
+   */
+  escalate: adminProcedure
+    .input(z.object({
+      caseId: z.string(),
+      escalatedTo: z.string().min(1),
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return recordCaseAction(input.caseId, ctx.user.id, "escalated", {
+        toStatus: "escalated",
+        note: input.note,
+        updates: {
+          escalated: true,
+          escalatedTo: input.escalatedTo,
+          escalationTime: new Date(),
+        },
+      });
+    }),
+
+  /**
+   * Add a reviewer note without changing the case status
+   */
+  addNote: adminProcedure
+    .input(z.object({
+      caseId: z.string(),
+      note: z.string().min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return recordCaseAction(input.caseId, ctx.user.id, "note", {
+        note: input.note,
+      });
+    }),
+
+  /**
+   * Close the case with a resolution summary
+   */
+  resolve: adminProcedure
+    .input(z.object({
+      caseId: z.string(),
+      resolution: z.string().min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return recordCaseAction(input.caseId, ctx.user.id, "resolved", {
+        toStatus: "resolved",
+        note: input.resolution,
+        updates: {
+          resolved: true,
+          resolution: input.resolution,
+          resolvedAt: new Date(),
+          resolvedBy: ctx.user.id,
+        },
+      });
+    }),
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  detectCrisis,
+  detectCrisisWithReview,
+  computeCrisisTrajectory,
+  AMBIGUOUS_CONFIDENCE,
+  type CrisisLevel,
+} from "./crisisClassifier";
+
+type Fixture = [message: string, expected: CrisisLevel];
+
+// Labeled examples - add a line here for every misclassification reported
+const FIXTURES: Record<string, Fixture[]> = {
+  "direct crisis statements": [
+    ["I want to kill myself", "critical"],
+    ["I'm thinking about suicide", "critical"],
+    ["I just want to end my life", "critical"],
+    ["Everyone would be better off dead without me, especially me. I'm better off dead", "critical"],
+    ["I have the pills in front of me", "critical"],
+    ["I'm on the roof right now", "critical"],
+    ["I want to take my own life", "critical"],
+    ["I'm sitting on the bridge right now", "critical"],
+    ["I'm thinking of killing myself", "critical"],
+    ["nobody would care if I killed myself", "critical"],
+    ["I don't want to live anymore", "critical"],
+    ["I no longer want to live", "critical"],
+    ["I took all my pills", "critical"],
+    ["I have a plan to end things", "critical"],
+  ],
+  "misspellings, slang and contractions": [
+    ["Im gonna kill myslef", "critical"],
+    ["thinking about sucide", "critical"],
+    ["i wanna diiie", "critical"],
+    ["I want to k1ll myself", "critical"],
+    ["i dont want to wake up tomorrow", "high"],
+    ["i cant go on like this", "high"],
+    ["I want to unalive myself", "critical"],
+    ["kms", "critical"],
+    ["honestly thinking about sewerslide", "critical"],
+  ],
+  "negation that does not reach the phrase": [
+    ["I can't stop thinking about suicide", "critical"],
+    ["I'm not okay, I want to die", "critical"],
+    ["I don't know why I keep wanting to hurt myself. I hurt myself again", "high"],
+    ["I don't see why I shouldn't kill myself", "critical"],
+    ["I can't think of a reason not to kill myself", "critical"],
+    ["I'm not sure I want to live anymore", "high"],
+  ],
+  "double negatives": [
+    ["Not a day goes by that I don't think about suicide", "critical"],
+    ["I never said I wasn't suicidal", "critical"],
+    ["there's no way I'm not going to kill myself", "critical"],
+  ],
+  "self-harm and ideation": [
+    ["I've been cutting myself again", "high"],
+    ["I've been cutting again", "high"],
+    ["I feel worthless", "high"],
+    ["I'm a burden to everyone", "high"],
+    ["I wish I was dead", "high"],
+    ["I feel like dying", "high"],
+  ],
+  "hopelessness and isolation": [
+    ["I feel so hopeless", "medium"],
+    ["Nobody cares about me", "medium"],
+    ["I'm all alone", "medium"],
+    ["I feel numb", "medium"],
+    ["I'm giving up", "medium"],
+  ],
+  "figures of speech and benign uses": [
+    ["This traffic is killing me", "none"],
+    ["I'm cutting vegetables for dinner", "none"],
+    ["I was cutting the grass", "none"],
+    ["This phone is worthless", "none"],
+    ["That movie was hopeless", "none"],
+    ["I overdosed on chocolate at the party", "none"],
+    ["I hurt myself playing football", "none"],
+    ["I cut myself shaving this morning", "none"],
+    ["I could die of embarrassment, I want to die of embarrassment", "none"],
+    ["We're going to jump off the diving board", "none"],
+    ["I'm giving up on this recipe", "none"],
+    ["I'm giving up sugar for lent", "none"],
+    ["My feet are numb from the cold", "none"],
+    ["I will kill them with kindness", "none"],
+    ["I'm on the bus", "none"],
+    ["I ran 5 kms this morning", "none"],
+    ["I filled myself up with pizza", "none"],
+    ["I'm killing myself at the gym this month", "none"],
+    ["I want to end things with him before the holidays", "none"],
+    ["I feel like dying of laughter", "none"],
+    ["Can we talk about my day?", "none"],
+  ],
+  "negated statements": [
+    ["I would never kill myself", "none"],
+    ["I'm not suicidal, just tired", "none"],
+    ["I don't want to die", "none"],
+    ["No I'm not suicidal", "none"],
+    ["I'm not suicidal and I would never kill myself", "none"],
+  ],
+};
+
+describe("detectCrisis fixtures", () => {
+  for (const [group, fixtures] of Object.entries(FIXTURES)) {
+    describe(group, () => {
+      it.each(fixtures)("%s → %s", (text, expected) => {
+        const result = detectCrisis(text);
+        expect(result.level, result.reasons.join("; ")).toBe(expected);
+        expect(result.isCrisis).toBe(expected !== "none");
+      });
+    });
+  }
+});
+
+describe("detectCrisis results", () => {
+  it("explains why a phrase was discounted", () => {
+    const result = detectCrisis("I would never kill myself");
+    expect(result.reasons.some(reason => reason.includes("negated"))).toBe(true);
+  });
+
+  it("is never confident that a negated phrase means nothing", () => {
+    for (const [text] of FIXTURES["negated statements"]) {
+      expect(detectCrisis(text).confidence, text).toBeLessThan(AMBIGUOUS_CONFIDENCE);
+    }
+    expect(detectCrisis("I'm not hopeless").confidence).toBeLessThan(AMBIGUOUS_CONFIDENCE);
+  });
+
+  it("is more confident with an explicit plan", () => {
+    const plain = detectCrisis("I want to die");
+    const withPlan = detectCrisis("I want to die tonight, I have the pills");
+    expect(withPlan.confidence).toBeGreaterThan(plain.confidence);
+  });
+
+  it("is less confident about fuzzy and unclear matches", () => {
+    expect(detectCrisis("thinking about sucide").confidence)
+      .toBeLessThan(detectCrisis("thinking about suicide").confidence);
+    expect(detectCrisis("I started cutting").confidence).toBeLessThan(AMBIGUOUS_CONFIDENCE);
+  });
+});
+
+describe("detectCrisisWithReview", () => {
+  it("does not consult the reviewer for confident results", async () => {
+    const reviewer = vi.fn();
+    const result = await detectCrisisWithReview("I want to kill myself", { reviewer });
+    expect(reviewer).not.toHaveBeenCalled();
+    expect(result.level).toBe("critical");
+  });
+
+  it("adopts a confident second opinion for ambiguous messages", async () => {
+    const reviewer = vi.fn().mockResolvedValue({ level: "high", confidence: 0.8, reason: "self-harm" });
+    const result = await detectCrisisWithReview("I started cutting", { reviewer });
+    expect(reviewer).toHaveBeenCalledOnce();
+    expect(result.level).toBe("high");
+    expect(result.reasons.at(-1)).toContain("second opinion");
+  });
+
+  it("keeps the rule-based result when the reviewer is unsure or fails", async () => {
+    const initial = detectCrisis("I started cutting");
+
+    const unsure = vi.fn().mockResolvedValue({ level: "none", confidence: 0.3, reason: "unclear" });
+    expect((await detectCrisisWithReview("I started cutting", { reviewer: unsure })).level).toBe(initial.level);
+
+    const failing = vi.fn().mockRejectedValue(new Error("LLM down"));
+    expect((await detectCrisisWithReview("I started cutting", { reviewer: failing })).level).toBe(initial.level);
+  });
+});
+
+describe("computeCrisisTrajectory", () => {
+  const now = new Date("2025-06-01T12:00:00Z");
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const conversationOf = (...levels: CrisisLevel[]) =>
+    levels.map(level => ({ level, createdAt: now }));
+  const noHistory = { pastConversations: [], priorRiskLevel: null, lastCrisisDate: null, now };
+
+  it("catches gradual escalation no single message crosses", () => {
+    const result = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("none", "medium", "medium", "medium"),
+    });
+    expect(result.currentLevel).toBe("high");
+    expect(result.conversationLevel).toBe("high");
+    expect(result.factors.join(" ")).toContain("Repeated distress");
+  });
+
+  it("never reaches critical from the trend alone", () => {
+    const result = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("medium", "high", "high", "high"),
+      priorRiskLevel: "high",
+      lastCrisisDate: daysAgo(1),
+    });
+    expect(result.currentLevel).toBe("high");
+  });
+
+  it("eases the current level but keeps the conversation peak", () => {
+    const result = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("critical", "none", "none", "none", "none"),
+    });
+    expect(result.currentLevel).toBe("none");
+    expect(result.conversationLevel).toBe("critical");
+  });
+
+  it("carries recent crisis history and lets it decay", () => {
+    const recent = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("none"),
+      priorRiskLevel: "high",
+      lastCrisisDate: daysAgo(2),
+    });
+    expect(recent.clientLevel).toBe("high");
+    expect(recent.currentLevel).toBe("none");
+
+    const old = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("none"),
+      priorRiskLevel: "high",
+      lastCrisisDate: daysAgo(30),
+    });
+    expect(old.clientLevel).toBe("none");
+  });
+
+  it("raises distress that follows a recent crisis", () => {
+    const result = computeCrisisTrajectory({
+      ...noHistory,
+      messages: conversationOf("medium"),
+      pastConversations: [{ crisisLevel: "high", sentiment: null, createdAt: daysAgo(3) }],
+    });
+    expect(result.currentLevel).toBe("high");
+  });
+});
@@ -0,0 +1,867 @@
+/**
+ * Crisis Classifier for Just Talk
+ *
+ * Layered, context-aware classification of a single message:
+ *
+ * 1. Normalisation  - case, accents, contractions, slang, leetspeak,
+ *                     stretched letters ("diiie"), clause splitting
+ * 2. Phrase matching - crisis phrases and their inflections ("killing
+ *                     myself", "kms") matched on word boundaries, with
+ *                     fuzzy matching for misspellings ("sucide")
+ * 3. Context rules   - negation ("I would never kill myself", but not "I
+ *                     don't see why I shouldn't" or "not a day goes by
+ *                     that I don't think about it"), idioms ("cutting
+ *                     vegetables", "hurt myself playing football") and
+ *                     first-person checks ("this phone is worthless")
+ * 4. LLM review      - optional second opinion, only for ambiguous results
+ *
+ * Layers 1-3 are synchronous and have no I/O, so detectCrisis() is safe to
+ * call anywhere and can be tested offline. Layer 4 lives in
+ * detectCrisisWithReview().
+ */
+
+import { invokeLLM } from "./_core/llm";
+import { ENV } from "./_core/env";
+import { withTimeout } from "./_core/apiConfig";
+
+export type CrisisLevel = "none" | "low" | "medium" | "high" | "critical";
+
+export interface CrisisDetectionResult {
+  isCrisis: boolean;
+  level: CrisisLevel;
+  keywords: string[];
+  confidence: number; // 0-1, confidence in the assigned level
+  recommendation: string;
+  reasons: string[]; // Human-readable trail of how the level was reached
+}
+
+type PhraseLevel = "critical" | "high" | "medium";
+
+interface CrisisPhrase {
+  phrase: string;
+  level: PhraseLevel;
+  // Only literal when the speaker is talking about themselves ("this phone is worthless")
+  requiresFirstPerson?: boolean;
+  // Benign when followed by anything except these words ("cutting vegetables")
+  literalFollowers?: string[];
+}
+
+// Crisis phrases (suicide, self-harm, violence)
+const CRISIS_PHRASES: CrisisPhrase[] = [
+  // ---- CRITICAL: suicide intent ----
+  { phrase: "kill myself", level: "critical" },
+  { phrase: "killing myself", level: "critical" },
+  { phrase: "killed myself", level: "critical" },
+  { phrase: "kms", level: "critical" },
+  { phrase: "end my life", level: "critical" },
+  { phrase: "ending my life", level: "critical" },
+  { phrase: "take my own life", level: "critical" },
+  { phrase: "taking my own life", level: "critical" },
+  { phrase: "want to die", level: "critical" },
+  { phrase: "do not want to live", level: "critical" },
+  { phrase: "do not want to be alive", level: "critical" },
+  { phrase: "no longer want to live", level: "critical" },
+  { phrase: "no longer want to be alive", level: "critical" },
+  { phrase: "suicide", level: "critical" },
+  { phrase: "suicidal", level: "critical" },
+  { phrase: "sewer slide", level: "critical" },
+  { phrase: "unalive", level: "critical" },
+  { phrase: "overdose", level: "critical" },
+  { phrase: "jump off", level: "critical" },
+  { phrase: "hang myself", level: "critical" },
+  { phrase: "hanging myself", level: "critical" },
+  { phrase: "shoot myself", level: "critical" },
+  { phrase: "shooting myself", level: "critical" },
+  { phrase: "end it all", level: "critical" },
+  { phrase: "ending it all", level: "critical" },
+  { phrase: "better off dead", level: "critical" },
+  { phrase: "no reason to live", level: "critical" },
+
+  // ---- CRITICAL: immediate danger ----
+  { phrase: "gun in my hand", level: "critical" },
+  { phrase: "pills in front of me", level: "critical" },
+  { phrase: "on the bridge", level: "critical" },
+  { phrase: "on the roof", level: "critical" },
+  { phrase: "on the ledge", level: "critical" },
+  { phrase: "goodbye forever", level: "critical" },
+  { phrase: "took all my pills", level: "critical" },
+  { phrase: "taken all my pills", level: "critical" },
+  { phrase: "took all the pills", level: "critical" },
+  { phrase: "taken all the pills", level: "critical" },
+  // "I want to end things" - but not "end things with him"
+  { phrase: "end things", level: "critical", literalFollowers: ["tonight", "today", "now", "soon", "forever", "for", "permanently"] },
+
+  // ---- HIGH: self-harm ----
+  { phrase: "cut myself", level: "high" },
+  { phrase: "hurt myself", level: "high" },
+  { phrase: "self harm", level: "high" },
+  { phrase: "cutting", level: "high", literalFollowers: ["myself", "my", "me", "again", "self", "deeper", "more"] },
+  { phrase: "burning myself", level: "high" },
+
+  // ---- HIGH: suicidal ideation ----
+  { phrase: "wish i was dead", level: "high" },
+  { phrase: "feel like dying", level: "high" },
+  { phrase: "want to live anymore", level: "high" },
+  { phrase: "do not want to be here", level: "high" },
+  { phrase: "do not want to wake up", level: "high" },
+  { phrase: "can not go on", level: "high", literalFollowers: ["like", "anymore", "living", "any", "without"] },
+  { phrase: "no point in living", level: "high" },
+  { phrase: "everyone would be better without me", level: "high" },
+  { phrase: "worthless", level: "high", requiresFirstPerson: true },
+  { phrase: "burden to everyone", level: "high" },
+
+  // ---- HIGH: violence ----
+  { phrase: "hurt someone", level: "high" },
+  { phrase: "kill them", level: "high" },
+  { phrase: "make them pay", level: "high" },
+  { phrase: "get revenge", level: "high" },
+
+  // ---- MEDIUM: depression/hopelessness ----
+  { phrase: "no hope", level: "medium" },
+  { phrase: "hopeless", level: "medium", requiresFirstPerson: true },
+  { phrase: "can not take it anymore", level: "medium" },
+  { phrase: "giving up", level: "medium" },
+  { phrase: "nothing matters", level: "medium" },
+  { phrase: "empty inside", level: "medium" },
+  { phrase: "numb", level: "medium", requiresFirstPerson: true },
+
+  // ---- MEDIUM: isolation ----
+  { phrase: "nobody cares", level: "medium" },
+  { phrase: "all alone", level: "medium" },
+  { phrase: "no one understands", level: "medium" },
+  { phrase: "no friends", level: "medium" },
+  { phrase: "nobody would notice", level: "medium" },
+];
+
+/**
+ * Figurative uses of crisis phrases. If the pattern matches the clause,
+ * the phrase is treated as benign.
+ */
+const IDIOMS: Array<{ phrase: string; pattern: RegExp; reason: string }> = [
+  {
+    phrase: "want to die",
+    pattern: /\bwant to die (of|from|laughing)\b/,
+    reason: "hyperbole (\"want to die of embarrassment\")",
+  },
+  {
+    phrase: "feel like dying",
+    pattern: /\bfeel like dying (of|from|laughing)\b/,
+    reason: "hyperbole (\"feel like dying of embarrassment\")",
+  },
+  {
+    phrase: "killing myself",
+    pattern: /\bkilling myself (laughing|at (the gym|work)|working|to (get|finish|make|meet|keep))\b/,
+    reason: "hyperbole (\"killing myself at the gym\")",
+  },
+  {
+    phrase: "kms",
+    pattern: /\b[0-9]+ kms\b/,
+    reason: "kilometres",
+  },
+  {
+    phrase: "overdose",
+    pattern: /\boverdosed? on (chocolate|sugar|caffeine|coffee|candy|sweets|cake|netflix|tv|television|carbs|pizza|work)\b/,
+    reason: "figurative overdose on a harmless thing",
+  },
+  {
+    phrase: "jump off",
+    pattern: /\bjump off (the |a |my |our )?(diving board|board|couch|sofa|bed|boat|dock|pier|swing|stage|trampoline|bus|train|call|page|screen)\b/,
+    reason: "jumping off something harmless",
+  },
+  {
+    phrase: "hurt myself",
+    pattern: /\bhurt myself (while|when|playing|at|during|lifting|running|working|in|on|doing|skiing|skating|falling)\b/,
+    reason: "accidental injury",
+  },
+  {
+    phrase: "cut myself",
+    pattern: /\bcut myself (while|when|shaving|cooking|chopping|on|with the|in the kitchen|by accident|accidentally)\b/,
+    reason: "accidental injury",
+  },
+  {
+    phrase: "burning myself",
+    pattern: /\bburning myself (on|while|when|cooking|with the)\b/,
+    reason: "accidental injury",
+  },
+  {
+    phrase: "giving up",
+    pattern: /\bgiving up (on (the|this|that|a|an) |sugar|coffee|caffeine|smoking|drinking|alcohol|meat|chocolate|carbs)/,
+    reason: "giving up a thing or habit, not on life",
+  },
+  {
+    phrase: "kill them",
+    pattern: /\bkill them with kindness\b/,
+    reason: "idiom (\"kill them with kindness\")",
+  },
+];
+
+// Words that flip the meaning of a phrase that follows them
+const NEGATORS = ["not", "never", "no", "nor", "neither"];
+const NEGATION_WINDOW = 4;
+
+// "I can't stop thinking about suicide" - the negation doesn't reach the phrase
+const NEGATION_BLOCKERS = ["stop", "help", "quit", "shake", "escape", "ignore", "resist", "why", "how", "if", "but", "anymore"];
+
+// Words a negator can belong to instead of the phrase: "I shouldn't kill
+// myself" weighs whether they ought to, "a reason not to kill myself" is
+// about the reason - neither denies the intent
+const NEGATION_OWNERS = ["should", "must", "ought", "reason", "reasons", "excuse"];
+
+// "I'm not sure I want to live anymore" doubts the phrase rather than denying it
+const NEGATION_HEDGES = ["sure", "certain"];
+
+const FIRST_PERSON = ["i", "me", "myself"];
+
+// Signals of immediacy or a plan that make a match more serious
+const INTENSIFIERS = ["tonight", "today", "right now", "plan", "planned", "goodbye", "pills", "gun", "rope", "note", "bridge", "ready"];
+
+const CONTRACTIONS: Record<string, string> = {
+  "im": "i am",
+  "i'm": "i am",
+  "ive": "i have",
+  "i've": "i have",
+  "i'd": "i would",
+  "i'll": "i will",
+  "cant": "can not",
+  "can't": "can not",
+  "cannot": "can not",
+  "wont": "will not",
+  "won't": "will not",
+  "dont": "do not",
+  "don't": "do not",
+  "doesn't": "does not",
+  "doesnt": "does not",
+  "didn't": "did not",
+  "didnt": "did not",
+  "isn't": "is not",
+  "isnt": "is not",
+  "wouldn't": "would not",
+  "wouldnt": "would not",
+  "couldn't": "could not",
+  "couldnt": "could not",
+  "shouldn't": "should not",
+  "shouldnt": "should not",
+  "wasn't": "was not",
+  "wasnt": "was not",
+  "gonna": "going to",
+  "wanna": "want to",
+  "gotta": "got to",
+  "u": "you",
+  "ur": "your",
+  "selfharm": "self harm",
+  "sewerslide": "sewer slide",
+};
+
+const LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "@": "a", "$": "s" };
+
+// Results below this confidence are worth a second opinion
+export const AMBIGUOUS_CONFIDENCE = 0.65;
+
+// ============================================================================
+// LAYER 1: NORMALISATION
+// ============================================================================
+
+function normalizeToken(raw: string): string {
+  let token = raw;
+
+  // Leetspeak only inside words that also contain letters ("k1ll", not "911")
+  if (/[a-z]/.test(token) && /[0-9@$]/.test(token)) {
+    token = token.replace(/[0-9@$]/g, char => LEET[char] ?? char);
+  }
+
+  // Stretched words: "diiiie" → "die", "soooo" → "so"
+  token = token.replace(/([a-z])\1{2,}/g, "$1");
+
+  return CONTRACTIONS[token] ?? token;
+}
+
+/**
+ * Normalise text into clauses of tokens. Clause boundaries limit how far
+ * negation reaches ("I'm not suicidal but I want to die").
+ */
+export function normalizeForCrisis(text: string): string[][] {
+  const cleaned = text
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "") // strip accents
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'");
+
+  return cleaned
+    .split(/[.!?;:,\n]+|\bbut\b/)
+    .map(clause =>
+      clause
+        .replace(/[^a-z0-9@$'\s-]/g, " ")
+        .replace(/-/g, " ")
+        .split(/\s+/)
+        .filter(Boolean)
+        .flatMap(token => normalizeToken(token).split(" "))
+        .map(token => token.replace(/'/g, ""))
+        .filter(Boolean)
+    )
+    .filter(clause => clause.length > 0);
+}
+
+// ============================================================================
+// LAYER 2: PHRASE MATCHING (exact + fuzzy)
+// ============================================================================
+
+/**
+ * Optimal string alignment distance (Levenshtein + adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Typos allowed for a phrase word - none for short words, where a single
+ * edit turns "kill" into "will"
+ */
+function tokensMatch(expected: string, actual: string): "exact" | "fuzzy" | null {
+  if (expected === actual) return "exact";
+
+  const allowed = expected.length >= 8 ? 2 : expected.length >= 4 ? 1 : 0;
+  if (allowed === 0) return null;
+
+  // Misspellings keep their first letter ("kil" ok, "will" and "filled" not)
+  if (expected[0] !== actual[0]) return null;
+
+  return editDistance(expected, actual) <= allowed ? "fuzzy" : null;
+}
+
+interface PhraseMatch {
+  spec: CrisisPhrase;
+  clause: string[];
+  start: number;
+  end: number; // exclusive
+  fuzzy: boolean;
+  matchedText: string;
+}
+
+function findMatches(clauses: string[][]): PhraseMatch[] {
+  const matches: PhraseMatch[] = [];
+
+  for (const clause of clauses) {
+    for (const spec of CRISIS_PHRASES) {
+      const words = spec.phrase.split(" ");
+
+      for (let start = 0; start + words.length <= clause.length; start++) {
+        let fuzzy = false;
+        let matched = true;
+
+        for (let k = 0; k < words.length; k++) {
+          const result = tokensMatch(words[k], clause[start + k]);
+          if (!result) {
+            matched = false;
+            break;
+          }
+          if (result === "fuzzy") fuzzy = true;
+        }
+
+        if (matched) {
+          const end = start + words.length;
+          matches.push({
+            spec,
+            clause,
+            start,
+            end,
+            fuzzy,
+            matchedText: clause.slice(start, end).join(" "),
+          });
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+// ============================================================================
+// LAYER 3: CONTEXT RULES
+// ============================================================================
+
+/**
+ * Whether the token at index negates what follows it. A clause-initial
+ * "no" before "I" answers a question ("No I'm not ok") instead.
+ */
+function isNegator(clause: string[], index: number): boolean {
+  if (!NEGATORS.includes(clause[index])) return false;
+  return !(index === 0 && clause[0] === "no" && FIRST_PERSON.includes(clause[1]));
+}
+
+/**
+ * Whether the negator at index is itself denied by an earlier one: "not a
+ * day goes by that I don't", "I never said I wasn't". An earlier negator
+ * that already denies another phrase ("I'm not suicidal and would never
+ * kill myself") is used up.
+ */
+function isDoubleNegative(match: PhraseMatch, index: number, matches: PhraseMatch[]): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!isNegator(match.clause, i)) continue;
+    return !matches.some(other => other.clause === match.clause && other.start > i && other.start < index);
+  }
+  return false;
+}
+
+/**
+ * The negator that denies the phrase, if any. Only the nearest negator
+ * counts, and only when it isn't owned by a modal or a reason, hedged or
+ * denied itself.
+ */
+function findNegation(match: PhraseMatch, matches: PhraseMatch[]): string | null {
+  const windowStart = Math.max(0, match.start - NEGATION_WINDOW);
+
+  for (let i = match.start - 1; i >= windowStart; i--) {
+    const token = match.clause[i];
+    if (NEGATION_BLOCKERS.includes(token)) return null;
+    if (isNegator(match.clause, i)) {
+      if (NEGATION_OWNERS.includes(match.clause[i - 1])) return null;
+      if (NEGATION_HEDGES.includes(match.clause[i + 1])) return null;
+      return isDoubleNegative(match, i, matches) ? null : token;
+    }
+  }
+
+  return null;
+}
+
+function findIdiom(match: PhraseMatch): string | null {
+  const clauseText = match.clause.join(" ");
+  const idiom = IDIOMS.find(i => i.phrase === match.spec.phrase && i.pattern.test(clauseText));
+  return idiom ? idiom.reason : null;
+}
+
+/**
+ * Check whether the phrase is used literally. Returns:
+ * - "literal"   the phrase means what it says
+ * - "ambiguous" could go either way ("I started cutting")
+ * - a string    reason the phrase is benign
+ */
+function assessContext(match: PhraseMatch): "literal" | "ambiguous" | { benign: string } {
+  const idiom = findIdiom(match);
+  if (idiom) return { benign: `idiom: "${match.matchedText}" - ${idiom}` };
+
+  if (match.spec.requiresFirstPerson && !match.clause.some(token => FIRST_PERSON.includes(token))) {
+    return { benign: `"${match.matchedText}" is not about the speaker` };
+  }
+
+  if (match.spec.literalFollowers) {
+    const next = match.clause[match.end];
+    if (next === undefined) return "ambiguous";
+    if (!match.spec.literalFollowers.includes(next)) {
+      return { benign: `"${match.matchedText} ${next}" is not a crisis phrase` };
+    }
+  }
+
+  return "literal";
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+const LEVEL_WEIGHT: Record<PhraseLevel, number> = {
+  critical: 0.85,
+  high: 0.7,
+  medium: 0.5,
+};
+
+const LEVEL_ORDER: CrisisLevel[] = ["none", "low", "medium", "high", "critical"];
+
+function getRecommendation(level: CrisisLevel): string {
+  if (level === "critical") {
+    return "IMMEDIATE ESCALATION: Suggest calling 988 or 911. Alert owner immediately.";
+  } else if (level === "high") {
+    return "HIGH PRIORITY: Provide crisis resources. Monitor closely. Alert owner.";
+  } else if (level === "medium" || level === "low") {
+    return "MONITOR: Provide support resources. Track for escalation.";
+  }
+  return "";
+}
+
+function buildResult(
+  level: CrisisLevel,
+  keywords: string[],
+  confidence: number,
+  reasons: string[]
+): CrisisDetectionResult {
+  return {
+    isCrisis: level !== "none",
+    level,
+    keywords,
+    confidence: Math.round(Math.min(Math.max(confidence, 0), 0.99) * 100) / 100,
+    recommendation: getRecommendation(level),
+    reasons,
+  };
+}
+
+/**
+ * Analyze message for crisis indicators (layers 1-3, no I/O)
+ */
+export function detectCrisis(message: string): CrisisDetectionResult {
+  const clauses = normalizeForCrisis(message);
+  const reasons: string[] = [];
+  const accepted: Array<{ match: PhraseMatch; weight: number }> = [];
+  const matches = findMatches(clauses);
+  let discardedNegated = false;
+
+  for (const match of matches) {
+    const { spec } = match;
+
+    const negator = findNegation(match, matches);
+    if (negator) {
+      reasons.push(`negated: "${negator}" before "${match.matchedText}"`);
+      discardedNegated = true;
+      continue;
+    }
+
+    const context = assessContext(match);
+    if (typeof context === "object") {
+      reasons.push(context.benign);
+      continue;
+    }
+
+    let weight = LEVEL_WEIGHT[spec.level];
+    let reason = `matched "${spec.phrase}" (${spec.level})`;
+
+    if (match.fuzzy) {
+      weight *= 0.85;
+      reason += ` via fuzzy match "${match.matchedText}"`;
+    }
+    if (context === "ambiguous") {
+      weight *= 0.7;
+      reason += " - context unclear";
+    }
+
+    reasons.push(reason);
+    accepted.push({ match, weight });
+  }
+
+  if (accepted.length === 0) {
+    // A negation we misread would hide real risk - never a confident "none"
+    return buildResult("none", [], discardedNegated ? 0.55 : 0.9, reasons);
+  }
+
+  // Highest level wins
+  const level = accepted.reduce<PhraseLevel>(
+    (highest, { match }) =>
+      LEVEL_ORDER.indexOf(match.spec.level) > LEVEL_ORDER.indexOf(highest) ? match.spec.level : highest,
+    "medium"
+  );
+
+  // Independent signals at the top level reinforce each other
+  const topWeights = accepted.filter(a => a.match.spec.level === level).map(a => a.weight);
+  let confidence = 1 - topWeights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+
+  // Supporting signals at lower levels
+  confidence += 0.05 * (accepted.length - topWeights.length);
+
+  const normalizedText = clauses.map(clause => clause.join(" ")).join(" ");
+  const intensifiers = INTENSIFIERS.filter(word => new RegExp(`\\b${word}\\b`).test(normalizedText));
+  if (intensifiers.length > 0) {
+    confidence += 0.1;
+    reasons.push(`intensifier: ${intensifiers.join(", ")}`);
+  }
+
+  const keywords = Array.from(new Set(accepted.map(a => a.match.spec.phrase)));
+
+  return buildResult(level, keywords, confidence, reasons);
+}
+
+// ============================================================================
+// LAYER 4: LLM SECOND OPINION
+// ============================================================================
+
+export type CrisisSecondOpinion = {
+  level: CrisisLevel;
+  confidence: number;
+  reason: string;
+};
+
+export type CrisisReviewer = (
+  message: string,
+  initial: CrisisDetectionResult
+) => Promise<CrisisSecondOpinion | null>;
+
+const REVIEW_PROMPT = `You review messages sent to an emotional support companion and judge suicide, self-harm and violence risk.
+A rule-based filter flagged this message as ambiguous. Decide what the person most likely means.
+
+Levels:
+- none: no risk (figures of speech, accidents, talking about objects or other people's harmless situations)
+- low: mild distress, no risk indicators
+- medium: hopelessness, isolation, depression without self-harm or suicidal content
+- high: self-harm, passive suicidal ideation, or intent to hurt others
+- critical: active suicidal intent, a plan, or immediate danger
+
+When genuinely unsure between two levels, choose the higher one.
+Respond with JSON only: {"level": "...", "confidence": 0.0-1.0, "reason": "one short sentence"}`;
+
+/**
+ * Default reviewer: asks the LLM for a second opinion
+ */
+export async function llmCrisisReviewer(
+  message: string,
+  initial: CrisisDetectionResult
+): Promise<CrisisSecondOpinion | null> {
+  const response = await invokeLLM({
+    messages: [
+      { role: "system", content: REVIEW_PROMPT },
+      {
+        role: "user",
+        content: JSON.stringify({
+          message,
+          ruleBasedLevel: initial.level,
+          ruleBasedReasons: initial.reasons,
+        }),
+      },
+    ],
+    responseFormat: { type: "json_object" },
+    maxTokens: 150,
+  });
+
+  const content = response.choices[0]?.message.content;
+  if (typeof content !== "string") return null;
+
+  const parsed = JSON.parse(content);
+  if (!LEVEL_ORDER.includes(parsed.level) || typeof parsed.confidence !== "number") {
+    return null;
+  }
+
+  return {
+    level: parsed.level,
+    confidence: parsed.confidence,
+    reason: typeof parsed.reason === "string" ? parsed.reason : "",
+  };
+}
+
+/**
+ * Full classification: rule layers, plus a second opinion when the rules
+ * aren't confident. Pass reviewer: null to disable the second opinion
+ * (it's off by default when no OpenAI key is configured).
+ */
+export async function detectCrisisWithReview(
+  message: string,
+  options: { reviewer?: CrisisReviewer | null; timeoutMs?: number } = {}
+): Promise<CrisisDetectionResult> {
+  const initial = detectCrisis(message);
+
+  const reviewer = options.reviewer === undefined
+    ? (ENV.openaiApiKey ? llmCrisisReviewer : null)
+    : options.reviewer;
+
+  if (!reviewer || initial.confidence >= AMBIGUOUS_CONFIDENCE) {
+    return initial;
+  }
+
+  try {
+    const opinion = await withTimeout(
+      reviewer(message, initial),
+      options.timeoutMs ?? 5000,
+      "Crisis second opinion"
+    );
+
+    // An unsure reviewer doesn't get to override the rules
+    if (!opinion || opinion.confidence < 0.6) {
+      return { ...initial, reasons: [...initial.reasons, "second opinion inconclusive"] };
+    }
+
+    console.log(`[Crisis] Second opinion: ${initial.level} → ${opinion.level} (${opinion.reason})`);
+
+    return buildResult(
+      opinion.level,
+      initial.keywords,
+      opinion.confidence,
+      [...initial.reasons, `second opinion: ${opinion.level} - ${opinion.reason}`]
+    );
+  } catch (error) {
+    console.error("[Crisis] Second opinion failed, using rule-based result:", error);
+    return { ...initial, reasons: [...initial.reasons, "second opinion unavailable"] };
+  }
+}
+
+// ============================================================================
+// TRAJECTORY: RISK ACROSS MESSAGES AND CONVERSATIONS
+// ============================================================================
+
+export interface TrajectoryMessage {
+  level: CrisisLevel;
+  createdAt: Date;
+}
+
+export interface TrajectoryConversation {
+  crisisLevel: string | null;
+  sentiment: string | null;
+  createdAt: Date;
+}
+
+export interface CrisisTrajectoryInput {
+  messages: TrajectoryMessage[]; // User messages in the current conversation, oldest first
+  pastConversations: TrajectoryConversation[]; // Most recent previous conversations
+  priorRiskLevel: string | null; // clientProfile.crisisRiskLevel before this message
+  lastCrisisDate: Date | null;
+  now?: Date;
+}
+
+export interface CrisisTrajectory {
+  currentLevel: CrisisLevel; // Risk right now - use for response guidance
+  conversationLevel: CrisisLevel; // Highest risk reached in this conversation
+  clientLevel: CrisisLevel; // Overall client risk, including recent history
+  factors: string[];
+}
+
+const LEVEL_VALUE: Record<CrisisLevel, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+// Older messages count for less when judging the risk right now
+const MESSAGE_DECAY = 0.6;
+
+// Historical risk drops one level per week without new signals
+const HISTORY_DECAY_DAYS = 7;
+
+// Trend rules alone can raise risk to high, never to critical
+const MAX_TREND_VALUE = LEVEL_VALUE.high;
+
+function toLevel(value: number): CrisisLevel {
+  return LEVEL_ORDER[Math.max(0, Math.min(LEVEL_ORDER.length - 1, Math.round(value)))];
+}
+
+function parseLevel(level: string | null): number {
+  return level && level in LEVEL_VALUE ? LEVEL_VALUE[level as CrisisLevel] : 0;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24);
+}
+
+/**
+ * Slope of a least-squares line through the values (change per message)
+ */
+function trendSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+
+  values.forEach((v, x) => {
+    numerator += (x - meanX) * (v - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+
+  return numerator / denominator;
+}
+
+/**
+ * Score crisis risk across a conversation and the client's recent history
+ * (no I/O). Catches gradual escalation where no single message crosses
+ * a threshold: repeated distress, a rising trend, distress soon after a
+ * previous crisis, and a burst of contact with negative sentiment.
+ */
+export function computeCrisisTrajectory(input: CrisisTrajectoryInput): CrisisTrajectory {
+  const now = input.now ?? new Date();
+  const factors: string[] = [];
+  const values = input.messages.map(m => LEVEL_VALUE[m.level]);
+
+  if (values.length === 0) {
+    values.push(0);
+  }
+
+  // ---- This conversation ----
+  const peak = Math.max(...values);
+  const latest = values[values.length - 1];
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+  values.forEach((value, index) => {
+    const weight = MESSAGE_DECAY ** (values.length - 1 - index);
+    weightedSum += value * weight;
+    weightTotal += weight;
+  });
+  const rolling = weightedSum / weightTotal;
+
+  let score = Math.max(latest, rolling);
+  let boost = 0;
+
+  const distressed = values.filter(v => v >= LEVEL_VALUE.medium).length;
+  if (distressed >= 3) {
+    boost++;
+    factors.push(`Repeated distress in this conversation (${distressed} messages)`);
+  }
+
+  const recent = values.slice(-4);
+  if (recent.length >= 3 && trendSlope(recent) >= 0.3 && latest >= LEVEL_VALUE.medium) {
+    boost++;
+    factors.push("Distress rising over the conversation");
+  }
+
+  // ---- Recent history ----
+  let carried = 0;
+  const priorRisk = parseLevel(input.priorRiskLevel);
+  if (priorRisk > 0) {
+    // No date means we can't tell how old it is - carry it, but not above medium
+    carried = input.lastCrisisDate
+      ? priorRisk - Math.floor(daysBetween(input.lastCrisisDate, now) / HISTORY_DECAY_DAYS)
+      : Math.min(priorRisk, LEVEL_VALUE.medium);
+  }
+
+  for (const past of input.pastConversations) {
+    const pastLevel = parseLevel(past.crisisLevel);
+    if (pastLevel > 0) {
+      const decayed = pastLevel - Math.floor(daysBetween(past.createdAt, now) / HISTORY_DECAY_DAYS);
+      carried = Math.max(carried, decayed);
+    }
+  }
+  carried = Math.max(0, carried);
+
+  if (carried >= LEVEL_VALUE.medium) {
+    factors.push(`Recent crisis history (${toLevel(carried)})`);
+    if (score >= LEVEL_VALUE.medium) {
+      boost++;
+      factors.push("Distress again after a recent crisis");
+    }
+  }
+
+  const lastDay = input.pastConversations.filter(c => daysBetween(c.createdAt, now) < 1);
+  const negative = input.pastConversations.filter(
+    c => c.sentiment === "negative" || c.sentiment === "crisis" || parseLevel(c.crisisLevel) >= LEVEL_VALUE.medium
+  );
+  if (lastDay.length >= 3) {
+    factors.push(`Increased contact frequency (${lastDay.length + 1} conversations in 24 hours)`);
+    if (negative.length >= 3) {
+      factors.push("Persistent negative sentiment across conversations");
+      score = Math.max(score, LEVEL_VALUE.low);
+      if (score >= LEVEL_VALUE.medium) boost++;
+    }
+  } else if (negative.length >= 3) {
+    factors.push("Persistent negative sentiment across conversations");
+  }
+
+  if (boost > 0) {
+    score = Math.max(score, Math.min(score + boost, MAX_TREND_VALUE));
+  }
+
+  const currentLevel = toLevel(score);
+  const conversationLevel = toLevel(Math.max(peak, score));
+  const clientLevel = toLevel(Math.max(score, carried));
+
+  return { currentLevel, conversationLevel, clientLevel, factors };
+}
@@ -1,150 +1,31 @@
-import { generateCrisisId } from './utils/generateId';
+import { generateCrisisId, generateCrisisEventId } from './utils/generateId';
 /**
  * Crisis Detection System for Just Talk
  * 
  * Detects crisis situations and triggers appropriate escalation.
- * Uses keyword detection + behavioral analysis.
+ * Uses the layered crisis classifier + behavioral analysis.
  */
 
 import { db } from "./_core/db.js";
-import { crisisLog, clientProfile, conversation } from "../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { crisisLog, crisisCaseEvent, clientProfile, conversation, message } from "../drizzle/schema";
+import { and, desc, eq, ne } from "drizzle-orm";
 import { updateClientProfile } from "./unifiedClientRepository";
-
-// Crisis keywords (suicide, self-harm, violence)
-const CRISIS_KEYWORDS = {
-  critical: [
-    // Suicide intent
-    "kill myself",
-    "end my life",
-    "want to die",
-    "suicide",
-    "suicidal",
-    "overdose",
-    "jump off",
-    "hang myself",
-    "shoot myself",
-    "end it all",
-    "better off dead",
-    "no reason to live",
-    
-    // Immediate danger
-    "gun in my hand",
-    "pills in front of me",
-    "on the bridge",
-    "on the roof",
-    "goodbye forever",
-  ],
-  
-  high: [
-    // Self-harm
-    "cut myself",
-    "hurt myself",
-    "self harm",
-    "self-harm",
-    "cutting",
-    "burning myself",
-    
-    // Suicidal ideation
-    "wish I was dead",
-    "don't want to be here",
-    "can't go on",
-    "no point in living",
-    "everyone would be better without me",
-    "worthless",
-    "burden to everyone",
-    
-    // Violence
-    "hurt someone",
-    "kill them",
-    "make them pay",
-    "get revenge",
-  ],
-  
-  medium: [
-    // Depression/hopelessness
-    "no hope",
-    "hopeless",
-    "can't take it anymore",
-    "giving up",
-    "nothing matters",
-    "empty inside",
-    "numb",
-    
-    // Isolation
-    "nobody cares",
-    "all alone",
-    "no one understands",
-    "no friends",
-    "nobody would notice",
-  ],
-};
-
-export interface CrisisDetectionResult {
-  isCrisis: boolean;
-  level: "none" | "low" | "medium" | "high" | "critical";
-  keywords: string[];
-  confidence: number;
-  recommendation: string;
-}
-
-/**
- * Analyze message for crisis indicators
- */
-export function detectCrisis(message: string): CrisisDetectionResult {
-  const lowerMessage = message.toLowerCase();
-  const foundKeywords: string[] = [];
-  let highestLevel: "none" | "low" | "medium" | "high" | "critical" = "none";
-
-  // Check critical keywords
-  for (const keyword of CRISIS_KEYWORDS.critical) {
-    if (lowerMessage.includes(keyword.toLowerCase())) {
-      foundKeywords.push(keyword);
-      highestLevel = "critical";
-    }
-  }
-
-  // Check high keywords (only if not already critical)
-  if (highestLevel !== "critical") {
-    for (const keyword of CRISIS_KEYWORDS.high) {
-      if (lowerMessage.includes(keyword.toLowerCase())) {
-        foundKeywords.push(keyword);
-        if (highestLevel !== "high") highestLevel = "high";
-      }
-    }
-  }
-
-  // Check medium keywords (only if not already high/critical)
-  if (highestLevel === "none") {
-    for (const keyword of CRISIS_KEYWORDS.medium) {
-      if (lowerMessage.includes(keyword.toLowerCase())) {
-        foundKeywords.push(keyword);
-        highestLevel = "medium";
-      }
-    }
-  }
-
-  // Calculate confidence based on number of keywords
-  const confidence = Math.min(foundKeywords.length * 0.3 + 0.4, 1.0);
-
-  // Generate recommendation
-  let recommendation = "";
-  if (highestLevel === "critical") {
-    recommendation = "IMMEDIATE ESCALATION: Suggest calling 988 or 911. Alert owner immediately.";
-  } else if (highestLevel === "high") {
-    recommendation = "HIGH PRIORITY: Provide crisis resources. Monitor closely. Alert owner.";
-  } else if (highestLevel === "medium") {
-    recommendation = "MONITOR: Provide support resources. Track for escalation.";
-  }
-
-  return {
-    isCrisis: highestLevel !== "none",
-    level: highestLevel,
-    keywords: foundKeywords,
-    confidence,
-    recommendation,
-  };
-}
+import { notifyOwner } from "./_core/notification";
+import { enqueueJob, JOB_PRIORITY } from "./jobQueue";
+
+// Classification lives in crisisClassifier.ts (pure, no database access)
+export {
+  detectCrisis,
+  detectCrisisWithReview,
+  type CrisisDetectionResult,
+} from "./crisisClassifier";
+import {
+  computeCrisisTrajectory,
+  detectCrisis,
+  type CrisisDetectionResult,
+  type CrisisLevel,
+  type CrisisTrajectory,
+} from "./crisisClassifier";
 
 /**
  * Log crisis event to database
@@ -158,8 +39,9 @@ export async function logCrisisEvent(
   // Only log if there's an actual crisis (not "none")
   if (detection.level === "none") return;
   
+  const crisisLogId = generateCrisisId();
   await db.insert(crisisLog).values({
-    id: generateCrisisId(),
+    id: crisisLogId,
     clientProfileId: clientId,
     conversationId,
     crisisLevel: detection.level,
@@ -168,12 +50,21 @@ export async function logCrisisEvent(
     escalated: detection.level === "critical" || detection.level === "high",
   });
 
+  // Open the case in the admin review queue
+  await db.insert(crisisCaseEvent).values({
+    id: generateCrisisEventId(),
+    crisisLogId,
+    action: "opened",
+    toStatus: "open",
+    note: `Detected ${detection.level} risk: ${detection.keywords.join(", ")}`,
+  });
+
   // ========================================
   // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
   // No direct database access - EVER
   // ========================================
+  // crisisRiskLevel is owned by updateCrisisTrajectory, which weighs history
   await updateClientProfile(clientId, {
-    crisisRiskLevel: detection.level,
     lastCrisisDate: new Date(),
   });
 
@@ -181,7 +72,23 @@ export async function logCrisisEvent(
 }
 
 /**
- * Send crisis alert email to owner
+ * Queue the owner alert as an urgent crisis_alert job - it survives a
+ * restart and is retried until delivered, without holding up the reply
+ */
+export async function queueCrisisAlert(
+  clientId: string,
+  detection: CrisisDetectionResult,
+  message: string
+): Promise<void> {
+  await enqueueJob("crisis_alert", { detection, message }, {
+    clientProfileId: clientId,
+    priority: JOB_PRIORITY.urgent,
+  });
+}
+
+/**
+ * Send crisis alert to owner (routed by severity, deduplicated per client).
+ * Throws if no transport delivered it, so the crisis_alert job is retried.
  */
 export async function sendCrisisAlert(
   clientId: string,
@@ -216,18 +123,23 @@ This is an automated alert from Just Talk crisis detection system.
 Time: ${new Date().toISOString()}
   `.trim();
 
-  console.log("[Crisis] ALERT EMAIL:");
-  console.log(emailBody);
+  const delivered = await notifyOwner({
+    title: `Crisis alert (${detection.level.toUpperCase()}) - ${clientName}`,
+    content: emailBody,
+    severity: detection.level === "critical" ? "critical" : "warning",
+    dedupeKey: `crisis:${clientId}`,
+  });
 
-  // TODO: Integrate with actual email service
-  // For now, just log to console
-  // In production, use notifyOwner() or email service
+  if (!delivered) {
+    console.error(`[Crisis] Owner alert for client ${clientId} was not delivered`);
+    throw new Error("Crisis alert was not delivered by any transport");
+  }
 }
 
 /**
  * Get crisis response message for AI
  */
-export function getCrisisResponseGuidance(level: "none" | "low" | "medium" | "high" | "critical"): string {
+export function getCrisisResponseGuidance(level: CrisisLevel): string {
   if (level === "critical") {
     return `
 CRISIS DETECTED - CRITICAL LEVEL
@@ -275,59 +187,148 @@ Example: "It sounds like you're going through a really tough time. How are you m
   return "";
 }
 
+// How much history the trajectory looks at
+const TRAJECTORY_MESSAGES = 12;
+const TRAJECTORY_CONVERSATIONS = 10;
+
 /**
- * Analyze behavioral patterns for crisis risk
- * (Advanced feature - checks conversation frequency, sentiment trends, etc.)
+ * Re-score crisis risk across the conversation and the client's recent
+ * history after a new user message, and persist it:
+ * - conversation.crisisLevel / crisisDetected (highest level reached)
+ * - conversation.sentiment (read back as history by later conversations)
+ * - clientProfile.crisisRiskLevel (overall client risk)
+ *
+ * A crisis in the message itself is logged, and high/critical alerts the
+ * owner - on every channel. If the trend alone pushes the conversation to
+ * high/critical - no single message did - a case is opened and alerted too.
+ *
+ * Call after the user message has been stored.
  */
-export async function analyzeBehavioralRisk(clientId: string): Promise<{
-  riskLevel: "none" | "low" | "medium" | "high";
-  factors: string[];
-}> {
-  // Get recent conversations
-  const conversations = await db
-    .select()
-    .from(conversation)
-    .where(eq(conversation.clientProfileId, clientId))
-    .limit(10);
-
-  const factors: string[] = [];
-  let riskLevel: "none" | "low" | "medium" | "high" = "none";
-
-  // Check for increased frequency (multiple conversations in short time)
-  if (conversations.length >= 5) {
-    const recentConvs = conversations.filter(c => {
-      const hoursSince = (Date.now() - c.createdAt.getTime()) / (1000 * 60 * 60);
-      return hoursSince < 24;
-    });
-
-    if (recentConvs.length >= 3) {
-      factors.push("Increased contact frequency (3+ conversations in 24 hours)");
-      riskLevel = "low";
+export async function updateCrisisTrajectory(
+  clientId: string,
+  conversationId: string,
+  latest: CrisisDetectionResult,
+  text: string
+): Promise<CrisisTrajectory> {
+  if (latest.isCrisis) {
+    await logCrisisEvent(clientId, conversationId, latest, text);
+
+    if (latest.level === "critical" || latest.level === "high") {
+      await queueCrisisAlert(clientId, latest, text);
     }
   }
 
-  // Check for crisis history
-  const profile = await db
-    .select()
+  const recentMessages = await db
+    .select({ content: message.content, createdAt: message.createdAt })
+    .from(message)
+    .where(and(eq(message.conversationId, conversationId), eq(message.role, "user")))
+    .orderBy(desc(message.createdAt))
+    .limit(TRAJECTORY_MESSAGES);
+
+  // Older messages are re-scored; the latest keeps its (possibly reviewed) level
+  const messages = recentMessages.reverse().map((m, index, all) => ({
+    level: index === all.length - 1 ? latest.level : detectCrisis(m.content).level,
+    createdAt: m.createdAt,
+  }));
+
+  const pastConversations = await db
+    .select({
+      crisisLevel: conversation.crisisLevel,
+      sentiment: conversation.sentiment,
+      createdAt: conversation.createdAt,
+    })
+    .from(conversation)
+    .where(and(eq(conversation.clientProfileId, clientId), ne(conversation.id, conversationId)))
+    .orderBy(desc(conversation.createdAt))
+    .limit(TRAJECTORY_CONVERSATIONS);
+
+  const [profile] = await db
+    .select({
+      crisisRiskLevel: clientProfile.crisisRiskLevel,
+      lastCrisisDate: clientProfile.lastCrisisDate,
+    })
     .from(clientProfile)
     .where(eq(clientProfile.id, clientId))
     .limit(1);
 
-  if (profile[0]?.crisisRiskLevel && profile[0].crisisRiskLevel !== "none") {
-    factors.push(`Previous crisis risk: ${profile[0].crisisRiskLevel}`);
-    if (profile[0].crisisRiskLevel === "high" || profile[0].crisisRiskLevel === "critical") {
-      riskLevel = "high";
-    } else if (riskLevel === "none") {
-      riskLevel = "medium";
-    }
+  const [current] = await db
+    .select({ crisisLevel: conversation.crisisLevel, sentiment: conversation.sentiment })
+    .from(conversation)
+    .where(eq(conversation.id, conversationId))
+    .limit(1);
+
+  const trajectory = computeCrisisTrajectory({
+    messages,
+    pastConversations,
+    priorRiskLevel: profile?.crisisRiskLevel ?? null,
+    lastCrisisDate: profile?.lastCrisisDate ?? null,
+  });
+
+  const previousLevel = (current?.crisisLevel ?? "none") as CrisisLevel;
+  const sentiment = conversationSentiment(trajectory.conversationLevel, messages.map(m => m.level));
+
+  if (trajectory.conversationLevel !== previousLevel || sentiment !== current?.sentiment) {
+    await db
+      .update(conversation)
+      .set({
+        crisisLevel: trajectory.conversationLevel,
+        crisisDetected: trajectory.conversationLevel !== "none",
+        sentiment,
+        updatedAt: new Date(),
+      })
+      .where(eq(conversation.id, conversationId));
+  }
+
+  // ========================================
+  // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
+  // ========================================
+  const seesRisk = trajectory.currentLevel !== "none" && trajectory.currentLevel !== "low";
+  if (trajectory.clientLevel !== profile?.crisisRiskLevel || seesRisk) {
+    await updateClientProfile(clientId, {
+      crisisRiskLevel: trajectory.clientLevel,
+      // Risk carried from history decays from the last time we saw it
+      ...(seesRisk ? { lastCrisisDate: new Date() } : {}),
+    });
   }
 
-  // Check for negative sentiment trend
-  const negativeConvs = conversations.filter(c => c.sentiment === "negative" || c.sentiment === "crisis");
-  if (negativeConvs.length >= 3) {
-    factors.push("Persistent negative sentiment across conversations");
-    if (riskLevel === "none") riskLevel = "low";
+  // Gradual escalation: open a case when the trend crosses into high/critical
+  const escalatedByTrend =
+    (trajectory.conversationLevel === "high" || trajectory.conversationLevel === "critical") &&
+    isHigherLevel(trajectory.conversationLevel, previousLevel) &&
+    isHigherLevel(trajectory.conversationLevel, latest.level);
+
+  if (escalatedByTrend) {
+    const detection: CrisisDetectionResult = {
+      isCrisis: true,
+      level: trajectory.conversationLevel,
+      keywords: trajectory.factors,
+      confidence: latest.confidence,
+      recommendation: "HIGH PRIORITY: Risk has been building over the conversation. Review the transcript.",
+      reasons: trajectory.factors,
+    };
+    const transcript = `[Risk escalated over the conversation] ${trajectory.factors.join("; ")}`;
+
+    await logCrisisEvent(clientId, conversationId, detection, transcript);
+    await queueCrisisAlert(clientId, detection, transcript);
   }
 
-  return { riskLevel, factors };
+  if (trajectory.factors.length > 0) {
+    console.log(`[Crisis] Trajectory for ${clientId}: ${trajectory.currentLevel} (conversation ${trajectory.conversationLevel}, client ${trajectory.clientLevel}) - ${trajectory.factors.join("; ")}`);
+  }
+
+  return trajectory;
+}
+
+/**
+ * Conversation sentiment from what the client said: "crisis" once it
+ * reached high/critical, "negative" if any message showed distress
+ */
+function conversationSentiment(conversationLevel: CrisisLevel, levels: CrisisLevel[]): string {
+  if (conversationLevel === "high" || conversationLevel === "critical") return "crisis";
+  return levels.some(level => level !== "none") ? "negative" : "neutral";
+}
+
+function isHigherLevel(a: CrisisLevel, b: CrisisLevel): boolean {
+  const order: CrisisLevel[] = ["none", "low", "medium", "high", "critical"];
+  return order.indexOf(a) > order.indexOf(b);
 }
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+// Rows per table for every select, and every insert written
+const state = vi.hoisted(() => ({
+  rows: new Map<unknown, unknown[]>(),
+  inserted: [] as Array<{ table: unknown; values: Record<string, unknown> }>,
+}));
+
+vi.mock("./_core/db", () => {
+  function select() {
+    let table: unknown;
+    const chain: Record<string, unknown> = {};
+    const self = () => chain;
+    Object.assign(chain, {
+      from: (t: unknown) => { table = t; return chain; },
+      where: self,
+      orderBy: self,
+      limit: self,
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(state.rows.get(table) ?? []).then(resolve, reject),
+    });
+    return chain;
+  }
+
+  return {
+    db: {
+      select,
+      insert: (table: unknown) => ({
+        values: async (values: Record<string, unknown>) => { state.inserted.push({ table, values }); },
+      }),
+    },
+  };
+});
+
+import { clientProfile, clientRelationship, conversation, interactionLog, keyInsight, message } from "../drizzle/schema";
+import { dataExportRouter } from "./dataExportRouter";
+
+const admin = dataExportRouter.createCaller({
+  req: {},
+  res: {},
+  user: { id: "admin_1", role: "admin" },
+  clientToken: null,
+} as unknown as TrpcContext);
+
+beforeEach(() => {
+  state.rows = new Map<unknown, unknown[]>([
+    [clientProfile, [{
+      id: "client_1",
+      preferredName: "Sam",
+      email: null,
+      phoneNumber: "+15555550100",
+      firstContactDate: new Date("2025-01-15T09:00:00Z"),
+      subscriptionTier: "free",
+      aiSummary: "Sam is working through a stressful job change.",
+    }]],
+    [clientRelationship, [{ name: "Alex", relationship: "sister", notes: "close, talks every week" }]],
+    [keyInsight, [{ insight: "Walks help when work piles up" }]],
+    [conversation, [
+      { id: "conv_1", channel: "web", topic: "Work stress", createdAt: new Date("2025-02-01T18:30:00Z") },
+      { id: "conv_2", channel: "sms", topic: null, createdAt: new Date("2025-02-03T08:00:00Z") },
+    ]],
+    [message, [
+      { conversationId: "conv_1", role: "user", content: "Work has been a lot lately", createdAt: new Date("2025-02-01T18:31:00Z") },
+      { conversationId: "conv_1", role: "assistant", content: "That sounds heavy. What's weighing most?", createdAt: new Date("2025-02-01T18:31:05Z") },
+    ]],
+  ]);
+  state.inserted = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("data export", () => {
+  it("bundles a JSON archive and a readable transcript", async () => {
+    const { files } = await admin.forClient({ clientId: "client_1" });
+
+    expect(files.map(f => [f.filename.replace(/\d{4}-\d{2}-\d{2}/, "DATE"), f.contentType])).toEqual([
+      ["just-talk-data_DATE.json", "application/json"],
+      ["just-talk-transcript_DATE.md", "text/markdown"],
+    ]);
+  });
+
+  it("puts each conversation's messages under it in the archive", async () => {
+    const { files } = await admin.forClient({ clientId: "client_1" });
+    const archive = JSON.parse(files[0].content);
+
+    expect(archive.formatVersion).toBe(1);
+    expect(archive.profile.id).toBe("client_1");
+    expect(archive.relationships).toHaveLength(1);
+    expect(archive.conversations.map((c: { id: string; messages: unknown[] }) => [c.id, c.messages.length]))
+      .toEqual([["conv_1", 2], ["conv_2", 0]]);
+  });
+
+  it("writes the transcript as a conversation a person can read", async () => {
+    const { files } = await admin.forClient({ clientId: "client_1" });
+    const transcript = files[1].content;
+
+    expect(transcript).toContain("- Phone: +15555550100");
+    expect(transcript).toContain("Sam is working through a stressful job change.");
+    expect(transcript).toContain("- **Alex** (sister) - close, talks every week");
+    expect(transcript).toContain("- Walks help when work piles up");
+    expect(transcript).toContain("# Conversations (2)");
+    expect(transcript).toContain("## 2025-02-01 18:30 · web\n*Topic: Work stress*");
+    expect(transcript).toContain("**Sam** (18:31): Work has been a lot lately");
+    expect(transcript).toContain("**Sage** (18:31): That sounds heavy. What's weighing most?");
+    expect(transcript).toContain("## 2025-02-03 08:00 · sms\n\n_No messages._");
+  });
+
+  it("records the export against the profile", async () => {
+    await admin.forClient({ clientId: "client_1" });
+
+    const [logged] = state.inserted.filter(row => row.table === interactionLog);
+    expect(logged.values).toMatchObject({
+      clientProfileId: "client_1",
+      interactionType: "data_export",
+      target: "admin",
+      metadata: { actorUserId: "admin_1", conversations: 2, messages: 2 },
+    });
+  });
+
+  it("reports a profile that doesn't exist", async () => {
+    state.rows.delete(clientProfile);
+    await expect(admin.forClient({ clientId: "client_9" })).rejects.toThrow(/not found/);
+  });
+
+  it("is admin-only for other people's data", async () => {
+    const client = dataExportRouter.createCaller({ req: {}, res: {}, user: null, clientToken: null } as unknown as TrpcContext);
+    await expect(client.forClient({ clientId: "client_1" })).rejects.toThrow();
+  });
+});
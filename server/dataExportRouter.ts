@@ -0,0 +1,221 @@
+/**
+ * DATA EXPORT API - RIGHT TO ACCESS
+ *
+ * Everything tied to one client_profile, as two downloadable files:
+ * - a JSON archive of the raw records (profile, relationships, key
+ *   insights, conversations with messages, crisis logs, subscriptions,
+ *   consent records, interaction logs)
+ * - a Markdown transcript of the conversations a person can actually read
+ *
+ * Self-service through the client's own access token, or admin-triggered
+ * for requests that come in by email. Every export is itself logged to
+ * interaction_log.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { asc, eq, inArray } from "drizzle-orm";
+import { adminProcedure, clientProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import {
+  clientProfile,
+  clientRelationship,
+  consentRecord,
+  conversation,
+  crisisLog,
+  interactionLog,
+  keyInsight,
+  message,
+  subscription,
+  type Conversation,
+  type Message,
+} from "../drizzle/schema";
+import { logInteraction } from "./interactionLog";
+
+const ARCHIVE_FORMAT_VERSION = 1;
+
+type ExportFile = {
+  filename: string;
+  contentType: string;
+  content: string;
+};
+
+/**
+ * Every record tied to the profile, oldest first
+ */
+async function collectClientData(clientId: string) {
+  const [profile] = await db
+    .select()
+    .from(clientProfile)
+    .where(eq(clientProfile.id, clientId))
+    .limit(1);
+
+  if (!profile) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Client profile not found" });
+  }
+
+  const [relationships, insights, conversations, crisisLogs, subscriptions, consents, interactions] = await Promise.all([
+    db.select().from(clientRelationship).where(eq(clientRelationship.clientProfileId, clientId)).orderBy(asc(clientRelationship.createdAt)),
+    db.select().from(keyInsight).where(eq(keyInsight.clientProfileId, clientId)).orderBy(asc(keyInsight.createdAt)),
+    db.select().from(conversation).where(eq(conversation.clientProfileId, clientId)).orderBy(asc(conversation.createdAt)),
+    db.select().from(crisisLog).where(eq(crisisLog.clientProfileId, clientId)).orderBy(asc(crisisLog.createdAt)),
+    db.select().from(subscription).where(eq(subscription.clientProfileId, clientId)).orderBy(asc(subscription.createdAt)),
+    db.select().from(consentRecord).where(eq(consentRecord.clientProfileId, clientId)).orderBy(asc(consentRecord.createdAt)),
+    db.select().from(interactionLog).where(eq(interactionLog.clientProfileId, clientId)).orderBy(asc(interactionLog.timestamp)),
+  ]);
+
+  const messages = conversations.length === 0 ? [] : await db
+    .select()
+    .from(message)
+    .where(inArray(message.conversationId, conversations.map(c => c.id)))
+    .orderBy(asc(message.createdAt));
+
+  const messagesByConversation = new Map<string, Message[]>();
+  for (const msg of messages) {
+    const list = messagesByConversation.get(msg.conversationId) ?? [];
+    list.push(msg);
+    messagesByConversation.set(msg.conversationId, list);
+  }
+
+  return {
+    profile,
+    relationships,
+    keyInsights: insights,
+    conversations: conversations.map(conv => ({
+      ...conv,
+      messages: messagesByConversation.get(conv.id) ?? [],
+    })),
+    crisisLogs,
+    subscriptions,
+    consentRecords: consents,
+    interactionLogs: interactions,
+  };
+}
+
+type ClientData = Awaited<ReturnType<typeof collectClientData>>;
+
+function speakerOf(role: string, name: string | null): string {
+  if (role === "assistant") return "Sage";
+  if (role === "user") return name || "You";
+  return role;
+}
+
+function renderConversation(conv: Conversation & { messages: Message[] }, name: string | null): string {
+  const lines = [`## ${conv.createdAt.toISOString().slice(0, 16).replace("T", " ")} · ${conv.channel}`];
+  if (conv.topic) lines.push(`*Topic: ${conv.topic}*`);
+  lines.push("");
+
+  if (conv.messages.length === 0) {
+    lines.push("_No messages._", "");
+  }
+
+  for (const msg of conv.messages) {
+    const time = msg.createdAt.toISOString().slice(11, 16);
+    lines.push(`**${speakerOf(msg.role, name)}** (${time}): ${msg.content}`, "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Human-readable transcript - what Sage remembers and everything that was said
+ */
+function renderTranscript(data: ClientData, generatedAt: Date): string {
+  const { profile } = data;
+  const name = profile.preferredName;
+
+  const sections = [
+    `# Your Just Talk data`,
+    "",
+    `Exported ${generatedAt.toISOString()} for profile \`${profile.id}\`.`,
+    `The JSON archive that came with this file holds the complete records.`,
+    "",
+    "## About you",
+    "",
+    `- Name: ${name || "not given"}`,
+    `- Email: ${profile.email || "not given"}`,
+    `- Phone: ${profile.phoneNumber || "not given"}`,
+    `- First talked: ${profile.firstContactDate.toISOString().slice(0, 10)}`,
+    `- Plan: ${profile.subscriptionTier}`,
+  ];
+
+  if (profile.aiSummary) {
+    sections.push("", "## What Sage understands about you", "", profile.aiSummary);
+  }
+
+  if (data.relationships.length > 0) {
+    sections.push("", "## People in your life", "");
+    for (const person of data.relationships) {
+      sections.push(`- **${person.name}** (${person.relationship})${person.notes ? ` - ${person.notes}` : ""}`);
+    }
+  }
+
+  if (data.keyInsights.length > 0) {
+    sections.push("", "## Things Sage remembers", "");
+    for (const insight of data.keyInsights) {
+      sections.push(`- ${insight.insight}`);
+    }
+  }
+
+  sections.push("", `# Conversations (${data.conversations.length})`, "");
+  for (const conv of data.conversations) {
+    sections.push(renderConversation(conv, name));
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Build both files and record the export against the profile
+ */
+async function exportClientData(
+  clientId: string,
+  requestedBy: "client" | "admin",
+  actorUserId: string | null
+): Promise<{ generatedAt: Date; files: ExportFile[] }> {
+  const data = await collectClientData(clientId);
+  const generatedAt = new Date();
+  const stamp = generatedAt.toISOString().slice(0, 10);
+
+  const files: ExportFile[] = [
+    {
+      filename: `just-talk-data_${stamp}.json`,
+      contentType: "application/json",
+      content: JSON.stringify({ formatVersion: ARCHIVE_FORMAT_VERSION, generatedAt, ...data }, null, 2),
+    },
+    {
+      filename: `just-talk-transcript_${stamp}.md`,
+      contentType: "text/markdown",
+      content: renderTranscript(data, generatedAt),
+    },
+  ];
+
+  await logInteraction(clientId, "data_export", requestedBy, {
+    actorUserId,
+    conversations: data.conversations.length,
+    messages: data.conversations.reduce((total, conv) => total + conv.messages.length, 0),
+    files: files.map(f => f.filename),
+  });
+  console.log(`[DataExport] Exported ${clientId} (requested by ${requestedBy})`);
+
+  return { generatedAt, files };
+}
+
+export const dataExportRouter = router({
+  /**
+   * Self-service: a client downloads their own data
+   */
+  mine: clientProcedure
+    .mutation(async ({ input, ctx }) => {
+      return exportClientData(input.clientId, "client", ctx.user?.id ?? null);
+    }),
+
+  /**
+   * Admin-triggered, for requests that arrive by email
+   */
+  forClient: adminProcedure
+    .input(z.object({ clientId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      return exportClientData(input.clientId, "admin", ctx.user.id);
+    }),
+});
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+
+// Whether each transaction gets the lock, the rows each purge returns (per table), and what was done
+const state = vi.hoisted(() => ({
+  locks: [] as boolean[],
+  purged: new Map<unknown, Array<Array<{ id: string }>>>(),
+  transactions: 0,
+  purges: [] as Array<{ table: unknown; action: "update" | "delete"; where: unknown }>,
+}));
+
+vi.mock("./_core/db", () => {
+  const purge = (table: unknown, action: "update" | "delete") => ({
+    where: (where: unknown) => {
+      state.purges.push({ table, action, where });
+      const rows = () => Promise.resolve(state.purged.get(table)?.shift() ?? []);
+      return { returning: rows, then: (resolve: () => void) => resolve() };
+    },
+  });
+
+  const tx = {
+    execute: async () => [{ locked: state.locks.shift() ?? true }],
+    select: () => {
+      const chain: Record<string, unknown> = {};
+      const self = () => chain;
+      Object.assign(chain, { from: self, where: self, limit: self });
+      return chain;
+    },
+    update: (table: unknown) => ({ set: () => purge(table, "update") }),
+    delete: (table: unknown) => purge(table, "delete"),
+  };
+
+  return {
+    db: {
+      transaction: <T>(fn: (t: typeof tx) => Promise<T>) => {
+        state.transactions++;
+        return fn(tx);
+      },
+      insert: () => ({ values: () => ({ onConflictDoUpdate: async () => {} }) }),
+    },
+  };
+});
+
+import { crisisLog, guardrailViolation, interactionLog, memoryEmbedding, message } from "../drizzle/schema";
+import { buildRetentionFilters, DEFAULT_RETENTION_POLICY, retentionPolicySchema, runRetention } from "./dataRetention";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-06-01T12:00:00Z");
+const dialect = new PgDialect();
+
+function render(filter: SQL | undefined) {
+  return dialect.sqlToQuery(filter!);
+}
+
+describe("retention policy", () => {
+  it("defaults to a dry run that redacts transcripts after a year", () => {
+    expect(DEFAULT_RETENTION_POLICY).toMatchObject({
+      enabled: true,
+      dryRun: true,
+      transcriptDays: 365,
+      transcriptAction: "redact",
+      crisisLogDays: 7 * 365,
+    });
+  });
+
+  it("rejects periods shorter than a day", () => {
+    expect(retentionPolicySchema.safeParse({ transcriptDays: 0 }).success).toBe(false);
+  });
+});
+
+describe("buildRetentionFilters", () => {
+  const policy = { ...DEFAULT_RETENTION_POLICY, transcriptDays: 30, interactionLogDays: 90, crisisLogDays: 730 };
+  const filters = buildRetentionFilters(policy, now);
+
+  it("counts each period back from now", () => {
+    expect(filters.transcriptCutoff).toEqual(new Date(now.getTime() - 30 * DAY_MS));
+    expect(filters.interactionCutoff).toEqual(new Date(now.getTime() - 90 * DAY_MS));
+    expect(filters.crisisCutoff).toEqual(new Date(now.getTime() - 730 * DAY_MS));
+  });
+
+  it("redacts only messages that aren't redacted yet", () => {
+    const { sql, params } = render(filters.messageFilter);
+    expect(sql).toContain('"message"."created_at" < $1');
+    expect(sql).toContain('"message"."redacted_at" is null');
+    expect(params).toEqual([filters.transcriptCutoff.toISOString()]);
+  });
+
+  it("deletes redacted messages too when transcripts are deleted", () => {
+    const { sql } = render(buildRetentionFilters({ ...policy, transcriptAction: "delete" }, now).messageFilter);
+    expect(sql).not.toContain("redacted_at");
+  });
+
+  it("finds unredacted guardrail responses by column, not by comparing encrypted text", () => {
+    const { sql } = render(filters.guardrailFilter);
+    expect(sql).toContain('"guardrail_violation"."redacted_at" is null');
+    expect(sql).not.toContain("ai_response");
+  });
+
+  it("keeps the audit trail of data rights requests", () => {
+    const { sql, params } = render(filters.interactionFilter);
+    expect(sql).toContain('"interaction_log"."interaction_type" not in');
+    expect(params).toEqual(expect.arrayContaining(["data_export", "memory_forgotten", "account_deleted"]));
+  });
+
+  it("only purges resolved crisis cases, counted from resolution", () => {
+    const { sql, params } = render(filters.crisisFilter);
+    expect(sql).toContain('"crisis_log"."status" = $1');
+    expect(sql).toContain('coalesce("crisis_log"."resolved_at", "crisis_log"."updated_at") <');
+    expect(params).toEqual(["resolved", filters.crisisCutoff]);
+  });
+});
+
+describe("runRetention", () => {
+  const policy = { ...DEFAULT_RETENTION_POLICY, dryRun: false };
+  const ids = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => ({ id: `${prefix}_${i}` }));
+
+  beforeEach(() => {
+    state.locks = [];
+    state.purged = new Map();
+    state.transactions = 0;
+    state.purges = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("purges in batches, each in its own transaction, until a batch comes back short", async () => {
+    state.purged.set(message, [ids("msg", 1000), ids("msg_more", 3)]);
+    state.purged.set(interactionLog, [ids("log", 2)]);
+
+    const report = await runRetention(policy);
+
+    expect(report.transcripts.messages).toBe(1003);
+    expect(report.interactionLogs).toBe(2);
+    // Two message batches, then one each for guardrail responses, interaction logs and crisis logs
+    expect(state.transactions).toBe(5);
+    expect(report.skipped).toBeUndefined();
+  });
+
+  it("drops the vectors of just the messages each batch redacted", async () => {
+    state.purged.set(message, [[{ id: "msg_1" }, { id: "msg_2" }]]);
+
+    await runRetention(policy);
+
+    const embeddings = state.purges.filter(p => p.table === memoryEmbedding);
+    expect(embeddings).toHaveLength(1);
+    expect(new PgDialect().sqlToQuery(embeddings[0].where as SQL).params).toEqual(["msg_1", "msg_2"]);
+  });
+
+  it("leaves vectors alone when a batch redacts nothing", async () => {
+    await runRetention(policy);
+    expect(state.purges.some(p => p.table === memoryEmbedding)).toBe(false);
+  });
+
+  it("skips the run when another instance holds the lock", async () => {
+    state.locks = [false];
+
+    const report = await runRetention(policy);
+
+    expect(report.skipped).toBe("locked");
+    expect(state.purges).toEqual([]);
+  });
+
+  it("stops between batches if another instance takes over", async () => {
+    state.purged.set(message, [ids("msg", 1000), ids("msg_more", 1000)]);
+    state.locks = [true, false];
+
+    const report = await runRetention(policy);
+
+    expect(report).toMatchObject({ skipped: "locked", transcripts: { messages: 1000 } });
+    expect(state.purges.some(p => [guardrailViolation, interactionLog, crisisLog].includes(p.table as never))).toBe(false);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * DATA RETENTION
+ *
+ * Raw transcripts are the most sensitive thing we hold, and without a
+ * policy message, interaction_log and crisis_log rows accumulate forever.
+ * This purges them on a schedule while keeping what was derived from them
+ * (conversation summaries, key points, insights, the profile) - Sage keeps
+ * remembering the person without keeping every word they said.
+ *
+ * The policy is a JSON object in system_setting under "data_retention"
+ * (see retentionPolicySchema for the fields and defaults):
+ * - transcripts: messages and guardrail response copies older than
+ *   transcriptDays are redacted in place, or deleted
+ * - interactionLogDays: interaction_log rows are deleted, except the audit
+ *   trail of data rights requests
+ * - crisisLogDays: resolved crisis cases are deleted with their history,
+ *   counted from resolution - a separate, longer period; open cases are
+ *   never purged
+ * - dryRun (the default): only report what would go
+ *
+ * runRetention is run by the scheduler inside the server process
+ * (startRetentionSchedule) and by admins through retentionRouter.
+ */
+
+import { z } from "zod";
+import { and, eq, inArray, isNull, lt, notInArray, sql } from "drizzle-orm";
+import { db } from "./_core/db";
+import { crisisLog, guardrailViolation, interactionLog, memoryEmbedding, message, systemSetting } from "../drizzle/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_SETTING_KEY = "data_retention";
+const LAST_RUN_SETTING_KEY = "data_retention_last_run";
+
+// What's left of a redacted message
+export const REDACTED_CONTENT = "[removed under the data retention policy]";
+
+// Evidence that data rights requests were honoured - kept regardless
+const AUDIT_INTERACTION_TYPES = ["data_export", "memory_forgotten", "account_deleted"];
+
+// Rows purged per transaction
+const PURGE_BATCH_SIZE = 1000;
+
+// Let the server settle before the first run
+const FIRST_RUN_DELAY_MS = 5 * 60 * 1000;
+
+export const retentionPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  dryRun: z.boolean().default(true), // Report only, until an admin turns it off
+  transcriptDays: z.number().int().min(1).default(365),
+  transcriptAction: z.enum(["redact", "delete"]).default("redact"),
+  interactionLogDays: z.number().int().min(1).default(365),
+  crisisLogDays: z.number().int().min(1).default(7 * 365),
+  intervalHours: z.number().min(1).max(24 * 7).default(24),
+});
+
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = retentionPolicySchema.parse({});
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  policy: RetentionPolicy;
+  cutoffs: { transcripts: string; interactionLogs: string; crisisLogs: string };
+  transcripts: { messages: number; guardrailResponses: number; action: RetentionPolicy["transcriptAction"] };
+  interactionLogs: number;
+  crisisLogs: number;
+  skipped?: "locked"; // Another instance had the lock - counts cover what this run did first
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+/**
+ * The stored policy, or the defaults if there is none (or it's invalid)
+ */
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const [setting] = await db
+    .select()
+    .from(systemSetting)
+    .where(eq(systemSetting.key, POLICY_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) return DEFAULT_RETENTION_POLICY;
+
+  try {
+    return retentionPolicySchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.error("[Retention] data_retention setting is invalid, using defaults:", error);
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+  await saveSetting(POLICY_SETTING_KEY, JSON.stringify(policy));
+}
+
+export async function getLastRetentionReport(): Promise<RetentionReport | null> {
+  const [setting] = await db
+    .select()
+    .from(systemSetting)
+    .where(eq(systemSetting.key, LAST_RUN_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) return null;
+
+  try {
+    return JSON.parse(setting.value) as RetentionReport;
+  } catch {
+    return null;
+  }
+}
+
+async function saveSetting(key: string, value: string): Promise<void> {
+  await db.insert(systemSetting)
+    .values({ key, value, updatedAt: new Date() })
+    .onConflictDoUpdate({ target: systemSetting.key, set: { value, updatedAt: new Date() } });
+}
+
+/**
+ * The cutoffs and the rows each part of the policy applies to, as of `now`
+ */
+export function buildRetentionFilters(policy: RetentionPolicy, now: Date) {
+  const transcriptCutoff = new Date(now.getTime() - policy.transcriptDays * DAY_MS);
+  const interactionCutoff = new Date(now.getTime() - policy.interactionLogDays * DAY_MS);
+  const crisisCutoff = new Date(now.getTime() - policy.crisisLogDays * DAY_MS);
+
+  return {
+    transcriptCutoff,
+    interactionCutoff,
+    crisisCutoff,
+    messageFilter: and(
+      lt(message.createdAt, transcriptCutoff),
+      policy.transcriptAction === "redact" ? isNull(message.redactedAt) : undefined
+    ),
+    guardrailFilter: and(
+      lt(guardrailViolation.createdAt, transcriptCutoff),
+      isNull(guardrailViolation.redactedAt)
+    ),
+    interactionFilter: and(
+      lt(interactionLog.timestamp, interactionCutoff),
+      notInArray(interactionLog.interactionType, AUDIT_INTERACTION_TYPES)
+    ),
+    // Counted from when the case was closed, not opened
+    crisisFilter: and(
+      eq(crisisLog.status, "resolved"),
+      lt(sql`coalesce(${crisisLog.resolvedAt}, ${crisisLog.updatedAt})`, crisisCutoff)
+    ),
+  };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type RetentionFilters = ReturnType<typeof buildRetentionFilters>;
+type RetentionCounts = { messages: number; guardrailResponses: number; interactionLogs: number; crisisLogs: number };
+
+/**
+ * Run `work` in its own transaction under an advisory lock, so two server
+ * instances never purge at the same time. Null if another instance holds it.
+ */
+async function withRetentionLock<T>(work: (tx: Transaction) => Promise<T>): Promise<T | null> {
+  return db.transaction(async (tx) => {
+    const [lock] = await tx.execute<{ locked: boolean }>(
+      sql`select pg_try_advisory_xact_lock(hashtext(${POLICY_SETTING_KEY})) as locked`
+    );
+    if (!lock?.locked) return null;
+    return work(tx);
+  });
+}
+
+async function countPurgeable(tx: Transaction, filters: RetentionFilters): Promise<RetentionCounts> {
+  const count = sql<number>`count(*)::int`;
+  const [[messages], [guardrailResponses], [interactions], [crises]] = await Promise.all([
+    tx.select({ count }).from(message).where(filters.messageFilter),
+    tx.select({ count }).from(guardrailViolation).where(filters.guardrailFilter),
+    tx.select({ count }).from(interactionLog).where(filters.interactionFilter),
+    tx.select({ count }).from(crisisLog).where(filters.crisisFilter),
+  ]);
+  return {
+    messages: messages?.count ?? 0,
+    guardrailResponses: guardrailResponses?.count ?? 0,
+    interactionLogs: interactions?.count ?? 0,
+    crisisLogs: crises?.count ?? 0,
+  };
+}
+
+/**
+ * Purge up to PURGE_BATCH_SIZE rows of each kind. Returns how many went.
+ */
+function batchPurgers(policy: RetentionPolicy, filters: RetentionFilters): Array<[keyof RetentionCounts, (tx: Transaction) => Promise<number>]> {
+  return [
+    ["messages", async (tx) => {
+      const batch = tx.select({ id: message.id }).from(message).where(filters.messageFilter).limit(PURGE_BATCH_SIZE);
+
+      // Conversation summaries and key points stay - only the raw words go
+      if (policy.transcriptAction === "delete") {
+        const deleted = await tx.delete(message).where(inArray(message.id, batch)).returning({ id: message.id });
+        return deleted.length;
+      }
+
+      const redacted = await tx
+        .update(message)
+        .set({ content: REDACTED_CONTENT, extractedInfo: null, crisisKeywords: null, audioUrl: null, redactedAt: new Date() })
+        .where(inArray(message.id, batch))
+        .returning({ id: message.id });
+
+      // A redacted message's vector would still say what it was about (deleted ones cascade)
+      if (redacted.length > 0) {
+        await tx.delete(memoryEmbedding).where(inArray(memoryEmbedding.messageId, redacted.map(row => row.id)));
+      }
+      return redacted.length;
+    }],
+    ["guardrailResponses", async (tx) => {
+      const batch = tx.select({ id: guardrailViolation.id }).from(guardrailViolation).where(filters.guardrailFilter).limit(PURGE_BATCH_SIZE);
+      const redacted = await tx
+        .update(guardrailViolation)
+        .set({ aiResponse: REDACTED_CONTENT, evidence: null, redactedAt: new Date() })
+        .where(inArray(guardrailViolation.id, batch))
+        .returning({ id: guardrailViolation.id });
+      return redacted.length;
+    }],
+    ["interactionLogs", async (tx) => {
+      const batch = tx.select({ id: interactionLog.id }).from(interactionLog).where(filters.interactionFilter).limit(PURGE_BATCH_SIZE);
+      const deleted = await tx.delete(interactionLog).where(inArray(interactionLog.id, batch)).returning({ id: interactionLog.id });
+      return deleted.length;
+    }],
+    // Case events cascade with the case
+    ["crisisLogs", async (tx) => {
+      const batch = tx.select({ id: crisisLog.id }).from(crisisLog).where(filters.crisisFilter).limit(PURGE_BATCH_SIZE);
+      const deleted = await tx.delete(crisisLog).where(inArray(crisisLog.id, batch)).returning({ id: crisisLog.id });
+      return deleted.length;
+    }],
+  ];
+}
+
+/**
+ * Apply the policy - or, in a dry run, count what it would touch.
+ *
+ * Rows are purged PURGE_BATCH_SIZE at a time, each batch in its own
+ * transaction under the advisory lock, so a large backlog never holds
+ * row locks for long. If another instance takes the lock between batches
+ * this run stops there - the other instance carries on with the rest.
+ */
+export async function runRetention(
+  policy: RetentionPolicy,
+  options: { dryRun?: boolean } = {}
+): Promise<RetentionReport> {
+  const dryRun = options.dryRun ?? policy.dryRun;
+  const startedAt = new Date();
+  const filters = buildRetentionFilters(policy, startedAt);
+  const { transcriptCutoff, interactionCutoff, crisisCutoff } = filters;
+
+  let counts: RetentionCounts = { messages: 0, guardrailResponses: 0, interactionLogs: 0, crisisLogs: 0 };
+  let locked = false;
+
+  if (dryRun) {
+    const counted = await withRetentionLock(tx => countPurgeable(tx, filters));
+    if (counted) counts = counted;
+    else locked = true;
+  } else {
+    purging: for (const [kind, purgeBatch] of batchPurgers(policy, filters)) {
+      while (true) {
+        const purged = await withRetentionLock(purgeBatch);
+        if (purged === null) {
+          locked = true;
+          break purging;
+        }
+        counts[kind] += purged;
+        if (purged < PURGE_BATCH_SIZE) break;
+      }
+    }
+  }
+
+  const report: RetentionReport = {
+    dryRun,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    policy,
+    cutoffs: {
+      transcripts: transcriptCutoff.toISOString(),
+      interactionLogs: interactionCutoff.toISOString(),
+      crisisLogs: crisisCutoff.toISOString(),
+    },
+    transcripts: {
+      messages: counts.messages,
+      guardrailResponses: counts.guardrailResponses,
+      action: policy.transcriptAction,
+    },
+    interactionLogs: counts.interactionLogs,
+    crisisLogs: counts.crisisLogs,
+  };
+
+  if (locked) {
+    console.log("[Retention] Another instance is running retention - stopped here");
+    return { ...report, skipped: "locked" };
+  }
+
+  console.log(
+    `[Retention] ${dryRun ? "Dry run - would purge" : "Purged"}: ${report.transcripts.messages} messages (${policy.transcriptAction}), ` +
+    `${report.transcripts.guardrailResponses} guardrail responses, ${report.interactionLogs} interaction logs, ${report.crisisLogs} crisis logs`
+  );
+
+  await saveSetting(LAST_RUN_SETTING_KEY, JSON.stringify(report));
+  return report;
+}
+
+/**
+ * Scheduled run: re-reads the policy each time, so changes apply without a restart
+ */
+async function runScheduledRetention(): Promise<void> {
+  let intervalHours = DEFAULT_RETENTION_POLICY.intervalHours;
+
+  try {
+    const policy = await getRetentionPolicy();
+    intervalHours = policy.intervalHours;
+    if (policy.enabled) {
+      await runRetention(policy);
+    }
+  } catch (error) {
+    console.error("[Retention] Scheduled run failed:", error);
+  }
+
+  scheduleTimer = setTimeout(runScheduledRetention, intervalHours * 60 * 60 * 1000);
+}
+
+/**
+ * Start the retention job inside the server process
+ */
+export function startRetentionSchedule(): void {
+  if (scheduleTimer) return;
+
+  console.log("[Retention] Scheduling data retention job");
+  scheduleTimer = setTimeout(runScheduledRetention, FIRST_RUN_DELAY_MS);
+}
@@ -0,0 +1,109 @@
+/**
+ * DTMF Keypad Menu
+ *
+ * Lets callers reach key actions by pressing phone keys instead of speaking -
+ * for noisy environments or callers with speech difficulties.
+ *
+ * The default layout can be overridden without a deploy by storing a JSON
+ * object in system_setting under "dtmf_menu", e.g.
+ *   {"0": "support_info", "9": "crisis_resources", "1": "repeat_last_reply"}
+ * Unknown keys or actions are ignored.
+ */
+
+import { db } from "./_core/db";
+import { systemSetting } from "../drizzle/schema";
+import { eq } from "drizzle-orm";
+
+export type DtmfAction =
+  | "support_info"
+  | "crisis_resources"
+  | "resend_payment_link"
+  | "repeat_last_reply";
+
+export type DtmfMenu = Record<string, DtmfAction>;
+
+const DTMF_ACTIONS: DtmfAction[] = [
+  "support_info",
+  "crisis_resources",
+  "resend_payment_link",
+  "repeat_last_reply",
+];
+
+const KEYPAD_KEYS = /^[0-9*#]$/;
+
+export const DEFAULT_DTMF_MENU: DtmfMenu = {
+  "0": "support_info",
+  "9": "crisis_resources",
+  "#": "resend_payment_link",
+  "*": "repeat_last_reply",
+};
+
+const DTMF_MENU_SETTING_KEY = "dtmf_menu";
+
+// Cache the menu so a key press doesn't hit the database every time
+let cachedMenu: DtmfMenu | null = null;
+let cacheExpiry = 0;
+
+/**
+ * Get the active keypad menu (system_setting override, or the default)
+ */
+export async function getDtmfMenu(): Promise<DtmfMenu> {
+  if (cachedMenu && Date.now() < cacheExpiry) {
+    return cachedMenu;
+  }
+
+  let menu = DEFAULT_DTMF_MENU;
+
+  try {
+    const [setting] = await db
+      .select()
+      .from(systemSetting)
+      .where(eq(systemSetting.key, DTMF_MENU_SETTING_KEY))
+      .limit(1);
+
+    if (setting) {
+      menu = parseDtmfMenu(setting.value);
+    }
+  } catch (error) {
+    console.error("[DTMF] Failed to load keypad menu, using default:", error);
+  }
+
+  cachedMenu = menu;
+  cacheExpiry = Date.now() + 5 * 60 * 1000;
+
+  return menu;
+}
+
+/**
+ * Resolve a key press to its action (undefined if the key isn't mapped)
+ */
+export async function getDtmfAction(digit: string): Promise<DtmfAction | undefined> {
+  const menu = await getDtmfMenu();
+  return menu[digit];
+}
+
+function parseDtmfMenu(value: string): DtmfMenu {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    console.error("[DTMF] dtmf_menu setting is not valid JSON, using default");
+    return DEFAULT_DTMF_MENU;
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    console.error("[DTMF] dtmf_menu setting must be an object, using default");
+    return DEFAULT_DTMF_MENU;
+  }
+
+  const menu: DtmfMenu = {};
+  for (const [key, action] of Object.entries(raw)) {
+    if (KEYPAD_KEYS.test(key) && DTMF_ACTIONS.includes(action as DtmfAction)) {
+      menu[key] = action as DtmfAction;
+    } else {
+      console.warn(`[DTMF] Ignoring invalid menu entry ${key} -> ${String(action)}`);
+    }
+  }
+
+  return menu;
+}
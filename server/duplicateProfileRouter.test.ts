@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ClientProfile } from "../drizzle/schema";
+
+vi.mock("./_core/db", () => ({ db: {} }));
+
+import { scorePairs, suggestKeep } from "./duplicateProfileRouter";
+
+function profile(overrides: Partial<ClientProfile>): ClientProfile {
+  return {
+    userId: null,
+    firstContactDate: new Date("2025-01-01T00:00:00Z"),
+    ...overrides,
+  } as ClientProfile;
+}
+
+describe("scorePairs", () => {
+  it("combines each pair's signals so they reinforce each other", () => {
+    const [pair] = scorePairs([
+      { a: "client_1", b: "client_2", signal: "phone", detail: "+15555550100" },
+      { a: "client_1", b: "client_2", signal: "email", detail: "sam@example.com" },
+    ]);
+
+    expect(pair.profileIds).toEqual(["client_1", "client_2"]);
+    expect(pair.signals.map(s => s.signal)).toEqual(["phone", "email"]);
+    // 1 - (1 - 0.9)(1 - 0.85)
+    expect(pair.score).toBe(0.99);
+  });
+
+  it("ranks the most confident pairs first", () => {
+    const pairs = scorePairs([
+      { a: "client_1", b: "client_3", signal: "name_and_relationships", detail: "Sam; shared: Mom" },
+      { a: "client_1", b: "client_2", signal: "stripe_customer", detail: "cus_1" },
+      { a: "client_2", b: "client_3", signal: "email", detail: "sam@example.com" },
+    ]);
+
+    expect(pairs.map(pair => [pair.profileIds, pair.score])).toEqual([
+      [["client_1", "client_2"], 0.95],
+      [["client_2", "client_3"], 0.85],
+      [["client_1", "client_3"], 0.6],
+    ]);
+  });
+
+  it("finds nothing in nothing", () => {
+    expect(scorePairs([])).toEqual([]);
+  });
+});
+
+describe("suggestKeep", () => {
+  const older = profile({ id: "client_old", firstContactDate: new Date("2024-06-01T00:00:00Z") });
+  const newer = profile({ id: "client_new", firstContactDate: new Date("2025-02-01T00:00:00Z") });
+
+  it("keeps the profile with an account", () => {
+    const linked = { ...newer, userId: "user_1" };
+    expect(suggestKeep(older, linked)).toBe("client_new");
+    expect(suggestKeep(linked, older)).toBe("client_new");
+  });
+
+  it("otherwise keeps the profile seen first", () => {
+    expect(suggestKeep(newer, older)).toBe("client_old");
+    expect(suggestKeep(older, newer)).toBe("client_old");
+  });
+
+  it("goes by first contact when both have accounts", () => {
+    expect(suggestKeep({ ...newer, userId: "user_2" }, { ...older, userId: "user_1" })).toBe("client_old");
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * DUPLICATE PROFILE API (ADMIN ONLY)
+ *
+ * The same person often ends up with several client_profile rows - one per
+ * browser fingerprint, one per phone, temp_ fingerprints from chat. Sage's
+ * memory is split between them until they're merged.
+ *
+ * - find: likely duplicate pairs, scored by matching signals
+ *   (phone, email, Stripe customer, name plus shared relationships)
+ * - compare: both profiles side by side, with a preview of the merge
+ * - merge / undo: through the unified repository (audited, transactional)
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { alias } from "drizzle-orm/pg-core";
+import { and, desc, eq, inArray, isNotNull, isNull, lt, sql } from "drizzle-orm";
+import { adminProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import {
+  clientProfile,
+  clientRelationship,
+  conversation,
+  keyInsight,
+  message,
+  profileMerge,
+  subscription,
+  type ClientProfile,
+} from "../drizzle/schema";
+import { mergeProfiles, undoProfileMerge } from "./unifiedClientRepository";
+import { mergeProfileFields } from "./profileMerge";
+
+type DuplicateSignal = "stripe_customer" | "phone" | "email" | "name_and_relationships";
+
+// How strongly each signal on its own suggests the same person
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  stripe_customer: 0.95,
+  phone: 0.9,
+  email: 0.85,
+  name_and_relationships: 0.6,
+};
+
+type DuplicatePair = {
+  profileIds: [string, string];
+  signals: { signal: DuplicateSignal; detail: string }[];
+  score: number;
+};
+
+const other = alias(clientProfile, "other");
+
+/**
+ * Pairs of profiles sharing a signal, from each signal's own query.
+ * Pairs are ordered (a.id < b.id) so each is found once. Phone, email and
+ * name join on their indexed generated keys (null when blank or too short).
+ */
+async function findSignalPairs(): Promise<{ a: string; b: string; signal: DuplicateSignal; detail: string }[]> {
+  const [byStripe, byPhone, byEmail] = await Promise.all([
+    db
+      .select({ a: clientProfile.id, b: other.id, detail: clientProfile.stripeCustomerId })
+      .from(clientProfile)
+      .innerJoin(other, and(
+        lt(clientProfile.id, other.id),
+        eq(clientProfile.stripeCustomerId, other.stripeCustomerId)
+      ))
+      // Erased accounts keep their Stripe id on a tombstone - never merge into one
+      .where(and(isNotNull(clientProfile.stripeCustomerId), isNull(clientProfile.deletedAt), isNull(other.deletedAt))),
+
+    db
+      .select({ a: clientProfile.id, b: other.id, detail: clientProfile.phoneNumber })
+      .from(clientProfile)
+      .innerJoin(other, and(lt(clientProfile.id, other.id), eq(clientProfile.phoneKey, other.phoneKey)))
+      .where(isNotNull(clientProfile.phoneKey)),
+
+    db
+      .select({ a: clientProfile.id, b: other.id, detail: clientProfile.email })
+      .from(clientProfile)
+      .innerJoin(other, and(lt(clientProfile.id, other.id), eq(clientProfile.emailKey, other.emailKey)))
+      .where(isNotNull(clientProfile.emailKey)),
+  ]);
+
+  // A shared first name alone is common - require people in their lives in common too
+  const relA = alias(clientRelationship, "rel_a");
+  const relB = alias(clientRelationship, "rel_b");
+  const byName = await db
+    .select({
+      a: clientProfile.id,
+      b: other.id,
+      name: clientProfile.preferredName,
+      shared: sql<string[]>`array_agg(distinct lower(${relA.name}))`,
+    })
+    .from(clientProfile)
+    .innerJoin(other, and(lt(clientProfile.id, other.id), eq(clientProfile.nameKey, other.nameKey)))
+    .innerJoin(relA, eq(relA.clientProfileId, clientProfile.id))
+    .innerJoin(relB, and(
+      eq(relB.clientProfileId, other.id),
+      sql`lower(trim(${relA.name})) = lower(trim(${relB.name}))`
+    ))
+    .where(isNotNull(clientProfile.nameKey))
+    .groupBy(clientProfile.id, other.id, clientProfile.preferredName);
+
+  return [
+    ...byStripe.map(row => ({ a: row.a, b: row.b, signal: "stripe_customer" as const, detail: row.detail ?? "" })),
+    ...byPhone.map(row => ({ a: row.a, b: row.b, signal: "phone" as const, detail: row.detail ?? "" })),
+    ...byEmail.map(row => ({ a: row.a, b: row.b, signal: "email" as const, detail: row.detail ?? "" })),
+    ...byName.map(row => ({
+      a: row.a,
+      b: row.b,
+      signal: "name_and_relationships" as const,
+      detail: `${row.name}; shared: ${row.shared.join(", ")}`,
+    })),
+  ];
+}
+
+/**
+ * Combine signals per pair. Independent signals reinforce each other:
+ * score = 1 - product of (1 - weight).
+ */
+export function scorePairs(rows: Awaited<ReturnType<typeof findSignalPairs>>): DuplicatePair[] {
+  const pairs = new Map<string, DuplicatePair>();
+
+  for (const row of rows) {
+    const key = `${row.a}|${row.b}`;
+    const pair = pairs.get(key) ?? { profileIds: [row.a, row.b], signals: [], score: 0 };
+    pair.signals.push({ signal: row.signal, detail: row.detail });
+    pairs.set(key, pair);
+  }
+
+  return Array.from(pairs.values())
+    .map(pair => {
+      const miss = pair.signals.reduce((product, s) => product * (1 - SIGNAL_WEIGHTS[s.signal]), 1);
+      return { ...pair, score: Math.round((1 - miss) * 100) / 100 };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+async function getProfileOrThrow(id: string): Promise<ClientProfile> {
+  const [profile] = await db
+    .select()
+    .from(clientProfile)
+    .where(eq(clientProfile.id, id))
+    .limit(1);
+
+  if (!profile) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Profile ${id} not found` });
+  }
+  return profile;
+}
+
+/**
+ * What an admin needs to judge a profile: identity, activity and memory
+ */
+async function summarizeProfile(profile: ClientProfile) {
+  const count = sql<number>`count(*)::int`;
+  const [[conversations], [messages], [insights], [subscriptions]] = await Promise.all([
+    db.select({ count }).from(conversation).where(eq(conversation.clientProfileId, profile.id)),
+    db
+      .select({ count })
+      .from(message)
+      .innerJoin(conversation, eq(message.conversationId, conversation.id))
+      .where(eq(conversation.clientProfileId, profile.id)),
+    db.select({ count }).from(keyInsight).where(eq(keyInsight.clientProfileId, profile.id)),
+    db.select({ count }).from(subscription).where(eq(subscription.clientProfileId, profile.id)),
+  ]);
+
+  const relationships = await db
+    .select({ name: clientRelationship.name, relationship: clientRelationship.relationship })
+    .from(clientRelationship)
+    .where(eq(clientRelationship.clientProfileId, profile.id))
+    .orderBy(desc(clientRelationship.importance));
+
+  return {
+    id: profile.id,
+    userId: profile.userId,
+    preferredName: profile.preferredName,
+    phoneNumber: profile.phoneNumber,
+    email: profile.email,
+    stripeCustomerId: profile.stripeCustomerId,
+    subscriptionTier: profile.subscriptionTier,
+    crisisRiskLevel: profile.crisisRiskLevel,
+    firstContactDate: profile.firstContactDate,
+    lastContactDate: profile.lastContactDate,
+    preferredChannel: profile.preferredChannel,
+    aiSummary: profile.aiSummary,
+    keyInsights: (profile.keyInsights ?? []).map(i => i.insight),
+    relationships,
+    counts: {
+      conversations: conversations?.count ?? 0,
+      messages: messages?.count ?? 0,
+      insights: insights?.count ?? 0,
+      subscriptions: subscriptions?.count ?? 0,
+    },
+  };
+}
+
+/**
+ * Which profile to keep by default: one tied to a login, else the oldest
+ */
+export function suggestKeep(a: ClientProfile, b: ClientProfile): string {
+  if (a.userId && !b.userId) return a.id;
+  if (b.userId && !a.userId) return b.id;
+  return a.firstContactDate <= b.firstContactDate ? a.id : b.id;
+}
+
+export const duplicateProfileRouter = router({
+  /**
+   * Likely duplicate pairs, most confident first
+   */
+  find: adminProcedure
+    .input(z.object({
+      minScore: z.number().min(0).max(1).default(0.5),
+      limit: z.number().min(1).max(500).default(100),
+    }).optional())
+    .query(async ({ input }) => {
+      const minScore = input?.minScore ?? 0.5;
+      const limit = input?.limit ?? 100;
+
+      const pairs = scorePairs(await findSignalPairs())
+        .filter(pair => pair.score >= minScore)
+        .slice(0, limit);
+
+      const ids = Array.from(new Set(pairs.flatMap(pair => pair.profileIds)));
+      const profiles = ids.length === 0 ? [] : await db
+        .select({
+          id: clientProfile.id,
+          preferredName: clientProfile.preferredName,
+          phoneNumber: clientProfile.phoneNumber,
+          email: clientProfile.email,
+          totalMessages: clientProfile.totalMessages,
+          lastContactDate: clientProfile.lastContactDate,
+        })
+        .from(clientProfile)
+        .where(inArray(clientProfile.id, ids));
+
+      const byId = new Map(profiles.map(p => [p.id, p]));
+
+      return pairs.map(pair => ({
+        ...pair,
+        profiles: pair.profileIds.map(id => byId.get(id) ?? null),
+      }));
+    }),
+
+  /**
+   * Two profiles side by side, with what the kept one would look like
+   */
+  compare: adminProcedure
+    .input(z.object({
+      profileIds: z.tuple([z.string(), z.string()]),
+      keepId: z.string().optional(),
+    }))
+    .query(async ({ input }) => {
+      const [first, second] = await Promise.all(input.profileIds.map(getProfileOrThrow));
+
+      const keepId = input.keepId ?? suggestKeep(first, second);
+      const [keep, merge] = keepId === first.id ? [first, second] : [second, first];
+
+      return {
+        keepId,
+        profiles: await Promise.all([summarizeProfile(first), summarizeProfile(second)]),
+        fieldChanges: mergeProfileFields(keep, merge),
+        accountConflict: Boolean(first.userId && second.userId && first.userId !== second.userId),
+      };
+    }),
+
+  /**
+   * Merge mergeId into keepId
+   */
+  merge: adminProcedure
+    .input(z.object({
+      keepId: z.string(),
+      mergeId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.keepId === input.mergeId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Pick two different profiles" });
+      }
+
+      const [keep, merge] = await Promise.all([getProfileOrThrow(input.keepId), getProfileOrThrow(input.mergeId)]);
+
+      // The merged account would lose its profile
+      if (keep.userId && merge.userId && keep.userId !== merge.userId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Both profiles belong to different login accounts and can't be merged",
+        });
+      }
+
+      const mergeRecordId = await mergeProfiles(keep.id, merge.id, "admin", ctx.user.id);
+      console.log(`[Duplicates] ${ctx.user.id} merged ${merge.id} into ${keep.id}`);
+
+      return { success: true, mergeRecordId };
+    }),
+
+  /**
+   * Recent merges, for review and undo
+   */
+  history: adminProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(200).default(50),
+    }).optional())
+    .query(async ({ input }) => {
+      return db
+        .select({
+          id: profileMerge.id,
+          keptProfileId: profileMerge.keptProfileId,
+          mergedProfileId: profileMerge.mergedProfileId,
+          reason: profileMerge.reason,
+          actorUserId: profileMerge.actorUserId,
+          createdAt: profileMerge.createdAt,
+          undoneAt: profileMerge.undoneAt,
+          undoneByUserId: profileMerge.undoneByUserId,
+        })
+        .from(profileMerge)
+        .orderBy(desc(profileMerge.createdAt))
+        .limit(input?.limit ?? 50);
+    }),
+
+  /**
+   * Split a merge back into two profiles
+   */
+  undo: adminProcedure
+    .input(z.object({ mergeRecordId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const undone = await undoProfileMerge(input.mergeRecordId, ctx.user.id);
+        console.log(`[Duplicates] ${ctx.user.id} undid merge ${undone.id}`);
+        return { success: true, restoredProfileId: undone.mergedProfileId };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Undo failed",
+        });
+      }
+    }),
+});
@@ -0,0 +1,175 @@
+/**
+ * ERASURE API - RIGHT TO BE FORGOTTEN
+ *
+ * - memories / forget: "please forget what I said about my ex" - remove
+ *   specific relationships, insights or conversations and purge them from
+ *   what Sage has synthesized (see forgetClientMemories)
+ * - deleteAccount: the whole profile, its child rows and login account.
+ *   Stripe subscriptions are cancelled first; billing records are kept on
+ *   an anonymised tombstone (see eraseClientProfile)
+ *
+ * Self-service through the client's own access token; account deletion
+ * can also be triggered by an admin for requests that come in by email.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import type Stripe from "stripe";
+import { adminProcedure, clientProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import { clearSessionCookie } from "./_core/session";
+import {
+  clientRelationship,
+  conversation,
+  keyInsight,
+  subscription,
+} from "../drizzle/schema";
+import { eraseClientProfile, forgetClientMemories } from "./unifiedClientRepository";
+import { getStripe } from "./stripeRouter";
+import { logInteraction } from "./interactionLog";
+
+// Stripe statuses that can still charge the customer
+const BILLABLE_STATUSES = ["active", "trialing", "past_due", "unpaid", "incomplete", "paused"];
+
+const MAX_FORGET_ITEMS = 100;
+
+/**
+ * Cancel every subscription that could still bill this client.
+ * Any failure stops the deletion - we must not erase someone who is still being charged.
+ */
+async function cancelStripeSubscriptions(clientId: string): Promise<string[]> {
+  const billable = await db
+    .select({ stripeSubscriptionId: subscription.stripeSubscriptionId })
+    .from(subscription)
+    .where(and(eq(subscription.clientProfileId, clientId), inArray(subscription.status, BILLABLE_STATUSES)));
+
+  if (billable.length === 0) return [];
+
+  const cancelled: string[] = [];
+  for (const { stripeSubscriptionId } of billable) {
+    try {
+      await getStripe().subscriptions.cancel(stripeSubscriptionId);
+      cancelled.push(stripeSubscriptionId);
+    } catch (error) {
+      // Already gone on Stripe's side - nothing left to cancel
+      if ((error as Stripe.errors.StripeError)?.code === "resource_missing") continue;
+
+      console.error(`[Erasure] Failed to cancel subscription ${stripeSubscriptionId}:`, error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "We couldn't cancel your subscription, so nothing was deleted. Please try again or email support@just-talk.com.",
+      });
+    }
+  }
+
+  if (cancelled.length > 0) {
+    await db
+      .update(subscription)
+      .set({ status: "canceled", cancelAtPeriodEnd: false, updatedAt: new Date() })
+      .where(inArray(subscription.stripeSubscriptionId, cancelled));
+  }
+
+  return cancelled;
+}
+
+async function deleteAccount(clientId: string, requestedBy: "client" | "admin", actorUserId: string | null) {
+  const cancelledSubscriptions = await cancelStripeSubscriptions(clientId);
+  const { tombstoneId, deletedRows } = await eraseClientProfile(clientId);
+
+  // The profile is gone, so this lands on the billing tombstone if there is one
+  await logInteraction(tombstoneId, "account_deleted", requestedBy, {
+    erasedClientId: clientId,
+    actorUserId,
+    cancelledSubscriptions,
+    deletedRows,
+  });
+
+  return { success: true, billingRecordsKept: tombstoneId !== null };
+}
+
+const forgetInput = z.object({
+  relationshipIds: z.array(z.string()).max(MAX_FORGET_ITEMS).optional(),
+  insightIds: z.array(z.string()).max(MAX_FORGET_ITEMS).optional(),
+  conversationIds: z.array(z.string()).max(MAX_FORGET_ITEMS).optional(),
+  topics: z.array(z.string().trim().min(2).max(100)).max(20).optional(),
+});
+
+export const erasureRouter = router({
+  /**
+   * What Sage remembers, so the client can pick what to forget
+   */
+  memories: clientProcedure
+    .query(async ({ input }) => {
+      const [relationships, insights, conversations] = await Promise.all([
+        db
+          .select({ id: clientRelationship.id, name: clientRelationship.name, relationship: clientRelationship.relationship })
+          .from(clientRelationship)
+          .where(eq(clientRelationship.clientProfileId, input.clientId))
+          .orderBy(desc(clientRelationship.importance)),
+        db
+          .select({ id: keyInsight.id, insight: keyInsight.insight, category: keyInsight.category })
+          .from(keyInsight)
+          .where(eq(keyInsight.clientProfileId, input.clientId))
+          .orderBy(desc(keyInsight.importance)),
+        db
+          .select({
+            id: conversation.id,
+            channel: conversation.channel,
+            topic: conversation.topic,
+            messageCount: conversation.messageCount,
+            createdAt: conversation.createdAt,
+          })
+          .from(conversation)
+          .where(eq(conversation.clientProfileId, input.clientId))
+          .orderBy(desc(conversation.createdAt)),
+      ]);
+
+      return { relationships, insights, conversations };
+    }),
+
+  /**
+   * Forget specific memories
+   */
+  forget: clientProcedure
+    .input(forgetInput)
+    .mutation(async ({ input }) => {
+      const { clientId, ...selection } = input;
+      const picked = Object.values(selection).reduce((total, list) => total + (list?.length ?? 0), 0);
+      if (picked === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Choose something to forget." });
+      }
+
+      const result = await forgetClientMemories(clientId, selection);
+
+      // Counts only - logging what was forgotten would defeat the point
+      await logInteraction(clientId, "memory_forgotten", "client", {
+        ...result,
+        topics: selection.topics?.length ?? 0,
+      });
+
+      return { success: true, ...result };
+    }),
+
+  /**
+   * Self-service account deletion
+   */
+  deleteAccount: clientProcedure
+    .input(z.object({ confirm: z.literal(true) }))
+    .mutation(async ({ input, ctx }) => {
+      const result = await deleteAccount(input.clientId, "client", ctx.user?.id ?? null);
+      if (ctx.user) {
+        clearSessionCookie(ctx.req, ctx.res);
+      }
+      return result;
+    }),
+
+  /**
+   * Admin-triggered account deletion, for requests that arrive by email
+   */
+  deleteAccountForClient: adminProcedure
+    .input(z.object({ clientId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      return deleteAccount(input.clientId, "admin", ctx.user.id);
+    }),
+});
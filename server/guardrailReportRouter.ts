@@ -0,0 +1,197 @@
+/**
+ * GUARDRAIL COMPLIANCE REPORT API (ADMIN ONLY)
+ *
+ * Reports on guardrail_violation rows written by the chat, SMS and voice
+ * paths whenever an AI response trips a guardrail:
+ * - violation rates per guardrail over time (per final assistant response,
+ *   however many drafts it took)
+ * - the most frequent patterns
+ * - CSV export of either report
+ */
+
+import { z } from "zod";
+import { adminProcedure, router } from "./_core/trpc";
+import { db } from "./_core/db";
+import { guardrailViolation, message } from "../drizzle/schema";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+
+const reportRangeInput = z.object({
+  from: z.date().optional(), // Defaults to 30 days ago
+  to: z.date().optional(), // Defaults to now
+  interval: z.enum(["day", "week", "month"]).default("day"),
+  guardrail: z.string().optional(),
+});
+
+type ReportRange = z.infer<typeof reportRangeInput>;
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function resolveRange(input: ReportRange) {
+  const to = input.to ?? new Date();
+  const from = input.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  return { from, to };
+}
+
+// interval comes from a zod enum, so it's safe to inline
+function periodOf(column: typeof guardrailViolation.createdAt | typeof message.createdAt, interval: ReportRange["interval"]) {
+  return sql<string>`to_char(date_trunc('${sql.raw(interval)}', ${column}), 'YYYY-MM-DD')`;
+}
+
+/**
+ * Violations per guardrail per period, with the rate per assistant response:
+ * the share of final replies where the guardrail was hit in any draft
+ */
+async function getRateRows(input: ReportRange) {
+  const { from, to } = resolveRange(input);
+
+  const violationPeriod = periodOf(guardrailViolation.createdAt, input.interval);
+  const filters = [gte(guardrailViolation.createdAt, from), lt(guardrailViolation.createdAt, to)];
+  if (input.guardrail) {
+    filters.push(eq(guardrailViolation.guardrail, input.guardrail));
+  }
+
+  // Drafts of one reply share a response id; rows from before it existed stand alone
+  const response = sql`coalesce(${guardrailViolation.responseId}, ${guardrailViolation.id})`;
+
+  const violations = await db
+    .select({
+      period: violationPeriod,
+      guardrail: guardrailViolation.guardrail,
+      violations: sql<number>`count(*)::int`,
+      affected: sql<number>`count(distinct ${response})::int`,
+      replaced: sql<number>`count(distinct ${response}) filter (where ${guardrailViolation.responseReplaced})::int`,
+    })
+    .from(guardrailViolation)
+    .where(and(...filters))
+    .groupBy(violationPeriod, guardrailViolation.guardrail)
+    .orderBy(violationPeriod, guardrailViolation.guardrail);
+
+  // Every assistant response is a chance to violate, across all channels
+  const responsePeriod = periodOf(message.createdAt, input.interval);
+  const responses = await db
+    .select({
+      period: responsePeriod,
+      responses: sql<number>`count(*)::int`,
+    })
+    .from(message)
+    .where(and(eq(message.role, "assistant"), gte(message.createdAt, from), lt(message.createdAt, to)))
+    .groupBy(responsePeriod);
+
+  const responsesByPeriod = new Map(responses.map(r => [r.period, r.responses]));
+
+  return violations.map(row => {
+    const total = responsesByPeriod.get(row.period) ?? 0;
+    return {
+      ...row,
+      responses: total,
+      rate: total > 0 ? Math.round((row.affected / total) * 10000) / 10000 : null,
+    };
+  });
+}
+
+/**
+ * Most frequent guardrail patterns in the range
+ */
+async function getPatternRows(input: ReportRange & { limit?: number }) {
+  const { from, to } = resolveRange(input);
+
+  const filters = [gte(guardrailViolation.createdAt, from), lt(guardrailViolation.createdAt, to)];
+  if (input.guardrail) {
+    filters.push(eq(guardrailViolation.guardrail, input.guardrail));
+  }
+
+  const count = sql<number>`count(*)::int`;
+
+  return db
+    .select({
+      guardrail: guardrailViolation.guardrail,
+      severity: guardrailViolation.severity,
+      pattern: guardrailViolation.pattern,
+      violations: count,
+      replaced: sql<number>`count(*) filter (where ${guardrailViolation.responseReplaced})::int`,
+      clients: sql<number>`count(distinct ${guardrailViolation.clientProfileId})::int`,
+      lastSeen: sql<Date>`max(${guardrailViolation.createdAt})`,
+    })
+    .from(guardrailViolation)
+    .where(and(...filters))
+    .groupBy(guardrailViolation.guardrail, guardrailViolation.severity, guardrailViolation.pattern)
+    .orderBy(desc(count))
+    .limit(input.limit ?? 20);
+}
+
+/**
+ * CSV for spreadsheets. Patterns can quote model output, so cells that a
+ * spreadsheet would run as a formula are prefixed with a quote.
+ */
+function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  const escape = (value: unknown) => {
+    if (value === null || value === undefined) return "";
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.join(","),
+    ...rows.map(row => columns.map(column => escape(row[column])).join(",")),
+  ].join("\n");
+}
+
+export const guardrailReportRouter = router({
+  /**
+   * Violation rates per guardrail over time
+   */
+  rates: adminProcedure
+    .input(reportRangeInput)
+    .query(async ({ input }) => {
+      const { from, to } = resolveRange(input);
+      return {
+        from,
+        to,
+        interval: input.interval,
+        rows: await getRateRows(input),
+      };
+    }),
+
+  /**
+   * Most frequent patterns, to spot prompts that need work
+   */
+  topPatterns: adminProcedure
+    .input(reportRangeInput.extend({
+      limit: z.number().min(1).max(200).default(20),
+    }))
+    .query(async ({ input }) => {
+      return getPatternRows(input);
+    }),
+
+  /**
+   * Either report as CSV
+   */
+  exportCsv: adminProcedure
+    .input(reportRangeInput.extend({
+      report: z.enum(["rates", "patterns"]),
+      limit: z.number().min(1).max(1000).default(200),
+    }))
+    .query(async ({ input }) => {
+      const { from, to } = resolveRange(input);
+      const range = `${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+
+      if (input.report === "rates") {
+        const rows = await getRateRows(input);
+        return {
+          filename: `guardrail-rates_${input.interval}_${range}.csv`,
+          contentType: "text/csv",
+          csv: toCsv(rows, ["period", "guardrail", "violations", "affected", "replaced", "responses", "rate"]),
+        };
+      }
+
+      const rows = await getPatternRows(input);
+      return {
+        filename: `guardrail-patterns_${range}.csv`,
+        contentType: "text/csv",
+        csv: toCsv(rows, ["guardrail", "severity", "pattern", "violations", "replaced", "clients", "lastSeen"]),
+      };
+    }),
+});
@@ -0,0 +1,222 @@
+/**
+ * GUARDRAIL REVIEW & REGENERATION
+ *
+ * Second stage behind the regex checks in guardrails.ts. Shared by web
+ * chat, SMS and voice:
+ *
+ * 1. Regex check (checkGuardrails) - fast, catches the obvious cases
+ * 2. LLM review - classifies the draft against the six guardrails, so
+ *    paraphrases the regexes miss ("this is textbook burnout disorder")
+ *    are still caught
+ * 3. On a blocking violation, regenerate the reply with corrective
+ *    instructions, up to a bounded number of attempts
+ * 4. Only if every attempt fails, fall back to the canned safe alternative
+ *
+ * Every violation, including those in discarded drafts, is logged to
+ * guardrail_violation under one response id, so reports count replies
+ * rather than drafts.
+ */
+
+import { invokeLLM, type Message } from "./_core/llm";
+import { ENV } from "./_core/env";
+import { withTimeout } from "./_core/apiConfig";
+import { generateGuardrailResponseId } from "./utils/generateId";
+import {
+  checkGuardrails,
+  logGuardrailViolations,
+  SAFE_ALTERNATIVES,
+  type GuardrailViolation,
+  type GuardrailViolationContext,
+} from "./guardrails";
+
+export interface GuardedReplyOptions {
+  draft: string; // First reply from the model
+  messages: Message[]; // Prompt the draft was generated from
+  regenerate: (messages: Message[]) => Promise<string>; // Channel's own model call
+  fallbackPrefix: string; // Prepended to the canned alternative, e.g. "I hear you. "
+  context: Omit<GuardrailViolationContext, "aiResponse" | "responseReplaced" | "responseId">;
+  maxRegenerations?: number; // Default 2
+  llmReview?: boolean; // Default: on when an OpenAI key is configured
+}
+
+export interface GuardedReply {
+  content: string;
+  outcome: "passed" | "regenerated" | "fallback";
+  attempts: number; // Drafts checked, including the first
+  violations: GuardrailViolation[]; // Everything found across all drafts
+}
+
+const DEFAULT_MAX_REGENERATIONS = 2;
+const REVIEW_TIMEOUT_MS = 5000;
+
+// The six guardrails as the reviewer sees them, mapped to what checkGuardrails reports
+const REVIEW_GUARDRAILS: Record<string, { name: string; suggestion: string; blocking: boolean }> = {
+  diagnosis: { name: "Scope Enforcement - Diagnosis", suggestion: SAFE_ALTERNATIVES.diagnosis, blocking: true },
+  prescription: { name: "Scope Enforcement - Prescription", suggestion: SAFE_ALTERNATIVES.prescription, blocking: true },
+  replacement: { name: "Scope Enforcement - Replacement", suggestion: SAFE_ALTERNATIVES.replacement, blocking: true },
+  crisis: {
+    name: "Crisis Detection & Escalation",
+    suggestion: "If you're thinking about hurting yourself, please reach out to 988 (Suicide & Crisis Lifeline) - call or text, any time.",
+    blocking: true,
+  },
+  trauma: { name: "Trauma-Informed Care", suggestion: SAFE_ALTERNATIVES.trauma, blocking: true },
+  cultural: { name: "Cultural Sensitivity", suggestion: SAFE_ALTERNATIVES.cultural, blocking: true },
+  privacy: { name: "Privacy & Confidentiality", suggestion: SAFE_ALTERNATIVES.privacy, blocking: true },
+  referral: { name: "Referral Trigger", suggestion: SAFE_ALTERNATIVES.referral, blocking: false },
+};
+
+const REVIEW_PROMPT = `You are a compliance reviewer for Sage, an emotional support companion (not a therapist).
+Check the DRAFT reply against these guardrails:
+
+- diagnosis: names or implies a mental or medical diagnosis ("sounds like you have PTSD", "classic depression")
+- prescription: recommends, adjusts or comments on medication or dosage
+- replacement: presents Sage as therapy or a substitute for professional care
+- crisis: fails to point to 988/911 when the user indicates suicide, self-harm or danger, or minimises that risk
+- trauma: blames, doubts or pressures a survivor ("why didn't you leave")
+- cultural: dismisses or judges the user's culture, religion or family
+- privacy: says the user's information will be shared or reported
+- referral: user describes something needing a licensed professional and the draft doesn't suggest one
+
+Only flag clear problems. Empathy, listening and general wellbeing suggestions are fine.
+Respond with JSON only:
+{"violations": [{"guardrail": "<one of the keys above>", "severity": "medium|high|critical", "evidence": "<short quote from the draft>"}]}
+Use an empty array when the draft is fine.`;
+
+/**
+ * Ask the model to classify a draft against the six guardrails.
+ * Fails open (no violations) - the regex layer has already run.
+ */
+export async function reviewGuardrailsWithLLM(
+  draft: string,
+  userMessage?: string
+): Promise<GuardrailViolation[]> {
+  try {
+    const response = await withTimeout(
+      invokeLLM({
+        messages: [
+          { role: "system", content: REVIEW_PROMPT },
+          { role: "user", content: JSON.stringify({ userMessage: userMessage ?? null, draft }) },
+        ],
+        responseFormat: { type: "json_object" },
+        maxTokens: 300,
+        model: "gpt-4.1-nano",
+      }),
+      REVIEW_TIMEOUT_MS,
+      "Guardrail review"
+    );
+
+    const content = response.choices[0]?.message.content;
+    if (typeof content !== "string") return [];
+
+    const parsed = JSON.parse(content);
+    const found: unknown[] = Array.isArray(parsed.violations) ? parsed.violations : [];
+
+    return found.flatMap((item): GuardrailViolation[] => {
+      const entry = item as { guardrail?: string; severity?: string; evidence?: string };
+      const guardrail = entry.guardrail ? REVIEW_GUARDRAILS[entry.guardrail] : undefined;
+      if (!guardrail) return [];
+
+      const severity = entry.severity === "critical" || entry.severity === "high" ? entry.severity : "medium";
+      return [{
+        violated: true,
+        guardrail: guardrail.name,
+        severity,
+        pattern: "llm-review",
+        evidence: typeof entry.evidence === "string" ? entry.evidence.trim() || undefined : undefined,
+        suggestion: guardrail.suggestion,
+        requiresIntervention: guardrail.blocking && severity !== "medium",
+      }];
+    });
+  } catch (error) {
+    console.error("[Guardrails] LLM review failed, relying on regex checks:", error);
+    return [];
+  }
+}
+
+function buildCorrection(draft: string, violations: GuardrailViolation[]): Message[] {
+  const problems = violations
+    .map(v => `- ${v.guardrail}: ${v.evidence ?? v.pattern}\n  Safer direction: ${v.suggestion}`)
+    .join("\n");
+
+  return [
+    { role: "assistant", content: draft },
+    {
+      role: "system",
+      content: `Your last reply broke these guardrails:
+${problems}
+
+Rewrite your reply to the user. Keep Sage's warm, natural voice and the same length, respond to what they actually said, and avoid the problems above. Reply with the new message only.`,
+    },
+  ];
+}
+
+/**
+ * Check a draft reply and, if it breaks a guardrail, regenerate it.
+ * Returns the reply to send and store.
+ */
+export async function enforceGuardrails(options: GuardedReplyOptions): Promise<GuardedReply> {
+  const maxRegenerations = options.maxRegenerations ?? DEFAULT_MAX_REGENERATIONS;
+  const llmReview = options.llmReview ?? Boolean(ENV.openaiApiKey);
+  const lastUserMessage = [...options.messages].reverse().find(m => m.role === "user");
+  const userMessage = typeof lastUserMessage?.content === "string" ? lastUserMessage.content : undefined;
+
+  const responseId = generateGuardrailResponseId();
+  const allViolations: GuardrailViolation[] = [];
+  let draft = options.draft;
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+
+    let violations = checkGuardrails(draft);
+    // Skip the review when the regexes already reject the draft
+    if (llmReview && !violations.some(v => v.requiresIntervention)) {
+      violations = [...violations, ...await reviewGuardrailsWithLLM(draft, userMessage)];
+    }
+
+    const blocking = violations.filter(v => v.requiresIntervention);
+    allViolations.push(...violations);
+
+    if (violations.length > 0) {
+      await logGuardrailViolations(violations, {
+        ...options.context,
+        responseId,
+        aiResponse: draft,
+        responseReplaced: blocking.length > 0,
+      });
+    }
+
+    if (blocking.length === 0) {
+      return {
+        content: draft,
+        outcome: attempts === 1 ? "passed" : "regenerated",
+        attempts,
+        violations: allViolations,
+      };
+    }
+
+    if (attempts > maxRegenerations) {
+      console.error(`[Guardrails] ${attempts} drafts rejected - using safe alternative`);
+      return {
+        content: options.fallbackPrefix + blocking[0].suggestion,
+        outcome: "fallback",
+        attempts,
+        violations: allViolations,
+      };
+    }
+
+    console.error(`[Guardrails] Draft ${attempts} rejected (${blocking.map(v => v.guardrail).join(", ")}) - regenerating`);
+
+    try {
+      draft = await options.regenerate([...options.messages, ...buildCorrection(draft, blocking)]);
+    } catch (error) {
+      console.error("[Guardrails] Regeneration failed - using safe alternative:", error);
+      return {
+        content: options.fallbackPrefix + blocking[0].suggestion,
+        outcome: "fallback",
+        attempts,
+        violations: allViolations,
+      };
+    }
+  }
+}
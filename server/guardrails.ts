@@ -25,6 +25,10 @@
  * 6. Referral Triggers - Know when to refer to licensed professionals
  */
 
+import { db } from "./_core/db";
+import { guardrailViolation } from "../drizzle/schema";
+import { generateGuardrailResponseId, generateGuardrailViolationId } from "./utils/generateId";
+
 // ============================================================================
 // REGULATORY COMPLIANCE FRAMEWORKS
 // ============================================================================
@@ -162,7 +166,7 @@ const FORBIDDEN_PATTERNS = {
 /**
  * Positive replacement patterns - what to say instead
  */
-const SAFE_ALTERNATIVES = {
+export const SAFE_ALTERNATIVES = {
   diagnosis: "Based on what you're sharing, it sounds like you're experiencing [symptoms]. A licensed therapist can provide a proper assessment and diagnosis.",
   prescription: "Medication decisions should be made with a psychiatrist or doctor who can evaluate your specific situation.",
   replacement: "I'm here to support you, and I also encourage you to work with a licensed therapist who can provide professional care.",
@@ -181,6 +185,7 @@ export interface GuardrailViolation {
   guardrail: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   pattern: string;
+  evidence?: string; // LLM review only - what it quoted from the response
   suggestion: string;
   requiresIntervention: boolean;
 }
@@ -383,29 +388,65 @@ Examples of how to sound:
 Remember: You're just here to listen. That's it. No therapy, no diagnosis, no medical advice. Just... listening. Like a friend would.`;
 }
 
+export interface GuardrailViolationContext {
+  clientId?: string;
+  conversationId?: string;
+  messageId?: string; // Assistant message the (possibly replaced) response was stored as
+  responseId?: string; // Groups the drafts of one reply - generated per call if not given
+  channel: "web" | "sms" | "voice";
+  aiResponse: string; // Response as generated, before any replacement
+  responseReplaced: boolean;
+}
+
 /**
- * Log guardrail violations for learning and evolution
+ * Log guardrail violations for compliance reporting
+ * (see guardrailReportRouter for the admin report)
  */
 export async function logGuardrailViolation(
   violation: GuardrailViolation,
-  context: {
-    messageId?: string;
-    clientId?: string;
-    aiResponse: string;
-  }
+  context: GuardrailViolationContext
 ): Promise<void> {
-  // In production, this would log to a compliance database
-  // For now, log to console for monitoring
   console.error('[GUARDRAILS VIOLATION]', {
     guardrail: violation.guardrail,
     severity: violation.severity,
     pattern: violation.pattern,
+    channel: context.channel,
     clientId: context.clientId,
     messageId: context.messageId,
+    replaced: context.responseReplaced,
     timestamp: new Date().toISOString(),
   });
-  
-  // TODO: Store in database for pattern analysis and self-learning
-  // TODO: Alert compliance team for critical violations
-  // TODO: Update FORBIDDEN_PATTERNS based on new violations
+
+  try {
+    await db.insert(guardrailViolation).values({
+      id: generateGuardrailViolationId(),
+      clientProfileId: context.clientId,
+      conversationId: context.conversationId,
+      messageId: context.messageId,
+      responseId: context.responseId,
+      channel: context.channel,
+      guardrail: violation.guardrail,
+      severity: violation.severity,
+      pattern: violation.pattern,
+      evidence: violation.evidence,
+      aiResponse: context.aiResponse,
+      responseReplaced: context.responseReplaced,
+    });
+  } catch (error) {
+    // Never block a reply because the compliance log is unavailable
+    console.error('[GUARDRAILS] Failed to store violation:', error);
+  }
+}
+
+/**
+ * Log every violation found in one AI response
+ */
+export async function logGuardrailViolations(
+  violations: GuardrailViolation[],
+  context: GuardrailViolationContext
+): Promise<void> {
+  const responseId = context.responseId ?? generateGuardrailResponseId();
+  for (const violation of violations) {
+    await logGuardrailViolation(violation, { ...context, responseId });
+  }
 }
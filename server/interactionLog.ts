@@ -0,0 +1,36 @@
+/**
+ * INTERACTION LOG
+ *
+ * Every channel and router records what happened to a client in
+ * interaction_log - calls, texts, logins, consent, exports, deletions.
+ * Logging never fails the action it records: errors are only reported.
+ */
+
+import { db } from "./_core/db";
+import { interactionLog } from "../drizzle/schema";
+import { generateLogId } from "./utils/generateId";
+
+/**
+ * Record an interaction against a client profile (null once the profile is gone)
+ */
+export async function logInteraction(
+  clientId: string | null,
+  type: string,
+  target: string,
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  try {
+    await db.insert(interactionLog).values({
+      id: generateLogId(),
+      clientProfileId: clientId,
+      interactionType: type,
+      target,
+      metadata: {
+        ...metadata,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error(`[InteractionLog] Failed to log ${type} for client ${clientId}:`, error);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * BACKGROUND JOB HANDLERS
+ *
+ * One handler per job type in JobPayloads (jobQueue.ts), registered at
+ * startup before the worker starts. A handler throws to have its job
+ * retried - and, after maxAttempts, dead-lettered.
+ */
+
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { db } from "./_core/db";
+import { message } from "../drizzle/schema";
+import { registerJobHandler } from "./jobQueue";
+import { updateProfileAfterInteraction } from "./postInteractionUpdater";
+import { sendCrisisAlert } from "./crisisDetection";
+import { enrichProfileFromConversation } from "./twilioIntegration";
+import { findOrCreateClient } from "./unifiedClientRepository";
+
+const MIN_TRANSCRIPT_LENGTH = 100; // "hi" isn't worth a profile update
+
+/**
+ * A web or SMS conversation's transcript, in the same format as phone calls
+ */
+async function loadTranscript(conversationId: string): Promise<string> {
+  const messages = await db
+    .select({ role: message.role, content: message.content })
+    .from(message)
+    .where(and(eq(message.conversationId, conversationId), isNull(message.redactedAt)))
+    .orderBy(asc(message.createdAt));
+
+  return messages
+    .filter(m => m.role === "user" || m.role === "assistant")
+    .map(m => `${m.role === "user" ? "User" : "Sage"}: ${m.content}`)
+    .join("\n");
+}
+
+export function registerJobHandlers(): void {
+  registerJobHandler("post_interaction_update", async (payload, job) => {
+    if (!job.clientProfileId) return;
+
+    const transcript = payload.transcript ?? await loadTranscript(payload.conversationId);
+    if (transcript.length <= MIN_TRANSCRIPT_LENGTH) {
+      console.log(`[Jobs] Skipping profile update for ${payload.conversationId} - too short`);
+      return;
+    }
+
+    await updateProfileAfterInteraction(job.clientProfileId, payload.conversationId, transcript, payload.channel);
+  });
+
+  registerJobHandler("profile_enrichment", async (payload, job) => {
+    if (!job.clientProfileId) return;
+
+    const profile = await findOrCreateClient({ type: "clientId", value: job.clientProfileId });
+
+    await enrichProfileFromConversation(profile.id, payload.userMessage, payload.aiResponse, profile);
+  });
+
+  registerJobHandler("crisis_alert", async (payload, job) => {
+    if (!job.clientProfileId) return;
+
+    await sendCrisisAlert(job.clientProfileId, payload.detection, payload.message);
+  });
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// A stand-in for the database: the claimed row, the job read back, every update written,
+// what each update returns, and the owner notifications sent
+const state = vi.hoisted(() => ({
+  claimed: [] as Array<{ id: string }>,
+  job: null as Record<string, unknown> | null,
+  updates: [] as Array<Record<string, unknown>>,
+  returned: [] as Array<Array<Record<string, unknown>>>,
+  notified: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("./_core/db", () => ({
+  db: {
+    execute: async () => state.claimed,
+    select: () => ({
+      from: () => ({ where: () => ({ limit: async () => (state.job ? [state.job] : []) }) }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        state.updates.push(values);
+        return {
+          where: () => ({
+            returning: async () => state.returned.shift() ?? [],
+            then: (resolve: () => void) => resolve(),
+          }),
+        };
+      },
+    }),
+    delete: () => ({ where: async () => undefined }),
+  },
+}));
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: async (notification: Record<string, unknown>) => {
+    state.notified.push(notification);
+    return true;
+  },
+}));
+
+// One try per attempt - in-place retries are retryWithBackoff's business
+vi.mock("./_core/apiConfig", () => ({
+  retryWithBackoff: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import { maintainQueue, registerJobHandler, retryDelayMs, runNextJob } from "./jobQueue";
+
+const MINUTE = 60 * 1000;
+const runAt = new Date("2025-06-01T12:00:00Z");
+
+function queueJob(overrides: Record<string, unknown> = {}) {
+  state.claimed = [{ id: "job_1" }];
+  state.job = {
+    id: "job_1",
+    type: "crisis_alert",
+    clientProfileId: "client_1",
+    payload: { detection: { level: "high" }, message: "I can't do this anymore" },
+    attempts: 1, // Already counted by the claim
+    maxAttempts: 5,
+    runAt,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  state.claimed = [];
+  state.job = null;
+  state.updates = [];
+  state.returned = [];
+  state.notified = [];
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from a minute and caps at an hour", () => {
+    expect(retryDelayMs(1)).toBe(MINUTE);
+    expect(retryDelayMs(2)).toBe(2 * MINUTE);
+    expect(retryDelayMs(3)).toBe(4 * MINUTE);
+    expect(retryDelayMs(10)).toBe(60 * MINUTE);
+  });
+});
+
+describe("runNextJob", () => {
+  it("reports an empty queue", async () => {
+    expect(await runNextJob()).toBe(false);
+    expect(state.updates).toEqual([]);
+  });
+
+  it("runs the handler and marks the job completed", async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    registerJobHandler("crisis_alert", handler);
+    queueJob();
+
+    expect(await runNextJob()).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      state.job!.payload,
+      { jobId: "job_1", clientProfileId: "client_1", attempt: 1 }
+    );
+    expect(state.updates).toHaveLength(1);
+    expect(state.updates[0]).toMatchObject({ status: "completed", lockedAt: null, lastError: null });
+  });
+
+  it("reschedules a failed job with backoff", async () => {
+    registerJobHandler("crisis_alert", vi.fn().mockRejectedValue(new Error("SMTP down")));
+    queueJob({ attempts: 3 });
+
+    const before = Date.now();
+    await runNextJob();
+
+    const update = state.updates[0];
+    expect(update).toMatchObject({ status: "pending", lockedAt: null, lastError: "SMTP down" });
+    const delay = (update.runAt as Date).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(retryDelayMs(3));
+    expect(delay).toBeLessThan(retryDelayMs(3) + 1000);
+  });
+
+  it("dead-letters a job on its last attempt", async () => {
+    registerJobHandler("crisis_alert", vi.fn().mockRejectedValue(new Error("SMTP down")));
+    queueJob({ attempts: 5, maxAttempts: 5 });
+
+    await runNextJob();
+
+    expect(state.updates[0]).toMatchObject({ status: "dead", lastError: "SMTP down", runAt });
+  });
+
+  it("escalates a dead crisis alert to the owner", async () => {
+    registerJobHandler("crisis_alert", vi.fn().mockRejectedValue(new Error("SMTP down")));
+    queueJob({ attempts: 5, maxAttempts: 5 });
+
+    await runNextJob();
+
+    expect(state.notified).toHaveLength(1);
+    expect(state.notified[0]).toMatchObject({ severity: "critical", dedupeKey: "dead_crisis_alert:job_1" });
+    expect(state.notified[0].content).toContain("client_1");
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("URGENT"));
+  });
+
+  it("doesn't escalate other dead jobs", async () => {
+    registerJobHandler("post_interaction_update", vi.fn().mockRejectedValue(new Error("LLM down")));
+    queueJob({ type: "post_interaction_update", payload: { conversationId: "conv_1", channel: "chat" }, attempts: 5, maxAttempts: 5 });
+
+    await runNextJob();
+
+    expect(state.notified).toEqual([]);
+  });
+
+  it("treats a job with no handler as failed", async () => {
+    queueJob({ type: "profile_enrichment", payload: { userMessage: "hi", aiResponse: "hello" } });
+
+    await runNextJob();
+
+    expect(state.updates[0]).toMatchObject({
+      status: "pending",
+      lastError: "No handler registered for profile_enrichment",
+    });
+  });
+});
+
+describe("maintainQueue", () => {
+  it("dead-letters a job whose worker stopped on its last attempt instead of running it again", async () => {
+    state.returned = [
+      [{ id: "job_1", type: "crisis_alert", clientProfileId: "client_1", payload: { detection: { level: "critical" }, message: "..." } }],
+      [{ id: "job_2" }],
+    ];
+
+    await maintainQueue();
+
+    expect(state.updates[0]).toMatchObject({ status: "dead", lockedAt: null });
+    expect(state.updates[1]).toMatchObject({ status: "pending", lockedAt: null });
+    expect(state.notified[0]).toMatchObject({ title: expect.stringContaining("CRITICAL"), severity: "critical" });
+  });
+
+  it("just releases stale jobs that have attempts left", async () => {
+    state.returned = [[], [{ id: "job_2" }]];
+
+    await maintainQueue();
+
+    expect(state.updates.map(update => update.status)).toEqual(["dead", "pending"]);
+    expect(state.notified).toEqual([]);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * BACKGROUND JOB QUEUE
+ *
+ * LLM post-processing (profile updates, enrichment) and crisis alerts used
+ * to run as fire-and-forget promises - a restart or an LLM timeout lost the
+ * work without a trace. They're now stored in background_job and run by a
+ * worker inside the server process (startJobWorker).
+ *
+ * - Jobs are claimed with FOR UPDATE SKIP LOCKED, so several server
+ *   instances can run workers without running a job twice
+ * - Each attempt retries quick failures in place (retryWithBackoff); a job
+ *   that still fails is rescheduled with exponential backoff, and after
+ *   maxAttempts it's dead-lettered (status "dead") for an admin to retry
+ *   or discard (backgroundJobRouter.ts). A dead crisis alert is escalated
+ *   to the owner straight away
+ * - An idempotency key makes enqueueing the same work twice a no-op
+ * - A job whose worker died mid-run (stale lock) goes back to pending, or
+ *   is dead-lettered if that was its last attempt
+ * - Completed jobs are deleted after a week - payloads can hold client text
+ *
+ * Each job type has a typed payload (JobPayloads) and one handler,
+ * registered at startup (jobHandlers.ts).
+ */
+
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import { db } from "./_core/db";
+import { retryWithBackoff } from "./_core/apiConfig";
+import { notifyOwner } from "./_core/notification";
+import { backgroundJob } from "../drizzle/schema";
+import { generateJobId } from "./utils/generateId";
+import type { CrisisDetectionResult } from "./crisisClassifier";
+
+export interface JobPayloads {
+  // Full profile update once a session has ended. Calls pass their transcript
+  // (it isn't stored as messages); web and SMS load theirs from the conversation.
+  post_interaction_update: {
+    conversationId: string;
+    channel: "voice" | "chat" | "sms";
+    transcript?: string;
+  };
+  // Per-exchange extraction on trial phone calls
+  profile_enrichment: {
+    userMessage: string;
+    aiResponse: string;
+  };
+  // Owner alert for high/critical risk
+  crisis_alert: {
+    detection: CrisisDetectionResult;
+    message: string;
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface JobContext {
+  jobId: string;
+  clientProfileId: string | null; // From the job row - follows profile merges
+  attempt: number;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: JobContext) => Promise<void>;
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export interface EnqueueOptions {
+  clientProfileId?: string | null;
+  idempotencyKey?: string;
+  priority?: number;
+  maxAttempts?: number;
+  runAt?: Date;
+  executor?: JobExecutor;
+}
+
+// db itself, or a transaction - so a job can be queued atomically with the change that caused it
+type JobExecutor = Pick<typeof db, "insert" | "select">;
+
+export const JOB_PRIORITY = {
+  normal: 0,
+  urgent: 10, // Crisis alerts jump the queue
+};
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const WORKER_CONCURRENCY = 3; // A slow LLM job mustn't hold up a crisis alert
+const STALE_LOCK_MS = 15 * 60 * 1000; // Longer than any job should take
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Durable retries between attempts: 1 min, 2 min, 4 min... capped at 1 hour
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Quick retries within an attempt, for blips like an LLM timeout
+const IN_PLACE_RETRIES = { maxRetries: 2, initialDelay: 2000, maxDelay: 10000 };
+
+const handlers: { [T in JobType]?: JobHandler<T> } = {};
+let workerTimer: NodeJS.Timeout | null = null;
+let runningSlots = 0;
+
+export function registerJobHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+  (handlers as Record<string, unknown>)[type] = handler;
+}
+
+/**
+ * Queue a job to run as soon as a worker is free (or at runAt).
+ * With an idempotency key that's already been used, nothing is queued and
+ * the existing job's id is returned.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<string> {
+  const executor = options.executor ?? db;
+  const id = generateJobId();
+
+  const [inserted] = await executor
+    .insert(backgroundJob)
+    .values({
+      id,
+      clientProfileId: options.clientProfileId ?? null,
+      type,
+      payload,
+      idempotencyKey: options.idempotencyKey ?? null,
+      priority: options.priority ?? JOB_PRIORITY.normal,
+      maxAttempts: options.maxAttempts ?? 5,
+      runAt: options.runAt ?? new Date(),
+    })
+    .onConflictDoNothing({ target: backgroundJob.idempotencyKey })
+    .returning({ id: backgroundJob.id });
+
+  if (!inserted) {
+    const [existing] = await executor
+      .select({ id: backgroundJob.id })
+      .from(backgroundJob)
+      .where(eq(backgroundJob.idempotencyKey, options.idempotencyKey!))
+      .limit(1);
+    return existing?.id ?? id;
+  }
+
+  // Outside a transaction the job can start right away
+  if (!options.executor) wakeWorker();
+  return id;
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Claim and run the next due job. Returns false if there was none.
+ */
+export async function runNextJob(): Promise<boolean> {
+  const [claimed] = await db.execute<{ id: string }>(sql`
+    update ${backgroundJob}
+    set status = 'running', locked_at = now(), attempts = attempts + 1, updated_at = now()
+    where id = (
+      select id from ${backgroundJob}
+      where status = 'pending' and run_at <= now()
+      order by priority desc, run_at
+      limit 1
+      for update skip locked
+    )
+    returning id
+  `);
+  if (!claimed) return false;
+
+  // Read back through drizzle so the payload is decrypted
+  const [job] = await db.select().from(backgroundJob).where(eq(backgroundJob.id, claimed.id)).limit(1);
+  if (!job) return true;
+
+  const handler = handlers[job.type as JobType] as JobHandler<JobType> | undefined;
+  const context: JobContext = { jobId: job.id, clientProfileId: job.clientProfileId, attempt: job.attempts };
+
+  try {
+    if (!handler) throw new Error(`No handler registered for ${job.type}`);
+    await retryWithBackoff(() => handler(job.payload as JobPayloads[JobType], context), IN_PLACE_RETRIES);
+
+    await db
+      .update(backgroundJob)
+      .set({ status: "completed", lockedAt: null, lastError: null, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(backgroundJob.id, job.id));
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const dead = job.attempts >= job.maxAttempts;
+
+    if (dead) {
+      console.error(`[Jobs] ${job.type} job ${job.id} dead-lettered after ${job.attempts} attempts:`, lastError);
+    } else {
+      console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), will retry:`, lastError);
+    }
+
+    await db
+      .update(backgroundJob)
+      .set({
+        status: dead ? "dead" : "pending",
+        lockedAt: null,
+        lastError,
+        runAt: dead ? job.runAt : new Date(Date.now() + retryDelayMs(job.attempts)),
+        updatedAt: new Date(),
+      })
+      .where(eq(backgroundJob.id, job.id));
+
+    if (dead) await escalateDeadJob(job, lastError);
+  }
+
+  return true;
+}
+
+/**
+ * A dead crisis alert means someone at risk may not have been seen. Log it
+ * loudly and try the owner again - a different transport may get through.
+ */
+async function escalateDeadJob(
+  job: { id: string; type: string; clientProfileId: string | null; payload: unknown },
+  lastError: string
+): Promise<void> {
+  if (job.type !== "crisis_alert") return;
+
+  const level = (job.payload as JobPayloads["crisis_alert"]).detection?.level ?? "unknown";
+  console.error(`[Jobs] URGENT: crisis alert for client ${job.clientProfileId} (${level}) was never delivered - job ${job.id}: ${lastError}`);
+
+  try {
+    await notifyOwner({
+      title: `URGENT: crisis alert not delivered (${level.toUpperCase()})`,
+      content: [
+        `A ${level} crisis alert for client ${job.clientProfileId} failed every attempt and was dead-lettered.`,
+        `Last error: ${lastError}`,
+        "",
+        `Check on this client now, then retry or discard job ${job.id} in Admin > Background jobs.`,
+      ].join("\n"),
+      severity: "critical",
+      dedupeKey: `dead_crisis_alert:${job.id}`,
+    });
+  } catch (error) {
+    console.error(`[Jobs] Couldn't escalate dead crisis alert ${job.id}:`, error);
+  }
+}
+
+/**
+ * Put jobs whose worker died mid-run back in the queue - or dead-letter them
+ * if that was their last attempt - and clear out old completed ones
+ */
+export async function maintainQueue(): Promise<void> {
+  const stale = and(
+    eq(backgroundJob.status, "running"),
+    lt(backgroundJob.lockedAt, new Date(Date.now() - STALE_LOCK_MS))
+  );
+  const lastError = "Worker stopped during the last attempt";
+
+  const abandoned = await db
+    .update(backgroundJob)
+    .set({ status: "dead", lockedAt: null, lastError, updatedAt: new Date() })
+    .where(and(stale, gte(backgroundJob.attempts, backgroundJob.maxAttempts)))
+    .returning({
+      id: backgroundJob.id,
+      type: backgroundJob.type,
+      clientProfileId: backgroundJob.clientProfileId,
+      payload: backgroundJob.payload,
+    });
+
+  for (const job of abandoned) {
+    console.error(`[Jobs] ${job.type} job ${job.id} dead-lettered - its worker stopped on the last attempt`);
+    await escalateDeadJob(job, lastError);
+  }
+
+  const released = await db
+    .update(backgroundJob)
+    .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+    .where(and(stale, lt(backgroundJob.attempts, backgroundJob.maxAttempts)))
+    .returning({ id: backgroundJob.id });
+
+  if (released.length > 0) {
+    console.warn(`[Jobs] Released ${released.length} stale jobs`);
+  }
+
+  await db
+    .delete(backgroundJob)
+    .where(and(
+      eq(backgroundJob.status, "completed"),
+      lt(backgroundJob.completedAt, new Date(Date.now() - COMPLETED_RETENTION_MS))
+    ));
+}
+
+/**
+ * Run jobs until the queue is empty
+ */
+async function drainQueue(): Promise<void> {
+  try {
+    while (await runNextJob()) {
+      // Keep going until the queue is drained
+    }
+  } catch (error) {
+    console.error("[Jobs] Worker failed:", error);
+  }
+}
+
+/**
+ * Fill any idle worker slots (no-op until the worker is started)
+ */
+function wakeWorker(): void {
+  if (!workerTimer) return;
+
+  while (runningSlots < WORKER_CONCURRENCY) {
+    runningSlots++;
+    drainQueue().finally(() => { runningSlots--; });
+  }
+}
+
+/**
+ * Housekeeping and a wake-up, then again after POLL_INTERVAL_MS
+ * (picks up retries that have come due and jobs queued by other instances)
+ */
+async function pollJobs(): Promise<void> {
+  try {
+    await maintainQueue();
+  } catch (error) {
+    console.error("[Jobs] Queue maintenance failed:", error);
+  }
+
+  wakeWorker();
+  workerTimer = setTimeout(pollJobs, POLL_INTERVAL_MS);
+}
+
+/**
+ * Start the job worker inside the server process
+ */
+export function startJobWorker(): void {
+  if (workerTimer) return;
+
+  console.log("[Jobs] Starting background job worker");
+  workerTimer = setTimeout(pollJobs, POLL_INTERVAL_MS);
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * Dead-lettered jobs and jobs waiting to retry, newest first.
+ * Payloads are left out - they can hold client text.
+ */
+export async function listFailedJobs(limit: number = 100) {
+  return db
+    .select({
+      id: backgroundJob.id,
+      type: backgroundJob.type,
+      status: backgroundJob.status,
+      clientProfileId: backgroundJob.clientProfileId,
+      idempotencyKey: backgroundJob.idempotencyKey,
+      attempts: backgroundJob.attempts,
+      maxAttempts: backgroundJob.maxAttempts,
+      lastError: backgroundJob.lastError,
+      runAt: backgroundJob.runAt,
+      createdAt: backgroundJob.createdAt,
+      updatedAt: backgroundJob.updatedAt,
+    })
+    .from(backgroundJob)
+    .where(sql`${backgroundJob.status} = 'dead' or (${backgroundJob.status} = 'pending' and ${backgroundJob.attempts} > 0)`)
+    .orderBy(desc(backgroundJob.updatedAt))
+    .limit(limit);
+}
+
+export async function countJobsByStatus(): Promise<Record<JobStatus, number>> {
+  const rows = await db
+    .select({ status: backgroundJob.status, count: sql<number>`count(*)::int` })
+    .from(backgroundJob)
+    .groupBy(backgroundJob.status);
+
+  const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+  for (const row of rows) {
+    counts[row.status as JobStatus] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Give a dead-lettered job a fresh set of attempts. Returns false if it isn't dead.
+ */
+export async function retryDeadJob(jobId: string): Promise<boolean> {
+  const [job] = await db
+    .update(backgroundJob)
+    .set({ status: "pending", attempts: 0, runAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(backgroundJob.id, jobId), eq(backgroundJob.status, "dead")))
+    .returning({ id: backgroundJob.id });
+
+  if (job) wakeWorker();
+  return Boolean(job);
+}
+
+/**
+ * Delete a dead-lettered job. Returns false if it isn't dead.
+ */
+export async function discardDeadJob(jobId: string): Promise<boolean> {
+  const [job] = await db
+    .delete(backgroundJob)
+    .where(and(eq(backgroundJob.id, jobId), eq(backgroundJob.status, "dead")))
+    .returning({ id: backgroundJob.id });
+  return Boolean(job);
+}
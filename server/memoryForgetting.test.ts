@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import type { ClientProfile } from "../drizzle/schema";
+
+// A scripted transaction: selects answer from a per-table queue, writes are recorded
+const fake = vi.hoisted(() => {
+  type Op = { kind: "select" | "update" | "delete"; table?: unknown; values?: Record<string, unknown>; where?: unknown };
+
+  const state = {
+    ops: [] as Op[],
+    selects: new Map<unknown, unknown[][]>(),
+  };
+
+  function query(op: Op) {
+    const chain: Record<string, unknown> = {};
+    const self = () => chain;
+    Object.assign(chain, {
+      from: (table: unknown) => { op.table = table; return chain; },
+      set: (values: Record<string, unknown>) => { op.values = values; return chain; },
+      where: (condition: unknown) => { op.where = condition; return chain; },
+      innerJoin: self,
+      for: self,
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve().then(() => {
+          state.ops.push(op);
+          return op.kind === "select" ? state.selects.get(op.table)?.shift() ?? [] : [];
+        }).then(resolve, reject),
+    });
+    return chain;
+  }
+
+  const tx = {
+    select: () => query({ kind: "select" }),
+    update: (table: unknown) => query({ kind: "update", table }),
+    delete: (table: unknown) => query({ kind: "delete", table }),
+  };
+
+  return { state, db: { transaction: <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx) } };
+});
+
+vi.mock("./_core/db", () => ({ db: fake.db }));
+
+import {
+  clientProfile,
+  clientRelationship,
+  conversation,
+  guardrailViolation,
+  keyInsight,
+  memoryEmbedding,
+  message,
+} from "../drizzle/schema";
+import {
+  FORGOTTEN_CONTENT,
+  mentionsForgotten,
+  purgeConversationMemory,
+  purgeProfileMemory,
+  purgeText,
+  type ForgetTargets,
+} from "./memoryForgetting";
+import { forgetClientMemories } from "./unifiedClientRepository";
+
+const forgetJordan: ForgetTargets = {
+  terms: ["Jordan"],
+  statements: ["Breaking up with Jordan still hurts every weekend"],
+};
+
+describe("mentionsForgotten", () => {
+  it("matches terms as whole words, in any case", () => {
+    expect(mentionsForgotten("I texted jordan last night", forgetJordan)).toBe(true);
+    expect(mentionsForgotten("We drove to Jordanville", forgetJordan)).toBe(false);
+  });
+
+  it("matches a sentence that repeats most of a statement", () => {
+    const targets = { terms: [], statements: ["The breakup still hurts every weekend"] };
+    expect(mentionsForgotten("Weekends are when the breakup still hurts most", targets)).toBe(true);
+    expect(mentionsForgotten("Work still hurts my back", targets)).toBe(false);
+  });
+
+  it("ignores empty text and blank targets", () => {
+    expect(mentionsForgotten(null, forgetJordan)).toBe(false);
+    expect(mentionsForgotten("Anything at all", { terms: ["  "], statements: ["a an"] })).toBe(false);
+  });
+});
+
+describe("purgeText", () => {
+  it("drops only the sentences that mention what's forgotten", () => {
+    expect(purgeText("Sam loves hiking. Jordan left in March. Work is going well!", forgetJordan))
+      .toBe("Sam loves hiking. Work is going well!");
+  });
+
+  it("leaves nothing rather than an empty string", () => {
+    expect(purgeText("Jordan left in March.", forgetJordan)).toBeNull();
+  });
+});
+
+describe("purgeProfileMemory", () => {
+  const profile = {
+    id: "client_1",
+    aiSummary: "Sam is a nurse. Jordan and Sam split up in the spring.",
+    lastInteractionSummary: "Talked about night shifts.",
+    emotionalPatterns: null,
+    commonTriggers: ["Seeing Jordan's photos", "Night shifts"],
+    copingStrategies: ["Long walks"],
+    strengthsAndResources: null,
+    ongoingChallenges: null,
+    keyInsights: [
+      { insight: "Breaking up with Jordan still hurts on weekends", timestamp: "2025-03-01", importance: 8 },
+      { insight: "Walks help after hard shifts", timestamp: "2025-03-02", importance: 6 },
+    ],
+    significantEvents: null,
+    upcomingEvents: [{ event: "Jordan's birthday", date: "2025-07-01", notes: null }],
+    recentTopics: [{ topic: "work", lastDiscussed: "2025-03-02", frequency: 3 }],
+    currentGoals: null,
+    pastWins: null,
+    nextBestActions: null,
+    crisisRiskLevel: "medium",
+    safetyPlan: "Call my brother about Jordan",
+  } as unknown as ClientProfile;
+
+  it("strips what's forgotten from every synthesized field", () => {
+    const changes = purgeProfileMemory(profile, forgetJordan);
+
+    expect(changes.aiSummary).toBe("Sam is a nurse.");
+    expect(changes.commonTriggers).toEqual(["Night shifts"]);
+    expect(changes.keyInsights?.map(i => i.insight)).toEqual(["Walks help after hard shifts"]);
+    expect(changes.upcomingEvents).toEqual([]);
+  });
+
+  it("only reports fields that change", () => {
+    const changes = purgeProfileMemory(profile, forgetJordan);
+    expect(Object.keys(changes).sort()).toEqual(["aiSummary", "commonTriggers", "keyInsights", "upcomingEvents"]);
+  });
+
+  it("never touches crisis or safety fields", () => {
+    const changes = purgeProfileMemory(profile, forgetJordan);
+    expect(changes).not.toHaveProperty("crisisRiskLevel");
+    expect(changes).not.toHaveProperty("safetyPlan");
+  });
+});
+
+describe("purgeConversationMemory", () => {
+  it("strips what's forgotten from another conversation's summary", () => {
+    const changes = purgeConversationMemory({
+      topic: "Night shifts",
+      aiSummary: "Talked about night shifts. Jordan texted during the break.",
+      keyPoints: ["Night shifts are draining", "Jordan wants to meet"],
+      actionItems: null,
+    }, forgetJordan);
+
+    expect(changes).toEqual({
+      aiSummary: "Talked about night shifts.",
+      keyPoints: ["Night shifts are draining"],
+    });
+  });
+
+  it("drops a topic that is itself forgotten", () => {
+    expect(purgeConversationMemory({ topic: "Jordan", aiSummary: null, keyPoints: null, actionItems: null }, forgetJordan))
+      .toEqual({ topic: null });
+  });
+});
+
+describe("forgetClientMemories", () => {
+  const dialect = new PgDialect();
+
+  function writesTo(table: unknown) {
+    return fake.state.ops.filter(op => op.kind !== "select" && op.table === table);
+  }
+
+  beforeEach(() => {
+    fake.state.ops = [];
+    fake.state.selects = new Map<unknown, unknown[][]>([
+      [clientProfile, [[{ id: "client_1", aiSummary: "Sam is a nurse. Jordan and Sam split up in the spring." }]]],
+      [clientRelationship, [
+        [{ id: "rel_jordan", name: "Jordan", nickname: null }], // Picked
+        [{ id: "rel_jordan", name: "Jordan", nickname: null }, { id: "rel_mom", name: "Mom", nickname: null }], // All
+      ]],
+      [conversation, [
+        [{ id: "conv_breakup", topic: "The breakup", keyPoints: ["Jordan moved out in March"] }], // Picked
+        [{ // What's left after the picked one is deleted
+          id: "conv_work",
+          topic: "Night shifts",
+          aiSummary: "Talked about night shifts. Jordan texted during the break.",
+          keyPoints: ["Night shifts are draining", "Jordan wants to meet"],
+          actionItems: null,
+        }],
+      ]],
+      [keyInsight, [[], [{ id: "insight_walks", insight: "Walks help after hard shifts" }]]],
+      [guardrailViolation, [[]]],
+      [message, [[
+        { id: "msg_jordan", content: "Jordan called me again last night" },
+        { id: "msg_work", content: "Work was fine today" },
+      ]]],
+    ]);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("leaves nothing the smart context could bring back", async () => {
+    const result = await forgetClientMemories("client_1", {
+      relationshipIds: ["rel_jordan"],
+      conversationIds: ["conv_breakup"],
+    });
+
+    expect(result).toMatchObject({ relationships: 1, conversations: 1, conversationSummaries: 1, messages: 1 });
+    expect(writesTo(conversation).map(op => op.kind)).toEqual(["delete", "update"]);
+
+    // The other conversation's summary keeps only what isn't forgotten
+    expect(writesTo(conversation)[1].values).toMatchObject({
+      aiSummary: "Talked about night shifts.",
+      keyPoints: ["Night shifts are draining"],
+    });
+
+    // Messages that mention it are redacted, and so is their semantic memory
+    const [redaction] = writesTo(message);
+    expect(redaction.values).toMatchObject({ content: FORGOTTEN_CONTENT, extractedInfo: null, redactedAt: expect.any(Date) });
+    expect(dialect.sqlToQuery(redaction.where as SQL).params).toEqual(["msg_jordan"]);
+    const [embeddings] = writesTo(memoryEmbedding);
+    expect(dialect.sqlToQuery(embeddings.where as SQL).params).toContain("msg_jordan");
+
+    expect(writesTo(clientProfile)[0].values).toMatchObject({ aiSummary: "Sam is a nurse." });
+  });
+
+  it("leaves messages alone when nothing mentions what's forgotten", async () => {
+    fake.state.selects.set(message, [[{ id: "msg_work", content: "Work was fine today" }]]);
+
+    const result = await forgetClientMemories("client_1", { relationshipIds: ["rel_jordan"], conversationIds: ["conv_breakup"] });
+
+    expect(result.messages).toBe(0);
+    expect(writesTo(message)).toEqual([]);
+    expect(writesTo(memoryEmbedding)).toEqual([]);
+  });
+});
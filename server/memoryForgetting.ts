@@ -0,0 +1,154 @@
+/**
+ * SELECTIVE FORGETTING - TEXT RULES
+ *
+ * "Please forget what I said about my ex." Deleting the relationship,
+ * insight or conversation rows isn't enough - what Sage learned from them
+ * also lives in the profile's synthesized fields (aiSummary, keyInsights,
+ * recent topics...), in other conversations' summaries and in what was said
+ * there. These pure functions strip it from the text. The database side is
+ * forgetClientMemories in unifiedClientRepository.ts.
+ *
+ * Two kinds of target:
+ * - terms: names and topics, matched as whole words
+ * - statements: insight texts and conversation key points, matched when a
+ *   sentence repeats most of a statement's content words
+ *
+ * Crisis and safety fields are never touched - forgetting must not hide risk.
+ */
+
+import type { ClientProfile, Conversation } from "../drizzle/schema";
+
+type ProfileUpdate = Partial<Omit<ClientProfile, "id" | "createdAt">>;
+
+type ConversationMemory = Pick<Conversation, "topic" | "aiSummary" | "keyPoints" | "actionItems">;
+
+export interface ForgetTargets {
+  terms: string[];
+  statements: string[];
+}
+
+// What's left of a message or logged AI reply that mentioned something forgotten
+export const FORGOTTEN_CONTENT = "[removed at the client's request]";
+
+// Share of a statement's content words a sentence must contain to count as repeating it
+const STATEMENT_OVERLAP = 0.6;
+const MIN_CONTENT_WORD_LENGTH = 4;
+
+const TEXT_FIELDS = ["aiSummary", "lastInteractionSummary", "emotionalPatterns"] as const;
+
+const STRING_LIST_FIELDS = [
+  "commonTriggers",
+  "copingStrategies",
+  "strengthsAndResources",
+  "ongoingChallenges",
+] as const;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(word => word.length >= MIN_CONTENT_WORD_LENGTH);
+}
+
+/**
+ * Whether text mentions any forgotten term or repeats a forgotten statement
+ */
+export function mentionsForgotten(text: string | null | undefined, targets: ForgetTargets): boolean {
+  if (!text) return false;
+
+  for (const term of targets.terms) {
+    if (!term.trim()) continue;
+    if (new RegExp(`\\b${escapeRegExp(term.trim())}\\b`, "i").test(text)) return true;
+  }
+
+  const words = new Set(contentWords(text));
+  for (const statement of targets.statements) {
+    const statementWords = Array.from(new Set(contentWords(statement)));
+    if (statementWords.length === 0) continue;
+    const shared = statementWords.filter(word => words.has(word)).length;
+    if (shared / statementWords.length >= STATEMENT_OVERLAP) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Drop the sentences of text that mention anything forgotten.
+ * Returns null when nothing is left.
+ */
+export function purgeText(text: string | null, targets: ForgetTargets): string | null {
+  if (!text) return text;
+
+  const kept = text
+    .split(/(?<=[.!?])\s+/)
+    .filter(sentence => !mentionsForgotten(sentence, targets));
+
+  return kept.length > 0 ? kept.join(" ") : null;
+}
+
+function purgeList<T>(items: T[] | null, targets: ForgetTargets, textOf: (item: T) => string): T[] | null {
+  if (!items) return items;
+  return items.filter(item => !mentionsForgotten(textOf(item), targets));
+}
+
+/**
+ * The fields of profile that change once targets are forgotten
+ */
+export function purgeProfileMemory(profile: ClientProfile, targets: ForgetTargets): ProfileUpdate {
+  const next: Record<string, unknown> = {};
+
+  for (const field of TEXT_FIELDS) {
+    next[field] = purgeText(profile[field], targets);
+  }
+
+  for (const field of STRING_LIST_FIELDS) {
+    next[field] = purgeList(profile[field], targets, item => item);
+  }
+
+  next.keyInsights = purgeList(profile.keyInsights, targets, i => i.insight);
+  next.significantEvents = purgeList(profile.significantEvents, targets, e => `${e.event} ${e.notes ?? ""}`);
+  next.upcomingEvents = purgeList(profile.upcomingEvents, targets, e => `${e.event} ${e.notes ?? ""}`);
+  next.recentTopics = purgeList(profile.recentTopics, targets, t => t.topic);
+  next.currentGoals = purgeList(profile.currentGoals, targets, g => g.goal);
+  next.pastWins = purgeList(profile.pastWins, targets, w => w.win);
+  next.nextBestActions = purgeList(profile.nextBestActions, targets, a => `${a.action} ${a.reason}`);
+
+  // Only report what actually changes
+  const changed: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(next)) {
+    const current = profile[field as keyof ClientProfile] ?? null;
+    if (JSON.stringify(value ?? null) !== JSON.stringify(current)) {
+      changed[field] = value;
+    }
+  }
+
+  return changed as ProfileUpdate;
+}
+
+/**
+ * The summary fields of a conversation that change once targets are forgotten
+ */
+export function purgeConversationMemory(
+  conv: ConversationMemory,
+  targets: ForgetTargets
+): Partial<ConversationMemory> {
+  const next: Partial<ConversationMemory> = {
+    topic: mentionsForgotten(conv.topic, targets) ? null : conv.topic,
+    aiSummary: purgeText(conv.aiSummary, targets),
+    keyPoints: purgeList(conv.keyPoints, targets, point => point),
+    actionItems: purgeList(conv.actionItems, targets, item => item),
+  };
+
+  const changed: Partial<ConversationMemory> = {};
+  for (const [field, value] of Object.entries(next) as [keyof ConversationMemory, never][]) {
+    if (JSON.stringify(value ?? null) !== JSON.stringify(conv[field] ?? null)) {
+      changed[field] = value;
+    }
+  }
+
+  return changed;
+}
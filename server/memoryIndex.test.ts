@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  cosineSimilarity,
+  createHashingEmbeddingProvider,
+  EMBEDDING_DIMENSIONS,
+  formatRelevantMemories,
+  rankByRelevance,
+} from "./memoryIndex";
+
+// Filler from many unrelated conversations, with one moment worth remembering buried in it
+const PAST_MESSAGES = [
+  "Work was exhausting today, my manager keeps piling on deadlines",
+  "I tried the breathing exercise before bed and it kind of helped",
+  "My sister and I got into an argument about the holidays again",
+  "I've been going to the gym three times a week",
+  "My dad's surgery is on Tuesday and I'm terrified something will go wrong with his heart",
+  "Money is tight this month after the car repair",
+  "I finally finished the book you recommended",
+  "My roommate never does the dishes and it drives me crazy",
+  "I had a really good day, went hiking with friends",
+  "Can't sleep again, my mind keeps racing at night",
+];
+
+describe("hashing embedding provider", () => {
+  const provider = createHashingEmbeddingProvider();
+
+  it("returns unit vectors of the configured size", async () => {
+    const [vector] = await provider.embed(["My dad's surgery went well"]);
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+  });
+
+  it("is deterministic", async () => {
+    const [first] = await provider.embed(["the same sentence"]);
+    const [second] = await createHashingEmbeddingProvider().embed(["the same sentence"]);
+    expect(first).toEqual(second);
+  });
+
+  it("names its model by dimensions, so vectors of different sizes are never compared", () => {
+    expect(createHashingEmbeddingProvider(64).model).not.toBe(provider.model);
+  });
+
+  it("gives stopword-only text a zero vector that matches nothing", async () => {
+    const [empty, other] = await provider.embed(["and so then I was like", "dad surgery"]);
+    expect(empty.every(value => value === 0)).toBe(true);
+    expect(cosineSimilarity(empty, other)).toBe(0);
+  });
+});
+
+describe("rankByRelevance", () => {
+  const provider = createHashingEmbeddingProvider();
+
+  it("finds a moment from many conversations ago", async () => {
+    const vectors = await provider.embed(PAST_MESSAGES);
+    const [query] = await provider.embed(["Remember when I told you about my dad's surgery?"]);
+
+    const ranked = rankByRelevance(
+      query,
+      PAST_MESSAGES.map((text, i) => ({ vector: vectors[i], item: text })),
+      { limit: 3, minScore: 0.1 }
+    );
+
+    expect(ranked[0]?.item).toContain("dad's surgery");
+  });
+
+  it("applies the limit and minimum score, best first", () => {
+    const candidates = [
+      { vector: [1, 0], item: "same" },
+      { vector: [0.7, 0.7], item: "close" },
+      { vector: [0, 1], item: "unrelated" },
+      { vector: [0.9, 0.1], item: "closer" },
+    ];
+
+    const ranked = rankByRelevance([1, 0], candidates, { limit: 2, minScore: 0.5 });
+    expect(ranked.map(r => r.item)).toEqual(["same", "closer"]);
+
+    const all = rankByRelevance([1, 0], candidates, { limit: 10, minScore: 0.5 });
+    expect(all.map(r => r.item)).toEqual(["same", "closer", "close"]);
+  });
+
+  it("treats mismatched vector sizes as unrelated", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe("formatRelevantMemories", () => {
+  it("is empty when nothing was retrieved", () => {
+    expect(formatRelevantMemories([])).toBe("");
+  });
+
+  it("quotes messages and lists insights", () => {
+    const section = formatRelevantMemories([
+      { kind: "message", text: "My dad's surgery is on Tuesday", date: new Date("2025-03-04T12:00:00Z"), score: 0.8 },
+      { kind: "insight", text: "Worries a lot about their father's health", date: new Date("2025-03-05T12:00:00Z"), score: 0.6 },
+    ]);
+
+    expect(section).toContain("RELEVANT PAST MOMENTS");
+    expect(section).toContain('they said: "My dad\'s surgery is on Tuesday"');
+    expect(section).toContain("Worries a lot about their father's health");
+  });
+});
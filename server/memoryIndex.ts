@@ -0,0 +1,138 @@
+/**
+ * SEMANTIC MEMORY - VECTOR INDEX
+ *
+ * Tier 3 of the memory architecture: "Remember when I told you about my
+ * dad's surgery?" has to work even if that was 40 conversations ago, so
+ * past user messages and key insights are embedded and searched by
+ * meaning, not just recency.
+ *
+ * This file is the pure part - embedding providers, similarity and
+ * ranking, and the context section - with no database access. Storage
+ * and the per-turn lookup live in memoryRetrieval.ts.
+ *
+ * Two providers:
+ * - OpenAI embeddings in production (memoryRetrieval.ts)
+ * - a hashing stand-in (createHashingEmbeddingProvider) that needs no
+ *   network, for tests and for development without an API key. It only
+ *   matches shared words, so it is a stand-in, not a substitute.
+ */
+
+// Short vectors keep the per-client index small enough to scan in memory
+export const EMBEDDING_DIMENSIONS = 256;
+
+export interface EmbeddingProvider {
+  model: string; // Stored with each vector - vectors from different models aren't comparable
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface RetrievedMemory {
+  kind: "message" | "insight";
+  text: string;
+  date: Date;
+  score: number;
+}
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "again", "all", "am", "an", "and", "any", "are", "as", "at", "be", "been",
+  "before", "but", "by", "can", "could", "did", "do", "does", "for", "from", "get", "got", "had",
+  "has", "have", "he", "her", "him", "his", "how", "i", "if", "im", "in", "into", "is", "it", "its",
+  "just", "know", "like", "me", "my", "of", "on", "or", "our", "remember", "she", "so", "that",
+  "the", "their", "them", "then", "there", "they", "this", "to", "told", "too", "up", "us", "was",
+  "we", "were", "what", "when", "where", "which", "who", "will", "with", "would", "you", "your",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, "") // dad's -> dad
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(word => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+}
+
+// FNV-1a - stable across runs and platforms
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Words and word pairs hashed into a fixed-size unit vector - synchronous, no I/O
+ */
+export function hashEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenize(text);
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    const hash = hashString(feature);
+    // Signed hashing keeps collisions from only ever adding up
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  return normalize(vector);
+}
+
+/**
+ * Offline embedding stand-in built on hashEmbedding
+ */
+export function createHashingEmbeddingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    model: `hashing-v1-${dimensions}`,
+    embed: async (texts) => texts.map(text => hashEmbedding(text, dimensions)),
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The candidates most similar to the query, best first
+ */
+export function rankByRelevance<T>(
+  query: number[],
+  candidates: Array<{ vector: number[]; item: T }>,
+  options: { limit: number; minScore: number }
+): Array<{ item: T; score: number }> {
+  return candidates
+    .map(({ vector, item }) => ({ item, score: cosineSimilarity(query, vector) }))
+    .filter(result => result.score >= options.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
+
+export const RELEVANT_MEMORIES_HEADER = "--- RELEVANT PAST MOMENTS (retrieved for what they just said) ---";
+
+export function formatMemoryLine(memory: RetrievedMemory): string {
+  const date = memory.date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+  return memory.kind === "message"
+    ? `• ${date} - they said: "${memory.text}"`
+    : `• Learned ${date}: ${memory.text}`;
+}
+
+/**
+ * The Tier 3 context section for retrieved memories ("" if none)
+ */
+export function formatRelevantMemories(memories: RetrievedMemory[]): string {
+  if (memories.length === 0) return "";
+  return [RELEVANT_MEMORIES_HEADER, ...memories.map(formatMemoryLine)].join("\n");
+}
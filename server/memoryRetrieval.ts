@@ -0,0 +1,250 @@
+/**
+ * SEMANTIC MEMORY - STORAGE AND RETRIEVAL
+ *
+ * Keeps memory_embedding in step with the client's user messages and key
+ * insights, and on each turn pulls back the past moments most similar to
+ * what they just said (see memoryIndex.ts for the vector side).
+ *
+ * - Indexing is incremental: every lookup embeds a bounded batch of
+ *   whatever isn't indexed yet, off the reply path
+ * - The current conversation is skipped - it's already in the prompt
+ * - Redacted messages are never indexed, and forgotten ones are marked
+ *   (forgottenAt) so they are neither retrieved nor indexed again
+ *
+ * Retrieval failing must never break a reply, so getRelevantMemories returns
+ * nothing (and getRelevantMemoriesContext "") on any error or timeout.
+ */
+
+import { and, desc, eq, inArray, isNotNull, isNull, ne, or } from "drizzle-orm";
+import { db } from "./_core/db";
+import { ENV } from "./_core/env";
+import { invokeEmbeddings } from "./_core/llm";
+import { withTimeout } from "./_core/apiConfig";
+import { conversation, keyInsight, memoryEmbedding, message } from "../drizzle/schema";
+import {
+  createHashingEmbeddingProvider,
+  EMBEDDING_DIMENSIONS,
+  formatRelevantMemories,
+  rankByRelevance,
+  type EmbeddingProvider,
+  type RetrievedMemory,
+} from "./memoryIndex";
+import { generateMemoryEmbeddingId } from "./utils/generateId";
+
+const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+const INDEX_BATCH_SIZE = 100; // Items embedded per indexing pass
+const MAX_CANDIDATES = 5000; // Most recent vectors scanned per lookup
+const DEFAULT_LIMIT = 5;
+const MIN_SCORE = 0.3;
+const MIN_MEMORY_LENGTH = 20; // "ok", "yeah" - not a moment worth retrieving
+const RETRIEVAL_TIMEOUT_MS = 2000; // Voice callers are waiting
+
+let provider: EmbeddingProvider | null = null;
+const indexingClients = new Set<string>();
+
+/**
+ * OpenAI embeddings, or the offline stand-in when there's no API key
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+
+  if (ENV.openaiApiKey) {
+    provider = {
+      model: `${OPENAI_EMBEDDING_MODEL}-${EMBEDDING_DIMENSIONS}`,
+      embed: (texts) => invokeEmbeddings({ input: texts, model: OPENAI_EMBEDDING_MODEL, dimensions: EMBEDDING_DIMENSIONS }),
+    };
+  } else {
+    console.warn("[Memory] OPENAI_API_KEY not set - using the offline hashing embeddings");
+    provider = createHashingEmbeddingProvider();
+  }
+  return provider;
+}
+
+/**
+ * Embed up to `limit` of the client's messages and insights that aren't indexed yet.
+ * Returns how many were indexed.
+ */
+export async function indexClientMemories(
+  clientId: string,
+  embedder: EmbeddingProvider = getEmbeddingProvider(),
+  limit: number = INDEX_BATCH_SIZE
+): Promise<number> {
+  // Forgotten rows block re-indexing under any model
+  const messageIndexed = and(
+    eq(memoryEmbedding.messageId, message.id),
+    or(eq(memoryEmbedding.model, embedder.model), isNotNull(memoryEmbedding.forgottenAt))
+  );
+  const insightIndexed = and(
+    eq(memoryEmbedding.keyInsightId, keyInsight.id),
+    or(eq(memoryEmbedding.model, embedder.model), isNotNull(memoryEmbedding.forgottenAt))
+  );
+
+  const [messages, insights] = await Promise.all([
+    db
+      .select({ id: message.id, conversationId: message.conversationId, content: message.content })
+      .from(message)
+      .innerJoin(conversation, eq(conversation.id, message.conversationId))
+      .leftJoin(memoryEmbedding, messageIndexed)
+      .where(and(
+        eq(conversation.clientProfileId, clientId),
+        eq(message.role, "user"),
+        isNull(message.redactedAt),
+        isNull(memoryEmbedding.id)
+      ))
+      .orderBy(desc(message.createdAt))
+      .limit(limit),
+    db
+      .select({ id: keyInsight.id, insight: keyInsight.insight })
+      .from(keyInsight)
+      .leftJoin(memoryEmbedding, insightIndexed)
+      .where(and(eq(keyInsight.clientProfileId, clientId), isNull(memoryEmbedding.id)))
+      .limit(limit),
+  ]);
+
+  const items = [
+    ...messages.map(m => ({ text: m.content, messageId: m.id, keyInsightId: null, conversationId: m.conversationId })),
+    ...insights.map(i => ({ text: i.insight, messageId: null, keyInsightId: i.id, conversationId: null })),
+  ].slice(0, limit);
+
+  if (items.length === 0) return 0;
+
+  const vectors = await embedder.embed(items.map(item => item.text));
+
+  await db
+    .insert(memoryEmbedding)
+    .values(items.map((item, i) => ({
+      id: generateMemoryEmbeddingId(),
+      clientProfileId: clientId,
+      messageId: item.messageId,
+      keyInsightId: item.keyInsightId,
+      conversationId: item.conversationId,
+      model: embedder.model,
+      embedding: vectors[i],
+    })))
+    .onConflictDoNothing();
+
+  return items.length;
+}
+
+/**
+ * Index in the background - one pass per client at a time
+ */
+function indexInBackground(clientId: string, embedder: EmbeddingProvider): void {
+  if (indexingClients.has(clientId)) return;
+  indexingClients.add(clientId);
+
+  indexClientMemories(clientId, embedder)
+    .catch(error => console.error(`[Memory] Indexing failed for ${clientId}:`, error))
+    .finally(() => indexingClients.delete(clientId));
+}
+
+/**
+ * The past messages and insights most relevant to `query`, best first
+ */
+export async function retrieveRelevantMemories(
+  clientId: string,
+  query: string,
+  options: { excludeConversationId?: string; limit?: number; embedder?: EmbeddingProvider } = {}
+): Promise<RetrievedMemory[]> {
+  const embedder = options.embedder ?? getEmbeddingProvider();
+
+  // Catch up on anything new (including messages stored since the last turn)
+  indexInBackground(clientId, embedder);
+
+  if (query.trim().length === 0) return [];
+
+  const [candidates, [queryVector]] = await Promise.all([
+    db
+      .select({
+        messageId: memoryEmbedding.messageId,
+        keyInsightId: memoryEmbedding.keyInsightId,
+        embedding: memoryEmbedding.embedding,
+      })
+      .from(memoryEmbedding)
+      .where(and(
+        eq(memoryEmbedding.clientProfileId, clientId),
+        eq(memoryEmbedding.model, embedder.model),
+        isNull(memoryEmbedding.forgottenAt),
+        options.excludeConversationId
+          ? or(isNull(memoryEmbedding.conversationId), ne(memoryEmbedding.conversationId, options.excludeConversationId))
+          : undefined
+      ))
+      .orderBy(desc(memoryEmbedding.createdAt))
+      .limit(MAX_CANDIDATES),
+    embedder.embed([query]),
+  ]);
+
+  if (candidates.length === 0) return [];
+
+  // Rank more than needed - short or redacted sources are dropped below
+  const ranked = rankByRelevance(
+    queryVector,
+    candidates.map(candidate => ({ vector: candidate.embedding, item: candidate })),
+    { limit: (options.limit ?? DEFAULT_LIMIT) * 3, minScore: MIN_SCORE }
+  );
+  if (ranked.length === 0) return [];
+
+  const messageIds = ranked.map(r => r.item.messageId).filter((id): id is string => id !== null);
+  const insightIds = ranked.map(r => r.item.keyInsightId).filter((id): id is string => id !== null);
+
+  const [messages, insights] = await Promise.all([
+    messageIds.length === 0 ? [] : db
+      .select({ id: message.id, content: message.content, createdAt: message.createdAt })
+      .from(message)
+      .where(and(inArray(message.id, messageIds), isNull(message.redactedAt))),
+    insightIds.length === 0 ? [] : db
+      .select({ id: keyInsight.id, insight: keyInsight.insight, createdAt: keyInsight.createdAt })
+      .from(keyInsight)
+      .where(inArray(keyInsight.id, insightIds)),
+  ]);
+
+  const messagesById = new Map(messages.map(m => [m.id, m]));
+  const insightsById = new Map(insights.map(i => [i.id, i]));
+  const memories: RetrievedMemory[] = [];
+
+  for (const { item, score } of ranked) {
+    const source = item.messageId ? messagesById.get(item.messageId) : undefined;
+    const insight = item.keyInsightId ? insightsById.get(item.keyInsightId) : undefined;
+
+    if (source && source.content.length >= MIN_MEMORY_LENGTH) {
+      memories.push({ kind: "message", text: source.content, date: source.createdAt, score });
+    } else if (insight) {
+      memories.push({ kind: "insight", text: insight.insight, date: insight.createdAt, score });
+    }
+  }
+
+  return memories.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * retrieveRelevantMemories for the reply path: none, rather than an error,
+ * if retrieval fails or is too slow
+ */
+export async function getRelevantMemories(
+  clientId: string,
+  query: string,
+  excludeConversationId?: string
+): Promise<RetrievedMemory[]> {
+  try {
+    return await withTimeout(
+      retrieveRelevantMemories(clientId, query, { excludeConversationId }),
+      RETRIEVAL_TIMEOUT_MS,
+      "Memory retrieval"
+    );
+  } catch (error) {
+    console.error(`[Memory] Retrieval failed for ${clientId}:`, (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Relevant past moments as a context section - "" if there are none
+ */
+export async function getRelevantMemoriesContext(
+  clientId: string,
+  query: string,
+  excludeConversationId?: string
+): Promise<string> {
+  return formatRelevantMemories(await getRelevantMemories(clientId, query, excludeConversationId));
+}
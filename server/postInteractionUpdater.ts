@@ -71,7 +71,9 @@ interface ExtractionResult {
 
 /**
  * Update client profile after a significant interaction
- * Call this after each voice call or meaningful chat session
+ * Runs as a post_interaction_update background job when a voice call closes
+ * or a web or SMS session ends (sessionEnd.ts). Throws on failure so the job
+ * is retried.
  */
 export async function updateProfileAfterInteraction(
   clientProfileId: string,
@@ -122,7 +124,7 @@ export async function updateProfileAfterInteraction(
     
   } catch (error) {
     console.error(`[PostInteractionUpdater] Error updating profile:`, error);
-    // Don't throw - we don't want to break the main flow
+    throw error; // Callers keep it off the reply path - the job queue records it
   }
 }
 
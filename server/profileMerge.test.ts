@@ -0,0 +1,248 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ClientProfile } from "../drizzle/schema";
+
+// A scripted stand-in for the database. Queries are recorded in order;
+// selects and profile_merge updates answer from per-table queues, child-row
+// updates from childRows.
+const fake = vi.hoisted(() => {
+  type Op = { kind: "select" | "update" | "insert" | "delete"; table?: unknown; values?: Record<string, unknown> };
+
+  const state = {
+    ops: [] as Op[],
+    selects: new Map<unknown, unknown[][]>(),
+    updates: new Map<unknown, unknown[][]>(),
+    childRows: new Map<unknown, Array<{ id: string }>>(),
+    profileTables: [] as unknown[], // clientProfile, profileMerge - set once the schema is loaded
+  };
+
+  function respond(op: Op): unknown {
+    state.ops.push(op);
+    if (op.kind === "select") return state.selects.get(op.table)?.shift() ?? [];
+    if (op.kind === "update" && state.updates.get(op.table)?.length) return state.updates.get(op.table)!.shift();
+    if (op.kind === "update" && !state.profileTables.includes(op.table)) return state.childRows.get(op.table) ?? [];
+    if (op.kind === "update") return [{ ...op.values }];
+    return [];
+  }
+
+  function query(op: Op) {
+    const chain: Record<string, unknown> = {};
+    const self = () => chain;
+    Object.assign(chain, {
+      from: (table: unknown) => { op.table = table; return chain; },
+      set: (values: Record<string, unknown>) => { op.values = values; return chain; },
+      values: (values: Record<string, unknown>) => { op.values = values; return chain; },
+      where: self,
+      for: self,
+      limit: self,
+      returning: self,
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve().then(() => respond(op)).then(resolve, reject),
+    });
+    return chain;
+  }
+
+  const tx = {
+    select: () => query({ kind: "select" }),
+    update: (table: unknown) => query({ kind: "update", table }),
+    insert: (table: unknown) => query({ kind: "insert", table }),
+    delete: (table: unknown) => query({ kind: "delete", table }),
+  };
+
+  return { state, db: { transaction: <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx) } };
+});
+
+vi.mock("./_core/db", () => ({ db: fake.db }));
+
+import { clientProfile, conversation, keyInsight, profileMerge } from "../drizzle/schema";
+import { mergeProfileFields } from "./profileMerge";
+import { mergeProfiles, undoProfileMerge } from "./unifiedClientRepository";
+
+function profile(overrides: Partial<ClientProfile>): ClientProfile {
+  return {
+    firstContactDate: new Date("2025-01-01T00:00:00Z"),
+    lastContactDate: null,
+    lastInteractionDate: null,
+    lastCrisisDate: null,
+    crisisRiskLevel: "none",
+    subscriptionTier: "free",
+    totalConversations: 0,
+    totalMessages: 0,
+    ...overrides,
+  } as ClientProfile;
+}
+
+const web = profile({
+  id: "client_web",
+  userId: "user_1",
+  preferredName: "Sam",
+  firstContactDate: new Date("2025-03-01T00:00:00Z"),
+  totalConversations: 4,
+  totalMessages: 40,
+  commonTriggers: ["Work deadlines"],
+});
+
+const phone = profile({
+  id: "client_phone",
+  phoneNumber: "+15555550100",
+  preferredName: "Samuel",
+  firstContactDate: new Date("2025-01-15T00:00:00Z"),
+  totalConversations: 2,
+  totalMessages: 10,
+  crisisRiskLevel: "high",
+  commonTriggers: ["work deadlines", "Sunday nights"],
+});
+
+// What a JSON column gives back: dates as strings
+const fromJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+function opsOf(kind: string, table: unknown) {
+  return fake.state.ops.filter(op => op.kind === kind && op.table === table);
+}
+
+beforeEach(() => {
+  fake.state.ops = [];
+  fake.state.selects = new Map();
+  fake.state.updates = new Map();
+  fake.state.childRows = new Map();
+  fake.state.profileTables = [clientProfile, profileMerge];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("mergeProfileFields", () => {
+  it("keeps the kept profile's values and fills its gaps", () => {
+    const changes = mergeProfileFields(web, phone);
+    expect(changes.preferredName).toBeUndefined();
+    expect(changes.phoneNumber).toBe("+15555550100");
+  });
+
+  it("sums counters, keeps the earliest first contact and the higher risk", () => {
+    const changes = mergeProfileFields(web, phone);
+    expect(changes.totalConversations).toBe(6);
+    expect(changes.totalMessages).toBe(50);
+    expect(changes.firstContactDate).toEqual(phone.firstContactDate);
+    expect(changes.crisisRiskLevel).toBe("high");
+  });
+
+  it("combines lists without duplicates", () => {
+    expect(mergeProfileFields(web, phone).commonTriggers).toEqual(["Work deadlines", "Sunday nights"]);
+  });
+});
+
+describe("mergeProfiles and undoProfileMerge", () => {
+  async function merge() {
+    fake.state.selects.set(clientProfile, [[web], [phone]]);
+    fake.state.childRows.set(conversation, [{ id: "conv_phone" }]);
+    fake.state.childRows.set(keyInsight, [{ id: "insight_phone" }]);
+    fake.state.updates.set(profileMerge, [[]]); // No earlier merges into the phone profile
+
+    const id = await mergeProfiles(web.id, phone.id, "same person", "admin_1");
+    const [audit] = opsOf("insert", profileMerge);
+    return { id, record: audit.values! };
+  }
+
+  it("moves the merged profile's rows, deletes it and records the merge", async () => {
+    const { id, record } = await merge();
+
+    expect(id).toBe(record.id);
+    expect(opsOf("update", conversation)[0].values).toEqual({ clientProfileId: web.id });
+    expect(opsOf("delete", clientProfile)).toHaveLength(1);
+    expect(record).toMatchObject({
+      keptProfileId: web.id,
+      mergedProfileId: phone.id,
+      mergedProfileSnapshot: phone,
+      movedRows: { conversation: ["conv_phone"], key_insight: ["insight_phone"] },
+    });
+    expect(record.keptProfileBefore).toMatchObject({ totalConversations: 4, phoneNumber: null });
+    expect(record.keptProfileAfter).toMatchObject({ totalConversations: 6, phoneNumber: phone.phoneNumber });
+  });
+
+  it("splits the profiles again, keeping what changed since the merge", async () => {
+    const { record } = await merge();
+    const after = record.keptProfileAfter as Partial<ClientProfile>;
+    fake.state.ops = [];
+
+    // Since the merge: one more conversation, and the risk level was reassessed
+    const keptNow = profile({
+      ...web,
+      ...after,
+      totalConversations: (after.totalConversations ?? 0) + 1,
+      crisisRiskLevel: "medium",
+    });
+    fake.state.selects.set(profileMerge, [[fromJson({ ...record, undoneAt: null })]]);
+    fake.state.selects.set(clientProfile, [[keptNow]]);
+
+    await undoProfileMerge(record.id as string, "admin_1");
+
+    const [restore] = opsOf("update", clientProfile);
+    expect(restore.values).toMatchObject({
+      totalConversations: 5, // The merged profile's 2 come off, the new one stays
+      totalMessages: 40,
+      phoneNumber: null,
+      firstContactDate: web.firstContactDate,
+    });
+    // Changed since the merge - left alone
+    expect(restore.values).not.toHaveProperty("crisisRiskLevel");
+
+    const [recreated] = opsOf("insert", clientProfile);
+    expect(recreated.values).toMatchObject({ id: phone.id, totalConversations: 2 });
+    expect(recreated.values!.firstContactDate).toEqual(phone.firstContactDate);
+
+    // Only the rows the merge moved go back
+    expect(opsOf("update", conversation)[0].values).toEqual({ clientProfileId: phone.id });
+    expect(opsOf("update", keyInsight)[0].values).toEqual({ clientProfileId: phone.id });
+    expect(fake.state.ops.filter(op => op.kind === "update" && !fake.state.profileTables.includes(op.table)))
+      .toHaveLength(2);
+
+    expect(opsOf("update", profileMerge)[0].values).toMatchObject({ undoneByUserId: "admin_1" });
+  });
+
+  it("keeps an earlier merge undoable when the kept profile is merged again", async () => {
+    const { record: first } = await merge();
+    fake.state.ops = [];
+
+    // The combined web + phone profile is then merged into an account profile
+    const account = profile({ id: "client_account", userId: "user_2", totalConversations: 1, totalMessages: 5 });
+    const combined = profile({ ...web, ...(first.keptProfileAfter as Partial<ClientProfile>) });
+    fake.state.selects.set(clientProfile, [[account], [combined]]);
+    fake.state.updates.set(profileMerge, [[{ id: first.id }]]);
+    fake.state.childRows.set(conversation, [{ id: "conv_phone" }, { id: "conv_web" }]);
+    fake.state.childRows.set(keyInsight, [{ id: "insight_phone" }]);
+
+    await mergeProfiles(account.id, web.id, "user_link");
+
+    // The first record now points at the account profile, before the cascade could take it
+    const [repoint] = opsOf("update", profileMerge);
+    expect(repoint.values).toEqual({ keptProfileId: account.id });
+    const deleteAt = fake.state.ops.findIndex(op => op.kind === "delete" && op.table === clientProfile);
+    expect(fake.state.ops.indexOf(repoint)).toBeLessThan(deleteAt);
+    const [second] = opsOf("insert", profileMerge).map(op => op.values!);
+    expect(second.movedRows).toMatchObject({ profile_merge: [first.id] });
+
+    // Undoing the first merge takes the phone profile's rows back from the account profile
+    fake.state.ops = [];
+    fake.state.selects.set(profileMerge, [[fromJson({ ...first, keptProfileId: account.id, undoneAt: null })]]);
+    fake.state.selects.set(clientProfile, [[profile({ ...account, totalConversations: 7, totalMessages: 55 })]]);
+
+    await undoProfileMerge(first.id as string);
+
+    expect(opsOf("update", clientProfile)[0].values).toMatchObject({ totalConversations: 5, totalMessages: 45 });
+    expect(opsOf("insert", clientProfile)[0].values).toMatchObject({ id: phone.id });
+    expect(opsOf("update", conversation)[0].values).toEqual({ clientProfileId: phone.id });
+
+    // Undoing the second merge hands the first record back to the web profile
+    fake.state.ops = [];
+    fake.state.selects.set(profileMerge, [[fromJson({ ...second, undoneAt: null })]]);
+    fake.state.selects.set(clientProfile, [[account]]);
+
+    await undoProfileMerge(second.id as string);
+
+    const [handBack, markUndone] = opsOf("update", profileMerge);
+    expect(handBack.values).toEqual({ keptProfileId: web.id });
+    expect(markUndone.values).toMatchObject({ undoneAt: expect.any(Date) });
+  });
+
+  it("refuses to undo a merge twice", async () => {
+    fake.state.selects.set(profileMerge, [[{ id: "merge_1", undoneAt: new Date() }]]);
+    await expect(undoProfileMerge("merge_1")).rejects.toThrow(/already undone/);
+  });
+});
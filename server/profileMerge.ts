@@ -0,0 +1,205 @@
+/**
+ * PROFILE MERGE - FIELD RULES
+ *
+ * Pure functions deciding what the kept profile looks like after another
+ * profile is merged into it. The database side (moving child rows, the
+ * transaction, the audit record, undo) is mergeProfiles in
+ * unifiedClientRepository.ts.
+ *
+ * - Identity and free-text fields: the kept profile wins, gaps are filled
+ * - Counters: summed
+ * - Dates: earliest first contact, latest everything else
+ * - Crisis risk: the higher level
+ * - JSON lists: combined, deduplicated by their natural key
+ * - JSON objects: the kept profile wins per key, gaps are filled
+ */
+
+import type { ClientProfile } from "../drizzle/schema";
+import type { CrisisLevel } from "./crisisClassifier";
+
+type ProfileUpdate = Partial<Omit<ClientProfile, "id" | "createdAt">>;
+
+// Summed on merge - undo subtracts the merged profile's share back out
+export const MERGE_COUNTER_FIELDS = [
+  "totalConversations",
+  "totalMessages",
+  "totalPhoneCalls",
+  "totalSMS",
+  "totalVideoSessions",
+  "totalExchangeCount",
+] as const;
+
+// Kept profile wins, merged profile fills gaps
+const FILL_FIELDS = [
+  "userId",
+  "preferredName",
+  "phoneNumber",
+  "email",
+  "pronouns",
+  "age",
+  "timezone",
+  "language",
+  "occupation",
+  "location",
+  "lifeStage",
+  "crisisNotes",
+  "emergencyContact",
+  "safetyPlanNotes",
+  "communicationStyle",
+  "preferredChannel",
+  "bestTimeToReach",
+  "emotionalPatterns",
+  "stripeCustomerId",
+  "aiSummary",
+  "trialEndDate",
+  "paymentLinkSentAt",
+] as const;
+
+const OBJECT_FIELDS = [
+  "platformEngagement",
+  "videoSessionsSummary",
+  "communityEngagement",
+  "conversationPreferences",
+  "paymentGuidanceIndices",
+] as const;
+
+const STRING_LIST_FIELDS = [
+  "commonTriggers",
+  "copingStrategies",
+  "strengthsAndResources",
+  "ongoingChallenges",
+] as const;
+
+const CRISIS_ORDER: CrisisLevel[] = ["none", "low", "medium", "high", "critical"];
+const TIER_ORDER = ["free", "voice", "phone"];
+
+function normalizeKey(value: string | undefined | null): string {
+  return (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Combine two lists, keeping the first of each key (kept profile first).
+ * `pick` chooses between duplicates.
+ */
+export function dedupeBy<T>(
+  kept: T[] | null | undefined,
+  merged: T[] | null | undefined,
+  keyOf: (item: T) => string,
+  pick: (kept: T, merged: T) => T = kept => kept
+): T[] {
+  const byKey = new Map<string, T>();
+
+  for (const item of [...(kept ?? []), ...(merged ?? [])]) {
+    const key = keyOf(item);
+    if (!key) continue;
+    const existing = byKey.get(key);
+    byKey.set(key, existing === undefined ? item : pick(existing, item));
+  }
+
+  return Array.from(byKey.values());
+}
+
+function later(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a >= b ? a : b;
+}
+
+function earlier(a: Date, b: Date): Date {
+  return a <= b ? a : b;
+}
+
+function fillObject<T extends object>(kept: T | null, merged: T | null): T | null {
+  if (!kept) return merged;
+  if (!merged) return kept;
+  const result: Record<string, unknown> = { ...(merged as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(kept)) {
+    if (value !== undefined && value !== null) result[key] = value;
+  }
+  return result as T;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * The fields of `kept` that change when `merged` is folded into it
+ */
+export function mergeProfileFields(kept: ClientProfile, merged: ClientProfile): ProfileUpdate {
+  const next: Record<string, unknown> = {};
+
+  for (const field of FILL_FIELDS) {
+    if (isEmpty(kept[field]) && !isEmpty(merged[field])) {
+      next[field] = merged[field];
+    }
+  }
+
+  for (const field of MERGE_COUNTER_FIELDS) {
+    next[field] = (kept[field] ?? 0) + (merged[field] ?? 0);
+  }
+
+  for (const field of OBJECT_FIELDS) {
+    next[field] = fillObject<object>(kept[field], merged[field]);
+  }
+
+  for (const field of STRING_LIST_FIELDS) {
+    next[field] = dedupeBy(kept[field], merged[field], normalizeKey);
+  }
+
+  next.significantEvents = dedupeBy(kept.significantEvents, merged.significantEvents, e => normalizeKey(e.event));
+  next.upcomingEvents = dedupeBy(kept.upcomingEvents, merged.upcomingEvents, e => `${normalizeKey(e.event)}|${e.date}`);
+  next.pastWins = dedupeBy(kept.pastWins, merged.pastWins, w => normalizeKey(w.win));
+  next.recentTopics = dedupeBy(kept.recentTopics, merged.recentTopics, t => `${normalizeKey(t.topic)}|${t.date}`)
+    .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  next.nextBestActions = dedupeBy(kept.nextBestActions, merged.nextBestActions, a => normalizeKey(a.action),
+    (a, b) => (b.priority > a.priority ? b : a));
+
+  // The most recently updated version of a goal wins
+  next.currentGoals = dedupeBy(kept.currentGoals, merged.currentGoals, g => normalizeKey(g.goal),
+    (a, b) => ((b.lastUpdated ?? "") > (a.lastUpdated ?? "") ? b : a));
+
+  next.keyInsights = dedupeBy(kept.keyInsights, merged.keyInsights, i => normalizeKey(i.insight),
+    (a, b) => ({
+      ...a,
+      importance: Math.max(a.importance, b.importance),
+      createdAt: a.createdAt < b.createdAt ? a.createdAt : b.createdAt,
+      lastRelevant: a.lastRelevant > b.lastRelevant ? a.lastRelevant : b.lastRelevant,
+    }))
+    .sort((a, b) => b.importance - a.importance);
+
+  // Safety: never lower a known risk
+  const keptRisk = CRISIS_ORDER.indexOf((kept.crisisRiskLevel ?? "none") as CrisisLevel);
+  const mergedRisk = CRISIS_ORDER.indexOf((merged.crisisRiskLevel ?? "none") as CrisisLevel);
+  next.crisisRiskLevel = mergedRisk > keptRisk ? merged.crisisRiskLevel : kept.crisisRiskLevel;
+  next.lastCrisisDate = later(kept.lastCrisisDate, merged.lastCrisisDate);
+
+  // Billing follows the better plan
+  if (TIER_ORDER.indexOf(merged.subscriptionTier ?? "free") > TIER_ORDER.indexOf(kept.subscriptionTier ?? "free")) {
+    next.subscriptionTier = merged.subscriptionTier;
+    next.subscriptionStatus = merged.subscriptionStatus;
+    next.dailyMessageLimit = merged.dailyMessageLimit;
+  }
+
+  next.firstContactDate = earlier(kept.firstContactDate, merged.firstContactDate);
+  next.lastContactDate = later(kept.lastContactDate, merged.lastContactDate);
+
+  // Last interaction comes as a set, from whichever profile had it most recently
+  if (merged.lastInteractionDate && (!kept.lastInteractionDate || merged.lastInteractionDate > kept.lastInteractionDate)) {
+    next.lastInteractionDate = merged.lastInteractionDate;
+    next.lastInteractionSummary = merged.lastInteractionSummary;
+    next.lastInteractionChannel = merged.lastInteractionChannel;
+  }
+
+  // Only report what actually changes
+  const changed: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(next)) {
+    const current = kept[field as keyof ClientProfile] ?? null;
+    if (Array.isArray(value) && value.length === 0 && current === null) continue;
+    if (JSON.stringify(value ?? null) !== JSON.stringify(current)) {
+      changed[field] = value;
+    }
+  }
+
+  return changed as ProfileUpdate;
+}
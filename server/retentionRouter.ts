@@ -0,0 +1,53 @@
+/**
+ * DATA RETENTION API (ADMIN ONLY)
+ *
+ * View and change the retention policy, preview it with a dry run, or run
+ * it now instead of waiting for the schedule (see dataRetention.ts).
+ */
+
+import { z } from "zod";
+import { adminProcedure, router } from "./_core/trpc";
+import {
+  getLastRetentionReport,
+  getRetentionPolicy,
+  retentionPolicySchema,
+  runRetention,
+  saveRetentionPolicy,
+} from "./dataRetention";
+
+export const retentionRouter = router({
+  /**
+   * The active policy and the report from the last run
+   */
+  status: adminProcedure
+    .query(async () => {
+      const [policy, lastRun] = await Promise.all([getRetentionPolicy(), getLastRetentionReport()]);
+      return { policy, lastRun };
+    }),
+
+  updatePolicy: adminProcedure
+    .input(retentionPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      await saveRetentionPolicy(input);
+      console.log(`[Retention] Policy updated by ${ctx.user.id}: ${JSON.stringify(input)}`);
+      return input;
+    }),
+
+  /**
+   * What the current policy would purge right now - never changes anything
+   */
+  preview: adminProcedure
+    .query(async () => {
+      return runRetention(await getRetentionPolicy(), { dryRun: true });
+    }),
+
+  /**
+   * Run the current policy now. Follows the policy's dryRun unless overridden.
+   */
+  runNow: adminProcedure
+    .input(z.object({ dryRun: z.boolean().optional() }).optional())
+    .mutation(async ({ input, ctx }) => {
+      console.log(`[Retention] Manual run by ${ctx.user.id}`);
+      return runRetention(await getRetentionPolicy(), { dryRun: input?.dryRun });
+    }),
+});
@@ -1,4 +1,4 @@
-import { generateMessageId, generateLogId, generateConversationId, generateClientId } from './utils/generateId';
+import { generateMessageId, generateConversationId, generateClientId } from './utils/generateId';
 /**
  * API ROUTERS - ALL DATA FLOWS THROUGH UNIFIED CLIENT REPOSITORY
  * 
@@ -9,11 +9,14 @@ import { generateMessageId, generateLogId, generateConversationId, generateClien
  */
 
 import { z } from "zod";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
-import { invokeLLM } from "./_core/llm";
-import { detectCrisis, logCrisisEvent, sendCrisisAlert, getCrisisResponseGuidance } from "./crisisDetection";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure, clientProcedure, router } from "./_core/trpc";
+import { invokeLLM, invokeLLMStream, type Message } from "./_core/llm";
+import type { TrpcContext } from "./_core/context";
+import { assertClientAccess, createClientAccessToken, logUnauthorizedAccess } from "./_core/clientAccess";
+import { detectCrisisWithReview, getCrisisResponseGuidance, updateCrisisTrajectory } from "./crisisDetection";
 import { db } from "./_core/db";
-import { conversation, message, clientProfile, interactionLog } from "../drizzle/schema";
+import { conversation, message, clientProfile } from "../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 
 // UNIFIED CLIENT REPOSITORY - THE SINGLE SOURCE OF TRUTH
@@ -24,40 +27,41 @@ import {
   canUseFeature,
   decrementMessageCount,
   linkUserIdToProfile,
+  linkPhoneToProfile,
+  findByPhone,
   type ClientIdentifier,
+  type UnifiedClientContext,
 } from "./unifiedClientRepository";
 
 import { healthRouter } from "./healthRouter";
 import { stripeRouter } from "./stripeRouter";
 import { ttsRouter } from "./ttsRouter";
-import { checkGuardrails, buildGuardrailsSystemPrompt, logGuardrailViolation } from "./guardrails";
+import { crisisCaseRouter } from "./crisisCaseRouter";
+import { authRouter } from "./authRouter";
+import { guardrailReportRouter } from "./guardrailReportRouter";
+import { duplicateProfileRouter } from "./duplicateProfileRouter";
+import { dataExportRouter } from "./dataExportRouter";
+import { erasureRouter } from "./erasureRouter";
+import { retentionRouter } from "./retentionRouter";
+import { consentRouter } from "./consentRouter";
+import { backgroundJobRouter } from "./backgroundJobRouter";
+import { checkPreConsentCrisis, getConsentStatus, PRE_CONSENT_CRISIS_RESOURCES } from "./consent";
+import { buildSmartContext } from "./smartContextBuilder";
+import { findActiveSession } from "./sessionEnd";
+import { logInteraction } from "./interactionLog";
+import { checkGuardrails, buildGuardrailsSystemPrompt } from "./guardrails";
+import { enforceGuardrails } from "./guardrailReview";
 import { withTimeout, retryWithBackoff, API_TIMEOUTS } from "./_core/apiConfig";
+import {
+  createVerification,
+  generateSmsCode,
+  isSmsConfigured,
+  normalizePhone,
+  sendSmsCode,
+  verifySmsCode,
+} from "./verificationCodes";
 
-// ============================================================================
-// INTERACTION LOGGING - ALL ACTIVITY GOES TO CLIENT PROFILE
-// ============================================================================
-
-async function logInteraction(
-  clientId: string,
-  type: string,
-  target: string,
-  metadata: Record<string, any> = {}
-): Promise<void> {
-  try {
-    await db.insert(interactionLog).values({
-      id: generateLogId(),
-      clientProfileId: clientId,
-      interactionType: type,
-      target,
-      metadata: {
-        ...metadata,
-        timestamp: new Date().toISOString(),
-      },
-    });
-  } catch (error) {
-    console.error("[Router] Failed to log interaction:", error);
-  }
-}
+const PHONE_LINK_CODE_TTL_MS = 10 * 60 * 1000;
 
 // ============================================================================
 // CONVERSATION MANAGEMENT - ALWAYS LINKED TO CLIENT PROFILE
@@ -67,21 +71,10 @@ async function getOrCreateConversation(
   clientId: string,
   channel: "web" | "phone" | "sms"
 ): Promise<string> {
-  // Look for recent conversation on this channel
-  const recentConv = await db
-    .select()
-    .from(conversation)
-    .where(eq(conversation.clientProfileId, clientId))
-    .orderBy(desc(conversation.createdAt))
-    .limit(1);
-
-  // If recent conversation exists (within last hour on same channel), use it
-  if (recentConv.length > 0) {
-    const lastConv = recentConv[0];
-    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    if (lastConv.createdAt > hourAgo && lastConv.channel === channel) {
-      return lastConv.id;
-    }
+  // Continue the session on this channel unless it has gone quiet
+  const activeConversationId = await findActiveSession(clientId, channel);
+  if (activeConversationId) {
+    return activeConversationId;
   }
 
   // Create new conversation (LINKED TO CLIENT PROFILE)
@@ -109,6 +102,387 @@ async function getOrCreateConversation(
   return conversationId;
 }
 
+// ============================================================================
+// CHAT TURNS - SHARED BY sendMessage AND streamMessage
+// ============================================================================
+
+const chatMessageInput = z.object({
+  message: z.string(),
+  clientId: z.string().optional(),
+  mood: z.string().optional(),
+  browserFingerprint: z.string().optional(),
+});
+
+type ChatTurnResult = {
+  response: string;
+  clientId: string;
+  accessToken: string; // Send with later requests for this client
+  conversationId: string | null;
+  trialMessagesRemaining: number;
+  limitReached: boolean;
+  consentRequired?: boolean; // Accept the current Terms (consent.accept), then resend
+};
+
+type ChatTurn = {
+  clientId: string;
+  conversationId: string;
+  context: UnifiedClientContext;
+  messages: Message[];
+};
+
+type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | ({ type: "done" } & ChatTurnResult);
+
+/**
+ * Everything that happens before the AI is asked for a reply:
+ * resolve the client, enforce the tier, store the user message,
+ * handle crisis detection and build the prompt.
+ *
+ * ALL DATA FLOWS THROUGH UNIFIED CLIENT REPOSITORY:
+ * 1. Get/create client profile
+ * 2. Check subscription tier
+ * 3. Log interaction to client's history
+ * 4. Store message linked to client profile
+ */
+async function prepareChatTurn(
+  input: z.infer<typeof chatMessageInput>,
+  ctx: TrpcContext,
+  path: string
+): Promise<{ denied: ChatTurnResult; turn?: never } | { denied?: never; turn: ChatTurn }> {
+  // ========================================
+  // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
+  // No direct database access - EVER
+  // ========================================
+  let identifier: ClientIdentifier;
+  
+  // Signed-in users always get their account's profile, whatever this browser stored
+  if (ctx.user?.id) {
+    identifier = { type: "userId", value: ctx.user.id };
+  } else if (input.clientId) {
+    // Continuing an existing profile needs its access token
+    await assertClientAccess(ctx, input.clientId, path);
+    identifier = { type: "clientId", value: input.clientId };
+  } else if (input.browserFingerprint) {
+    // Anonymous user - use fingerprint identifier
+    identifier = { type: "fingerprint", value: input.browserFingerprint };
+  } else {
+    // No identifier - create anonymous with random fingerprint
+    identifier = { type: "fingerprint", value: `temp_${Date.now()}_${Math.random().toString(36).slice(2)}` };
+  }
+  
+  // UNIFIED REPOSITORY handles all creation/lookup
+  const context = await getUnifiedClientContext(identifier);
+  const clientId = context.profile.id;
+  
+  console.log(`[Chat] Client resolved: ${clientId} (name: ${context.profile.preferredName || 'unknown'})`);
+
+  // Log this chat interaction
+  await logInteraction(clientId, "chat_message", "web", {
+    messageLength: input.message.length,
+    mood: input.mood,
+    channel: "web",
+  });
+
+  // ========================================
+  // CONSENT - nothing is stored until they accept the current Terms
+  // ========================================
+  const consent = await getConsentStatus(clientId);
+
+  if (!consent.current) {
+    const inCrisis = await checkPreConsentCrisis(clientId, input.message);
+    const prompt = consent.needsReconsent
+      ? "We've updated our Terms of Service and Privacy Policy. Please take a look and accept them so we can keep talking."
+      : "Before we talk, please confirm your age and accept our Terms of Service and Privacy Policy.";
+
+    return {
+      denied: {
+        response: inCrisis ? `${PRE_CONSENT_CRISIS_RESOURCES}\n\n${prompt}` : prompt,
+        clientId,
+        accessToken: await createClientAccessToken(clientId),
+        conversationId: null,
+        trialMessagesRemaining: context.profile.trialMessagesRemaining ?? 0,
+        limitReached: false,
+        consentRequired: true,
+      },
+    };
+  }
+
+  // ========================================
+  // SUBSCRIPTION TIER ENFORCEMENT
+  // ========================================
+  const textAccess = canUseFeature(context, "text");
+  
+  if (!textAccess.allowed) {
+    console.log(`[Chat] Client ${clientId} denied text access: ${textAccess.reason}`);
+    
+    await logInteraction(clientId, "chat_denied", "subscription", {
+      reason: textAccess.reason,
+      tier: context.subscription.tier,
+      messagesRemaining: context.subscription.messagesRemaining,
+    });
+    
+    return {
+      denied: {
+        response: `Hey, I've really enjoyed our conversations! ${textAccess.reason} Visit the pricing page to upgrade - I'd love to keep talking with you! 💙`,
+        clientId,
+        accessToken: await createClientAccessToken(clientId),
+        conversationId: null,
+        trialMessagesRemaining: 0,
+        limitReached: true,
+      },
+    };
+  }
+  
+  // Decrement message count for free tier
+  if (context.subscription.tier === "free") {
+    await decrementMessageCount(clientId);
+  }
+
+  // ========================================
+  // CREATE CONVERSATION (LINKED TO CLIENT PROFILE)
+  // ========================================
+  const conversationId = await getOrCreateConversation(clientId, "web");
+
+  // Detect crisis in user message
+  const crisisDetection = await detectCrisisWithReview(input.message);
+  
+  // Store user message (LINKED TO CONVERSATION → LINKED TO CLIENT PROFILE)
+  await db.insert(message).values({
+    id: generateMessageId(),
+    conversationId,
+    role: "user",
+    content: input.message,
+    mood: input.mood,
+    sentiment: crisisDetection.isCrisis ? "crisis" : null,
+    crisisKeywords: crisisDetection.keywords.length > 0 ? crisisDetection.keywords : null,
+  });
+  
+  // Log and alert on crisis, and score risk across the conversation and
+  // history (catches gradual escalation)
+  const trajectory = await updateCrisisTrajectory(clientId, conversationId, crisisDetection, input.message);
+
+  // Three-tier memory, with past moments relevant to what they just said
+  const smartContext = await buildSmartContext(clientId, {
+    channel: "web",
+    currentTopic: input.message,
+    conversationId,
+  });
+
+  // Get conversation history
+  const history = await db
+    .select()
+    .from(message)
+    .where(eq(message.conversationId, conversationId))
+    .orderBy(desc(message.createdAt))
+    .limit(10);
+
+  // Build messages for AI (with crisis guidance if needed)
+  const trajectoryGuidance = getCrisisResponseGuidance(trajectory.currentLevel);
+  const crisisGuidance = trajectoryGuidance
+    ? `\n\n${trajectoryGuidance}`
+    : "";
+  
+  const guardrailsPrompt = buildGuardrailsSystemPrompt();
+  
+  const messages: Message[] = [
+    {
+      role: "system",
+      content: `${guardrailsPrompt}
+
+Client Context (YOU REMEMBER EVERYTHING):
+${smartContext.fullContext}
+
+Guidelines:
+- Listen deeply and validate emotions
+- Ask thoughtful follow-up questions
+- Match their emotional tone
+- **ALWAYS reference past conversations** - You have perfect memory of everything they've shared
+- If this is a returning client, greet them warmly and reference something specific from your last conversation
+- Be warm, empathetic, and genuine
+- Use their preferred name if you know it${crisisGuidance}`,
+    },
+  ];
+
+  // Add conversation history (reverse order for chronological)
+  for (const msg of history.reverse()) {
+    messages.push({
+      role: msg.role as Message["role"],
+      content: msg.content,
+    });
+  }
+
+  return { turn: { clientId, conversationId, context, messages } };
+}
+
+/**
+ * Everything that happens once the AI reply is complete:
+ * guardrail enforcement, storing the reply and updating profile stats.
+ */
+async function completeChatTurn(turn: ChatTurn, aiResponse: string): Promise<ChatTurnResult> {
+  const { clientId, conversationId, context } = turn;
+
+  const assistantMessageId = generateMessageId();
+
+  // GUARDRAILS: regex + LLM review, regenerating the reply on a violation
+  const guarded = await enforceGuardrails({
+    draft: aiResponse,
+    messages: turn.messages,
+    regenerate: async (messages) => {
+      const regenerated = await withTimeout(
+        invokeLLM({ messages }),
+        API_TIMEOUTS.openai,
+        "OpenAI regeneration"
+      );
+      const content = regenerated.choices[0].message.content;
+      if (typeof content !== "string") throw new Error("Empty regeneration");
+      return content;
+    },
+    fallbackPrefix: "I want to support you in the best way possible. ",
+    context: {
+      clientId,
+      conversationId,
+      messageId: assistantMessageId,
+      channel: "web",
+    },
+  });
+  const aiMessage = guarded.content;
+
+  // Store AI response (LINKED TO CONVERSATION → LINKED TO CLIENT PROFILE)
+  await db.insert(message).values({
+    id: assistantMessageId,
+    conversationId,
+    role: "assistant",
+    content: aiMessage,
+  });
+
+  // ========================================
+  // UPDATE CLIENT PROFILE STATS
+  // ========================================
+  await updateClientProfile(clientId, {
+    lastContactDate: new Date(),
+    totalMessages: (context.profile.totalMessages || 0) + 2,
+    preferredChannel: "web",
+  });
+
+  // Get updated message count
+  const [updatedProfile] = await db
+    .select()
+    .from(clientProfile)
+    .where(eq(clientProfile.id, clientId))
+    .limit(1);
+
+  return {
+    response: aiMessage,
+    clientId,
+    accessToken: await createClientAccessToken(clientId),
+    conversationId,
+    trialMessagesRemaining: updatedProfile?.trialMessagesRemaining ?? 0,
+    limitReached: false,
+  };
+}
+
+/**
+ * Generate, guard and store a streamed reply. Generation runs on its own,
+ * not inside the response: a client that disconnects mid-reply has already
+ * had its message stored and counted, so the reply is stored too and shows
+ * up in its history. The returned iterator just relays what's produced.
+ */
+export function streamChatTurn(turn: ChatTurn): AsyncGenerator<ChatStreamEvent> {
+  const events: ChatStreamEvent[] = [];
+  let finished = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => wake?.();
+  const emit = (event: ChatStreamEvent) => {
+    events.push(event);
+    notify();
+  };
+
+  void (async () => {
+    try {
+      // Retries only cover connecting - once tokens flow we can't replay them
+      const stream = await retryWithBackoff(
+        () => {
+          const controller = new AbortController();
+          return withTimeout(
+            invokeLLMStream({ messages: turn.messages }, { signal: controller.signal }),
+            API_TIMEOUTS.openai,
+            "OpenAI stream"
+          ).catch(error => {
+            controller.abort(); // Don't leave a timed-out request running
+            throw error;
+          });
+        },
+        {
+          maxRetries: 2,
+          onRetry: (error, attempt) => {
+            console.log(`[Chat] OpenAI stream retry ${attempt}/2:`, error.message);
+          },
+        }
+      );
+
+      let streamed = "";
+      for await (const delta of stream) {
+        streamed += delta;
+
+        // GUARDRAILS: stop streaming as soon as the accumulated text crosses a line
+        if (checkGuardrails(streamed).some(v => v.requiresIntervention)) {
+          console.error('[GUARDRAILS] Critical violation detected mid-stream - stopping generation');
+          break;
+        }
+
+        emit({ type: "delta", text: delta });
+      }
+
+      emit({ type: "done", ...(await completeChatTurn(turn, streamed || "I'm here to listen.")) });
+    } catch (error) {
+      console.error(`[Chat] Streamed reply failed for client ${turn.clientId}:`, error);
+      failure = error;
+    } finally {
+      finished = true;
+      notify();
+    }
+  })();
+
+  return (async function* () {
+    let next = 0;
+    while (next < events.length || !finished) {
+      if (next < events.length) {
+        yield events[next++];
+      } else {
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+      }
+    }
+    if (failure) throw failure;
+  })();
+}
+
+/**
+ * Looking a profile up by explicit identifier hands back its access token,
+ * so the caller must already be entitled to that profile
+ */
+async function assertIdentifierAccess(
+  ctx: TrpcContext,
+  identifier: { type: "phone" | "userId" | "clientId"; value: string },
+  path: string
+): Promise<void> {
+  if (identifier.type === "clientId") {
+    await assertClientAccess(ctx, identifier.value, path);
+    return;
+  }
+
+  const allowed = ctx.user?.role === "admin"
+    || (identifier.type === "userId" && ctx.user?.id === identifier.value);
+
+  if (!allowed) {
+    await logUnauthorizedAccess(ctx, path, `${identifier.type}_lookup`);
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this profile." });
+  }
+}
+
 // ============================================================================
 // APP ROUTER
 // ============================================================================
@@ -123,14 +497,21 @@ export const appRouter = router({
   // Text-to-speech with natural voice
   tts: ttsRouter,
   
-  auth: router({
-    me: publicProcedure.query(({ ctx }) => {
-      return ctx.user || null;
-    }),
-    logout: protectedProcedure.mutation(({ ctx }) => {
-      return { success: true };
-    }),
-  }),
+  // Crisis case review queue (admin only)
+  crisisCases: crisisCaseRouter,
+  guardrailReport: guardrailReportRouter,
+  duplicateProfiles: duplicateProfileRouter,
+  backgroundJobs: backgroundJobRouter,
+
+  // Terms acceptance and age attestation
+  consent: consentRouter,
+
+  // Data rights: export, forgetting, account deletion and retention
+  dataExport: dataExportRouter,
+  erasure: erasureRouter,
+  retention: retentionRouter,
+  
+  auth: authRouter,
 
   // ============================================================================
   // CLIENT PROFILE MANAGEMENT - UNIFIED REPOSITORY ACCESS
@@ -150,7 +531,7 @@ export const appRouter = router({
         ]).optional(),
         browserFingerprint: z.string().optional(),
       }))
-      .mutation(async ({ input, ctx }) => {
+      .mutation(async ({ input, ctx, path }) => {
         // ========================================
         // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
         // No direct database access - EVER
@@ -158,6 +539,7 @@ export const appRouter = router({
         let identifier: ClientIdentifier;
         
         if (input.identifier) {
+          await assertIdentifierAccess(ctx, input.identifier, path);
           identifier = input.identifier as ClientIdentifier;
         } else if (ctx.user?.id) {
           identifier = { type: "userId", value: ctx.user.id };
@@ -172,9 +554,16 @@ export const appRouter = router({
         
         // UNIFIED REPOSITORY handles all creation/lookup
         const context = await getUnifiedClientContext(identifier);
+
+        // A fingerprint proves nothing - once its profile joins an account, only signing in reaches it
+        if (identifier.type === "fingerprint" && context.profile.userId) {
+          await logUnauthorizedAccess(ctx, path, "fingerprint_for_account_profile", context.profile.id);
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "Please sign in to continue your conversations." });
+        }
         
         return {
           clientId: context.profile.id,
+          accessToken: await createClientAccessToken(context.profile.id),
           profile: context.profile,
           subscription: context.subscription,
         };
@@ -183,31 +572,29 @@ export const appRouter = router({
     /**
      * Get full client context for AI interactions.
      */
-    getContext: publicProcedure
-      .input(z.object({ clientId: z.string() }))
+    getContext: clientProcedure
       .query(async ({ input }) => {
         const context = await getUnifiedClientContext({ 
           type: "clientId", 
           value: input.clientId 
         });
+        const smartContext = await buildSmartContext(input.clientId, { channel: "web" });
         
         return {
           profile: context.profile,
           subscription: context.subscription,
           recentConversations: context.recentConversations,
-          contextString: context.contextString,
+          contextString: smartContext.fullContext,
         };
       }),
     
     /**
      * Update client profile.
      */
-    update: publicProcedure
+    update: clientProcedure
       .input(z.object({
-        clientId: z.string(),
         updates: z.object({
           preferredName: z.string().optional(),
-          phoneNumber: z.string().optional(),
           communicationStyle: z.string().optional(),
           preferredChannel: z.string().optional(),
         }),
@@ -224,24 +611,86 @@ export const appRouter = router({
       }),
     
     /**
-     * Link phone number to profile (for cross-channel continuity).
+     * Link phone number to profile (for cross-channel continuity), step 1:
+     * text a one-time code to the number.
+     *
+     * Calls and texts are matched to profiles by phone, so the number is
+     * only linked once the code proves the visitor owns it.
      */
-    linkPhone: publicProcedure
+    requestPhoneLink: clientProcedure
       .input(z.object({
-        clientId: z.string(),
-        phoneNumber: z.string(),
+        phoneNumber: z.string().min(7),
       }))
       .mutation(async ({ input }) => {
-        await updateClientProfile(input.clientId, { 
-          phoneNumber: input.phoneNumber 
+        if (!isSmsConfigured()) {
+          throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Phone linking is not available right now" });
+        }
+
+        const phone = normalizePhone(input.phoneNumber);
+        const code = generateSmsCode();
+        await createVerification({
+          purpose: "phone_link",
+          channel: "sms",
+          destination: phone,
+          secret: code,
+          ttlMs: PHONE_LINK_CODE_TTL_MS,
+          clientProfileId: input.clientId,
         });
-        
-        await logInteraction(input.clientId, "phone_linked", "profile", {
-          phoneNumber: input.phoneNumber,
+
+        await sendSmsCode(phone, `${code} is your Just Talk code to link this number. It expires in 10 minutes.`);
+
+        await logInteraction(input.clientId, "phone_link_requested", "profile", {
+          phoneNumber: phone,
         });
-        
+
         return { success: true };
       }),
+
+    /**
+     * Step 2: confirm the code and link the number.
+     *
+     * If the number already has a profile (calls, texts), this one is merged
+     * into it - the returned clientId and access token replace the old ones.
+     */
+    confirmPhoneLink: clientProcedure
+      .input(z.object({
+        phoneNumber: z.string().min(7),
+        code: z.string().regex(/^\d{6}$/),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const phone = normalizePhone(input.phoneNumber);
+        await verifySmsCode("phone_link", phone, input.code, input.clientId);
+
+        // Never fold one account's profile into another's
+        const [current, phoneOwner] = await Promise.all([
+          findOrCreateClient({ type: "clientId", value: input.clientId }),
+          findByPhone(phone),
+        ]);
+        if (phoneOwner && phoneOwner.id !== current.id
+            && phoneOwner.userId && current.userId && phoneOwner.userId !== current.userId) {
+          await logInteraction(input.clientId, "phone_link_conflict", "profile", {
+            phoneNumber: phone,
+            userId: ctx.user?.id ?? null,
+          });
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This number belongs to another account. Sign in with it instead.",
+          });
+        }
+
+        const linkedId = await linkPhoneToProfile(input.clientId, phone);
+
+        await logInteraction(linkedId, "phone_linked", "profile", {
+          phoneNumber: phone,
+          mergedFrom: linkedId !== input.clientId ? input.clientId : undefined,
+        });
+
+        return {
+          success: true,
+          clientId: linkedId,
+          accessToken: await createClientAccessToken(linkedId),
+        };
+      }),
   }),
 
   // ============================================================================
@@ -260,148 +709,18 @@ export const appRouter = router({
      * 5. Update client profile stats
      */
     sendMessage: publicProcedure
-      .input(
-        z.object({
-          message: z.string(),
-          clientId: z.string().optional(),
-          mood: z.string().optional(),
-          browserFingerprint: z.string().optional(),
-        })
-      )
-      .mutation(async ({ input, ctx }) => {
-        // ========================================
-        // ALL CLIENT DATA THROUGH UNIFIED REPOSITORY
-        // No direct database access - EVER
-        // ========================================
-        let identifier: ClientIdentifier;
-        
-        if (input.clientId) {
-          identifier = { type: "clientId", value: input.clientId };
-        } else if (ctx.user?.id) {
-          identifier = { type: "userId", value: ctx.user.id };
-        } else if (input.browserFingerprint) {
-          // Anonymous user - use fingerprint identifier
-          identifier = { type: "fingerprint", value: input.browserFingerprint };
-        } else {
-          // No identifier - create anonymous with random fingerprint
-          identifier = { type: "fingerprint", value: `temp_${Date.now()}_${Math.random().toString(36).slice(2)}` };
-        }
-        
-        // UNIFIED REPOSITORY handles all creation/lookup
-        const context = await getUnifiedClientContext(identifier);
-        const clientId = context.profile.id;
-        
-        console.log(`[Chat] Client resolved: ${clientId} (name: ${context.profile.preferredName || 'unknown'})`);
-
-        // Log this chat interaction
-        await logInteraction(clientId, "chat_message", "web", {
-          messageLength: input.message.length,
-          mood: input.mood,
-          channel: "web",
-        });
-
-        // ========================================
-        // SUBSCRIPTION TIER ENFORCEMENT
-        // ========================================
-        const textAccess = canUseFeature(context, "text");
-        
-        if (!textAccess.allowed) {
-          console.log(`[Chat] Client ${clientId} denied text access: ${textAccess.reason}`);
-          
-          await logInteraction(clientId, "chat_denied", "subscription", {
-            reason: textAccess.reason,
-            tier: context.subscription.tier,
-            messagesRemaining: context.subscription.messagesRemaining,
-          });
-          
-          return {
-            response: `Hey, I've really enjoyed our conversations! ${textAccess.reason} Visit the pricing page to upgrade - I'd love to keep talking with you! 💙`,
-            clientId,
-            conversationId: null,
-            trialMessagesRemaining: 0,
-            limitReached: true,
-          };
-        }
-        
-        // Decrement message count for free tier
-        if (context.subscription.tier === "free") {
-          await decrementMessageCount(clientId);
-        }
-
-        // ========================================
-        // CREATE CONVERSATION (LINKED TO CLIENT PROFILE)
-        // ========================================
-        const conversationId = await getOrCreateConversation(clientId, "web");
-
-        // Detect crisis in user message
-        const crisisDetection = detectCrisis(input.message);
-        
-        // Store user message (LINKED TO CONVERSATION → LINKED TO CLIENT PROFILE)
-        await db.insert(message).values({
-          id: generateMessageId(),
-          conversationId,
-          role: "user",
-          content: input.message,
-          mood: input.mood,
-          sentiment: crisisDetection.isCrisis ? "crisis" : null,
-          crisisKeywords: crisisDetection.keywords.length > 0 ? crisisDetection.keywords : null,
-        });
-        
-        // Log crisis event if detected (LINKED TO CLIENT PROFILE)
-        if (crisisDetection.isCrisis) {
-          await logCrisisEvent(clientId, conversationId, crisisDetection, input.message);
-          
-          if (crisisDetection.level === "critical" || crisisDetection.level === "high") {
-            await sendCrisisAlert(clientId, crisisDetection, input.message);
-          }
-        }
-
-        // Get conversation history
-        const history = await db
-          .select()
-          .from(message)
-          .where(eq(message.conversationId, conversationId))
-          .orderBy(desc(message.createdAt))
-          .limit(10);
-
-        // Build messages for AI (with crisis guidance if needed)
-        const crisisGuidance = crisisDetection.isCrisis 
-          ? `\n\n${getCrisisResponseGuidance(crisisDetection.level)}`
-          : "";
-        
-        const guardrailsPrompt = buildGuardrailsSystemPrompt();
-        
-        const messages: any[] = [
-          {
-            role: "system",
-            content: `${guardrailsPrompt}
-
-Client Context (YOU REMEMBER EVERYTHING):
-${context.contextString}
-
-Guidelines:
-- Listen deeply and validate emotions
-- Ask thoughtful follow-up questions
-- Match their emotional tone
-- **ALWAYS reference past conversations** - You have perfect memory of everything they've shared
-- If this is a returning client, greet them warmly and reference something specific from your last conversation
-- Be warm, empathetic, and genuine
-- Use their preferred name if you know it${crisisGuidance}`,
-          },
-        ];
-
-        // Add conversation history (reverse order for chronological)
-        for (const msg of history.reverse()) {
-          messages.push({
-            role: msg.role,
-            content: msg.content,
-          });
+      .input(chatMessageInput)
+      .mutation(async ({ input, ctx, path }) => {
+        const prepared = await prepareChatTurn(input, ctx, path);
+        if (prepared.denied) {
+          return prepared.denied;
         }
+        const { turn } = prepared;
 
         // Get AI response with timeout and retry
         const aiResponse = await retryWithBackoff(
           () => withTimeout(
-            invokeLLM({ messages }),
+            invokeLLM({ messages: turn.messages }),
             API_TIMEOUTS.openai,
             "OpenAI API call"
           ),
@@ -413,67 +732,40 @@ Guidelines:
           }
         );
         const aiContent = aiResponse.choices[0].message.content;
-        let aiMessage = typeof aiContent === 'string' ? aiContent : "I'm here to listen.";
-        
-        // GUARDRAILS: Check AI response for violations
-        const violations = checkGuardrails(aiMessage);
-        
-        if (violations.length > 0) {
-          console.error(`[GUARDRAILS] ${violations.length} violation(s) detected in AI response`);
-          
-          for (const violation of violations) {
-            await logGuardrailViolation(violation, {
-              clientId,
-              aiResponse: aiMessage,
-            });
-          }
-          
-          const criticalViolations = violations.filter(v => v.requiresIntervention);
-          if (criticalViolations.length > 0) {
-            console.error('[GUARDRAILS] Critical violation detected - replacing response');
-            aiMessage = `I want to support you in the best way possible. ${criticalViolations[0].suggestion}`;
-          }
-        }
+        const aiMessage = typeof aiContent === 'string' ? aiContent : "I'm here to listen.";
 
-        // Store AI response (LINKED TO CONVERSATION → LINKED TO CLIENT PROFILE)
-        await db.insert(message).values({
-          id: generateMessageId(),
-          conversationId,
-          role: "assistant",
-          content: aiMessage,
-        });
-
-        // ========================================
-        // UPDATE CLIENT PROFILE STATS
-        // ========================================
-        await updateClientProfile(clientId, {
-          lastContactDate: new Date(),
-          totalMessages: (context.profile.totalMessages || 0) + 2,
-          preferredChannel: "web",
-        });
+        return completeChatTurn(turn, aiMessage);
+      }),
 
-        // Get updated message count
-        const [updatedProfile] = await db
-          .select()
-          .from(clientProfile)
-          .where(eq(clientProfile.id, clientId))
-          .limit(1);
+    /**
+     * Same as sendMessage, but streams the AI response token by token.
+     *
+     * A mutation like sendMessage - a POST, so the message and access token
+     * never land in a URL, and never replayed by a reconnecting client. The
+     * client reads it through httpBatchStreamLink.
+     *
+     * Yields "delta" events while the model is generating and a final
+     * "done" event carrying the same payload sendMessage returns. The
+     * "done" response is authoritative - if guardrails stopped or
+     * regenerated the reply, the client must swap in that text.
+     */
+    streamMessage: publicProcedure
+      .input(chatMessageInput)
+      .mutation(async function* ({ input, ctx, path }): AsyncGenerator<ChatStreamEvent> {
+        const prepared = await prepareChatTurn(input, ctx, path);
+        if (prepared.denied) {
+          yield { type: "done", ...prepared.denied };
+          return;
+        }
 
-        return {
-          response: aiMessage,
-          clientId,
-          conversationId,
-          trialMessagesRemaining: updatedProfile?.trialMessagesRemaining ?? 0,
-          limitReached: false,
-        };
+        yield* streamChatTurn(prepared.turn);
       }),
 
     /**
      * Get conversation history for a client.
      * ALL history is linked to client profile.
      */
-    getHistory: publicProcedure
-      .input(z.object({ clientId: z.string() }))
+    getHistory: clientProcedure
       .query(async ({ input }) => {
         // Log this history access
         await logInteraction(input.clientId, "history_view", "chat", {});
@@ -512,9 +804,8 @@ Guidelines:
     /**
      * Log a page view to client's interaction history.
      */
-    pageView: publicProcedure
+    pageView: clientProcedure
       .input(z.object({
-        clientId: z.string(),
         page: z.string(),
         duration: z.number().optional(),
       }))
@@ -528,9 +819,8 @@ Guidelines:
     /**
      * Log a click to client's interaction history.
      */
-    click: publicProcedure
+    click: clientProcedure
       .input(z.object({
-        clientId: z.string(),
         target: z.string(),
         metadata: z.record(z.any()).optional(),
       }))
@@ -542,9 +832,8 @@ Guidelines:
     /**
      * Log module completion to client's interaction history.
      */
-    moduleComplete: publicProcedure
+    moduleComplete: clientProcedure
       .input(z.object({
-        clientId: z.string(),
         moduleId: z.string(),
         moduleName: z.string(),
         score: z.number().optional(),
@@ -560,9 +849,8 @@ Guidelines:
     /**
      * Log video/audio interaction to client's history.
      */
-    mediaInteraction: publicProcedure
+    mediaInteraction: clientProcedure
       .input(z.object({
-        clientId: z.string(),
         mediaType: z.enum(["video", "audio"]),
         mediaId: z.string(),
         action: z.enum(["play", "pause", "complete", "seek"]),
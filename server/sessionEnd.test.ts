@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+
+// What the end-of-session update returns, each select's results and filters, and everything written
+const state = vi.hoisted(() => ({
+  ended: [] as Array<{ clientProfileId: string | null; channel: string }>,
+  selected: [] as Array<Array<Record<string, unknown>>>,
+  wheres: [] as unknown[],
+  havings: [] as unknown[],
+  updates: [] as Array<Record<string, unknown>>,
+  logged: [] as Array<Record<string, unknown>>,
+  jobs: [] as unknown[][],
+}));
+
+vi.mock("./_core/db", () => {
+  const tx = {
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        state.updates.push(values);
+        return { where: () => ({ returning: async () => state.ended }) };
+      },
+    }),
+  };
+
+  return {
+    db: {
+      transaction: <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx),
+      select: () => {
+        const chain: Record<string, unknown> = {};
+        const self = () => chain;
+        Object.assign(chain, {
+          from: self,
+          innerJoin: self,
+          leftJoin: self,
+          where: (condition: unknown) => { state.wheres.push(condition); return chain; },
+          groupBy: self,
+          orderBy: self,
+          having: (condition: unknown) => { state.havings.push(condition); return chain; },
+          limit: async () => state.selected.shift() ?? [],
+        });
+        return chain;
+      },
+      insert: () => ({
+        values: async (values: Record<string, unknown>) => { state.logged.push(values); },
+      }),
+    },
+  };
+});
+
+vi.mock("./jobQueue", () => ({
+  enqueueJob: async (...args: unknown[]) => { state.jobs.push(args); },
+}));
+
+import { endConversation, endInactiveSessions, findActiveSession } from "./sessionEnd";
+
+const MINUTE = 60 * 1000;
+
+beforeEach(() => {
+  state.ended = [{ clientProfileId: "client_1", channel: "sms" }];
+  state.selected = [];
+  state.wheres = [];
+  state.havings = [];
+  state.updates = [];
+  state.logged = [];
+  state.jobs = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("endConversation", () => {
+  it("ends the session and queues its profile update in the same transaction", async () => {
+    expect(await endConversation("conv_1", "inactivity")).toBe(true);
+
+    expect(state.updates[0].endedAt).toBeInstanceOf(Date);
+    const [[type, payload, options]] = state.jobs as [[string, unknown, Record<string, unknown>]];
+    expect(type).toBe("post_interaction_update");
+    expect(payload).toEqual({ conversationId: "conv_1", channel: "sms" });
+    expect(options).toMatchObject({
+      clientProfileId: "client_1",
+      idempotencyKey: "post_interaction_update:conv_1",
+    });
+    expect(options.executor).toBeDefined();
+
+    expect(state.logged[0]).toMatchObject({
+      clientProfileId: "client_1",
+      interactionType: "session_ended",
+      target: "sms",
+      metadata: { conversationId: "conv_1", reason: "inactivity" },
+    });
+  });
+
+  it("queues web chat as a chat update", async () => {
+    state.ended = [{ clientProfileId: "client_1", channel: "web" }];
+    await endConversation("conv_1", "conversation_switch");
+    expect(state.jobs[0][1]).toEqual({ conversationId: "conv_1", channel: "chat" });
+  });
+
+  it("does nothing for a session that has already ended", async () => {
+    state.ended = [];
+
+    expect(await endConversation("conv_1", "inactivity")).toBe(false);
+    expect(state.jobs).toEqual([]);
+    expect(state.logged).toEqual([]);
+  });
+});
+
+describe("endInactiveSessions", () => {
+  it("ends each channel's sessions that have gone quiet past its own timeout", async () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    state.selected = [[{ id: "conv_web" }], [{ id: "conv_sms_1" }, { id: "conv_sms_2" }]];
+
+    expect(await endInactiveSessions(now)).toBe(3);
+
+    const cutoffs = state.havings.map(having => new PgDialect().sqlToQuery(having as SQL).params[0]);
+    expect(cutoffs).toEqual([
+      new Date(now.getTime() - 30 * MINUTE), // web
+      new Date(now.getTime() - 120 * MINUTE), // sms - people text slower
+    ]);
+  });
+
+  it("doesn't count sessions something else ended first", async () => {
+    state.selected = [[{ id: "conv_web" }]];
+    state.ended = [];
+
+    expect(await endInactiveSessions()).toBe(0);
+  });
+});
+
+describe("findActiveSession", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+  const ago = (minutes: number) => new Date(now.getTime() - minutes * MINUTE);
+
+  it("continues an SMS session by when it was last active, not when it started", async () => {
+    state.selected = [[{ id: "conv_sms", createdAt: ago(300), lastMessageAt: ago(90) }]];
+
+    expect(await findActiveSession("client_1", "sms", now)).toBe("conv_sms");
+    expect(state.updates).toEqual([]);
+  });
+
+  it("ends a session quiet past its channel's timeout so a new one starts", async () => {
+    state.selected = [[{ id: "conv_web", createdAt: ago(45), lastMessageAt: ago(31) }]];
+    state.ended = [{ clientProfileId: "client_1", channel: "web" }];
+
+    expect(await findActiveSession("client_1", "web", now)).toBeNull();
+    expect(state.logged[0]).toMatchObject({
+      interactionType: "session_ended",
+      metadata: { conversationId: "conv_web", reason: "conversation_switch" },
+    });
+  });
+
+  it("only looks at the channel the message came in on", async () => {
+    expect(await findActiveSession("client_1", "web", now)).toBeNull();
+
+    const { params } = new PgDialect().sqlToQuery(state.wheres[0] as SQL);
+    expect(params).toEqual(["client_1", "web"]);
+    expect(state.updates).toEqual([]); // An open SMS session isn't touched
+  });
+
+  it("goes by when a session started if nothing has been said yet", async () => {
+    state.selected = [[{ id: "conv_call", createdAt: ago(10), lastMessageAt: null }]];
+
+    expect(await findActiveSession("client_1", "phone", now)).toBe("conv_call");
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * SESSION END DETECTION - WEB CHAT AND SMS
+ *
+ * A phone call ends when the line closes (conversationRelay.ts queues the
+ * profile update then). Web chat and texting just stop, so a web or SMS
+ * session is over when:
+ * - nothing has been said for its channel's inactivity timeout (checked
+ *   by a periodic sweep), or
+ * - the client's next message on that channel comes after the timeout
+ *   (findActiveSession ends it, and a new conversation starts)
+ *
+ * Ending a session sets conversation.endedAt - once, atomically - and
+ * queues a post_interaction_update job in the same transaction, so the full
+ * profile updater (postInteractionUpdater.ts) runs exactly once per session,
+ * even across restarts.
+ */
+
+import { and, desc, eq, inArray, isNull, lt, max } from "drizzle-orm";
+import { db } from "./_core/db";
+import { conversation, message } from "../drizzle/schema";
+import { enqueueJob } from "./jobQueue";
+import { logInteraction } from "./interactionLog";
+
+export type SessionEndReason = "inactivity" | "conversation_switch";
+
+// How long a session can sit quiet before it's over - people text slower than they chat
+const SESSION_TIMEOUT_MINUTES: Record<string, number> = {
+  web: 30,
+  sms: 120,
+};
+const SESSION_CHANNELS = Object.keys(SESSION_TIMEOUT_MINUTES);
+
+// Calls end when the line closes - calling back this soon continues the conversation
+const CALL_CONTINUATION_MINUTES = 30;
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * End a web or SMS conversation and queue its profile update.
+ * Returns false if it had already ended (or isn't a web/SMS conversation).
+ */
+export async function endConversation(conversationId: string, reason: SessionEndReason): Promise<boolean> {
+  const ended = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(conversation)
+      .set({ endedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(conversation.id, conversationId),
+        inArray(conversation.channel, SESSION_CHANNELS),
+        isNull(conversation.endedAt)
+      ))
+      .returning({ clientProfileId: conversation.clientProfileId, channel: conversation.channel });
+
+    if (!row?.clientProfileId) return null;
+
+    await enqueueJob("post_interaction_update", {
+      conversationId,
+      channel: row.channel === "sms" ? "sms" : "chat",
+    }, {
+      clientProfileId: row.clientProfileId,
+      idempotencyKey: `post_interaction_update:${conversationId}`,
+      executor: tx,
+    });
+
+    return row;
+  });
+
+  if (!ended?.clientProfileId) return false;
+
+  console.log(`[SessionEnd] ${ended.channel} conversation ${conversationId} ended (${reason})`);
+  await logInteraction(ended.clientProfileId, "session_ended", ended.channel, { conversationId, reason });
+  return true;
+}
+
+/**
+ * The client's open conversation on this channel, if it was last active
+ * within the channel's timeout. A stale one is ended (its profile update
+ * queued) and null returned, so the caller starts a new conversation.
+ * Sessions on other channels are left to run their own course.
+ */
+export async function findActiveSession(
+  clientId: string,
+  channel: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const [latest] = await db
+    .select({
+      id: conversation.id,
+      createdAt: conversation.createdAt,
+      lastMessageAt: max(message.createdAt),
+    })
+    .from(conversation)
+    .leftJoin(message, eq(message.conversationId, conversation.id))
+    .where(and(
+      eq(conversation.clientProfileId, clientId),
+      eq(conversation.channel, channel),
+      isNull(conversation.endedAt)
+    ))
+    .groupBy(conversation.id)
+    .orderBy(desc(conversation.createdAt))
+    .limit(1);
+
+  if (!latest) return null;
+
+  const timeoutMinutes = SESSION_TIMEOUT_MINUTES[channel] ?? CALL_CONTINUATION_MINUTES;
+  const lastActive = latest.lastMessageAt ?? latest.createdAt;
+  if (lastActive.getTime() > now.getTime() - timeoutMinutes * 60 * 1000) {
+    return latest.id;
+  }
+
+  await endConversation(latest.id, "conversation_switch");
+  return null;
+}
+
+/**
+ * End every web and SMS conversation that has gone quiet. Returns how many were ended.
+ */
+export async function endInactiveSessions(now: Date = new Date()): Promise<number> {
+  let endedCount = 0;
+
+  for (const [channel, timeoutMinutes] of Object.entries(SESSION_TIMEOUT_MINUTES)) {
+    const cutoff = new Date(now.getTime() - timeoutMinutes * 60 * 1000);
+
+    const inactive = await db
+      .select({ id: conversation.id })
+      .from(conversation)
+      .innerJoin(message, eq(message.conversationId, conversation.id))
+      .where(and(eq(conversation.channel, channel), isNull(conversation.endedAt)))
+      .groupBy(conversation.id)
+      .having(lt(max(message.createdAt), cutoff))
+      .limit(SWEEP_BATCH_SIZE);
+
+    for (const { id } of inactive) {
+      if (await endConversation(id, "inactivity")) endedCount++;
+    }
+  }
+
+  return endedCount;
+}
+
+/**
+ * Sweep for inactive sessions, then again after SWEEP_INTERVAL_MS
+ */
+async function sweepInactiveSessions(): Promise<void> {
+  try {
+    const ended = await endInactiveSessions();
+    if (ended > 0) {
+      console.log(`[SessionEnd] Ended ${ended} inactive sessions`);
+    }
+  } catch (error) {
+    console.error("[SessionEnd] Inactivity sweep failed:", error);
+  }
+
+  sweepTimer = setTimeout(sweepInactiveSessions, SWEEP_INTERVAL_MS);
+}
+
+/**
+ * Start the inactivity sweep inside the server process
+ */
+export function startSessionEndDetector(): void {
+  if (sweepTimer) return;
+
+  console.log("[SessionEnd] Starting web/SMS session end detector");
+  sweepTimer = setTimeout(sweepInactiveSessions, SWEEP_INTERVAL_MS);
+}
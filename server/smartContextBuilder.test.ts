@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { assembleSmartContext, CHANNEL_CONTEXT, type ContextChannel, type SmartContextData } from "./smartContextBuilder";
+import { countTokens } from "./contextPacking";
+import type { ClientProfile } from "../drizzle/schema";
+
+// Pure logic only - no database in CI
+vi.mock("./_core/db", () => ({ db: {} }));
+
+const CHANNELS: ContextChannel[] = ["web", "sms", "voice"];
+
+function createClientData(overrides: Partial<SmartContextData> = {}): SmartContextData {
+  return {
+    profile: {
+      id: "client_1",
+      preferredName: "Maria",
+      occupation: "Nurse",
+      firstContactDate: new Date("2025-01-10T12:00:00Z"),
+      totalConversations: 12,
+      crisisRiskLevel: "moderate",
+      safetyPlanNotes: "Call her sister Ana when nights get bad",
+      emotionalPatterns: "Anxious on Sunday evenings before the work week",
+      currentGoals: [{ goal: "Sleep before midnight", progress: 40 }],
+      ongoingChallenges: ["Night shifts", "Dad's recovery after heart surgery"],
+      aiSummary: "A caring nurse carrying a lot for her family.",
+    } as ClientProfile,
+    relationships: [
+      { id: "rel_1", name: "Ana", relationship: "sister", importance: 9, notes: null, emotionalContext: null },
+      { id: "rel_2", name: "Jorge", relationship: "father", importance: 8, notes: "Recovering from heart surgery", emotionalContext: null },
+    ],
+    insights: [
+      { id: "ins_1", category: "pattern", insight: "Opens up more after she's talked about work first", importance: 7 },
+    ],
+    recentConversations: [
+      { id: "conv_1", createdAt: new Date("2025-03-01T12:00:00Z"), topic: "Dad's surgery", aiSummary: "Worried about the operation", keyPoints: null },
+    ],
+    lastSession: [
+      { role: "user", content: "The surgery went fine, he's home now", createdAt: new Date("2025-03-02T20:00:00Z") },
+      { role: "assistant", content: "That's such a relief. How are you holding up?", createdAt: new Date("2025-03-02T20:00:10Z") },
+    ],
+    crisisHistory: [
+      { crisisLevel: "moderate", indicators: ["hopelessness"], createdAt: new Date("2025-02-20T12:00:00Z") },
+    ],
+    relevantMemories: [],
+    ...overrides,
+  };
+}
+
+describe("assembleSmartContext across channels", () => {
+  it("remembers the same people, insights and safety plan on every channel", () => {
+    const data = createClientData();
+
+    for (const channel of CHANNELS) {
+      const { fullContext } = assembleSmartContext(data, { channel });
+      expect(fullContext, channel).toContain("Maria");
+      expect(fullContext, channel).toContain("Ana (sister)");
+      expect(fullContext, channel).toContain("Jorge (father)");
+      expect(fullContext, channel).toContain("Opens up more after she's talked about work first");
+      expect(fullContext, channel).toContain("Call her sister Ana when nights get bad");
+      expect(fullContext, channel).toContain("hopelessness");
+      expect(fullContext, channel).toContain("The surgery went fine");
+    }
+  });
+
+  it("packs the same memory on each channel when everything fits", () => {
+    const data = createClientData();
+    const [web, sms, voice] = CHANNELS.map(channel => assembleSmartContext(data, { channel }));
+
+    expect(sms.coreIdentity).toBe(web.coreIdentity);
+    expect(voice.coreIdentity).toBe(web.coreIdentity);
+    expect(sms.activeContext).toBe(web.activeContext);
+    expect(sms.historicalContext).toBe(web.historicalContext);
+    expect(voice.aiSynthesis).toBe(web.aiSynthesis);
+    expect(web.truncation.dropped).toEqual([]);
+  });
+
+  it("frames the memory for each channel", () => {
+    const data = createClientData();
+
+    for (const channel of CHANNELS) {
+      expect(assembleSmartContext(data, { channel }).fullContext).toContain(CHANNEL_CONTEXT[channel].framing);
+    }
+  });
+
+  it("stays within each channel's budget, dropping ranked items before core ones", () => {
+    const data = createClientData({
+      insights: Array.from({ length: 5 }, (_, i) => ({
+        id: `ins_${i}`,
+        category: "pattern",
+        insight: `Long observation number ${i} about how work stress shows up in her sleep, her appetite and her patience with family`,
+        importance: 5,
+      })),
+      recentConversations: Array.from({ length: 5 }, (_, i) => ({
+        id: `conv_${i}`,
+        createdAt: new Date(`2025-03-0${i + 1}T12:00:00Z`),
+        topic: `Topic ${i}`,
+        aiSummary: "A long conversation about work, family, sleep and the weeks ahead. ".repeat(20),
+        keyPoints: null,
+      })),
+    });
+
+    for (const channel of CHANNELS) {
+      const context = assembleSmartContext(data, { channel });
+      expect(context.totalTokens, channel).toBeLessThanOrEqual(CHANNEL_CONTEXT[channel].maxTokens);
+      expect(context.totalTokens).toBe(countTokens(context.fullContext));
+      expect(context.fullContext, channel).toContain("Jorge (father)");
+    }
+
+    const sms = assembleSmartContext(data, { channel: "sms" });
+    expect(sms.truncation.dropped.length).toBeGreaterThan(0);
+    expect(sms.truncation.dropped.every(item => !item.id.startsWith("relationship:") && item.id !== "safety")).toBe(true);
+  });
+
+  it("keeps safety information even when the budget can't hold it", () => {
+    const context = assembleSmartContext(createClientData(), { channel: "sms", maxTokens: 10 });
+
+    expect(context.coreIdentity).toContain("Crisis Risk Level: moderate");
+    expect(context.truncation.overBudget).toBe(true);
+  });
+
+  it("packs items that match the current topic first", () => {
+    const data = createClientData({ relationships: [], insights: [], recentConversations: [], lastSession: [], crisisHistory: [] });
+    const budget = countTokens(assembleSmartContext(data, { channel: "sms" }).fullContext) - 30;
+
+    const context = assembleSmartContext(data, { channel: "sms", maxTokens: budget, currentTopic: "my dad's heart surgery recovery" });
+    expect(context.activeContext).toContain("Dad's recovery after heart surgery");
+  });
+});
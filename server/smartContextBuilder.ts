@@ -6,16 +6,21 @@
  * The brain that assembles the right information for each interaction.
  * This is the CORE of Sage's memory system - if this breaks, Sage forgets everything.
  * 
+ * Every channel - web chat, SMS and voice - builds its memory context here,
+ * each with its own token budget and framing (CHANNEL_CONTEXT), so a client
+ * is remembered the same way wherever they reach Sage.
+ * 
  * Implements the Three-Tier Memory Architecture:
  * 
  * Tier 1 (Core Identity): Always loaded (~500 tokens)
- * - Name, relationships, crisis info, life context
+ * - Name, relationships, crisis info and history, life context
  * 
  * Tier 2 (Active Context): Relevance-based (~1000 tokens)
  * - Goals, emotional patterns, recent interactions
  * 
  * Tier 3 (Historical Archive): On-demand (~500 tokens)
- * - Retrieved based on current conversation topic
+ * - Recent conversation summaries and the last session's messages
+ * - Past moments retrieved by meaning for the current topic (memoryRetrieval.ts)
  * 
  * AI Synthesis Layer (~300 tokens)
  * - Living summary, key insights, next best actions
@@ -27,16 +32,30 @@ import {
   clientRelationship, 
   keyInsight, 
   conversation, 
-  message 
+  crisisLog,
+  message,
+  type ClientProfile,
+  type ClientRelationship,
+  type Conversation,
+  type KeyInsight
 } from "../drizzle/schema";
-import { eq, desc, and, gte } from "drizzle-orm";
+import { eq, desc, and, isNull, ne } from "drizzle-orm";
+import { getRelevantMemories } from "./memoryRetrieval";
+import {
+  cosineSimilarity,
+  formatMemoryLine,
+  hashEmbedding,
+  RELEVANT_MEMORIES_HEADER,
+  type RetrievedMemory,
+} from "./memoryIndex";
+import { countTokens, packContext, type ContextItem, type ContextTruncation } from "./contextPacking";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface SmartContext {
-  // Token budget tracking
+  // Token budget tracking (real tokenizer count of fullContext)
   totalTokens: number;
   
   // Tier 1: Core Identity (always included)
@@ -53,12 +72,24 @@ export interface SmartContext {
   
   // Full context string for LLM
   fullContext: string;
+  
+  // What didn't fit in maxTokens, for debugging thin contexts
+  truncation: ContextTruncation;
 }
 
+export type ContextChannel = "web" | "sms" | "voice";
+
 export interface ContextOptions {
-  // Current conversation topic (for relevance scoring)
+  // Sets the default token budget and how Sage is told to use the memory
+  channel?: ContextChannel;
+  
+  // What the client just said - past moments are retrieved by similarity to it,
+  // and Tier 2 items that match it are packed first
   currentTopic?: string;
   
+  // The conversation in progress - already in the prompt, so not retrieved
+  conversationId?: string;
+  
   // Include specific sections
   includeRelationships?: boolean;
   includeGoals?: boolean;
@@ -66,10 +97,60 @@ export interface ContextOptions {
   includeRecentConversations?: boolean;
   includeKeyInsights?: boolean;
   
-  // Token budget (default: 2300)
+  // Token budget for fullContext (default: the channel's budget)
   maxTokens?: number;
 }
 
+// Only the columns the context reads, so tests can pass just those
+export type ContextRelationship = Pick<ClientRelationship, "id" | "name" | "relationship" | "notes" | "emotionalContext" | "importance">;
+export type ContextInsight = Pick<KeyInsight, "id" | "category" | "insight" | "importance">;
+export type ContextConversation = Pick<Conversation, "id" | "createdAt" | "topic" | "aiSummary" | "keyPoints">;
+
+// Everything buildSmartContext loads - assembleSmartContext needs nothing else
+export interface SmartContextData {
+  profile: ClientProfile | null;
+  relationships: ContextRelationship[];
+  insights: ContextInsight[];
+  recentConversations: ContextConversation[];
+  lastSession: Array<{ role: string; content: string; createdAt: Date }>;
+  crisisHistory: Array<{ crisisLevel: string; indicators: string[] | null; createdAt: Date }>;
+  relevantMemories: RetrievedMemory[];
+}
+
+/**
+ * Per-channel budget and framing. Texts and calls get less context than web
+ * chat - their replies are short and the model must answer fast.
+ */
+export const CHANNEL_CONTEXT: Record<ContextChannel, { maxTokens: number; framing: string }> = {
+  web: {
+    maxTokens: 2300,
+    framing: "This is a web chat - you can reference specific details from their history naturally."
+  },
+  sms: {
+    maxTokens: 1200,
+    framing: "This is a text conversation - bring up a remembered detail in a few words, never as a list."
+  },
+  voice: {
+    maxTokens: 2000,
+    framing: "This is a phone call - weave remembered details in conversationally. Never read lists or headings aloud."
+  }
+};
+
+const CONTEXT_HEADER = "=== CLIENT MEMORY (CRITICAL - USE THIS!) ===";
+const CONTEXT_FOOTER = [
+  "=== END CLIENT MEMORY ===",
+  "",
+  "IMPORTANT: You MUST use the information above when relevant.",
+  "If the client asks about their family, goals, or past conversations, reference this information directly.",
+  "NEVER pretend to remember something that isn't in the client memory above."
+].join("\n");
+
+const LAST_SESSION_MESSAGES = 10;
+const MESSAGE_PREVIEW_LENGTH = 100;
+
+// How much matching the current topic lifts a ranked item (scores are otherwise 0-1)
+const RELEVANCE_WEIGHT = 0.5;
+
 // ============================================================================
 // MAIN CONTEXT BUILDER
 // ============================================================================
@@ -84,12 +165,10 @@ export async function buildSmartContext(
 ): Promise<SmartContext> {
   const {
     currentTopic,
+    conversationId,
     includeRelationships = true,
-    includeGoals = true,
-    includeEmotionalProfile = true,
-    includeRecentConversations = true,
     includeKeyInsights = true,
-    maxTokens = 2300
+    includeRecentConversations = true
   } = options;
   
   // Fetch all data in parallel for efficiency
@@ -97,14 +176,50 @@ export async function buildSmartContext(
     profile,
     relationships,
     insights,
-    recentConversations
+    recentConversations,
+    lastSession,
+    crisisHistory,
+    relevantMemories
   ] = await Promise.all([
     getClientProfile(clientProfileId),
     includeRelationships ? getRelationships(clientProfileId) : Promise.resolve([]),
     includeKeyInsights ? getKeyInsights(clientProfileId) : Promise.resolve([]),
-    includeRecentConversations ? getRecentConversations(clientProfileId, 5) : Promise.resolve([])
+    includeRecentConversations ? getRecentConversations(clientProfileId, 5, conversationId) : Promise.resolve([]),
+    includeRecentConversations ? getLastSessionMessages(clientProfileId, conversationId) : Promise.resolve([]),
+    getCrisisHistory(clientProfileId),
+    currentTopic ? getRelevantMemories(clientProfileId, currentTopic, conversationId) : Promise.resolve([])
   ]);
   
+  const smartContext = assembleSmartContext(
+    { profile, relationships, insights, recentConversations, lastSession, crisisHistory, relevantMemories },
+    options
+  );
+  
+  if (smartContext.truncation.dropped.length > 0) {
+    console.log(`[SmartContext] ${clientProfileId}: dropped ${smartContext.truncation.dropped.length} items to fit the ${options.channel ?? "web"} budget (${smartContext.totalTokens} tokens)`);
+  }
+  
+  return smartContext;
+}
+
+/**
+ * Turn loaded client data into the packed context - pure, so every channel's
+ * output can be compared in tests
+ */
+export function assembleSmartContext(
+  data: SmartContextData,
+  options: ContextOptions = {}
+): SmartContext {
+  const {
+    channel = "web",
+    currentTopic,
+    includeGoals = true,
+    includeEmotionalProfile = true
+  } = options;
+  const { framing, maxTokens: channelBudget } = CHANNEL_CONTEXT[channel];
+  const maxTokens = options.maxTokens ?? channelBudget;
+  const { profile } = data;
+  
   if (!profile) {
     return {
       totalTokens: 0,
@@ -112,57 +227,81 @@ export async function buildSmartContext(
       activeContext: "",
       historicalContext: "",
       aiSynthesis: "",
-      fullContext: "No client profile found."
+      fullContext: "No client profile found.",
+      truncation: { budget: maxTokens, used: 0, dropped: [], overBudget: false }
     };
   }
   
-  // Build each tier
-  const coreIdentity = buildTier1CoreIdentity(profile, relationships);
-  const activeContext = buildTier2ActiveContext(profile, includeGoals, includeEmotionalProfile);
-  const historicalContext = buildTier3Historical(recentConversations, currentTopic);
-  const aiSynthesis = buildAISynthesis(profile, insights);
+  const relevance = createRelevanceScorer(currentTopic);
+  
+  // Every tier as separate items, so the packer can drop the least important first
+  const items = [
+    ...buildTier1CoreIdentity(profile, data.relationships, data.crisisHistory),
+    ...buildTier2ActiveContext(profile, includeGoals, includeEmotionalProfile, relevance),
+    ...buildTier3Historical(data.recentConversations, data.lastSession, data.relevantMemories, relevance),
+    ...buildAISynthesis(profile, data.insights, relevance)
+  ];
+  
+  // The header and instructions are always sent - budget what's left
+  const footer = `${CONTEXT_FOOTER}\n${framing}`;
+  const frameTokens = countTokens(`${CONTEXT_HEADER}\n\n\n${footer}`);
+  const { tiers, truncation } = packContext(items, Math.max(0, maxTokens - frameTokens));
   
   // Combine all tiers
   const fullContext = [
-    "=== CLIENT MEMORY (CRITICAL - USE THIS!) ===",
-    "",
-    coreIdentity,
+    CONTEXT_HEADER,
     "",
-    activeContext,
+    tiers.core,
     "",
-    historicalContext,
+    tiers.active,
     "",
-    aiSynthesis,
+    tiers.historical,
     "",
-    "=== END CLIENT MEMORY ===",
+    tiers.synthesis,
     "",
-    "IMPORTANT: You MUST use the information above when relevant.",
-    "If the client asks about their family, goals, or past conversations, reference this information directly.",
-    "NEVER pretend to remember something that isn't in the client memory above."
+    footer
   ].filter(Boolean).join("\n");
   
-  // Estimate tokens (rough: 4 chars = 1 token)
-  const totalTokens = Math.ceil(fullContext.length / 4);
-  
   return {
-    totalTokens,
-    coreIdentity,
-    activeContext,
-    historicalContext,
-    aiSynthesis,
-    fullContext
+    totalTokens: countTokens(fullContext),
+    coreIdentity: tiers.core,
+    activeContext: tiers.active,
+    historicalContext: tiers.historical,
+    aiSynthesis: tiers.synthesis,
+    fullContext,
+    truncation
   };
 }
 
+type RelevanceScorer = (text: string) => number;
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+}
+
+/**
+ * How closely an item's text matches the current topic, 0-1 (always 0 without a topic).
+ * Word overlap via hashEmbedding - cheap and offline, unlike retrieval.
+ */
+function createRelevanceScorer(currentTopic?: string): RelevanceScorer {
+  if (!currentTopic) return () => 0;
+  
+  const topicVector = hashEmbedding(currentTopic);
+  return (text) => Math.max(0, cosineSimilarity(topicVector, hashEmbedding(text)));
+}
+
 // ============================================================================
 // TIER 1: CORE IDENTITY (Always loaded - ~500 tokens)
 // ============================================================================
 
 function buildTier1CoreIdentity(
-  profile: any,
-  relationships: any[]
-): string {
-  const sections: string[] = [];
+  profile: ClientProfile,
+  relationships: ContextRelationship[],
+  crisisHistory: SmartContextData["crisisHistory"]
+): ContextItem[] {
+  const items: ContextItem[] = [];
+  const core = (id: string, section: string, text: string) =>
+    items.push({ id, tier: "core", section, text, priority: "core" });
   
   // Basic Identity
   const identity: string[] = [];
@@ -172,59 +311,60 @@ function buildTier1CoreIdentity(
   if (profile.occupation) identity.push(`Occupation: ${profile.occupation}`);
   if (profile.location) identity.push(`Location: ${profile.location}`);
   if (profile.lifeStage) identity.push(`Life Stage: ${profile.lifeStage}`);
+  if (profile.firstContactDate) {
+    identity.push(`Talking with Sage since ${formatDate(profile.firstContactDate)} (${profile.totalConversations ?? 0} conversations)`);
+  }
   
   if (identity.length > 0) {
-    sections.push("--- IDENTITY ---");
-    sections.push(identity.join(" | "));
+    core("identity", "--- IDENTITY ---", identity.join(" | "));
   }
   
   // Relationships (CRITICAL - wife, son, etc.)
-  if (relationships.length > 0) {
-    sections.push("");
-    sections.push("--- IMPORTANT PEOPLE IN THEIR LIFE ---");
-    
-    // Sort by importance
-    const sortedRelationships = relationships.sort((a, b) => b.importance - a.importance);
-    
-    for (const rel of sortedRelationships.slice(0, 10)) { // Top 10 relationships
-      let relStr = `• ${rel.name} (${rel.relationship})`;
-      if (rel.notes) relStr += `: ${rel.notes}`;
-      if (rel.emotionalContext) relStr += ` [${rel.emotionalContext}]`;
-      sections.push(relStr);
-    }
+  const sortedRelationships = [...relationships].sort((a, b) => b.importance - a.importance);
+  for (const rel of sortedRelationships.slice(0, 10)) { // Top 10 relationships
+    let relStr = `• ${rel.name} (${rel.relationship})`;
+    if (rel.notes) relStr += `: ${rel.notes}`;
+    if (rel.emotionalContext) relStr += ` [${rel.emotionalContext}]`;
+    core(`relationship:${rel.id}`, "--- IMPORTANT PEOPLE IN THEIR LIFE ---", relStr);
   }
   
   // Significant Life Events
-  if (profile.significantEvents && profile.significantEvents.length > 0) {
-    sections.push("");
-    sections.push("--- SIGNIFICANT LIFE EVENTS ---");
-    for (const event of profile.significantEvents.slice(0, 5)) {
-      let eventStr = `• ${event.event}`;
-      if (event.date) eventStr += ` (${event.date})`;
-      if (event.emotional_impact) eventStr += ` - ${event.emotional_impact}`;
-      sections.push(eventStr);
-    }
-  }
+  (profile.significantEvents ?? []).slice(0, 5).forEach((event, i) => {
+    let eventStr = `• ${event.event}`;
+    if (event.date) eventStr += ` (${event.date})`;
+    if (event.emotional_impact) eventStr += ` - ${event.emotional_impact}`;
+    core(`significantEvent:${i}`, "--- SIGNIFICANT LIFE EVENTS ---", eventStr);
+  });
   
   // Upcoming Events (for proactive check-ins)
-  if (profile.upcomingEvents && profile.upcomingEvents.length > 0) {
-    sections.push("");
-    sections.push("--- UPCOMING EVENTS ---");
-    for (const event of profile.upcomingEvents.slice(0, 3)) {
-      sections.push(`• ${event.event} (${event.date})`);
+  (profile.upcomingEvents ?? []).slice(0, 3).forEach((event, i) => {
+    core(`upcomingEvent:${i}`, "--- UPCOMING EVENTS ---", `• ${event.event} (${event.date})`);
+  });
+  
+  // Crisis/Safety Info (ALWAYS include if present - never trimmed)
+  const atRisk = profile.crisisRiskLevel && profile.crisisRiskLevel !== "none";
+  if (atRisk || crisisHistory.length > 0) {
+    const safety: string[] = [];
+    if (atRisk) safety.push(`Crisis Risk Level: ${profile.crisisRiskLevel}`);
+    if (profile.crisisNotes) safety.push(`Notes: ${profile.crisisNotes}`);
+    if (profile.safetyPlanNotes) safety.push(`Safety Plan: ${profile.safetyPlanNotes}`);
+    if (crisisHistory.length > 0) {
+      safety.push("Recent crisis events:");
+      for (const crisis of crisisHistory) {
+        const indicators = crisis.indicators?.length ? `; indicators: ${crisis.indicators.join(", ")}` : "";
+        safety.push(`• ${crisis.crisisLevel} (${formatDate(crisis.createdAt)}${indicators})`);
+      }
     }
+    items.push({
+      id: "safety",
+      tier: "core",
+      section: "--- ⚠️ SAFETY INFORMATION ---",
+      text: safety.join("\n"),
+      priority: "safety"
+    });
   }
   
-  // Crisis/Safety Info (ALWAYS include if present)
-  if (profile.crisisRiskLevel && profile.crisisRiskLevel !== "none") {
-    sections.push("");
-    sections.push("--- ⚠️ SAFETY INFORMATION ---");
-    sections.push(`Crisis Risk Level: ${profile.crisisRiskLevel}`);
-    if (profile.crisisNotes) sections.push(`Notes: ${profile.crisisNotes}`);
-    if (profile.safetyPlanNotes) sections.push(`Safety Plan: ${profile.safetyPlanNotes}`);
-  }
-  
-  return sections.join("\n");
+  return items;
 }
 
 // ============================================================================
@@ -232,106 +372,100 @@ function buildTier1CoreIdentity(
 // ============================================================================
 
 function buildTier2ActiveContext(
-  profile: any,
+  profile: ClientProfile,
   includeGoals: boolean,
-  includeEmotionalProfile: boolean
-): string {
-  const sections: string[] = [];
+  includeEmotionalProfile: boolean,
+  relevance: RelevanceScorer
+): ContextItem[] {
+  const items: ContextItem[] = [];
+  // Base scores put goals and what they're struggling with ahead of background detail
+  const ranked = (id: string, section: string, text: string, base: number) =>
+    items.push({ id, tier: "active", section, text, priority: "ranked", score: base + relevance(text) * RELEVANCE_WEIGHT });
   
   // Emotional Profile
   if (includeEmotionalProfile) {
-    const emotional: string[] = [];
+    const section = "--- EMOTIONAL PROFILE ---";
     
     if (profile.emotionalPatterns) {
-      emotional.push(`Patterns: ${profile.emotionalPatterns}`);
+      ranked("emotionalPatterns", section, `Patterns: ${profile.emotionalPatterns}`, 0.5);
     }
     
     if (profile.commonTriggers && profile.commonTriggers.length > 0) {
-      emotional.push(`Common Triggers: ${profile.commonTriggers.join(", ")}`);
+      ranked("commonTriggers", section, `Common Triggers: ${profile.commonTriggers.join(", ")}`, 0.45);
     }
     
     if (profile.copingStrategies && profile.copingStrategies.length > 0) {
-      emotional.push(`Coping Strategies: ${profile.copingStrategies.join(", ")}`);
+      ranked("copingStrategies", section, `Coping Strategies: ${profile.copingStrategies.join(", ")}`, 0.45);
     }
     
     if (profile.strengthsAndResources && profile.strengthsAndResources.length > 0) {
-      emotional.push(`Strengths: ${profile.strengthsAndResources.join(", ")}`);
-    }
-    
-    if (emotional.length > 0) {
-      sections.push("--- EMOTIONAL PROFILE ---");
-      sections.push(emotional.join("\n"));
+      ranked("strengths", section, `Strengths: ${profile.strengthsAndResources.join(", ")}`, 0.35);
     }
   }
   
   // Goals & Progress
-  if (includeGoals && profile.currentGoals && profile.currentGoals.length > 0) {
-    sections.push("");
-    sections.push("--- CURRENT GOALS ---");
-    for (const goal of profile.currentGoals) {
+  if (includeGoals) {
+    (profile.currentGoals ?? []).forEach((goal, i) => {
       let goalStr = `• ${goal.goal}`;
       if (goal.progress !== undefined) goalStr += ` (${goal.progress}% progress)`;
-      sections.push(goalStr);
-    }
+      ranked(`goal:${i}`, "--- CURRENT GOALS ---", goalStr, 0.55);
+    });
   }
   
   // Ongoing Challenges
-  if (profile.ongoingChallenges && profile.ongoingChallenges.length > 0) {
-    sections.push("");
-    sections.push("--- ONGOING CHALLENGES ---");
-    for (const challenge of profile.ongoingChallenges) {
-      sections.push(`• ${challenge}`);
-    }
-  }
+  (profile.ongoingChallenges ?? []).forEach((challenge, i) => {
+    ranked(`challenge:${i}`, "--- ONGOING CHALLENGES ---", `• ${challenge}`, 0.5);
+  });
   
   // Past Wins (for encouragement)
-  if (profile.pastWins && profile.pastWins.length > 0) {
-    sections.push("");
-    sections.push("--- PAST WINS (Use for encouragement) ---");
-    for (const win of profile.pastWins.slice(0, 3)) {
-      if (typeof win === "string") {
-        sections.push(`• ${win}`);
-      } else {
-        sections.push(`• ${win.win}${win.date ? ` (${win.date})` : ""}`);
-      }
-    }
-  }
-  
-  // Recent Topics
-  if (profile.recentTopics && profile.recentTopics.length > 0) {
-    sections.push("");
-    sections.push("--- RECENT CONVERSATION TOPICS ---");
-    for (const topic of profile.recentTopics.slice(0, 5)) {
-      let topicStr = `• ${topic.topic}`;
-      if (topic.date) topicStr += ` (${topic.date})`;
-      if (topic.resolved === false) topicStr += " [UNRESOLVED]";
-      sections.push(topicStr);
-    }
-  }
+  (profile.pastWins ?? []).slice(0, 3).forEach((win, i) => {
+    const winStr = typeof win === "string"
+      ? `• ${win}`
+      : `• ${win.win}${win.date ? ` (${win.date})` : ""}`;
+    ranked(`pastWin:${i}`, "--- PAST WINS (Use for encouragement) ---", winStr, 0.3);
+  });
+  
+  // Recent Topics (unresolved ones matter more)
+  (profile.recentTopics ?? []).slice(0, 5).forEach((topic, i) => {
+    let topicStr = `• ${topic.topic}`;
+    if (topic.date) topicStr += ` (${topic.date})`;
+    if (topic.resolved === false) topicStr += " [UNRESOLVED]";
+    ranked(`recentTopic:${i}`, "--- RECENT CONVERSATION TOPICS ---", topicStr, topic.resolved === false ? 0.5 : 0.3);
+  });
   
   // Communication Preferences
   if (profile.communicationStyle || profile.conversationPreferences) {
-    sections.push("");
-    sections.push("--- COMMUNICATION PREFERENCES ---");
+    const prefs: string[] = [];
     if (profile.communicationStyle) {
-      sections.push(`Style: ${profile.communicationStyle}`);
+      prefs.push(`Style: ${profile.communicationStyle}`);
     }
     if (profile.conversationPreferences) {
-      const prefs = profile.conversationPreferences;
+      const conversationPrefs = profile.conversationPreferences;
       const prefList: string[] = [];
-      if (prefs.prefersDeepDives) prefList.push("prefers deep conversations");
-      if (prefs.prefersQuickCheckins) prefList.push("likes quick check-ins");
-      if (prefs.likesHumor) prefList.push("responds well to humor");
-      if (prefs.needsMoreValidation) prefList.push("needs extra validation");
-      if (prefs.respondsToDirectAdvice) prefList.push("appreciates direct advice");
-      if (prefs.prefersOpenQuestions) prefList.push("prefers open-ended questions");
+      if (conversationPrefs.prefersDeepDives) prefList.push("prefers deep conversations");
+      if (conversationPrefs.prefersQuickCheckins) prefList.push("likes quick check-ins");
+      if (conversationPrefs.likesHumor) prefList.push("responds well to humor");
+      if (conversationPrefs.needsMoreValidation) prefList.push("needs extra validation");
+      if (conversationPrefs.respondsToDirectAdvice) prefList.push("appreciates direct advice");
+      if (conversationPrefs.prefersOpenQuestions) prefList.push("prefers open-ended questions");
       if (prefList.length > 0) {
-        sections.push(`Preferences: ${prefList.join(", ")}`);
+        prefs.push(`Preferences: ${prefList.join(", ")}`);
       }
     }
+    if (prefs.length > 0) {
+      // How to talk to them, not what about - not lifted by topic relevance
+      items.push({
+        id: "communicationPreferences",
+        tier: "active",
+        section: "--- COMMUNICATION PREFERENCES ---",
+        text: prefs.join("\n"),
+        priority: "ranked",
+        score: 0.4
+      });
+    }
   }
   
-  return sections.join("\n");
+  return items;
 }
 
 // ============================================================================
@@ -339,17 +473,33 @@ function buildTier2ActiveContext(
 // ============================================================================
 
 function buildTier3Historical(
-  recentConversations: any[],
-  currentTopic?: string
-): string {
-  if (recentConversations.length === 0) {
-    return "";
+  recentConversations: ContextConversation[],
+  lastSession: SmartContextData["lastSession"],
+  relevantMemories: RetrievedMemory[],
+  relevance: RelevanceScorer
+): ContextItem[] {
+  const items: ContextItem[] = [];
+  
+  // How the last conversation ended - for picking up where they left off
+  if (lastSession.length > 0) {
+    const lines = lastSession.map(msg => {
+      const preview = msg.content.length > MESSAGE_PREVIEW_LENGTH
+        ? msg.content.substring(0, MESSAGE_PREVIEW_LENGTH) + "..."
+        : msg.content;
+      return `[${msg.createdAt.toLocaleString()}] ${msg.role === "user" ? "Client" : "Sage"}: ${preview}`;
+    });
+    items.push({
+      id: "lastSession",
+      tier: "historical",
+      section: "--- LAST SESSION (most recent messages) ---",
+      text: lines.join("\n"),
+      priority: "ranked",
+      score: 0.55
+    });
   }
   
-  const sections: string[] = [];
-  sections.push("--- RECENT CONVERSATION HISTORY ---");
-  
-  for (const conv of recentConversations) {
+  // Newest first, and newer ones score a little higher
+  recentConversations.forEach((conv, i) => {
     const date = new Date(conv.createdAt).toLocaleDateString();
     let convStr = `• ${date}`;
     if (conv.topic) convStr += ` - Topic: ${conv.topic}`;
@@ -357,10 +507,30 @@ function buildTier3Historical(
     if (conv.keyPoints && conv.keyPoints.length > 0) {
       convStr += `\n  Key Points: ${conv.keyPoints.join("; ")}`;
     }
-    sections.push(convStr);
-  }
-  
-  return sections.join("\n");
+    items.push({
+      id: `conversation:${conv.id}`,
+      tier: "historical",
+      section: "--- RECENT CONVERSATION HISTORY ---",
+      text: convStr,
+      priority: "ranked",
+      score: 0.5 - i * 0.05 + relevance(convStr) * RELEVANCE_WEIGHT
+    });
+  });
+  
+  // Older moments that match what they're talking about now - already ranked by
+  // similarity, so their own score is the relevance
+  relevantMemories.forEach((memory, i) => {
+    items.push({
+      id: `memory:${i}`,
+      tier: "historical",
+      section: RELEVANT_MEMORIES_HEADER,
+      text: formatMemoryLine(memory),
+      priority: "ranked",
+      score: memory.score + 0.1
+    });
+  });
+  
+  return items;
 }
 
 // ============================================================================
@@ -368,39 +538,33 @@ function buildTier3Historical(
 // ============================================================================
 
 function buildAISynthesis(
-  profile: any,
-  insights: any[]
-): string {
-  const sections: string[] = [];
+  profile: ClientProfile,
+  insights: ContextInsight[],
+  relevance: RelevanceScorer
+): ContextItem[] {
+  const items: ContextItem[] = [];
+  const ranked = (id: string, section: string, text: string, base: number) =>
+    items.push({ id, tier: "synthesis", section, text, priority: "ranked", score: base + relevance(text) * RELEVANCE_WEIGHT });
   
   // AI Summary
   if (profile.aiSummary) {
-    sections.push("--- AI SUMMARY ---");
-    sections.push(profile.aiSummary);
+    ranked("aiSummary", "--- AI SUMMARY ---", profile.aiSummary, 0.6);
   }
   
-  // Key Insights (top 5 by importance)
-  if (insights.length > 0) {
-    sections.push("");
-    sections.push("--- KEY INSIGHTS ---");
-    const topInsights = insights
-      .sort((a, b) => b.importance - a.importance)
-      .slice(0, 5);
-    for (const insight of topInsights) {
-      sections.push(`• [${insight.category}] ${insight.insight}`);
-    }
+  // Key Insights (top 5 by importance, 1-10)
+  const topInsights = [...insights]
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, 5);
+  for (const insight of topInsights) {
+    ranked(`insight:${insight.id}`, "--- KEY INSIGHTS ---", `• [${insight.category}] ${insight.insight}`, 0.3 + (insight.importance ?? 0) / 20);
   }
   
   // Next Best Actions
-  if (profile.nextBestActions && profile.nextBestActions.length > 0) {
-    sections.push("");
-    sections.push("--- SUGGESTED FOCUS FOR THIS CONVERSATION ---");
-    for (const action of profile.nextBestActions.slice(0, 3)) {
-      sections.push(`• ${action.action} (${action.reason})`);
-    }
-  }
+  (profile.nextBestActions ?? []).slice(0, 3).forEach((action, i) => {
+    ranked(`nextBestAction:${i}`, "--- SUGGESTED FOCUS FOR THIS CONVERSATION ---", `• ${action.action} (${action.reason})`, 0.45);
+  });
   
-  return sections.join("\n");
+  return items;
 }
 
 // ============================================================================
@@ -432,15 +596,52 @@ async function getKeyInsights(clientProfileId: string) {
     .orderBy(desc(keyInsight.importance));
 }
 
-async function getRecentConversations(clientProfileId: string, limit: number = 5) {
+async function getRecentConversations(clientProfileId: string, limit: number = 5, excludeConversationId?: string) {
   return await db
     .select()
     .from(conversation)
-    .where(eq(conversation.clientProfileId, clientProfileId))
+    .where(and(
+      eq(conversation.clientProfileId, clientProfileId),
+      excludeConversationId ? ne(conversation.id, excludeConversationId) : undefined
+    ))
     .orderBy(desc(conversation.createdAt))
     .limit(limit);
 }
 
+/**
+ * The end of their previous conversation, oldest first
+ */
+async function getLastSessionMessages(clientProfileId: string, excludeConversationId?: string) {
+  const [previous] = await db
+    .select({ id: conversation.id })
+    .from(conversation)
+    .where(and(
+      eq(conversation.clientProfileId, clientProfileId),
+      excludeConversationId ? ne(conversation.id, excludeConversationId) : undefined
+    ))
+    .orderBy(desc(conversation.createdAt))
+    .limit(1);
+  
+  if (!previous) return [];
+  
+  const messages = await db
+    .select({ role: message.role, content: message.content, createdAt: message.createdAt })
+    .from(message)
+    .where(and(eq(message.conversationId, previous.id), isNull(message.redactedAt)))
+    .orderBy(desc(message.createdAt))
+    .limit(LAST_SESSION_MESSAGES);
+  return messages.reverse();
+}
+
+async function getCrisisHistory(clientProfileId: string) {
+  return await db
+    .select({ crisisLevel: crisisLog.crisisLevel, indicators: crisisLog.indicators, createdAt: crisisLog.createdAt })
+    .from(crisisLog)
+    .where(eq(crisisLog.clientProfileId, clientProfileId))
+    .orderBy(desc(crisisLog.createdAt))
+    .limit(5);
+}
+
 // ============================================================================
 // QUICK CONTEXT (For fast lookups)
 // ============================================================================
@@ -7,7 +7,7 @@ import { withTimeout, retryWithBackoff, API_TIMEOUTS } from "./_core/apiConfig";
 // Lazy initialization - only create Stripe instance when needed
 let stripeInstance: Stripe | null = null;
 
-function getStripe(): Stripe {
+export function getStripe(): Stripe {
   if (!stripeInstance) {
     const apiKey = ENV.stripeSecretKey || process.env.STRIPE_SECRET_KEY;
     if (!apiKey) {
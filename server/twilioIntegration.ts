@@ -20,7 +20,7 @@
 
 import { db } from "./_core/db";
 import { invokeLLM } from "./_core/llm";
-import { conversation, message, clientProfile, interactionLog } from "../drizzle/schema";
+import { conversation, message, clientProfile, type ClientProfile } from "../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 import { 
   findOrCreateClient, 
@@ -31,9 +31,22 @@ import {
   type ClientIdentifier,
   type UnifiedClientContext 
 } from "./unifiedClientRepository";
-import { detectCrisis, getCrisisResponseGuidance } from "./crisisDetection";
-import { checkGuardrails } from "./guardrails";
-import { generateMessageId, generateLogId, generateConversationId } from "./utils/generateId";
+import { detectCrisis, detectCrisisWithReview, getCrisisResponseGuidance, updateCrisisTrajectory } from "./crisisDetection";
+import { enforceGuardrails, type GuardedReplyOptions } from "./guardrailReview";
+import { generateMessageId, generateConversationId } from "./utils/generateId";
+import { logInteraction } from "./interactionLog";
+import {
+  checkPreConsentCrisis,
+  getConsentStatus,
+  parseConsentReply,
+  PRE_CONSENT_CRISIS_RESOURCES,
+  recordConsent,
+  requestConsent,
+  wasConsentRequested,
+} from "./consent";
+import { buildSmartContext } from "./smartContextBuilder";
+import { findActiveSession } from "./sessionEnd";
+import { enqueueJob } from "./jobQueue";
 import Twilio from "twilio";
 import {
   startPhonePayment,
@@ -460,110 +473,87 @@ function escapeXml(text: string): string {
 // PROFILE ENRICHMENT - EXTRACT INFO FROM CONVERSATION
 // ============================================================================
 
-async function enrichProfileFromConversation(
+/**
+ * Per-exchange extraction for trial calls - run as a profile_enrichment job
+ * (jobHandlers.ts). Throws if the LLM call fails, so the job is retried.
+ */
+export async function enrichProfileFromConversation(
   clientId: string,
   userMessage: string,
   aiResponse: string,
-  context: UnifiedClientContext
+  profile: ClientProfile
 ): Promise<void> {
-  try {
-    const extractionPrompt = `Analyze this conversation exchange and extract any personal information shared.
+  const extractionPrompt = `Analyze this conversation exchange and extract any personal information shared.
 
 USER SAID: "${userMessage}"
 AI RESPONDED: "${aiResponse}"
 
 EXISTING PROFILE:
-- Name: ${context.profile.preferredName || 'unknown'}
-- Location: ${context.profile.location || 'unknown'}
-- Age: ${context.profile.age || 'unknown'}
+- Name: ${profile.preferredName || 'unknown'}
+- Location: ${profile.location || 'unknown'}
+- Age: ${profile.age || 'unknown'}
 
 Extract and return ONLY a JSON object with any NEW information found (leave fields null if not mentioned):
 {
-  "name": "their name if mentioned",
-  "location": "city/state if mentioned", 
-  "age": number or null,
-  "currentMood": "their emotional state",
-  "mainTopic": "what they're dealing with",
-  "keyInsight": "something important about them",
-  "positiveAdjectives": ["words they used for positive things"],
-  "negativeAdjectives": ["words they used for negative things"]
+"name": "their name if mentioned",
+"location": "city/state if mentioned", 
+"age": number or null,
+"currentMood": "their emotional state",
+"mainTopic": "what they're dealing with",
+"keyInsight": "something important about them",
+"positiveAdjectives": ["words they used for positive things"],
+"negativeAdjectives": ["words they used for negative things"]
 }
 
 Return ONLY the JSON, no other text.`;
 
-    const extraction = await invokeLLM({
-      messages: [{ role: "user", content: extractionPrompt }],
-      maxTokens: 250,
-    });
+  const extraction = await invokeLLM({
+    messages: [{ role: "user", content: extractionPrompt }],
+    maxTokens: 250,
+  });
 
-    const extractedContent = extraction.choices[0].message.content;
-    if (typeof extractedContent === 'string') {
-      try {
-        const jsonMatch = extractedContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const extracted = JSON.parse(jsonMatch[0]);
-          
-          const updates: any = {};
-          
-          if (extracted.name && !context.profile.preferredName) {
-            updates.preferredName = extracted.name;
-          }
-          if (extracted.location && !context.profile.location) {
-            updates.location = extracted.location;
-          }
-          if (extracted.age && !context.profile.age) {
-            updates.age = extracted.age;
-          }
-          
-          const insights: string[] = [];
-          if (extracted.currentMood) insights.push(`Mood: ${extracted.currentMood}`);
-          if (extracted.mainTopic) insights.push(`Topic: ${extracted.mainTopic}`);
-          if (extracted.keyInsight) insights.push(`Insight: ${extracted.keyInsight}`);
-          if (extracted.positiveAdjectives?.length) insights.push(`Positive words: ${extracted.positiveAdjectives.join(', ')}`);
-          if (extracted.negativeAdjectives?.length) insights.push(`Negative words: ${extracted.negativeAdjectives.join(', ')}`);
-          
-          if (insights.length > 0) {
-            const existingSummary = context.profile.aiSummary || "";
-            const newInsights = insights.join(". ");
-            updates.aiSummary = existingSummary 
-              ? `${existingSummary} | ${new Date().toLocaleDateString()}: ${newInsights}`
-              : `${new Date().toLocaleDateString()}: ${newInsights}`;
-          }
-          
-          if (Object.keys(updates).length > 0) {
-            await updateClientProfile(clientId, updates);
-            console.log("[Twilio] Profile enriched:", updates);
-          }
+  const extractedContent = extraction.choices[0].message.content;
+  if (typeof extractedContent === 'string') {
+    try {
+      const jsonMatch = extractedContent.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const extracted = JSON.parse(jsonMatch[0]);
+        
+        const updates: any = {};
+        
+        if (extracted.name && !profile.preferredName) {
+          updates.preferredName = extracted.name;
+        }
+        if (extracted.location && !profile.location) {
+          updates.location = extracted.location;
+        }
+        if (extracted.age && !profile.age) {
+          updates.age = extracted.age;
+        }
+        
+        const insights: string[] = [];
+        if (extracted.currentMood) insights.push(`Mood: ${extracted.currentMood}`);
+        if (extracted.mainTopic) insights.push(`Topic: ${extracted.mainTopic}`);
+        if (extracted.keyInsight) insights.push(`Insight: ${extracted.keyInsight}`);
+        if (extracted.positiveAdjectives?.length) insights.push(`Positive words: ${extracted.positiveAdjectives.join(', ')}`);
+        if (extracted.negativeAdjectives?.length) insights.push(`Negative words: ${extracted.negativeAdjectives.join(', ')}`);
+        
+        if (insights.length > 0) {
+          const existingSummary = profile.aiSummary || "";
+          const newInsights = insights.join(". ");
+          updates.aiSummary = existingSummary 
+            ? `${existingSummary} | ${new Date().toLocaleDateString()}: ${newInsights}`
+            : `${new Date().toLocaleDateString()}: ${newInsights}`;
+        }
+        
+        if (Object.keys(updates).length > 0) {
+          await updateClientProfile(clientId, updates);
+          console.log("[Twilio] Profile enriched:", updates);
         }
-      } catch (parseError) {
-        console.error("[Twilio] Failed to parse profile extraction:", parseError);
       }
+    } catch (parseError) {
+      console.error("[Twilio] Failed to parse profile extraction:", parseError);
     }
-  } catch (error) {
-    console.error("[Twilio] Profile enrichment failed:", error);
-  }
-}
-
-// ============================================================================
-// INTERACTION LOGGING
-// ============================================================================
-
-async function logInteraction(
-  clientId: string,
-  interactionType: string,
-  target: string,
-  metadata: Record<string, any>
-): Promise<void> {
-  try {
-    await db.insert(interactionLog).values({
-      id: generateLogId(),
-      clientProfileId: clientId,
-      interactionType,
-      target,
-      metadata,
-    });
-  } catch (error) {
-    console.error("[Twilio] Failed to log interaction:", error);
   }
 }
 
@@ -572,20 +562,10 @@ async function logInteraction(
 // ============================================================================
 
 export async function getOrCreateConversation(clientId: string, channel: string): Promise<string> {
-  const recentConversations = await db
-    .select()
-    .from(conversation)
-    .where(eq(conversation.clientProfileId, clientId))
-    .orderBy(desc(conversation.createdAt))
-    .limit(1);
-
-  if (recentConversations.length > 0) {
-    const lastConv = recentConversations[0];
-    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-    
-    if (lastConv.createdAt > thirtyMinutesAgo && !lastConv.endedAt) {
-      return lastConv.id;
-    }
+  // Continue the session on this channel unless it has gone quiet
+  const activeConversationId = await findActiveSession(clientId, channel);
+  if (activeConversationId) {
+    return activeConversationId;
   }
 
   const conversationId = generateConversationId();
@@ -864,9 +844,8 @@ export async function handleTrialVoiceResponse(
   await incrementMessageCount(conversationId);
 
   const crisisDetection = detectCrisis(speechResult);
-  const crisisGuidance = crisisDetection.isCrisis 
-    ? getCrisisResponseGuidance(crisisDetection.level)
-    : "";
+  const trajectory = await updateCrisisTrajectory(clientId, conversationId, crisisDetection, speechResult);
+  const crisisGuidance = getCrisisResponseGuidance(trajectory.currentLevel);
 
   // Check if we're in payment flow and need to add context
   const paymentContext = await getPaymentContext(clientId);
@@ -879,6 +858,7 @@ export async function handleTrialVoiceResponse(
     .limit(10);
 
   const context = await getUnifiedClientContext({ type: "clientId", value: clientId });
+  const smartContext = await buildSmartContext(clientId, { channel: "voice", currentTopic: speechResult, conversationId });
 
   let systemPrompt: string;
   let aiMessage: string;
@@ -903,7 +883,7 @@ Examples:
 - If they say "I'm not sure about this" → "I totally get it. No pressure at all. But I really think you'll love having me in your corner. Want to give it a try?"
 - If they say something random → Acknowledge it briefly, then: "So where are you at on the form?"
 
-${context.contextString}`;
+${smartContext.fullContext}`;
 
     const messages: any[] = [
       { role: "system", content: systemPrompt },
@@ -936,11 +916,11 @@ ${context.contextString}`;
   // EXCHANGES 1-3: BUILD CONNECTION (Chase Hughes FATE + Cialdini)
   if (exchangeNumber <= 3) {
     if (exchangeNumber === 1) {
-      systemPrompt = buildTrialPromptExchange1(context.contextString, crisisGuidance);
+      systemPrompt = buildTrialPromptExchange1(smartContext.fullContext, crisisGuidance);
     } else if (exchangeNumber === 2) {
-      systemPrompt = buildTrialPromptExchange2(context.contextString, crisisGuidance);
+      systemPrompt = buildTrialPromptExchange2(smartContext.fullContext, crisisGuidance);
     } else {
-      systemPrompt = buildTrialPromptExchange3(context.contextString, crisisGuidance);
+      systemPrompt = buildTrialPromptExchange3(smartContext.fullContext, crisisGuidance);
     }
 
     const messages: any[] = [
@@ -960,20 +940,21 @@ ${context.contextString}`;
     const aiContent = aiResponse.choices[0].message.content;
     aiMessage = typeof aiContent === 'string' ? aiContent : "Tell me more about that... I'm really curious.";
 
-    const violations = checkGuardrails(aiMessage);
-    if (violations.length > 0) {
-      const criticalViolations = violations.filter(v => v.requiresIntervention);
-      if (criticalViolations.length > 0) {
-        aiMessage = "I hear you. " + criticalViolations[0].suggestion;
-      }
-    }
+    const assistantMessageId = generateMessageId();
+    aiMessage = await guardReply(aiMessage, messages, {
+      clientId,
+      conversationId,
+      messageId: assistantMessageId,
+      channel: "voice",
+    });
 
-    enrichProfileFromConversation(clientId, speechResult, aiMessage, context).catch(err => 
-      console.error('[Twilio] Profile enrichment error:', err)
-    );
+    await enqueueJob("profile_enrichment", { userMessage: speechResult, aiResponse: aiMessage }, {
+      clientProfileId: clientId,
+      idempotencyKey: `profile_enrichment:${assistantMessageId}`,
+    });
 
     await db.insert(message).values({
-      id: generateMessageId(),
+      id: assistantMessageId,
       conversationId,
       role: "assistant",
       content: aiMessage,
@@ -997,7 +978,7 @@ ${context.contextString}`;
   });
 
   // Use exchange-specific conversion prompt
-  systemPrompt = buildConversionPrompt(context.contextString, context.profile.preferredName, exchangeNumber);
+  systemPrompt = buildConversionPrompt(smartContext.fullContext, context.profile.preferredName, exchangeNumber);
   
   const messages: any[] = [
     { role: "system", content: systemPrompt },
@@ -1018,12 +999,21 @@ ${context.contextString}`;
     ? aiContent 
     : "I really don't want to lose this connection with you. Can I sign you up real quick? It's super easy.";
 
-  enrichProfileFromConversation(clientId, speechResult, aiMessage, context).catch(err => 
-    console.error('[Twilio] Profile enrichment error:', err)
-  );
+  const assistantMessageId = generateMessageId();
+  aiMessage = await guardReply(aiMessage, messages, {
+    clientId,
+    conversationId,
+    messageId: assistantMessageId,
+    channel: "voice",
+  });
+
+  await enqueueJob("profile_enrichment", { userMessage: speechResult, aiResponse: aiMessage }, {
+    clientProfileId: clientId,
+    idempotencyKey: `profile_enrichment:${assistantMessageId}`,
+  });
 
   await db.insert(message).values({
-    id: generateMessageId(),
+    id: assistantMessageId,
     conversationId,
     role: "assistant",
     content: aiMessage,
@@ -1096,9 +1086,8 @@ export async function handleVoiceResponse(
   await incrementMessageCount(conversationId);
 
   const crisisDetection = detectCrisis(speechResult);
-  const crisisGuidance = crisisDetection.isCrisis 
-    ? getCrisisResponseGuidance(crisisDetection.level)
-    : "";
+  const trajectory = await updateCrisisTrajectory(clientId, conversationId, crisisDetection, speechResult);
+  const crisisGuidance = getCrisisResponseGuidance(trajectory.currentLevel);
 
   const history = await db
     .select()
@@ -1108,8 +1097,9 @@ export async function handleVoiceResponse(
     .limit(20);
 
   const context = await getUnifiedClientContext({ type: "clientId", value: clientId });
+  const smartContext = await buildSmartContext(clientId, { channel: "voice", currentTopic: speechResult, conversationId });
 
-  const systemPrompt = buildVoiceSystemPrompt(context.contextString, crisisGuidance);
+  const systemPrompt = buildVoiceSystemPrompt(smartContext.fullContext, crisisGuidance);
 
   const messages: any[] = [
     { role: "system", content: systemPrompt },
@@ -1128,20 +1118,21 @@ export async function handleVoiceResponse(
   const aiContent = aiResponse.choices[0].message.content;
   let aiMessage = typeof aiContent === 'string' ? aiContent : "I'm here... tell me more.";
 
-  const violations = checkGuardrails(aiMessage);
-  if (violations.length > 0) {
-    const criticalViolations = violations.filter(v => v.requiresIntervention);
-    if (criticalViolations.length > 0) {
-      aiMessage = "I hear you. " + criticalViolations[0].suggestion;
-    }
-  }
+  const assistantMessageId = generateMessageId();
+  aiMessage = await guardReply(aiMessage, messages, {
+    clientId,
+    conversationId,
+    messageId: assistantMessageId,
+    channel: "voice",
+  });
 
-  enrichProfileFromConversation(clientId, speechResult, aiMessage, context).catch(err => 
-    console.error('[Twilio] Profile enrichment error:', err)
-  );
+  await enqueueJob("profile_enrichment", { userMessage: speechResult, aiResponse: aiMessage }, {
+    clientProfileId: clientId,
+    idempotencyKey: `profile_enrichment:${assistantMessageId}`,
+  });
 
   await db.insert(message).values({
-    id: generateMessageId(),
+    id: assistantMessageId,
     conversationId,
     role: "assistant",
     content: aiMessage,
@@ -1177,6 +1168,12 @@ export async function handleIncomingSMS(
     messageLength: body.length,
   });
 
+  // Nothing is stored until they've accepted the current Terms and Privacy Policy
+  const consent = await getConsentStatus(clientId);
+  if (!consent.current) {
+    return smsReply(await handleSmsConsent(clientId, body, consent.needsReconsent));
+  }
+
   const conversationId = await getOrCreateConversation(clientId, "sms");
 
   await db.insert(message).values({
@@ -1187,10 +1184,12 @@ export async function handleIncomingSMS(
   });
   await incrementMessageCount(conversationId);
 
-  const crisisDetection = detectCrisis(body);
-  const crisisGuidance = crisisDetection.isCrisis 
-    ? getCrisisResponseGuidance(crisisDetection.level)
-    : "";
+  const crisisDetection = await detectCrisisWithReview(body);
+  const trajectory = await updateCrisisTrajectory(clientId, conversationId, crisisDetection, body);
+  const crisisGuidance = getCrisisResponseGuidance(trajectory.currentLevel);
+
+  // Three-tier memory, with past moments relevant to what they just texted
+  const smartContext = await buildSmartContext(clientId, { channel: "sms", currentTopic: body, conversationId });
 
   const history = await db
     .select()
@@ -1210,7 +1209,7 @@ TEXTING RULES:
 - Use natural texting language: "hey", "omg", "yeah", "lol" (sparingly)
 
 CLIENT CONTEXT:
-${context.contextString}
+${smartContext.fullContext}
 
 ${crisisGuidance ? '\nCRISIS GUIDANCE:\n' + crisisGuidance : ''}`;
 
@@ -1228,20 +1227,18 @@ ${crisisGuidance ? '\nCRISIS GUIDANCE:\n' + crisisGuidance : ''}`;
   const aiContent = aiResponse.choices[0].message.content;
   let aiMessage = typeof aiContent === 'string' ? aiContent : "I'm here. Tell me more.";
 
-  const violations = checkGuardrails(aiMessage);
-  if (violations.length > 0) {
-    const criticalViolations = violations.filter(v => v.requiresIntervention);
-    if (criticalViolations.length > 0) {
-      aiMessage = "I hear you. " + criticalViolations[0].suggestion;
-    }
-  }
+  const assistantMessageId = generateMessageId();
+  aiMessage = await guardReply(aiMessage, messages, {
+    clientId,
+    conversationId,
+    messageId: assistantMessageId,
+    channel: "sms",
+  });
 
-  enrichProfileFromConversation(clientId, body, aiMessage, context).catch(err => 
-    console.error('[Twilio] Profile enrichment error:', err)
-  );
+  // Profile updates run once the session ends (sessionEnd.ts), not per text
 
   await db.insert(message).values({
-    id: generateMessageId(),
+    id: assistantMessageId,
     conversationId,
     role: "assistant",
     content: aiMessage,
@@ -1254,7 +1251,34 @@ ${crisisGuidance ? '\nCRISIS GUIDANCE:\n' + crisisGuidance : ''}`;
     preferredChannel: "sms",
   });
 
-  return '<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Message>' + escapeXml(aiMessage) + '</Message>\n</Response>';
+  return smsReply(aiMessage);
+}
+
+function smsReply(text: string): string {
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Message>' + escapeXml(text) + '</Message>\n</Response>';
+}
+
+/**
+ * A text from someone who hasn't accepted the current Terms: record a YES
+ * to the consent question, otherwise ask it (with crisis resources first if needed)
+ */
+async function handleSmsConsent(clientId: string, body: string, needsReconsent: boolean): Promise<string> {
+  const reply = parseConsentReply(body);
+
+  // Every answer is checked - "yes, but I want to end it all" still needs help
+  const resources = await checkPreConsentCrisis(clientId, body) ? PRE_CONSENT_CRISIS_RESOURCES + " " : "";
+
+  // A "yes" only counts as an answer to a question we actually asked
+  if (reply === "accepted" && await wasConsentRequested(clientId, "sms")) {
+    await recordConsent({ clientId, channel: "sms", ageAttestation: "meets_age_requirement", evidence: body });
+    return resources + "Thank you! I'm really glad you reached out. So... what's on your mind?";
+  }
+
+  if (reply === "declined") {
+    return resources + "No problem. I can't chat until you agree, but reply YES any time if you change your mind.";
+  }
+
+  return resources + await requestConsent(clientId, "sms", needsReconsent);
 }
 
 // ============================================================================
@@ -1325,3 +1349,27 @@ RULES:
 
   return '<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  <Say voice="Polly.Joanna">' + escapeXml(aiMessage) + '</Say>\n  <Gather input="speech" action="/api/twilio/incoming-call" method="POST" speechTimeout="auto" timeout="10">\n    <Pause length="1"/>\n  </Gather>\n  <Say voice="Polly.Joanna">I\'m still here... take your time.</Say>\n  <Gather input="speech" action="/api/twilio/incoming-call" method="POST" speechTimeout="auto" timeout="30">\n    <Pause length="1"/>\n  </Gather>\n</Response>';
 }
+
+/**
+ * Run a phone/SMS reply through the guardrail pipeline, regenerating
+ * with the same short-form model if it breaks a guardrail
+ */
+async function guardReply(
+  draft: string,
+  messages: any[],
+  context: GuardedReplyOptions["context"]
+): Promise<string> {
+  const guarded = await enforceGuardrails({
+    draft,
+    messages,
+    regenerate: async (corrected) => {
+      const response = await invokeLLM({ messages: corrected, maxTokens: 150, model: "gpt-4.1-nano" });
+      const content = response.choices[0].message.content;
+      if (typeof content !== "string") throw new Error("Empty regeneration");
+      return content;
+    },
+    fallbackPrefix: "I hear you. ",
+    context,
+  });
+  return guarded.content;
+}
@@ -19,6 +19,7 @@ import {
 } from "./twilioIntegration";
 import { getUnifiedClientContext, canUseFeature, findOrCreateClient } from "./unifiedClientRepository";
 import { generateGreeting, getGreetingContext, updateLastGreetingVariation } from "./greetingGenerator";
+import { getConsentStatus, requestConsent } from "./consent";
 import { generateMessageId } from "./utils/generateId";
 
 /**
@@ -203,16 +204,23 @@ export function setupTwilioRoutes(app: Express) {
             recentTopic: context.recentConversations[0]?.topic || undefined,
           };
           
-          // Generate varied, context-aware greeting
-          const { greeting, variationIndex } = generateGreeting(greetingContext);
-          welcomeGreeting = greeting;
-          
-          // Save which variation we used (so we don't repeat it)
-          updateLastGreetingVariation(clientId, variationIndex).catch(err => 
-            console.error("[Twilio] Failed to save greeting variation:", err)
-          );
-          
-          console.log("[Twilio] Generated greeting for", context.profile.preferredName || "unknown", "- variation", variationIndex);
+          // Callers who haven't accepted the current Terms are asked first (answered in conversationRelay.ts)
+          const consent = await getConsentStatus(clientId);
+          if (!consent.current) {
+            welcomeGreeting = await requestConsent(clientId, "voice", consent.needsReconsent);
+            console.log("[Twilio] Asking", clientId, "for consent before the call");
+          } else {
+            // Generate varied, context-aware greeting
+            const { greeting, variationIndex } = generateGreeting(greetingContext);
+            welcomeGreeting = greeting;
+            
+            // Save which variation we used (so we don't repeat it)
+            updateLastGreetingVariation(clientId, variationIndex).catch(err => 
+              console.error("[Twilio] Failed to save greeting variation:", err)
+            );
+            
+            console.log("[Twilio] Generated greeting for", context.profile.preferredName || "unknown", "- variation", variationIndex);
+          }
         } catch (error) {
           console.log("[Twilio] Could not get client context, using default greeting");
         }
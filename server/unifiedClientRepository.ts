@@ -1,4 +1,4 @@
-import { generateClientId } from './utils/generateId';
+import { generateClientId, generateProfileMergeId } from './utils/generateId';
 /**
  * UNIFIED CLIENT REPOSITORY - THE SINGLE SOURCE OF TRUTH
  * 
@@ -22,9 +22,31 @@ import {
   message,
   subscription,
   crisisLog,
+  clientRelationship,
+  keyInsight,
+  behavioralPattern,
+  interactionLog,
+  voiceSignature,
+  guardrailViolation,
+  verificationCode,
+  paymentFlow,
+  consentRecord,
+  memoryEmbedding,
+  backgroundJob,
+  profileMerge,
+  user,
   type ClientProfile,
+  type ProfileMerge,
 } from "../drizzle/schema";
-import { eq, desc, and, or, like, sql } from "drizzle-orm";
+import { eq, desc, and, or, like, sql, inArray, isNull, getTableColumns } from "drizzle-orm";
+import { mergeProfileFields, MERGE_COUNTER_FIELDS } from "./profileMerge";
+import {
+  FORGOTTEN_CONTENT,
+  mentionsForgotten,
+  purgeConversationMemory,
+  purgeProfileMemory,
+  type ForgetTargets,
+} from "./memoryForgetting";
 
 // ============================================================================
 // TYPES
@@ -50,24 +72,6 @@ export interface UnifiedClientContext {
     messageCount: number;
     createdAt: Date;
   }>;
-  
-  // Recent messages (last 50 for context)
-  recentMessages: Array<{
-    role: string;
-    content: string;
-    mood: string | null;
-    createdAt: Date;
-  }>;
-  
-  // Crisis history
-  crisisHistory: Array<{
-    level: string;
-    indicators: string[] | null;
-    createdAt: Date;
-  }>;
-  
-  // AI-ready context string
-  contextString: string;
 }
 
 export type ClientIdentifier = 
@@ -147,8 +151,10 @@ export async function findOrCreateClient(
 /**
  * Find client by phone number - OPTIMIZED SQL LOOKUP
  * Uses SQL LIKE query for O(log n) performance with index
+ *
+ * Exported read-only, for checks before linkPhoneToProfile.
  */
-async function findByPhone(phone: string): Promise<ClientProfile | undefined> {
+export async function findByPhone(phone: string): Promise<ClientProfile | undefined> {
   if (!phone) return undefined;
   
   // Normalize: keep only digits
@@ -366,7 +372,8 @@ async function createProfileWithFingerprint(fingerprint: string): Promise<Client
  * Get complete client context for AI interactions.
  * 
  * MUST be called before ANY AI interaction.
- * Returns EVERYTHING we know about the client.
+ * Returns the profile, subscription status and recent conversations - the
+ * memory context for the prompt comes from buildSmartContext (smartContextBuilder.ts).
  */
 export async function getUnifiedClientContext(
   identifier: ClientIdentifier
@@ -389,32 +396,6 @@ export async function getUnifiedClientContext(
     .orderBy(desc(conversation.createdAt))
     .limit(10);
 
-  // Load recent messages (from all conversations)
-  const recentMessages = await db
-    .select({
-      role: message.role,
-      content: message.content,
-      mood: message.mood,
-      createdAt: message.createdAt,
-    })
-    .from(message)
-    .innerJoin(conversation, eq(message.conversationId, conversation.id))
-    .where(eq(conversation.clientProfileId, profile.id))
-    .orderBy(desc(message.createdAt))
-    .limit(50);
-
-  // Load crisis history
-  const crisisHistory = await db
-    .select({
-      level: crisisLog.crisisLevel,
-      indicators: crisisLog.indicators,
-      createdAt: crisisLog.createdAt,
-    })
-    .from(crisisLog)
-    .where(eq(crisisLog.clientProfileId, profile.id))
-    .orderBy(desc(crisisLog.createdAt))
-    .limit(5);
-
   // Build subscription status with daily reset logic
   const now = new Date();
   const resetDate = profile.dailyMessageResetDate ? new Date(profile.dailyMessageResetDate) : new Date(0);
@@ -442,16 +423,10 @@ export async function getUnifiedClientContext(
     isActive: profile.subscriptionTier !== "free" || dailyMessagesRemaining > 0,
   };
 
-  // Build AI-ready context string
-  const contextString = buildContextString(profile, recentConversations, recentMessages, crisisHistory);
-
   return {
     profile,
     subscription: subscriptionStatus,
     recentConversations,
-    recentMessages,
-    crisisHistory,
-    contextString,
   };
 }
 
@@ -482,23 +457,26 @@ export async function updateClientProfile(
 /**
  * Link phone number to existing profile.
  * 
- * Used when a web user provides their phone number.
+ * Only after the number is verified (SMS login or client.confirmPhoneLink).
+ * Returns the profile that holds the phone afterwards - on a merge that's
+ * the phone's existing profile, not clientId.
  */
 export async function linkPhoneToProfile(
   clientId: string,
   phone: string
-): Promise<void> {
+): Promise<string> {
   // Check if phone is already linked to another profile
   const existing = await findByPhone(phone);
   if (existing && existing.id !== clientId) {
     // Merge profiles - keep the older one, transfer data
     console.log(`[UnifiedRepo] Phone ${phone} already linked to ${existing.id}, merging...`);
-    await mergeProfiles(existing.id, clientId);
-    return;
+    await mergeProfiles(existing.id, clientId, "phone_link");
+    return existing.id;
   }
   
   await updateClientProfile(clientId, { phoneNumber: phone });
   console.log(`[UnifiedRepo] Linked phone ${phone} to profile ${clientId}`);
+  return clientId;
 }
 
 /**
@@ -515,7 +493,7 @@ export async function linkUserIdToProfile(
   if (existing && existing.id !== clientId) {
     // Merge profiles - keep the older one, transfer data
     console.log(`[UnifiedRepo] UserId ${userId} already linked to ${existing.id}, merging...`);
-    await mergeProfiles(existing.id, clientId);
+    await mergeProfiles(existing.id, clientId, "user_link");
     return;
   }
   
@@ -527,90 +505,506 @@ export async function linkUserIdToProfile(
 // MERGE PROFILES (FOR DEDUPLICATION)
 // ============================================================================
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Every table that belongs to a profile - a merge moves all of them.
+// Add new per-client tables here, or their rows are deleted with the merged profile.
+const PROFILE_CHILD_TABLES = {
+  conversation,
+  crisis_log: crisisLog,
+  client_relationship: clientRelationship,
+  key_insight: keyInsight,
+  behavioral_pattern: behavioralPattern,
+  interaction_log: interactionLog,
+  subscription,
+  voice_signature: voiceSignature,
+  guardrail_violation: guardrailViolation,
+  verification_code: verificationCode,
+  payment_flow: paymentFlow,
+  consent_record: consentRecord,
+  memory_embedding: memoryEmbedding,
+  background_job: backgroundJob,
+};
+
+type ProfileChildTable = keyof typeof PROFILE_CHILD_TABLES;
+
+/**
+ * Re-point child rows from one profile to another, returning the ids moved.
+ * With `onlyIds`, just those rows (used by undo).
+ */
+async function moveChildRows(
+  tx: Transaction,
+  fromId: string,
+  toId: string,
+  onlyIds?: Record<string, string[]>
+): Promise<Record<string, string[]>> {
+  const moved: Record<string, string[]> = {};
+
+  for (const [name, table] of Object.entries(PROFILE_CHILD_TABLES) as [ProfileChildTable, typeof conversation][]) {
+    const ids = onlyIds?.[name];
+    if (onlyIds && (!ids || ids.length === 0)) continue;
+
+    const rows = await tx
+      .update(table)
+      .set({ clientProfileId: toId })
+      .where(and(
+        eq(table.clientProfileId, fromId),
+        ids ? inArray(table.id, ids) : undefined
+      ))
+      .returning({ id: table.id });
+
+    if (rows.length > 0) {
+      moved[name] = rows.map(row => row.id);
+    }
+  }
+
+  return moved;
+}
+
+/**
+ * JSON snapshots hold timestamps as strings - turn them back into Dates
+ */
+function reviveProfileFields(values: Record<string, unknown>): Record<string, unknown> {
+  const columns = getTableColumns(clientProfile) as Record<string, { dataType: string }>;
+  const revived: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(values)) {
+    revived[field] = columns[field]?.dataType === "date" && typeof value === "string"
+      ? new Date(value)
+      : value;
+  }
+
+  return revived;
+}
+
 /**
  * Merge two profiles into one.
  * 
- * Keeps the older profile, transfers all data from newer.
- * This handles cases where same person has multiple profiles.
+ * Keeps `keepId`, moves every child row from `mergeId` (see
+ * PROFILE_CHILD_TABLES), combines the profile fields (see profileMerge.ts)
+ * and deletes the merged profile - all in one transaction, so a failure
+ * leaves both profiles untouched.
  * 
- * Uses a transaction to ensure data integrity - all operations succeed or none do.
+ * Each merge writes a profile_merge audit record; undoProfileMerge uses it
+ * to split the profiles again. Earlier merges into the merged profile are
+ * re-pointed at the kept one, so their records survive the delete and can
+ * still be undone. Returns the audit record id.
  */
-async function mergeProfiles(
+export async function mergeProfiles(
   keepId: string,
-  mergeId: string
-): Promise<void> {
-  console.log(`[UnifiedRepo] Merging profile ${mergeId} into ${keepId}`);
-  
-  // Use a transaction to ensure all operations succeed or none do
-  // This prevents data corruption if any step fails
+  mergeId: string,
+  reason: string,
+  actorUserId: string | null = null
+): Promise<string | null> {
+  console.log(`[UnifiedRepo] Merging profile ${mergeId} into ${keepId} (${reason})`);
+
+  if (keepId === mergeId) return null;
+
   try {
-    // Get both profiles first (outside transaction for read)
-    const [keep] = await db.select().from(clientProfile).where(eq(clientProfile.id, keepId)).limit(1);
-    const [merge] = await db.select().from(clientProfile).where(eq(clientProfile.id, mergeId)).limit(1);
-    
-    if (!keep || !merge) {
-      console.error(`[UnifiedRepo] Cannot merge - profile not found. Keep: ${!!keep}, Merge: ${!!merge}`);
-      return;
-    }
-    
-    // Calculate merged values before transaction
-    const mergedData = {
-      totalConversations: (keep.totalConversations || 0) + (merge.totalConversations || 0),
-      totalMessages: (keep.totalMessages || 0) + (merge.totalMessages || 0),
-      totalPhoneCalls: (keep.totalPhoneCalls || 0) + (merge.totalPhoneCalls || 0),
-      totalSMS: (keep.totalSMS || 0) + (merge.totalSMS || 0),
-      phoneNumber: keep.phoneNumber || merge.phoneNumber,
-      userId: keep.userId || merge.userId,
-      preferredName: keep.preferredName || merge.preferredName,
-      subscriptionTier: getBetterTier(keep.subscriptionTier, merge.subscriptionTier),
-    };
-    
-    // Execute all write operations - if any fail, they should be retried together
-    // Note: Drizzle with postgres-js doesn't have built-in transaction support,
-    // so we execute in sequence and log for manual recovery if needed
-    
-    // Step 1: Transfer conversations
-    const convResult = await db
-      .update(conversation)
-      .set({ clientProfileId: keepId })
-      .where(eq(conversation.clientProfileId, mergeId));
-    console.log(`[UnifiedRepo] Transferred conversations from ${mergeId} to ${keepId}`);
-    
-    // Step 2: Transfer crisis logs
-    const crisisResult = await db
-      .update(crisisLog)
-      .set({ clientProfileId: keepId })
-      .where(eq(crisisLog.clientProfileId, mergeId));
-    console.log(`[UnifiedRepo] Transferred crisis logs from ${mergeId} to ${keepId}`);
-    
-    // Step 3: Update the kept profile with merged stats
-    await db
-      .update(clientProfile)
-      .set({
-        ...mergedData,
-        updatedAt: new Date(),
-      })
-      .where(eq(clientProfile.id, keepId));
-    console.log(`[UnifiedRepo] Updated kept profile ${keepId} with merged stats`);
-    
-    // Step 4: Delete the merged profile (only after all transfers complete)
-    await db.delete(clientProfile).where(eq(clientProfile.id, mergeId));
-    
-    console.log(`[UnifiedRepo] Successfully merged and deleted profile ${mergeId}`);
+    const mergeRecordId = await db.transaction(async (tx) => {
+      // Lock both rows so concurrent writes can't slip in between read and merge
+      const [keep] = await tx.select().from(clientProfile).where(eq(clientProfile.id, keepId)).for("update");
+      const [merge] = await tx.select().from(clientProfile).where(eq(clientProfile.id, mergeId)).for("update");
+
+      if (!keep || !merge) {
+        console.error(`[UnifiedRepo] Cannot merge - profile not found. Keep: ${!!keep}, Merge: ${!!merge}`);
+        return null;
+      }
+
+      const changes = mergeProfileFields(keep, merge);
+      const before = Object.fromEntries(
+        Object.keys(changes).map(field => [field, keep[field as keyof ClientProfile] ?? null])
+      );
+
+      const movedRows = await moveChildRows(tx, mergeId, keepId);
+
+      // The cascade would take the audit records of merges into mergeId with it
+      const repointed = await tx
+        .update(profileMerge)
+        .set({ keptProfileId: keepId })
+        .where(eq(profileMerge.keptProfileId, mergeId))
+        .returning({ id: profileMerge.id });
+      if (repointed.length > 0) {
+        movedRows.profile_merge = repointed.map(row => row.id);
+      }
+
+      await tx
+        .update(clientProfile)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(clientProfile.id, keepId));
+
+      // Nothing points at it any more - the cascade has nothing left to take
+      await tx.delete(clientProfile).where(eq(clientProfile.id, mergeId));
+
+      const id = generateProfileMergeId();
+      await tx.insert(profileMerge).values({
+        id,
+        keptProfileId: keepId,
+        mergedProfileId: mergeId,
+        reason,
+        actorUserId,
+        mergedProfileSnapshot: merge,
+        keptProfileBefore: before,
+        keptProfileAfter: changes,
+        movedRows,
+      });
+
+      const movedCount = Object.values(movedRows).reduce((total, ids) => total + ids.length, 0);
+      console.log(`[UnifiedRepo] Merged ${mergeId} into ${keepId}: ${movedCount} rows moved, ${Object.keys(changes).length} fields updated`);
+
+      return id;
+    });
+
+    return mergeRecordId;
   } catch (error) {
-    // Log detailed error for manual recovery if needed
-    console.error(`[UnifiedRepo] MERGE FAILED - Manual recovery may be needed!`);
-    console.error(`[UnifiedRepo] Keep ID: ${keepId}, Merge ID: ${mergeId}`);
-    console.error(`[UnifiedRepo] Error:`, error);
+    // The transaction rolled back - both profiles are as they were
+    console.error(`[UnifiedRepo] Merge of ${mergeId} into ${keepId} failed and was rolled back:`, error);
     throw error; // Re-throw so caller knows merge failed
   }
 }
 
-function getBetterTier(a: string | null, b: string | null): string {
-  const tiers = { "phone": 3, "voice": 2, "free": 1 };
-  const aVal = tiers[a as keyof typeof tiers] || 1;
-  const bVal = tiers[b as keyof typeof tiers] || 1;
-  return aVal >= bVal ? (a || "free") : (b || "free");
+/**
+ * Undo a merge: recreate the merged profile and move its rows back.
+ * 
+ * Rows created after the merge stay on the kept profile. Counters lose
+ * the merged profile's share; other kept-profile fields are restored only
+ * if nothing has changed them since the merge. If the kept profile was
+ * itself merged away later, the record points at the profile that holds
+ * its rows now, and they come back from there.
+ */
+export async function undoProfileMerge(
+  mergeRecordId: string,
+  actorUserId: string | null = null
+): Promise<ProfileMerge> {
+  return db.transaction(async (tx) => {
+    const [record] = await tx
+      .select()
+      .from(profileMerge)
+      .where(eq(profileMerge.id, mergeRecordId))
+      .for("update");
+
+    if (!record) {
+      throw new Error(`Merge ${mergeRecordId} not found`);
+    }
+    if (record.undoneAt) {
+      throw new Error(`Merge ${mergeRecordId} was already undone`);
+    }
+
+    const [kept] = await tx
+      .select()
+      .from(clientProfile)
+      .where(eq(clientProfile.id, record.keptProfileId))
+      .for("update");
+
+    if (!kept) {
+      throw new Error(`Kept profile ${record.keptProfileId} no longer exists`);
+    }
+
+    // Put back what the kept profile had, unless it has moved on since
+    const before = reviveProfileFields(record.keptProfileBefore);
+    const after = record.keptProfileAfter;
+    const restore: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(before)) {
+      const current = kept[field as keyof ClientProfile];
+
+      if ((MERGE_COUNTER_FIELDS as readonly string[]).includes(field)) {
+        const mergedShare = Number(after[field] ?? 0) - Number(value ?? 0);
+        restore[field] = Math.max(0, Number(current ?? 0) - mergedShare);
+      } else if (JSON.stringify(current ?? null) === JSON.stringify(after[field] ?? null)) {
+        restore[field] = value;
+      }
+    }
+
+    await tx
+      .update(clientProfile)
+      .set({ ...restore, updatedAt: new Date() })
+      .where(eq(clientProfile.id, kept.id));
+
+    await tx
+      .insert(clientProfile)
+      .values(reviveProfileFields(record.mergedProfileSnapshot) as typeof clientProfile.$inferInsert);
+
+    await moveChildRows(tx, kept.id, record.mergedProfileId, record.movedRows);
+
+    // Merges into the restored profile that were re-pointed at the kept one
+    const mergeIds = record.movedRows.profile_merge;
+    if (mergeIds?.length) {
+      await tx
+        .update(profileMerge)
+        .set({ keptProfileId: record.mergedProfileId })
+        .where(and(eq(profileMerge.keptProfileId, kept.id), inArray(profileMerge.id, mergeIds)));
+    }
+
+    const [undone] = await tx
+      .update(profileMerge)
+      .set({ undoneAt: new Date(), undoneByUserId: actorUserId })
+      .where(eq(profileMerge.id, record.id))
+      .returning();
+
+    console.log(`[UnifiedRepo] Undid merge ${record.id}: restored ${record.mergedProfileId} from ${kept.id}`);
+
+    return undone;
+  });
+}
+
+// ============================================================================
+// ERASURE & SELECTIVE FORGETTING
+// ============================================================================
+
+export interface ForgetSelection {
+  relationshipIds?: string[];
+  insightIds?: string[];
+  conversationIds?: string[];
+  topics?: string[]; // Free text, e.g. "my ex" or a name
+}
+
+/**
+ * Forget specific memories: delete the selected relationships, insights and
+ * conversations (plus anything else mentioning the same names or topics)
+ * and purge what was learned from them out of the profile's synthesized
+ * fields, other conversations' summaries and messages, so the smart context
+ * never brings them up again.
+ * 
+ * Crisis logs are kept - they are safety records, not memories.
+ */
+export async function forgetClientMemories(
+  clientId: string,
+  selection: ForgetSelection
+): Promise<{
+  relationships: number;
+  insights: number;
+  conversations: number;
+  conversationSummaries: number;
+  messages: number;
+  profileFields: string[];
+}> {
+  return db.transaction(async (tx) => {
+    const [profile] = await tx.select().from(clientProfile).where(eq(clientProfile.id, clientId)).for("update");
+    if (!profile) {
+      throw new Error(`Client profile not found: ${clientId}`);
+    }
+
+    const targets: ForgetTargets = { terms: [...(selection.topics ?? [])], statements: [] };
+
+    const people = selection.relationshipIds?.length ? await tx
+      .select()
+      .from(clientRelationship)
+      .where(and(eq(clientRelationship.clientProfileId, clientId), inArray(clientRelationship.id, selection.relationshipIds)))
+      : [];
+    for (const person of people) {
+      targets.terms.push(person.name);
+      if (person.nickname) targets.terms.push(person.nickname);
+    }
+
+    const conversations = selection.conversationIds?.length ? await tx
+      .select()
+      .from(conversation)
+      .where(and(eq(conversation.clientProfileId, clientId), inArray(conversation.id, selection.conversationIds)))
+      : [];
+    const conversationIds = conversations.map(c => c.id);
+    for (const conv of conversations) {
+      if (conv.topic) targets.statements.push(conv.topic);
+      targets.statements.push(...(conv.keyPoints ?? []));
+    }
+
+    // Insights picked directly, plus those learned from forgotten conversations
+    const insightFilters = [
+      selection.insightIds?.length ? inArray(keyInsight.id, selection.insightIds) : undefined,
+      conversationIds.length ? inArray(keyInsight.sourceConversationId, conversationIds) : undefined,
+    ].filter(Boolean);
+    const pickedInsights = insightFilters.length ? await tx
+      .select()
+      .from(keyInsight)
+      .where(and(eq(keyInsight.clientProfileId, clientId), or(...insightFilters)))
+      : [];
+    targets.statements.push(...pickedInsights.map(i => i.insight));
+
+    // Other rows that mention what's being forgotten go too
+    const [allPeople, allInsights] = await Promise.all([
+      tx.select().from(clientRelationship).where(eq(clientRelationship.clientProfileId, clientId)),
+      tx.select().from(keyInsight).where(eq(keyInsight.clientProfileId, clientId)),
+    ]);
+    const relationshipIds = allPeople
+      .filter(p => people.some(picked => picked.id === p.id) || mentionsForgotten(`${p.name} ${p.nickname ?? ""}`, targets))
+      .map(p => p.id);
+    const insightIds = allInsights
+      .filter(i => pickedInsights.some(picked => picked.id === i.id) || mentionsForgotten(i.insight, targets))
+      .map(i => i.id);
+
+    if (relationshipIds.length > 0) {
+      await tx.delete(clientRelationship).where(inArray(clientRelationship.id, relationshipIds));
+    }
+    if (insightIds.length > 0) {
+      await tx.delete(keyInsight).where(inArray(keyInsight.id, insightIds));
+    }
+
+    // Replies that were logged for guardrail compliance lose their text (the counts stay).
+    // Read before the conversations go - that clears their conversation link.
+    const loggedResponses = await tx
+      .select({ id: guardrailViolation.id, conversationId: guardrailViolation.conversationId, aiResponse: guardrailViolation.aiResponse })
+      .from(guardrailViolation)
+      .where(and(eq(guardrailViolation.clientProfileId, clientId), isNull(guardrailViolation.redactedAt)));
+    const forgottenResponseIds = loggedResponses
+      .filter(v => (v.conversationId !== null && conversationIds.includes(v.conversationId)) || mentionsForgotten(v.aiResponse, targets))
+      .map(v => v.id);
+    if (forgottenResponseIds.length > 0) {
+      await tx
+        .update(guardrailViolation)
+        .set({ aiResponse: FORGOTTEN_CONTENT, evidence: null, redactedAt: new Date() })
+        .where(inArray(guardrailViolation.id, forgottenResponseIds));
+    }
+
+    if (conversationIds.length > 0) {
+      // Messages cascade; crisis logs keep their row with the link cleared
+      await tx.delete(conversation).where(inArray(conversation.id, conversationIds));
+    }
+
+    // Other conversations keep what they say about it in their summaries...
+    const otherConversations = await tx
+      .select({
+        id: conversation.id,
+        topic: conversation.topic,
+        aiSummary: conversation.aiSummary,
+        keyPoints: conversation.keyPoints,
+        actionItems: conversation.actionItems,
+      })
+      .from(conversation)
+      .where(eq(conversation.clientProfileId, clientId));
+    let purgedSummaries = 0;
+    for (const conv of otherConversations) {
+      const summaryChanges = purgeConversationMemory(conv, targets);
+      if (Object.keys(summaryChanges).length === 0) continue;
+      await tx
+        .update(conversation)
+        .set({ ...summaryChanges, updatedAt: new Date() })
+        .where(eq(conversation.id, conv.id));
+      purgedSummaries++;
+    }
+
+    // ...and in what was said - those messages are redacted (crisis keywords stay)
+    const otherMessages = await tx
+      .select({ id: message.id, content: message.content })
+      .from(message)
+      .innerJoin(conversation, eq(message.conversationId, conversation.id))
+      .where(and(eq(conversation.clientProfileId, clientId), isNull(message.redactedAt)));
+    const forgottenMessageIds = otherMessages
+      .filter(m => mentionsForgotten(m.content, targets))
+      .map(m => m.id);
+    if (forgottenMessageIds.length > 0) {
+      await tx
+        .update(message)
+        .set({ content: FORGOTTEN_CONTENT, extractedInfo: null, audioUrl: null, redactedAt: new Date() })
+        .where(inArray(message.id, forgottenMessageIds));
+
+      // Semantic memory must not bring them back (insight and conversation vectors went with their rows)
+      await tx
+        .update(memoryEmbedding)
+        .set({ forgottenAt: new Date() })
+        .where(and(
+          eq(memoryEmbedding.clientProfileId, clientId),
+          inArray(memoryEmbedding.messageId, forgottenMessageIds),
+          isNull(memoryEmbedding.forgottenAt)
+        ));
+    }
+
+    const changes = purgeProfileMemory(profile, targets);
+    if (Object.keys(changes).length > 0) {
+      await tx
+        .update(clientProfile)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(clientProfile.id, clientId));
+    }
+
+    console.log(`[UnifiedRepo] Forgot for ${clientId}: ${relationshipIds.length} relationships, ${insightIds.length} insights, ${conversationIds.length} conversations, ${purgedSummaries} summaries, ${forgottenMessageIds.length} messages, ${forgottenResponseIds.length} logged replies, fields: ${Object.keys(changes).join(", ") || "none"}`);
+
+    return {
+      relationships: relationshipIds.length,
+      insights: insightIds.length,
+      conversations: conversationIds.length,
+      conversationSummaries: purgedSummaries,
+      messages: forgottenMessageIds.length,
+      profileFields: Object.keys(changes),
+    };
+  });
+}
+
+/**
+ * Delete a client's account: every child row, merge snapshots and the
+ * login account go, in one transaction.
+ * 
+ * Billing records must be kept. If the profile has subscriptions, they move
+ * to a new anonymised tombstone profile (deletedAt set, only the Stripe
+ * customer id kept) - the original id is gone either way, so nothing can
+ * reach the tombstone through a stored client id, token or fingerprint.
+ * 
+ * Cancel Stripe subscriptions BEFORE calling this - it only updates our rows.
+ */
+export async function eraseClientProfile(
+  clientId: string
+): Promise<{ tombstoneId: string | null; deletedRows: Record<string, number> }> {
+  return db.transaction(async (tx) => {
+    const [profile] = await tx.select().from(clientProfile).where(eq(clientProfile.id, clientId)).for("update");
+    if (!profile) {
+      throw new Error(`Client profile not found: ${clientId}`);
+    }
+
+    const deletedRows: Record<string, number> = {};
+    for (const [name, table] of Object.entries(PROFILE_CHILD_TABLES) as [ProfileChildTable, typeof conversation][]) {
+      if (name === "subscription") continue;
+      const rows = await tx
+        .delete(table)
+        .where(eq(table.clientProfileId, clientId))
+        .returning({ id: table.id });
+      if (rows.length > 0) deletedRows[name] = rows.length;
+    }
+
+    // Merge records hold full snapshots of the profiles involved
+    await tx
+      .delete(profileMerge)
+      .where(or(eq(profileMerge.keptProfileId, clientId), eq(profileMerge.mergedProfileId, clientId)));
+
+    const billing = await tx
+      .select({ id: subscription.id })
+      .from(subscription)
+      .where(eq(subscription.clientProfileId, clientId));
+
+    let tombstoneId: string | null = null;
+    if (billing.length > 0) {
+      tombstoneId = generateClientId();
+      await tx.insert(clientProfile).values({
+        id: tombstoneId,
+        stripeCustomerId: profile.stripeCustomerId,
+        subscriptionTier: "free",
+        subscriptionStatus: "canceled",
+        dailyMessageLimit: 0,
+        firstContactDate: profile.firstContactDate,
+        deletedAt: new Date(),
+      });
+      await tx
+        .update(subscription)
+        .set({ clientProfileId: tombstoneId, updatedAt: new Date() })
+        .where(eq(subscription.clientProfileId, clientId));
+    }
+
+    await tx.delete(clientProfile).where(eq(clientProfile.id, clientId));
+
+    // The login account goes too, unless another profile still uses it
+    if (profile.userId) {
+      const [stillUsed] = await tx
+        .select({ id: clientProfile.id })
+        .from(clientProfile)
+        .where(eq(clientProfile.userId, profile.userId))
+        .limit(1);
+      if (!stillUsed) {
+        await tx.delete(user).where(eq(user.id, profile.userId));
+      }
+    }
+
+    console.log(`[UnifiedRepo] Erased profile ${clientId}${tombstoneId ? ` (billing kept on ${tombstoneId})` : ""}`);
+
+    return { tombstoneId, deletedRows };
+  });
 }
 
 // ============================================================================
@@ -711,98 +1105,6 @@ export async function upgradeSubscription(
   console.log(`[UnifiedRepo] Upgraded ${clientId} to ${tier} tier`);
 }
 
-// ============================================================================
-// CONTEXT STRING BUILDER
-// ============================================================================
-
-function buildContextString(
-  profile: ClientProfile,
-  conversations: any[],
-  messages: any[],
-  crisisHistory: any[]
-): string {
-  const parts: string[] = [];
-
-  // Profile summary
-  if (profile.preferredName) {
-    parts.push(`Client Name: ${profile.preferredName}`);
-  }
-  
-  if (profile.aiSummary) {
-    parts.push(`\nClient Summary:\n${profile.aiSummary}`);
-  }
-
-  // Communication preferences
-  if (profile.communicationStyle) {
-    parts.push(`\nCommunication Style: ${profile.communicationStyle}`);
-  }
-
-  // Emotional patterns
-  if (profile.emotionalPatterns) {
-    parts.push(`\nEmotional Patterns:\n${profile.emotionalPatterns}`);
-  }
-
-  // Current goals
-  if (profile.currentGoals && Array.isArray(profile.currentGoals) && profile.currentGoals.length > 0) {
-    parts.push(`\nCurrent Goals:`);
-    profile.currentGoals.forEach((goal: any) => {
-      parts.push(`- ${goal.goal} (${goal.progress}% complete)`);
-    });
-  }
-
-  // Ongoing challenges
-  if (profile.ongoingChallenges && Array.isArray(profile.ongoingChallenges) && profile.ongoingChallenges.length > 0) {
-    parts.push(`\nOngoing Challenges:`);
-    profile.ongoingChallenges.forEach((challenge: string) => {
-      parts.push(`- ${challenge}`);
-    });
-  }
-
-  // Recent conversation topics
-  if (conversations.length > 0) {
-    parts.push(`\nRecent Conversation Topics:`);
-    conversations.slice(0, 5).forEach((conv) => {
-      if (conv.topic) {
-        parts.push(`- ${conv.topic} (${conv.messageCount} messages via ${conv.channel})`);
-      }
-    });
-  }
-
-  // Recent message highlights (last 5 exchanges for immediate context)
-  if (messages.length > 0) {
-    parts.push(`\nRecent Conversation Highlights (Last Session):`);
-    const recentExchanges = messages.slice(0, 10); // Last 10 messages (5 exchanges)
-    recentExchanges.forEach((msg) => {
-      const timestamp = msg.createdAt.toLocaleString();
-      const preview = msg.content.length > 100 ? msg.content.substring(0, 100) + "..." : msg.content;
-      parts.push(`[${timestamp}] ${msg.role === 'user' ? 'Client' : 'Sage'}: ${preview}`);
-    });
-  }
-
-  // Crisis history (if any)
-  if (crisisHistory.length > 0) {
-    parts.push(`\n⚠️ Crisis History:`);
-    crisisHistory.forEach((crisis) => {
-      const indicators = Array.isArray(crisis.indicators) ? crisis.indicators.join(", ") : "unknown";
-      parts.push(`- ${crisis.level} level (indicators: ${indicators})`);
-    });
-  }
-
-  // Stats
-  parts.push(`\nEngagement Stats:`);
-  parts.push(`- Total conversations: ${profile.totalConversations}`);
-  parts.push(`- Total messages: ${profile.totalMessages}`);
-  parts.push(`- Subscription: ${profile.subscriptionTier || 'free'}`);
-  if (profile.firstContactDate) {
-    parts.push(`- First contact: ${profile.firstContactDate.toLocaleDateString()}`);
-  }
-  if (profile.lastContactDate) {
-    parts.push(`- Last contact: ${profile.lastContactDate.toLocaleDateString()}`);
-  }
-
-  return parts.join("\n");
-}
-
 // ============================================================================
 // PAYMENT FLOW STATE (FOR PERFECT CONTINUITY)
 // ============================================================================
@@ -16,5 +16,14 @@ export const generateConversationId = () => generateId('conv');
 export const generateMessageId = () => generateId('msg');
 export const generateLogId = () => generateId('log');
 export const generateCrisisId = () => generateId('crisis');
+export const generateCrisisEventId = () => generateId('cevt');
+export const generateGuardrailViolationId = () => generateId('gv');
+export const generateGuardrailResponseId = () => generateId('gresp');
+export const generateProfileMergeId = () => generateId('merge');
+export const generateUserId = () => generateId('user');
+export const generateVerificationCodeId = () => generateId('vcode');
 export const generateVoiceId = () => generateId('voice');
 export const generateSubscriptionId = () => generateId('sub');
+export const generateConsentId = () => generateId('consent');
+export const generateMemoryEmbeddingId = () => generateId('mem');
+export const generateJobId = () => generateId('job');
@@ -0,0 +1,197 @@
+/**
+ * ONE-TIME VERIFICATION CODES
+ *
+ * Shared by passwordless login (authRouter) and phone linking. Secrets are
+ * stored hashed in verification_code, expire quickly and are single use.
+ *
+ * Abuse limits, per purpose and destination:
+ * - at most REQUEST_LIMIT codes per REQUEST_WINDOW_MS (also per requesting
+ *   profile, so one visitor can't spray codes at many numbers)
+ * - a code locks after MAX_CODE_ATTEMPTS wrong guesses
+ * - LOCKOUT_FAILED_ATTEMPTS wrong guesses across codes locks the
+ *   destination for LOCKOUT_WINDOW_MS
+ */
+
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { TRPCError } from "@trpc/server";
+import Twilio from "twilio";
+import { and, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { db } from "./_core/db";
+import { ENV } from "./_core/env";
+import { verificationCode, type VerificationCode } from "../drizzle/schema";
+import { generateVerificationCodeId } from "./utils/generateId";
+
+export type VerificationPurpose = "login" | "phone_link";
+export type VerificationChannel = "email" | "sms";
+
+export const MAX_CODE_ATTEMPTS = 5;
+
+const REQUEST_LIMIT = 3;
+const REQUEST_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_FAILED_ATTEMPTS = 10;
+const LOCKOUT_WINDOW_MS = 60 * 60 * 1000;
+
+let twilioClient: ReturnType<typeof Twilio> | null = null;
+
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * E.164 - US numbers may be entered without the country code
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[^0-9]/g, "");
+  if (digits.length === 10) return `+1${digits}`;
+  return `+${digits}`;
+}
+
+export function generateSmsCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export function isSmsConfigured(): boolean {
+  return Boolean(ENV.twilioAccountSid && ENV.twilioAuthToken && ENV.twilioPhoneNumber);
+}
+
+/**
+ * Store a new hashed secret, enforcing the request limit and lockout
+ */
+export async function createVerification(options: {
+  purpose: VerificationPurpose;
+  channel: VerificationChannel;
+  destination: string;
+  secret: string;
+  ttlMs: number;
+  clientProfileId?: string;
+}): Promise<void> {
+  const [recent] = await db
+    .select({
+      requests: sql<number>`count(*) filter (where ${verificationCode.createdAt} > ${new Date(Date.now() - REQUEST_WINDOW_MS)})::int`,
+      failedAttempts: sql<number>`coalesce(sum(${verificationCode.attempts}), 0)::int`,
+    })
+    .from(verificationCode)
+    .where(and(
+      eq(verificationCode.destination, options.destination),
+      eq(verificationCode.purpose, options.purpose),
+      gt(verificationCode.createdAt, new Date(Date.now() - LOCKOUT_WINDOW_MS))
+    ));
+
+  if (recent && recent.failedAttempts >= LOCKOUT_FAILED_ATTEMPTS) {
+    console.warn(`[Verification] ${options.purpose} locked for ${options.destination} after ${recent.failedAttempts} failed attempts`);
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many incorrect codes. Please wait an hour and try again.",
+    });
+  }
+
+  let requests = recent?.requests ?? 0;
+  if (options.clientProfileId) {
+    const [byClient] = await db
+      .select({ requests: sql<number>`count(*)::int` })
+      .from(verificationCode)
+      .where(and(
+        eq(verificationCode.clientProfileId, options.clientProfileId),
+        eq(verificationCode.purpose, options.purpose),
+        gt(verificationCode.createdAt, new Date(Date.now() - REQUEST_WINDOW_MS))
+      ));
+    requests = Math.max(requests, byClient?.requests ?? 0);
+  }
+
+  if (requests >= REQUEST_LIMIT) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many code requests. Please wait a few minutes and try again.",
+    });
+  }
+
+  await db.insert(verificationCode).values({
+    id: generateVerificationCodeId(),
+    purpose: options.purpose,
+    channel: options.channel,
+    destination: options.destination,
+    secretHash: hashSecret(options.secret),
+    clientProfileId: options.clientProfileId,
+    expiresAt: new Date(Date.now() + options.ttlMs),
+  });
+}
+
+/**
+ * Check an SMS code against the latest one sent to phone and consume it.
+ * Only the latest code counts - requesting a new one retires the old.
+ */
+export async function verifySmsCode(
+  purpose: VerificationPurpose,
+  phone: string,
+  code: string,
+  clientProfileId?: string // Only accept a code requested by this profile
+): Promise<VerificationCode> {
+  const [pending] = await db
+    .select()
+    .from(verificationCode)
+    .where(and(
+      eq(verificationCode.destination, phone),
+      eq(verificationCode.purpose, purpose),
+      eq(verificationCode.channel, "sms"),
+      isNull(verificationCode.consumedAt),
+      clientProfileId ? eq(verificationCode.clientProfileId, clientProfileId) : undefined
+    ))
+    .orderBy(desc(verificationCode.createdAt))
+    .limit(1);
+
+  if (!pending || pending.expiresAt < new Date()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "That code has expired. Please request a new one." });
+  }
+
+  if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many incorrect attempts. Please request a new code." });
+  }
+
+  const matches = timingSafeEqual(
+    Buffer.from(hashSecret(code)),
+    Buffer.from(pending.secretHash)
+  );
+
+  if (!matches) {
+    await db
+      .update(verificationCode)
+      .set({ attempts: sql`${verificationCode.attempts} + 1` })
+      .where(eq(verificationCode.id, pending.id));
+    throw new TRPCError({ code: "BAD_REQUEST", message: "That code isn't right. Please try again." });
+  }
+
+  await consumeVerification(pending.id);
+  return pending;
+}
+
+/**
+ * Mark a secret used - conditional, so two racing requests can't both succeed
+ */
+export async function consumeVerification(id: string): Promise<void> {
+  const consumed = await db
+    .update(verificationCode)
+    .set({ consumedAt: new Date() })
+    .where(and(eq(verificationCode.id, id), isNull(verificationCode.consumedAt)))
+    .returning({ id: verificationCode.id });
+
+  if (consumed.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This code was already used." });
+  }
+}
+
+export async function sendSmsCode(phone: string, body: string): Promise<void> {
+  if (!twilioClient) {
+    twilioClient = Twilio(ENV.twilioAccountSid, ENV.twilioAuthToken);
+  }
+
+  try {
+    await twilioClient.messages.create({
+      body,
+      from: ENV.twilioPhoneNumber,
+      to: phone,
+    });
+  } catch (error) {
+    console.error("[Verification] Failed to send code:", error);
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "We couldn't text that number. Please check it and try again." });
+  }
+}
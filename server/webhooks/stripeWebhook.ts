@@ -20,6 +20,7 @@ import { clientProfile } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
 import { sendWelcomeSMS } from "../twilioIntegration";
 import { sendEmail } from "../_core/email";
+import { notifyOwner } from "../_core/notification";
 import * as fs from 'fs';
 import * as path from 'path';
 import { markPaymentFlowCompleted, updatePaymentFlow } from "../phonePayment";
@@ -401,6 +402,15 @@ async function handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
   
   console.log(`[Webhook] Payment failed for invoice ${invoice.id}: ${failureReason}`);
   
+  // Billing failures need a human - alert the owner (once per customer per window)
+  const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+  await notifyOwner({
+    title: "Subscription payment failed",
+    content: `Invoice: ${invoice.id}\nCustomer: ${customerId || "unknown"} ${invoice.customer_email || ""}\nAmount due: ${(invoice.amount_due / 100).toFixed(2)} ${invoice.currency?.toUpperCase() || ""}\nReason: ${failureReason}`,
+    severity: "warning",
+    dedupeKey: `billing:${customerId || invoice.id}`,
+  });
+  
   // Try to find the client by subscription metadata
   const subscriptionId = typeof invoice.subscription === 'string' 
     ? invoice.subscription 
@@ -3,3 +3,13 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+// Per-client access token - sent as this header
+export const CLIENT_TOKEN_HEADER = 'x-client-token';
+// Versions of the Terms of Service and Privacy Policy pages - bump when either changes,
+// and every client is asked to accept again before their next message
+export const TERMS_VERSION = '2026-01-17';
+export const PRIVACY_VERSION = '2026-01-17';
+// adult: 18+. minor_with_parental_consent: 13-17 with a parent's permission.
+// meets_age_requirement: a spoken or texted "yes" to the combined age question (phone, SMS)
+export const AGE_ATTESTATIONS = ['adult', 'minor_with_parental_consent', 'meets_age_requirement'] as const;
+export type AgeAttestation = (typeof AGE_ATTESTATIONS)[number];